@@ -1,8 +1,15 @@
 import { type Mat3, mat3 } from "wgpu-matrix";
-import type { IBackendShader } from "./backends/IBackendShader";
-import type { BlendMode } from "./backends/IRenderBackend";
+import type {
+  IBackendShader,
+  InstanceOverflowStrategy,
+} from "./backends/IBackendShader";
+import type { BlendMode, Viewport } from "./backends/IRenderBackend";
 import type { BackendType, IRenderBackend } from "./backends/mod";
 import { detectBackend } from "./backends/mod";
+import { NullBackend } from "./backends/null/mod";
+import type { OverflowOptions } from "./backends/overflow";
+import { CIRCLE_INDEX, RECT_INDEX } from "./backends/quadInstance";
+import { SoftwareBackend } from "./backends/software/mod";
 import { WebGLBackend } from "./backends/webgl2/mod";
 import { WebGPUBackend } from "./backends/webgpu/mod";
 import type { PostProcess } from "./backends/webgpu/postprocess/mod";
@@ -10,22 +17,48 @@ import type { Color } from "./coreTypes/Color";
 import type { EngineUniform } from "./coreTypes/EngineUniform";
 import type { Point } from "./coreTypes/Point";
 import type { Size } from "./coreTypes/Size";
+import {
+  DEBUG_OUTLINE_LAYER,
+  DrawCallDebugger,
+} from "./debug/DrawCallDebugger";
+import { FrameTimings } from "./debug/FrameTimings";
 import type { Limits, LimitsOptions } from "./limits";
 import {
   convertScreenToWorld,
   convertWorldToScreen,
   createProjectionMatrix,
+  getViewBounds,
+  transformPoint,
 } from "./math/matrix";
 import { Batcher } from "./scene/Batcher";
 import { Camera } from "./scene/Camera";
+import {
+  captureBatches,
+  capturedUniform,
+  createReplayNode,
+  FRAME_CAPTURE_VERSION,
+  type FrameCapture,
+} from "./scene/FrameCapture";
 import { JumboQuadNode, type JumboQuadOptions } from "./scene/JumboQuadNode";
+import { PointerInput } from "./scene/PointerInput";
+import { type PickOptions, pickNodes } from "./scene/pick";
 import { QuadNode, type QuadOptions } from "./scene/QuadNode";
-import { type NodeOptions, SceneNode } from "./scene/SceneNode";
+import { type NodeOptions, type NodeSpace, SceneNode } from "./scene/SceneNode";
+import { StaticBatch } from "./scene/StaticBatch";
 import { TextNode, type TextOptions } from "./scene/TextNode";
+import { getAnchorBounds, type ScreenAnchor } from "./screen/anchor";
 import type { Resolution } from "./screen/resolution";
 import { AssetManager, type TextureId } from "./textures/AssetManager";
+import {
+  RenderTarget,
+  type RenderTargetOptions,
+} from "./textures/RenderTarget";
+import { assert } from "./utils/assert";
+import { warnOnce } from "./utils/error";
 import { Pool } from "./utils/mod";
 
+const DEFAULT_QUAD_SHADER_LABEL = "default quad shader";
+
 export class Toodle {
   /**
    * Asset manager. Use toodle.assets.loadTexture to load texture assets.
@@ -45,9 +78,24 @@ export class Toodle {
     frames: 0,
     /** number of instances enqueued last frame */
     instancesEnqueued: 0,
+    /** number of nodes skipped last frame because they were outside of the camera's view. see {@link Toodle.culling} */
+    nodesCulled: 0,
+    /** number of subtrees skipped last frame because their {@link SceneNode.subtreeSize} was outside of the camera's view */
+    subtreesCulled: 0,
+    /** cpu and gpu time spent on recent frames, with rolling averages. these are not reset each frame */
+    timings: new FrameTimings(),
+    /** how shaders handle batches that don't fit in their instance buffer. see {@link ToodleOptions.instanceOverflow} */
+    overflow: {
+      /** the configured overflow strategy */
+      strategy: "throw" as InstanceOverflowStrategy,
+      /** number of batches split into multiple draw calls last frame */
+      splits: 0,
+      /** number of instance buffers grown last frame */
+      growths: 0,
+    },
   };
 
-  /** The render backend (WebGPU or WebGL2) */
+  /** The render backend (WebGPU, WebGL2, null or software) */
   #backend: IRenderBackend;
 
   /**
@@ -55,6 +103,26 @@ export class Toodle {
    */
   camera = new Camera();
 
+  /**
+   * Step-through debugger for draw calls. Set `toodle.debug.enabled = true` to draw only the
+   * first `toodle.debug.step` batches of each frame and outline the nodes of the last one.
+   */
+  debug = new DrawCallDebugger();
+
+  /**
+   * Dispatches pointer events of the canvas to interactive nodes, see {@link SceneNode.on}.
+   * Set `toodle.pointer.root` to the root of the scene to receive events.
+   */
+  readonly pointer: PointerInput;
+
+  /**
+   * When true, toodle.draw skips nodes whose bounds are outside of the camera's view, accounting for zoom and rotation.
+   * Nodes without a size are never culled. Set {@link SceneNode.subtreeSize} on a container to cull its whole subtree at once.
+   *
+   * The view is taken from the camera at the time of the draw call, so move the camera before drawing.
+   */
+  culling: boolean;
+
   /**
    * clearColor is the color that will be used to clear the screen at the beginning of each frame
    * you can also think of this as the background color of the canvas
@@ -62,10 +130,21 @@ export class Toodle {
   clearColor: Color = { r: 1, g: 1, b: 1, a: 1 };
 
   #resolution: Resolution;
-  #resizeObserver: ResizeObserver;
+  #resizeObserver: ResizeObserver | null = null;
+  #loadOp: "clear" | "load" = "clear";
   #engineUniform: EngineUniform;
   #projectionMatrix: Mat3 = mat3.identity();
-  #batcher = new Batcher();
+  #renderTargets = new Map<string, RenderTarget>();
+  #frameTarget: RenderTarget | null = null;
+  #batcher = createViewBatcher();
+  // screen space nodes are drawn with an identity view matrix
+  #screenCamera = new Camera();
+  #pixelPerfect: PixelPerfect | null = null;
+  // where the frame is drawn on the canvas, in logical pixels. only scaled in pixel perfect mode
+  #letterbox = { x: 0, y: 0, scale: 1 };
+  #snappedCamera = new Camera();
+  // batches of cameras other than the frame camera, in the order they were first drawn to
+  #cameraBatchers = new Map<Camera, Batcher>();
   #defaultFilter: GPUFilterMode;
   #matrixPool: Pool<Mat3>;
   #atlasSize: Size;
@@ -73,10 +152,13 @@ export class Toodle {
   /**
    * it's unlikely that you want to use the constructor directly.
    * see {@link Toodle.attach} for creating a Toodle instance that draws to a canvas.
+   *
+   * Pass a null canvas to run without a DOM, e.g. with a {@link NullBackend} in tests or on a server.
+   * In that case you are responsible for calling {@link Toodle.resize}.
    */
   constructor(
     backend: IRenderBackend,
-    canvas: HTMLCanvasElement,
+    canvas: HTMLCanvasElement | null,
     resolution: Resolution,
     options: ToodleOptions,
   ) {
@@ -86,6 +168,9 @@ export class Toodle {
       backend.limits.instanceCount,
     );
     this.#defaultFilter = options.filter ?? "linear";
+    this.diagnostics.overflow.strategy = options.instanceOverflow ?? "throw";
+    this.culling = options.culling ?? false;
+    this.pointer = new PointerInput(this);
 
     // Create AssetManager with the backend
     this.assets = new AssetManager(backend);
@@ -98,8 +183,29 @@ export class Toodle {
     };
     this.#resolution = resolution;
 
+    if (options.pixelPerfect) {
+      const { width, height, letterboxColor } = options.pixelPerfect;
+      const target = this.createRenderTarget({
+        id: "pixel perfect",
+        width,
+        height,
+        // the frame is scaled up by whole numbers, so every virtual pixel becomes a square of pixels
+        filter: "nearest",
+      });
+      this.#pixelPerfect = {
+        target,
+        quad: this.Quad(target.textureId),
+        letterboxColor: letterboxColor ?? { r: 0, g: 0, b: 0, a: 1 },
+      };
+    }
+
     this.resize(this.#resolution);
-    this.#resizeObserver = this.#createResizeObserver(canvas);
+    if (canvas && typeof ResizeObserver !== "undefined") {
+      this.#resizeObserver = this.#createResizeObserver(canvas);
+    }
+    if (canvas) {
+      this.pointer.attach(canvas);
+    }
   }
 
   /**
@@ -143,6 +249,30 @@ export class Toodle {
     createProjectionMatrix(resolution, this.#projectionMatrix);
     this.#resolution = resolution;
     this.#backend.resize(resolution.width, resolution.height);
+    if (this.#pixelPerfect) {
+      this.#fitPixelPerfect(this.#pixelPerfect);
+    }
+  }
+
+  /**
+   * Scale the pixel perfect frame by the largest whole number that fits the canvas and center it.
+   */
+  #fitPixelPerfect({ target, quad }: PixelPerfect) {
+    const { width, height } = this.#resolution;
+    const scale = Math.max(
+      1,
+      Math.floor(Math.min(width / target.width, height / target.height)),
+    );
+    // round the offsets so the edges of the frame are on whole pixels
+    const x = Math.floor((width - target.width * scale) / 2);
+    const y = Math.floor((height - target.height * scale) / 2);
+    this.#letterbox = { x, y, scale };
+
+    quad.scale = scale;
+    quad.position = {
+      x: x + (target.width * scale) / 2 - width / 2,
+      y: height / 2 - y - (target.height * scale) / 2,
+    };
   }
 
   #createResizeObserver(canvas: HTMLCanvasElement) {
@@ -253,11 +383,26 @@ export class Toodle {
    * toodle.endFrame();
    */
   startFrame(options?: StartFrameOptions) {
-    this.#backend.startFrame(this.clearColor, options?.loadOp ?? "clear");
+    const target = options?.target ?? this.#pixelPerfect?.target ?? null;
+    if (target && target === this.#pixelPerfect?.target) {
+      target.camera = this.camera;
+      target.clearColor = this.clearColor;
+    }
+    this.#loadOp = options?.loadOp ?? "clear";
+    this.#frameTarget = target;
+    this.#backend.startFrame(
+      target ? target.clearColor : this.clearColor,
+      this.#loadOp,
+      target?.frameTarget,
+    );
 
     this.diagnostics.drawCalls =
       this.diagnostics.pipelineSwitches =
       this.diagnostics.instancesEnqueued =
+      this.diagnostics.nodesCulled =
+      this.diagnostics.subtreesCulled =
+      this.diagnostics.overflow.splits =
+      this.diagnostics.overflow.growths =
         0;
   }
 
@@ -272,14 +417,31 @@ export class Toodle {
    * toodle.startFrame();
    * toodle.draw(quad);
    * toodle.endFrame();
+   *
+   * Static batches created with {@link Toodle.createStaticBatch} are drawn the same way.
+   *
+   * Pass a camera in the options to draw the node with a different camera than {@link Toodle.camera},
+   * e.g. for split screen or picture-in-picture. See {@link DrawOptions.camera}.
    */
-  draw(node: SceneNode) {
-    if (node instanceof QuadNode) {
-      node.assetManager.validateTextureReference(node);
+  draw(node: SceneNode | StaticBatch, options?: DrawOptions) {
+    const root = node instanceof StaticBatch ? node.root : node;
+    if (root instanceof QuadNode) {
+      root.assetManager.validateTextureReference(root);
     } else {
-      this.assets.validateTextureReference(node);
+      this.assets.validateTextureReference(root);
     }
-    this.#batcher.enqueue(node);
+    const start = performance.now();
+    const camera = options?.camera ?? this.#frameCamera;
+    const batcher = this.#batcherFor(camera);
+    const view = this.culling
+      ? getViewBounds(camera, this.viewResolution(camera))
+      : null;
+    if (node instanceof StaticBatch) {
+      batcher.enqueueStatic(node, view);
+    } else {
+      batcher.enqueue(node, view);
+    }
+    this.diagnostics.timings.addEnqueue(performance.now() - start);
   }
 
   /**
@@ -292,49 +454,357 @@ export class Toodle {
    * toodle.endFrame();
    */
   endFrame() {
+    const start = performance.now();
     try {
-      mat3.mul(
-        this.#projectionMatrix,
-        this.camera.matrix,
-        this.#engineUniform.viewProjectionMatrix,
+      const views: FrameView[] = [];
+      const cameras: [Camera, Batcher][] = [
+        [this.#frameCamera, this.#batcher],
+        ...this.#cameraBatchers,
+      ];
+      for (const [camera, batcher] of cameras) {
+        views.push({
+          batcher,
+          viewport: camera.viewport,
+          uniform: this.#viewUniform(
+            camera,
+            batcher === this.#batcher ? this.#engineUniform : undefined,
+          ),
+        });
+        // screen space nodes are drawn on top of the world of their camera
+        if (batcher.screen?.pipelines.length) {
+          views.push({
+            batcher: batcher.screen,
+            viewport: camera.viewport,
+            uniform: this.#viewUniform(camera, undefined, "screen"),
+          });
+        }
+      }
+      this.#submit(views, start);
+
+      if (this.#pixelPerfect && this.#isPixelPerfectFrame) {
+        this.#presentPixelPerfect(this.#pixelPerfect);
+      }
+    } finally {
+      this.#batcher.flush();
+      this.#cameraBatchers.clear();
+      this.#matrixPool.free();
+      this.#frameTarget = null;
+      this.diagnostics.frames++;
+    }
+  }
+
+  /**
+   * The camera that draws without a camera option are drawn with, which is the camera of the render target if there is one.
+   */
+  get #frameCamera(): Camera {
+    return this.#frameTarget?.camera ?? this.camera;
+  }
+
+  #batcherFor(camera: Camera): Batcher {
+    if (camera === this.#frameCamera) return this.#batcher;
+
+    let batcher = this.#cameraBatchers.get(camera);
+    if (!batcher) {
+      batcher = createViewBatcher();
+      this.#cameraBatchers.set(camera, batcher);
+    }
+    return batcher;
+  }
+
+  get #isPixelPerfectFrame() {
+    return (
+      !!this.#frameTarget && this.#frameTarget === this.#pixelPerfect?.target
+    );
+  }
+
+  /**
+   * Draw the pixel perfect frame scaled up to the canvas.
+   */
+  #presentPixelPerfect({ quad, letterboxColor }: PixelPerfect) {
+    const shader = quad.renderComponent?.shader;
+    assert(shader, "Pixel perfect quad has no shader");
+    const uniform: EngineUniform = {
+      resolution: this.#resolution,
+      camera: this.#screenCamera,
+      viewProjectionMatrix: this.#projectionMatrix,
+    };
+
+    this.#backend.startFrame(letterboxColor, this.#loadOp);
+    this.#backend.setViewport(null);
+    this.#backend.updateEngineUniform(uniform);
+    shader.startFrame(uniform);
+    shader.processBatch([quad]);
+    shader.endFrame();
+    this.#backend.endFrame();
+  }
+
+  /**
+   * The logical resolution a camera draws at: the size of its viewport in the render target of the current frame,
+   * in the virtual resolution in pixel perfect mode or in the canvas.
+   *
+   * @param camera - The camera to get the resolution of, defaults to {@link Toodle.camera}
+   */
+  viewResolution(camera: Camera = this.camera): Resolution {
+    const frame =
+      this.#frameTarget?.size ??
+      this.#pixelPerfect?.target.size ??
+      this.#resolution;
+    if (!camera.viewport) return frame;
+    return {
+      width: frame.width * camera.viewport.width,
+      height: frame.height * camera.viewport.height,
+    };
+  }
+
+  /**
+   * The engine uniform to draw the batches of a camera with in the current frame.
+   * Screen space batches ignore the camera transform but keep its viewport.
+   */
+  #viewUniform(
+    camera: Camera,
+    dst?: EngineUniform,
+    space: NodeSpace = "world",
+  ): EngineUniform {
+    const resolution = this.viewResolution(camera);
+    if (space === "screen") {
+      camera = this.#screenCamera;
+    }
+    const uniform = dst ?? {
+      resolution,
+      camera,
+      viewProjectionMatrix: mat3.create(),
+    };
+    const projection = createProjectionMatrix(resolution);
+    if (this.#frameTarget && this.#backend.type === "webgl2") {
+      // webgl framebuffers have their origin at the bottom left, flip so the target is sampled upright
+      mat3.scale(projection, [1, -1], projection);
+    }
+
+    let view = camera;
+    uniform.pixelSnap = null;
+    if (this.#isPixelPerfectFrame) {
+      // snap the camera to whole virtual pixels, quad shaders snap the instances
+      const zoom = camera.zoom;
+      view = this.#snappedCamera;
+      view.x = Math.round(camera.x * zoom) / zoom;
+      view.y = Math.round(camera.y * zoom) / zoom;
+      view.zoom = zoom;
+      view.rotation = camera.rotation;
+      uniform.pixelSnap = zoom;
+    }
+
+    mat3.mul(projection, view.matrix, uniform.viewProjectionMatrix);
+    uniform.camera = camera;
+    uniform.resolution = resolution;
+    return uniform;
+  }
+
+  /**
+   * Capture everything that has been drawn since startFrame into a serializable snapshot.
+   * Call this after your draw calls and before endFrame.
+   *
+   * The capture contains the instance data of every node as written by its render component,
+   * so it can be replayed on any backend with {@link Toodle.replayFrame}.
+   * Text nodes are recorded by their text but are not replayed.
+   * Only world space draws of the frame's camera are captured, draws with other cameras and screen space nodes are skipped.
+   *
+   * @example
+   *
+   * toodle.startFrame();
+   * toodle.draw(scene);
+   * const capture = toodle.captureFrame();
+   * toodle.endFrame();
+   *
+   * await Bun.write("frame.json", JSON.stringify(capture));
+   */
+  captureFrame(): FrameCapture {
+    const camera = this.#frameCamera;
+    const { resolution, viewProjectionMatrix } = this.#viewUniform(camera);
+
+    return {
+      version: FRAME_CAPTURE_VERSION,
+      frame: this.diagnostics.frames,
+      resolution: { ...resolution },
+      clearColor: { ...(this.#frameTarget?.clearColor ?? this.clearColor) },
+      loadOp: this.#loadOp,
+      camera: {
+        x: camera.x,
+        y: camera.y,
+        zoom: camera.zoom,
+        rotation: camera.rotation,
+      },
+      viewProjectionMatrix: Array.from(viewProjectionMatrix),
+      layers: captureBatches(
+        this.#batcher,
+        this.limits.instanceBufferSize / Float32Array.BYTES_PER_ELEMENT,
+      ),
+    };
+  }
+
+  /**
+   * Draw a frame from a capture made with {@link Toodle.captureFrame}.
+   * Replaying is a full frame, don't call it between startFrame and endFrame.
+   *
+   * The captured camera and resolution are used instead of the current ones.
+   * Batches are matched to shaders by label. The default quad shader is resolved automatically,
+   * custom shaders need to be passed in with `options.shaders`.
+   *
+   * @param capture - The frame capture to replay
+   * @param options - Shaders to use for custom shader labels
+   */
+  replayFrame(capture: FrameCapture, options?: ReplayFrameOptions) {
+    const start = performance.now();
+    if (capture.version !== FRAME_CAPTURE_VERSION) {
+      throw new Error(
+        `Unsupported frame capture version ${capture.version}, expected ${FRAME_CAPTURE_VERSION}`,
       );
-      this.#engineUniform.resolution = this.#resolution;
+    }
 
-      // Update engine uniforms on the backend
-      this.#backend.updateEngineUniform(this.#engineUniform);
+    this.#backend.startFrame(capture.clearColor, capture.loadOp);
+    this.diagnostics.drawCalls =
+      this.diagnostics.pipelineSwitches =
+      this.diagnostics.instancesEnqueued =
+      this.diagnostics.nodesCulled =
+      this.diagnostics.subtreesCulled =
+      this.diagnostics.overflow.splits =
+      this.diagnostics.overflow.growths =
+        0;
 
-      for (const pipeline of this.#batcher.pipelines) {
-        pipeline.shader.startFrame(this.#engineUniform);
+    try {
+      for (const layer of capture.layers) {
+        for (const batch of layer.batches) {
+          if (batch.nodes.some((node) => node.text !== undefined)) {
+            warnOnce(
+              "replay-text",
+              "Text batches can't be replayed and will be skipped",
+            );
+            continue;
+          }
+
+          const shader =
+            options?.shaders?.[batch.shader] ??
+            (batch.shader === DEFAULT_QUAD_SHADER_LABEL
+              ? this.#defaultQuadShader()
+              : null);
+          if (!shader) {
+            throw new Error(
+              `No shader found for "${batch.shader}" - pass it in options.shaders to replay this frame`,
+            );
+          }
+
+          for (const node of batch.nodes) {
+            this.#batcher.enqueue(createReplayNode(node, shader, layer.z));
+          }
+        }
       }
 
-      this.diagnostics.instancesEnqueued = this.#batcher.nodes.length;
-      if (this.#batcher.nodes.length > this.limits.instanceCount) {
-        const err = new Error(
-          `ToodleInstanceCap: ${this.batcher.nodes.length} instances enqueued, max is ${this.limits.instanceCount}`,
+      this.#submit(
+        [
+          {
+            batcher: this.#batcher,
+            viewport: null,
+            uniform: capturedUniform(capture),
+          },
+        ],
+        start,
+      );
+    } finally {
+      this.#batcher.flush();
+      this.#matrixPool.free();
+      this.diagnostics.frames++;
+    }
+  }
+
+  /**
+   * Draw the batches of each view and submit the frame.
+   * The step-through debugger only applies to the first view.
+   */
+  #submit(views: FrameView[], frameStart: number) {
+    const timings = this.diagnostics.timings;
+    const [main] = views;
+    let instancesEnqueued = 0;
+    for (const { batcher } of views) {
+      instancesEnqueued += batcher.nodes.length;
+      this.diagnostics.nodesCulled += batcher.culledNodes;
+      this.diagnostics.subtreesCulled += batcher.culledSubtrees;
+    }
+
+    if (this.debug.enabled) {
+      const highlighted = this.debug.inspect(main.batcher.layers);
+      for (const node of highlighted?.nodes ?? []) {
+        main.batcher.enqueue(
+          this.debug.createOutline(
+            node,
+            this.#defaultQuadShader(),
+            main.uniform.camera.zoom,
+          ),
         );
-        err.name = "ToodleInstanceCap";
-        throw err;
+      }
+    }
+
+    this.diagnostics.instancesEnqueued = instancesEnqueued;
+    if (
+      this.diagnostics.overflow.strategy === "throw" &&
+      instancesEnqueued > this.limits.instanceCount
+    ) {
+      const err = new Error(
+        `ToodleInstanceCap: ${instancesEnqueued} instances enqueued, max is ${this.limits.instanceCount}`,
+      );
+      err.name = "ToodleInstanceCap";
+      throw err;
+    }
+
+    let batchIndex = 0;
+    for (const view of views) {
+      this.#backend.setViewport(view.viewport);
+      // Update engine uniforms on the backend
+      this.#backend.updateEngineUniform(view.uniform);
+      for (const pipeline of view.batcher.pipelines) {
+        pipeline.shader.startFrame(view.uniform);
       }
 
-      for (const layer of this.#batcher.layers) {
+      for (const layer of view.batcher.layers) {
         for (const pipeline of layer.pipelines) {
+          // in step-through mode, only the first n batches and the debug outlines are drawn
+          if (
+            view === main &&
+            layer.z !== DEBUG_OUTLINE_LAYER &&
+            !this.debug.shouldDraw(batchIndex++)
+          ) {
+            continue;
+          }
           this.diagnostics.pipelineSwitches++;
-          this.diagnostics.drawCalls += pipeline.shader.processBatch(
-            pipeline.nodes,
+          const batchStart = performance.now();
+          this.diagnostics.drawCalls += pipeline.staticBuffer
+            ? pipeline.staticBuffer.draw()
+            : pipeline.shader.processBatch(pipeline.nodes);
+          timings.addBatch(
+            pipeline.shader.label,
+            layer.z,
+            performance.now() - batchStart,
           );
         }
       }
+    }
 
-      for (const pipeline of this.#batcher.pipelines) {
-        pipeline.shader.endFrame();
-      }
-
-      this.#backend.endFrame();
-    } finally {
-      this.#batcher.flush();
-      this.#matrixPool.free();
-      this.diagnostics.frames++;
+    const submitStart = performance.now();
+    const shaders = new Set(
+      views.flatMap((view) =>
+        view.batcher.pipelines.map((pipeline) => pipeline.shader),
+      ),
+    );
+    for (const shader of shaders) {
+      shader.endFrame();
     }
+
+    this.#backend.endFrame();
+
+    const end = performance.now();
+    timings.commit(
+      end - frameStart,
+      end - submitStart,
+      this.#backend.takeGpuTime(),
+    );
   }
 
   /**
@@ -346,24 +816,48 @@ export class Toodle {
    */
   convertSpace(
     point: Point,
-    options: { from: "screen" | "world"; to: "world" | "screen" },
+    options: {
+      from: "screen" | "world";
+      to: "world" | "screen";
+      /**
+       * The camera to convert with, defaults to {@link Toodle.camera}.
+       * Screen points are relative to the canvas, so they are mapped through the camera's viewport
+       * and the letterboxing of pixel perfect mode.
+       */
+      camera?: Camera;
+    },
   ): Point {
+    const camera = options.camera ?? this.camera;
+    const frame = this.#pixelPerfect?.target.size ?? this.#resolution;
+    const viewport = camera.viewport ?? { x: 0, y: 0, width: 1, height: 1 };
+    const { scale } = this.#letterbox;
+    const offset = {
+      x: this.#letterbox.x + viewport.x * frame.width * scale,
+      y: this.#letterbox.y + viewport.y * frame.height * scale,
+    };
+    const resolution = {
+      width: viewport.width * frame.width,
+      height: viewport.height * frame.height,
+    };
+    const projectionMatrix = createProjectionMatrix(resolution);
+
     if (options.from === "screen" && options.to === "world") {
       return convertScreenToWorld(
-        point,
-        this.camera,
-        this.#projectionMatrix,
-        this.#resolution,
+        { x: (point.x - offset.x) / scale, y: (point.y - offset.y) / scale },
+        camera,
+        projectionMatrix,
+        resolution,
       );
     }
 
     if (options.from === "world" && options.to === "screen") {
-      return convertWorldToScreen(
+      const screen = convertWorldToScreen(
         point,
-        this.camera,
-        this.#projectionMatrix,
-        this.#resolution,
+        camera,
+        projectionMatrix,
+        resolution,
       );
+      return { x: screen.x * scale + offset.x, y: screen.y * scale + offset.y };
     }
 
     if (options.from === options.to) {
@@ -375,6 +869,90 @@ export class Toodle {
     );
   }
 
+  /**
+   * Place a screen space node at an edge or corner of the screen, e.g. to lay out a HUD.
+   * The edges of the node that face the anchor are aligned with it, so the node needs a size.
+   *
+   * The position is computed from the current resolution, call this again after {@link Toodle.resize}.
+   *
+   * @param node - The node to place, usually with `space: "screen"`
+   * @param anchor - The edge, corner or center of the screen to place the node at
+   * @param options - The margin between the node and the screen edges in logical pixels,
+   * and the camera whose viewport is used as the screen
+   *
+   * @example
+   *
+   * const healthBar = toodle.shapes.Rect({
+   *   size: { width: 200, height: 20 },
+   *   space: "screen",
+   * });
+   * toodle.anchor(healthBar, "top-left", { margin: 16 });
+   */
+  anchor<T extends SceneNode>(
+    node: T,
+    anchor: ScreenAnchor,
+    options?: { margin?: number; camera?: Camera },
+  ): T {
+    assert(node.size, `Node ${node.label ?? node.id} needs a size to anchor`);
+    const resolution = this.viewResolution(options?.camera);
+    node.setBounds(getAnchorBounds(anchor, resolution, options?.margin));
+    return node;
+  }
+
+  /**
+   * Find the topmost node under a point on the screen, e.g. to find the node under the mouse.
+   *
+   * Nodes are tested against their rotated and scaled quads, in the order they are drawn:
+   * screen space nodes are above the world, higher layers above lower layers and later draws above earlier ones.
+   * Only active nodes with a size that render something can be picked.
+   *
+   * @param screenPoint - The point in logical pixels relative to the canvas
+   * @param root - The root of the tree to pick from
+   * @param options - The camera the tree is drawn with and whether to test texture alpha
+   * @returns The topmost node under the point, or null if there is none
+   *
+   * @example
+   *
+   * canvas.addEventListener("click", (e) => {
+   *   const node = toodle.pick({ x: e.offsetX, y: e.offsetY }, world, {
+   *     alphaThreshold: 0,
+   *   });
+   * });
+   */
+  pick(
+    screenPoint: Point,
+    root: SceneNode,
+    options?: PickOptions & { camera?: Camera },
+  ): SceneNode | null {
+    return this.pickAll(screenPoint, root, options)[0] ?? null;
+  }
+
+  /**
+   * Find every node under a point on the screen, topmost first. See {@link Toodle.pick}.
+   */
+  pickAll(
+    screenPoint: Point,
+    root: SceneNode,
+    options?: PickOptions & { camera?: Camera },
+  ): SceneNode[] {
+    const camera = options?.camera ?? this.camera;
+    const world = this.convertSpace(screenPoint, {
+      from: "screen",
+      to: "world",
+      camera,
+    });
+    // screen space nodes are positioned relative to the center of the view
+    const screen = transformPoint(world, camera.matrix);
+    const resolution = this.viewResolution(camera);
+    if (
+      Math.abs(screen.x) > resolution.width / 2 ||
+      Math.abs(screen.y) > resolution.height / 2
+    ) {
+      return [];
+    }
+    return pickNodes(root, { world, screen }, options);
+  }
+
   /**
    * The number of frames rendered since this Toodle instance was created.
    */
@@ -382,6 +960,16 @@ export class Toodle {
     return this.diagnostics.frames;
   }
 
+  get #overflowOptions(): OverflowOptions {
+    return {
+      overflow: this.diagnostics.overflow.strategy,
+      onOverflow: (event) => {
+        if (event.strategy === "split") this.diagnostics.overflow.splits++;
+        else this.diagnostics.overflow.growths++;
+      },
+    };
+  }
+
   /**
    * Create a custom shader for quad instances. In some engines, this might be called a material.
    *
@@ -406,6 +994,7 @@ export class Toodle {
       userCode,
       blendMode: shaderOpts?.blendMode,
       atlasId: shaderOpts?.atlasId,
+      ...this.#overflowOptions,
     });
   }
 
@@ -428,6 +1017,13 @@ export class Toodle {
    * toodle.endFrame();
    */
   Quad(assetId: TextureId, options: QuadOptions = {}) {
+    const target = this.#renderTargets.get(assetId);
+    if (target) {
+      assert(!target.isDestroyed, `Render target "${assetId}" was destroyed`);
+      options.assetManager ??= target.assets;
+      options.shader ??= target.shader;
+    }
+
     const assetManager = options.assetManager ?? this.assets;
     options.size ??= assetManager.getSize(assetId);
     options.shader ??= this.#defaultQuadShader();
@@ -436,12 +1032,12 @@ export class Toodle {
     options.cropOffset ??= assetManager.extra.getTextureOffset(assetId);
     options.assetManager = assetManager;
 
-    options.atlasSize = this.#atlasSize;
+    options.atlasSize = assetManager.atlasSize;
     options.region ??= {
       x: 0,
       y: 0,
-      width: options.atlasCoords.uvScale.width * this.#atlasSize.width,
-      height: options.atlasCoords.uvScale.height * this.#atlasSize.height,
+      width: options.atlasCoords.uvScale.width * options.atlasSize.width,
+      height: options.atlasCoords.uvScale.height * options.atlasSize.height,
     };
 
     options.assetManager = assetManager;
@@ -523,10 +1119,47 @@ export class Toodle {
     return new SceneNode(nodeOpts);
   }
 
+  /**
+   * Bake a subtree that rarely changes, like a background or a tilemap, into persistent instance buffers.
+   * Drawing the batch costs a single draw call per layer and shader, without recomputing matrices or instance data.
+   *
+   * The batch is rebaked on the next draw after any node inside it is marked dirty.
+   * Call {@link StaticBatch.destroy} to release its buffers once it is no longer drawn.
+   *
+   * @example
+   *
+   * const tilemap = toodle.Node();
+   * // add tiles...
+   * const background = toodle.createStaticBatch(tilemap);
+   *
+   * toodle.startFrame();
+   * toodle.draw(background);
+   * toodle.draw(player);
+   * toodle.endFrame();
+   */
+  createStaticBatch(node: SceneNode) {
+    return new StaticBatch(node);
+  }
+
+  /**
+   * Create a text node with a loaded font.
+   *
+   * With `markup: true` the text can use tags for inline colors, sizes, fonts and icons from the loaded textures.
+   *
+   * @example
+   *
+   * const label = toodle.Text("roboto", "Costs [color=#fc0]5[/color] [icon=coin]", {
+   *   markup: true,
+   *   fontSize: 16,
+   * });
+   */
   Text(fontId: string, text: string, textOpts?: TextOptions) {
     const shader = this.assets.getFont(fontId);
 
-    return new TextNode(shader, text, textOpts);
+    return new TextNode(shader, text, textOpts, {
+      getFont: (id) => this.assets.getFont(id),
+      createIcon: (textureId) => this.Quad(textureId),
+    });
   }
 
   shapes = {
@@ -534,7 +1167,7 @@ export class Toodle {
       options.size ??= { width: 1, height: 1 };
       options.shader ??= this.#defaultQuadShader();
       options.atlasCoords ??= {
-        atlasIndex: 1000,
+        atlasIndex: RECT_INDEX,
         uvOffset: { x: 0, y: 0 },
         uvScale: { width: 0, height: 0 },
         cropOffset: { x: 0, y: 0 },
@@ -568,7 +1201,7 @@ export class Toodle {
         size: { width: diameter, height: diameter },
         shader: options.shader ?? this.#defaultQuadShader(),
         atlasCoords: options.atlasCoords ?? {
-          atlasIndex: 1001,
+          atlasIndex: CIRCLE_INDEX,
           uvOffset: { x: 0, y: 0 },
           uvScale: { width: 0, height: 0 },
           cropOffset: { x: 0, y: 0 },
@@ -612,7 +1245,7 @@ export class Toodle {
         {
           color: options.color,
           atlasCoords: {
-            atlasIndex: 1000,
+            atlasIndex: RECT_INDEX,
             uvOffset: { x: 0, y: 0 },
             uvScale: { width: 0, height: 0 },
             cropOffset: { x: 0, y: 0 },
@@ -640,10 +1273,20 @@ export class Toodle {
   #quadShader: IBackendShader | null = null;
 
   #defaultQuadShader(): IBackendShader {
-    if (this.#quadShader) {
-      return this.#quadShader;
-    }
+    this.#quadShader ??= this.#createDefaultQuadShader(
+      DEFAULT_QUAD_SHADER_LABEL,
+    );
+    return this.#quadShader;
+  }
 
+  /**
+   * Create a quad shader with the default fragment shader, sampling the given atlas.
+   */
+  #createDefaultQuadShader(
+    label: string,
+    atlasId?: string,
+    filter: GPUFilterMode = this.#defaultFilter,
+  ): IBackendShader {
     // For WebGPU, we can provide custom WGSL shader code
     // For WebGL, the backend will use its default shader
     const userCode =
@@ -652,23 +1295,48 @@ export class Toodle {
         @fragment
         fn frag(vertex: VertexOutput) -> @location(0) vec4f {
           let color = default_fragment_shader(vertex, ${
-            this.#defaultFilter === "nearest"
-              ? "nearestSampler"
-              : "linearSampler"
+            filter === "nearest" ? "nearestSampler" : "linearSampler"
           });
           return color;
         }
       `
         : undefined;
 
-    const shader = this.#backend.createQuadShader({
-      label: "default quad shader",
+    return this.#backend.createQuadShader({
+      label,
       instanceCount: this.limits.instanceCount,
       userCode,
+      atlasId,
+      ...this.#overflowOptions,
     });
+  }
 
-    this.#quadShader = shader;
-    return shader;
+  /**
+   * Create an offscreen texture to render frames into, e.g. for minimaps, cached UI panels or portals.
+   *
+   * Render into the target by passing it to {@link Toodle.startFrame}. Frames rendered into a target
+   * use the target's camera and clear color. Draw its contents by passing its texture id to {@link Toodle.Quad}.
+   *
+   * @example
+   *
+   * const panel = toodle.createRenderTarget({ width: 200, height: 100 });
+   *
+   * toodle.startFrame({ target: panel });
+   * toodle.draw(panelContents);
+   * toodle.endFrame();
+   *
+   * const quad = toodle.Quad(panel.textureId);
+   */
+  createRenderTarget(options: RenderTargetOptions): RenderTarget {
+    const id = options.id ?? `render target ${this.#renderTargets.size + 1}`;
+    const target = new RenderTarget(
+      this.#backend,
+      { filter: this.#defaultFilter, ...options, id },
+      (atlasId, filter) =>
+        this.#createDefaultQuadShader(`${id} quad shader`, atlasId, filter),
+    );
+    this.#renderTargets.set(id, target);
+    return target;
   }
 
   /**
@@ -698,7 +1366,16 @@ export class Toodle {
     }
 
     let backend: IRenderBackend;
-    if (backendType === "webgpu") {
+    if (backendType === "null") {
+      backend = await NullBackend.create({
+        limits: options?.limits,
+      });
+    } else if (backendType === "software") {
+      backend = await SoftwareBackend.create({
+        limits: options?.limits,
+        filter: options?.filter,
+      });
+    } else if (backendType === "webgpu") {
       backend = await WebGPUBackend.create(canvas, {
         limits: options?.limits,
       });
@@ -725,25 +1402,60 @@ export class Toodle {
    * Note that calling any methods on the instance after this result in undefined behavior.
    */
   destroy() {
-    this.#resizeObserver.disconnect();
+    this.#resizeObserver?.disconnect();
+    this.pointer.detach();
     this.#backend.destroy();
     this.assets.destroy();
   }
 
   /**
    * Get the render backend instance.
-   * Cast to WebGPUBackend or WebGLBackend to access backend-specific properties.
+   * Cast to WebGPUBackend, WebGLBackend, NullBackend or SoftwareBackend to access backend-specific properties.
    *
    * @example
    * if (toodle.backend instanceof WebGPUBackend) {
    *   const device = toodle.backend.device;
    * }
    */
-  get backend(): WebGPUBackend | WebGLBackend {
-    return this.#backend as WebGPUBackend | WebGLBackend;
+  get backend(): WebGPUBackend | WebGLBackend | NullBackend | SoftwareBackend {
+    return this.#backend as
+      | WebGPUBackend
+      | WebGLBackend
+      | NullBackend
+      | SoftwareBackend;
   }
 }
 
+export type DrawOptions = {
+  /**
+   * The camera to draw the node with. Defaults to {@link Toodle.camera}, or the camera of the render target.
+   *
+   * Each camera is drawn into its own {@link Camera.viewport} after the default camera,
+   * in the order the cameras were first drawn with in the frame.
+   *
+   * @example
+   *
+   * const player2 = new Camera();
+   * toodle.camera.viewport = { x: 0, y: 0, width: 0.5, height: 1 };
+   * player2.viewport = { x: 0.5, y: 0, width: 0.5, height: 1 };
+   *
+   * toodle.startFrame();
+   * toodle.draw(world);
+   * toodle.draw(world, { camera: player2 });
+   * toodle.endFrame();
+   */
+  camera?: Camera;
+};
+
+/**
+ * The batches drawn with one camera in a frame.
+ */
+type FrameView = {
+  batcher: Batcher;
+  viewport: Viewport | null;
+  uniform: EngineUniform;
+};
+
 export type StartFrameOptions = {
   /**
    * The load operation to use for the render pass.
@@ -756,6 +1468,11 @@ export type StartFrameOptions = {
    *
    */
   loadOp?: "load" | "clear";
+  /**
+   * Render the frame into a render target instead of the canvas.
+   * See {@link Toodle.createRenderTarget}.
+   */
+  target?: RenderTarget;
 };
 
 export type ToodleOptions = {
@@ -780,9 +1497,62 @@ export type ToodleOptions = {
    *
    * **webgl2**: Use WebGL 2 backend (fallback for older browsers).
    *
+   * **null**: Use the headless null backend. Nothing is drawn, but draw calls are recorded. Useful for tests and servers.
+   *
+   * **software**: Use the CPU software rasterizer. Frames can be read back with `readPixels` or `toPNG`. Useful for golden-image tests.
+   *
    * @default "auto"
    */
   backend?: BackendType | "auto";
+  /**
+   * What quad shaders do when a frame has more instances than `limits.instanceCount`
+   * or a batch doesn't fit in a shader's instance buffer.
+   *
+   * **throw**: throw a ToodleInstanceCap error.
+   *
+   * **split**: split the batch into multiple instanced draws that reuse the instance buffer. Costs extra draw calls.
+   *
+   * **grow**: grow the instance buffer to the next power of two that fits the batch. Costs memory, buffers are never shrunk.
+   *
+   * Splits and growths are counted in `toodle.diagnostics.overflow`.
+   *
+   * @default "throw"
+   */
+  instanceOverflow?: InstanceOverflowStrategy;
+  /**
+   * Skip nodes that are outside of the camera's view when drawing. Can be toggled later with {@link Toodle.culling}.
+   *
+   * @default false
+   */
+  culling?: boolean;
+  /**
+   * Render pixel art at a fixed virtual resolution, e.g. 320x180.
+   *
+   * Frames are drawn into an offscreen target of that size and scaled up to the canvas by the largest
+   * whole number that fits, with letterboxing around it. The camera and quad translations are snapped
+   * to whole virtual pixels so sprites don't shimmer when the camera moves. Use it with `filter: "nearest"`.
+   *
+   * {@link Toodle.convertSpace} accounts for the scaling and letterboxing.
+   */
+  pixelPerfect?: PixelPerfectOptions;
+};
+
+export type PixelPerfectOptions = {
+  /** Width of the virtual resolution in pixels */
+  width: number;
+  /** Height of the virtual resolution in pixels */
+  height: number;
+  /**
+   * The color of the canvas around the scaled up frame.
+   * @default black
+   */
+  letterboxColor?: Color;
+};
+
+type PixelPerfect = {
+  target: RenderTarget;
+  quad: QuadNode;
+  letterboxColor: Color;
 };
 
 export type CircleOptions = Omit<QuadOptions, "size"> & {
@@ -825,6 +1595,13 @@ export type LineOptions = {
   key?: string;
 };
 
+export type ReplayFrameOptions = {
+  /**
+   * Shaders to draw captured batches with, keyed by shader label.
+   */
+  shaders?: Record<string, IBackendShader>;
+};
+
 export type QuadShaderOpts = {
   /**
    * Blend mode for alpha compositing.
@@ -835,3 +1612,9 @@ export type QuadShaderOpts = {
    */
   atlasId?: string;
 };
+
+function createViewBatcher() {
+  const batcher = new Batcher();
+  batcher.screen = new Batcher();
+  return batcher;
+}
@@ -0,0 +1,62 @@
+/**
+ * Something that plays over time when it is advanced, like a {@link Tween} or a {@link Sequence}.
+ *
+ * Animations only move forward when they are advanced, usually by a {@link Timeline},
+ * so the same delta times always produce the same values.
+ */
+export abstract class Animation {
+  /** Resolves when the animation completes or is stopped. Animations that repeat forever only resolve when stopped */
+  readonly finished: Promise<void>;
+
+  #resolve: () => void;
+  #isFinished = false;
+
+  constructor() {
+    let resolve = () => {};
+    this.finished = new Promise((r) => {
+      resolve = r;
+    });
+    this.#resolve = resolve;
+  }
+
+  /**
+   * Whether the animation completed or was stopped.
+   */
+  get isFinished() {
+    return this.#isFinished;
+  }
+
+  /**
+   * Move the animation forward in time.
+   *
+   * @param dt - The time to advance by in seconds
+   * @returns The part of dt that was left over after the animation finished, 0 if it is still playing
+   */
+  advance(dt: number): number {
+    if (this.#isFinished) return dt;
+    const leftover = this.step(dt);
+    if (leftover === null) return 0;
+    this.#finish();
+    return leftover;
+  }
+
+  /**
+   * Stop the animation where it is and resolve {@link Animation.finished}.
+   */
+  stop() {
+    this.#finish();
+  }
+
+  /**
+   * Advance the animation by dt seconds.
+   *
+   * @returns The part of dt left over if the animation completed, or null if it is still playing
+   */
+  protected abstract step(dt: number): number | null;
+
+  #finish() {
+    if (this.#isFinished) return;
+    this.#isFinished = true;
+    this.#resolve();
+  }
+}
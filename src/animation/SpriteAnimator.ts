@@ -0,0 +1,212 @@
+import type { QuadNode } from "../scene/QuadNode";
+import { assert } from "../utils/assert";
+import type { AnimationClip, AnimationFrame, PlaybackMode } from "./clips";
+
+export type SpriteAnimatorOptions = {
+  /** Multiplies the delta time of updates. Defaults to 1 */
+  speed?: number;
+  /** Called when a frame with an event is shown */
+  onEvent?: (event: string, clip: string) => void;
+  /** Called when a clip that plays once or a limited number of times reached its last frame */
+  onComplete?: (clip: string) => void;
+};
+
+export type PlayOptions = {
+  /** Overrides the mode of the clip */
+  mode?: PlaybackMode;
+  /** Start from the first frame even if the clip is already playing. Defaults to false */
+  restart?: boolean;
+};
+
+/**
+ * Plays sprite sheet animations on a quad by switching its texture and region.
+ *
+ * Clips are advanced by {@link SpriteAnimator.update}, so the same delta times always show the same frames.
+ *
+ * @example
+ *
+ * const hero = toodle.Quad("hero_idle_0");
+ * const animator = new SpriteAnimator(hero, {
+ *   idle: clipFromTextures(["hero_idle_0", "hero_idle_1"], { fps: 4 }),
+ *   attack: clipFromTextures(["hero_attack_0", "hero_attack_1", "hero_attack_2"], { mode: "once" }),
+ * });
+ *
+ * animator.play("idle");
+ * await animator.play("attack");
+ * animator.play("idle");
+ */
+export class SpriteAnimator {
+  readonly sprite: QuadNode;
+  readonly clips: Record<string, AnimationClip>;
+  /** See {@link SpriteAnimatorOptions.speed} */
+  speed: number;
+  onEvent: SpriteAnimatorOptions["onEvent"];
+  onComplete: SpriteAnimatorOptions["onComplete"];
+
+  #clipName: string | null = null;
+  #clip: AnimationClip | null = null;
+  #mode: PlaybackMode = "loop";
+  #frameIndex = 0;
+  // the time the current frame has been shown for
+  #frameTime = 0;
+  #direction: 1 | -1 = 1;
+  // the passes through the frames of the current clip that were completed
+  #passes = 0;
+  #isPlaying = false;
+  #resolve: (() => void) | null = null;
+
+  /**
+   * @param sprite - The quad to animate
+   * @param clips - The clips the animator can play, by name
+   */
+  constructor(
+    sprite: QuadNode,
+    clips: Record<string, AnimationClip>,
+    options: SpriteAnimatorOptions = {},
+  ) {
+    this.sprite = sprite;
+    this.clips = clips;
+    this.speed = options.speed ?? 1;
+    this.onEvent = options.onEvent;
+    this.onComplete = options.onComplete;
+  }
+
+  /**
+   * The name of the current clip, or null if nothing was played yet.
+   */
+  get clip() {
+    return this.#clipName;
+  }
+
+  /**
+   * The index of the frame that is shown in the current clip.
+   */
+  get frame() {
+    return this.#frameIndex;
+  }
+
+  /**
+   * Whether the current clip is playing. Clips that play once or a limited number of times stop on their last frame.
+   */
+  get isPlaying() {
+    return this.#isPlaying;
+  }
+
+  /**
+   * Show the first frame of a clip and start playing it.
+   *
+   * @param name - The name of the clip
+   * @returns A promise that resolves when the clip completes, or when another clip is played or the animator is stopped
+   */
+  play(name: string, options: PlayOptions = {}): Promise<void> {
+    const clip = this.clips[name];
+    assert(clip, `Animation clip "${name}" not found`);
+    assert(clip.frames.length > 0, `Animation clip "${name}" has no frames`);
+    assert(
+      clip.frames.every((frame) => frame.duration > 0),
+      `Animation clip "${name}" has frames without a duration`,
+    );
+
+    const promise = new Promise<void>((resolve) => {
+      if (!options.restart && this.#clipName === name && this.#isPlaying) {
+        // keep playing without resetting, later callers wait for the same completion
+        const previous = this.#resolve;
+        this.#resolve = () => {
+          previous?.();
+          resolve();
+        };
+        return;
+      }
+
+      this.#settle();
+      this.#resolve = resolve;
+      this.#clipName = name;
+      this.#clip = clip;
+      this.#mode = options.mode ?? clip.mode ?? "loop";
+      this.#direction = 1;
+      this.#passes = 0;
+      this.#frameTime = 0;
+      this.#isPlaying = true;
+      this.#show(0);
+    });
+    return promise;
+  }
+
+  /**
+   * Stop on the current frame.
+   */
+  stop() {
+    this.#isPlaying = false;
+    this.#settle();
+  }
+
+  /**
+   * Advance the current clip, showing the frames whose time came.
+   *
+   * @param dt - The time since the last update in seconds
+   */
+  update(dt: number) {
+    const clip = this.#clip;
+    if (!clip || !this.#isPlaying) return;
+
+    this.#frameTime += dt * this.speed;
+    while (this.#frameTime >= clip.frames[this.#frameIndex].duration) {
+      this.#frameTime -= clip.frames[this.#frameIndex].duration;
+      const next = this.#nextFrame(clip);
+      if (next === null) {
+        this.#frameTime = 0;
+        this.#isPlaying = false;
+        if (this.#clipName) this.onComplete?.(this.#clipName);
+        this.#settle();
+        return;
+      }
+      this.#show(next);
+    }
+  }
+
+  #nextFrame(clip: AnimationClip): number | null {
+    const last = clip.frames.length - 1;
+    const next = this.#frameIndex + this.#direction;
+    if (next >= 0 && next <= last) return next;
+
+    this.#passes++;
+    if (clip.repeat !== undefined && this.#passes >= clip.repeat) return null;
+
+    switch (this.#mode) {
+      case "loop":
+        return 0;
+      case "ping-pong":
+        this.#direction = this.#direction === 1 ? -1 : 1;
+        return Math.min(Math.max(this.#frameIndex + this.#direction, 0), last);
+      case "once":
+        return null;
+    }
+  }
+
+  #show(index: number) {
+    const frame = this.#clip?.frames[index];
+    if (!frame) return;
+    this.#frameIndex = index;
+    this.#apply(frame);
+    if (frame.event && this.#clipName) {
+      this.onEvent?.(frame.event, this.#clipName);
+    }
+  }
+
+  #apply(frame: AnimationFrame) {
+    const isNewTexture = frame.textureId !== this.sprite.textureId;
+    // setting the texture also resets the region to the full texture
+    if (frame.textureId && (isNewTexture || !frame.region)) {
+      this.sprite.setTexture(frame.textureId);
+    }
+    if (frame.region) {
+      this.sprite.region = frame.region;
+    }
+  }
+
+  #settle() {
+    const resolve = this.#resolve;
+    this.#resolve = null;
+    resolve?.();
+  }
+}
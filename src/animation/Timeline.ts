@@ -0,0 +1,92 @@
+import type { Animation } from "./Animation";
+import { Tween, type TweenOptions, type TweenProps } from "./Tween";
+
+/**
+ * Plays animations when it is updated. Call {@link Timeline.update} once per frame with the frame's delta time.
+ *
+ * @example
+ *
+ * const timeline = new Timeline();
+ *
+ * async function cutscene() {
+ *   await timeline.to(camera, { zoom: 2 }, { duration: 1, ease: Easing.sineInOut }).finished;
+ *   await timeline.to(hero, { position: { x: 300 } }, { duration: 2 }).finished;
+ * }
+ *
+ * function frame(dt: number) {
+ *   timeline.update(dt);
+ *   toodle.startFrame();
+ *   toodle.draw(world);
+ *   toodle.endFrame();
+ * }
+ */
+export class Timeline {
+  /** Multiplies the delta time of updates, e.g. 0.5 plays animations at half speed */
+  timeScale = 1;
+
+  #animations: Animation[] = [];
+
+  /**
+   * Start playing an animation on the next update.
+   *
+   * @returns The animation that was added
+   */
+  add<T extends Animation>(animation: T): T {
+    this.#animations.push(animation);
+    return animation;
+  }
+
+  /**
+   * Tween properties of an object to end values, see {@link Tween}.
+   *
+   * @param target - The object whose properties are tweened, e.g. a node
+   * @param to - The end values
+   * @param options - Timing of the tween
+   * @returns The tween, await `tween.finished` to wait for it to complete
+   */
+  to<T extends object>(
+    target: T,
+    to: TweenProps<T>,
+    options: TweenOptions,
+  ): Tween<T> {
+    return this.add(new Tween(target, to, options));
+  }
+
+  /**
+   * Advance all animations. Animations that completed are removed.
+   *
+   * @param dt - The time since the last update in seconds
+   */
+  update(dt: number) {
+    const animations = this.#animations;
+    for (const animation of [...animations]) {
+      animation.advance(dt * this.timeScale);
+    }
+    this.#animations = this.#animations.filter((a) => !a.isFinished);
+  }
+
+  /**
+   * Stop the tweens of a target, or all animations if no target is given.
+   * Stopped animations keep their current values.
+   *
+   * @param target - The object whose tweens to stop
+   */
+  stop(target?: object) {
+    for (const animation of this.#animations) {
+      if (
+        !target ||
+        (animation instanceof Tween && animation.target === target)
+      ) {
+        animation.stop();
+      }
+    }
+    this.#animations = this.#animations.filter((a) => !a.isFinished);
+  }
+
+  /**
+   * The number of animations that are playing.
+   */
+  get size() {
+    return this.#animations.length;
+  }
+}
@@ -0,0 +1,181 @@
+import { Animation } from "./Animation";
+import { Easing, type EasingFunction } from "./easing";
+
+export type TweenOptions = {
+  /** Length of one play of the tween in seconds */
+  duration: number;
+  /** Defaults to {@link Easing.linear} */
+  ease?: EasingFunction;
+  /** Seconds to wait before the tween starts. Start values are read when the delay is over. Defaults to 0 */
+  delay?: number;
+  /** How many times to play the tween again after the first play, -1 repeats forever. Defaults to 0 */
+  repeat?: number;
+  /** Play every other repeat backwards. Defaults to false */
+  yoyo?: boolean;
+  /** Called after the properties were updated, with the eased progress */
+  onUpdate?: (progress: number) => void;
+};
+
+/**
+ * The end values of a tween. Numbers are tweened directly and objects like positions and colors
+ * are tweened by their number fields.
+ */
+export type TweenProps<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends number
+    ? number
+    : NonNullable<T[K]> extends object
+      ? NumberFields<NonNullable<T[K]>>
+      : never;
+};
+
+type NumberFields<T> = {
+  [K in keyof T as T[K] extends number ? K : never]?: number;
+};
+
+type Values = Record<string, unknown>;
+
+/**
+ * Moves properties of an object from their current values to end values over time.
+ *
+ * Object properties are replaced with a new object on every update rather than mutated,
+ * so setters like {@link SceneNode.position} or {@link TextNode.tint} run and mark the node dirty.
+ *
+ * @example
+ *
+ * const timeline = new Timeline();
+ * await timeline.to(node, { position: { x: 100 }, rotation: 90 }, {
+ *   duration: 0.5,
+ *   ease: Easing.quadOut,
+ * }).finished;
+ */
+export class Tween<T extends object> extends Animation {
+  readonly target: T;
+
+  #to: Values;
+  #from: Values | null = null;
+  #options: Required<Omit<TweenOptions, "onUpdate">>;
+  #onUpdate: TweenOptions["onUpdate"];
+  #time = 0;
+
+  /**
+   * @param target - The object whose properties are tweened, e.g. a node
+   * @param to - The end values
+   * @param options - Timing of the tween
+   */
+  constructor(target: T, to: TweenProps<T>, options: TweenOptions) {
+    super();
+    this.target = target;
+    this.#to = to as Values;
+    this.#options = {
+      ease: Easing.linear,
+      delay: 0,
+      repeat: 0,
+      yoyo: false,
+      ...options,
+    };
+    this.#onUpdate = options.onUpdate;
+  }
+
+  protected step(dt: number): number | null {
+    this.#time += dt;
+    const { delay, duration, repeat, yoyo } = this.#options;
+    if (this.#time < delay) return null;
+
+    this.#from ??= this.#read();
+    const time = this.#time - delay;
+
+    const total = duration * (repeat + 1);
+    if ((repeat >= 0 && time >= total) || duration <= 0) {
+      // an odd number of repeats plays backwards last
+      this.#apply(yoyo && repeat % 2 === 1 ? 0 : 1);
+      return duration <= 0 ? time : time - total;
+    }
+
+    const iteration = Math.floor(time / duration);
+    const progress = time / duration - iteration;
+    this.#apply(yoyo && iteration % 2 === 1 ? 1 - progress : progress);
+    return null;
+  }
+
+  #read(): Values {
+    const target = this.target as Values;
+    const from: Values = {};
+    for (const [key, end] of Object.entries(this.#to)) {
+      const value = target[key];
+      // missing start values would tween from NaN and write NaN to the target
+      if (typeof end === "number") {
+        assertNumber(value, key);
+        from[key] = value;
+        continue;
+      }
+      if (typeof value !== "object" || value === null) {
+        throw new Error(
+          `Can't tween ${key}, it has no start value. Set it before the tween starts.`,
+        );
+      }
+      for (const field of Object.keys(end as Values)) {
+        assertNumber((value as Values)[field], `${key}.${field}`);
+      }
+      from[key] = { ...value };
+    }
+    return from;
+  }
+
+  #apply(progress: number) {
+    const from = this.#from;
+    if (!from) return;
+    const target = this.target as Values;
+    const t = this.#options.ease(progress);
+
+    for (const [key, end] of Object.entries(this.#to)) {
+      const start = from[key];
+      if (typeof end === "number") {
+        target[key] = lerp(start as number, end, t);
+        continue;
+      }
+
+      const next: Values = { ...(target[key] as Values) };
+      for (const [field, value] of Object.entries(end as Values)) {
+        next[field] = lerp(
+          (start as Values)[field] as number,
+          value as number,
+          t,
+        );
+      }
+      target[key] = next;
+    }
+    this.#onUpdate?.(t);
+  }
+}
+
+function assertNumber(value: unknown, name: string): asserts value is number {
+  if (typeof value !== "number") {
+    throw new Error(
+      `Can't tween ${name}, its start value is ${value} instead of a number. Set it before the tween starts.`,
+    );
+  }
+}
+
+/**
+ * Create a tween that isn't added to a timeline yet, e.g. to put it into a {@link sequence}.
+ */
+export function tween<T extends object>(
+  target: T,
+  to: TweenProps<T>,
+  options: TweenOptions,
+): Tween<T> {
+  return new Tween(target, to, options);
+}
+
+/**
+ * An animation that does nothing for a while, e.g. to pause between the steps of a {@link sequence}.
+ *
+ * @param seconds - How long to wait
+ */
+export function wait(seconds: number): Tween<object> {
+  return new Tween({}, {}, { duration: seconds });
+}
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
@@ -0,0 +1,55 @@
+import { parseAsepriteFrameTags } from "../textures/aseprite";
+import type { AsepriteAnimationJson, AtlasFrameTag } from "../textures/types";
+import type { AnimationClip, AnimationFrame } from "./clips";
+
+/**
+ * Build a clip for each frame tag of an atlas bundle, see {@link AssetManager.getFrameTags}.
+ *
+ * @param tags - The frame tags, e.g. of a bundle registered from an Aseprite export
+ * @returns Clips by tag name
+ *
+ * @example
+ *
+ * await toodle.assets.registerBundle("hero", { atlases: [{ json: new URL("hero.json") }] });
+ * const animator = new SpriteAnimator(hero, clipsFromFrameTags(toodle.assets.getFrameTags("hero")));
+ * animator.play("run");
+ */
+export function clipsFromFrameTags(
+  tags: AtlasFrameTag[],
+): Record<string, AnimationClip> {
+  const clips: Record<string, AnimationClip> = {};
+  for (const tag of tags) {
+    const tagFrames: AnimationFrame[] = tag.frames.map((frame) => ({
+      textureId: frame.textureId,
+      duration: frame.duration / 1000,
+    }));
+    if (tag.direction === "reverse" || tag.direction === "pingpong_reverse") {
+      tagFrames.reverse();
+    }
+    clips[tag.name] = {
+      frames: tagFrames,
+      mode: tag.direction.startsWith("pingpong") ? "ping-pong" : "loop",
+      repeat: tag.repeat,
+    };
+  }
+  return clips;
+}
+
+/**
+ * Build a clip for each tag of an Aseprite export. The filenames of the frames are used as texture ids,
+ * which match the ids of the frames when the export is registered as an atlas bundle.
+ *
+ * @param json - The parsed Aseprite JSON
+ * @returns Clips by tag name
+ *
+ * @example
+ *
+ * const json = await (await fetch("hero.json")).json();
+ * const animator = new SpriteAnimator(hero, parseAsepriteClips(json));
+ * animator.play("run");
+ */
+export function parseAsepriteClips(
+  json: AsepriteAnimationJson,
+): Record<string, AnimationClip> {
+  return clipsFromFrameTags(parseAsepriteFrameTags(json));
+}
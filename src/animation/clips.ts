@@ -0,0 +1,105 @@
+import type { TextureId } from "../textures/AssetManager";
+import type { TexelRegion } from "../textures/types";
+
+/**
+ * How a clip continues after its last frame.
+ *
+ * - loop: start over from the first frame
+ * - ping-pong: play backwards to the first frame, then forwards again
+ * - once: stop on the last frame
+ */
+export type PlaybackMode = "loop" | "ping-pong" | "once";
+
+export type AnimationFrame = {
+  /** The texture to show. Defaults to the texture the sprite has when the frame is shown */
+  textureId?: TextureId;
+  /** The region of the texture to show. Defaults to the full texture */
+  region?: TexelRegion;
+  /** How long the frame is shown in seconds */
+  duration: number;
+  /** Name of an event to emit when the frame is shown, e.g. "footstep" */
+  event?: string;
+};
+
+/**
+ * A named animation of a sprite, like a walk cycle.
+ */
+export type AnimationClip = {
+  frames: AnimationFrame[];
+  /** Defaults to "loop" */
+  mode?: PlaybackMode;
+  /**
+   * How many passes through the frames are played before the clip stops on the frame the last pass ended on.
+   * Each direction of a ping-pong is a pass. Defaults to playing forever
+   */
+  repeat?: number;
+};
+
+export type ClipOptions = {
+  /** Frames per second of the clip. Defaults to 12 */
+  fps?: number;
+  /** Defaults to "loop" */
+  mode?: PlaybackMode;
+};
+
+/**
+ * Create a clip that shows a texture per frame, e.g. the frames of a sprite sheet that were loaded as separate textures.
+ *
+ * @example
+ *
+ * const walk = clipFromTextures(["walk_0", "walk_1", "walk_2"], { fps: 8 });
+ */
+export function clipFromTextures(
+  textureIds: TextureId[],
+  options: ClipOptions = {},
+): AnimationClip {
+  const duration = 1 / (options.fps ?? 12);
+  return {
+    frames: textureIds.map((textureId) => ({ textureId, duration })),
+    mode: options.mode,
+  };
+}
+
+/**
+ * Create a clip that shows a region of one texture per frame, see {@link TexelRegion}.
+ *
+ * @example
+ *
+ * // a 3 frame walk cycle in a 96x32 strip
+ * const walk = clipFromRegions("hero", gridRegions({ width: 32, height: 32 }, 3));
+ */
+export function clipFromRegions(
+  textureId: TextureId,
+  regions: TexelRegion[],
+  options: ClipOptions = {},
+): AnimationClip {
+  const duration = 1 / (options.fps ?? 12);
+  return {
+    frames: regions.map((region) => ({ textureId, region, duration })),
+    mode: options.mode,
+  };
+}
+
+/**
+ * The regions of a sprite sheet with equally sized frames, row by row from the top left.
+ *
+ * @param frameSize - The size of a frame in texels
+ * @param count - The number of frames
+ * @param columns - The number of frames per row. Defaults to count, a single row
+ */
+export function gridRegions(
+  frameSize: { width: number; height: number },
+  count: number,
+  columns = count,
+): TexelRegion[] {
+  const regions: TexelRegion[] = [];
+  for (let i = 0; i < count; i++) {
+    regions.push({
+      x: (i % columns) * frameSize.width,
+      y: Math.floor(i / columns) * frameSize.height,
+      width: frameSize.width,
+      height: frameSize.height,
+    });
+  }
+  return regions;
+}
@@ -0,0 +1,51 @@
+/**
+ * Maps the linear progress of an animation between 0 and 1 to an eased progress.
+ * The eased progress starts at 0 and ends at 1, but may overshoot in between.
+ */
+export type EasingFunction = (t: number) => number;
+
+const bounceOut: EasingFunction = (t) => {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+};
+
+// how far back the "back" easings overshoot
+const backOvershoot = 1.70158;
+
+/**
+ * Common easing functions, see https://easings.net for what they look like.
+ */
+export const Easing = {
+  linear: (t) => t,
+
+  quadIn: (t) => t * t,
+  quadOut: (t) => 1 - (1 - t) * (1 - t),
+  quadInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+
+  cubicIn: (t) => t * t * t,
+  cubicOut: (t) => 1 - (1 - t) ** 3,
+  cubicInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+
+  sineIn: (t) => 1 - Math.cos((t * Math.PI) / 2),
+  sineOut: (t) => Math.sin((t * Math.PI) / 2),
+  sineInOut: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+
+  expoIn: (t) => (t === 0 ? 0 : 2 ** (10 * t - 10)),
+  expoOut: (t) => (t === 1 ? 1 : 1 - 2 ** (-10 * t)),
+
+  backIn: (t) => (backOvershoot + 1) * t * t * t - backOvershoot * t * t,
+  backOut: (t) =>
+    1 + (backOvershoot + 1) * (t - 1) ** 3 + backOvershoot * (t - 1) ** 2,
+
+  elasticOut: (t) =>
+    t === 0 || t === 1
+      ? t
+      : 2 ** (-10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1,
+
+  bounceIn: (t) => 1 - bounceOut(1 - t),
+  bounceOut,
+} satisfies Record<string, EasingFunction>;
@@ -0,0 +1,95 @@
+import { Animation } from "./Animation";
+
+/**
+ * Plays animations one after another. Time left over when an animation completes
+ * is passed on to the next one, so sequences don't drift with large delta times.
+ */
+export class Sequence extends Animation {
+  readonly animations: readonly Animation[];
+
+  #index = 0;
+
+  constructor(animations: Animation[]) {
+    super();
+    this.animations = animations;
+  }
+
+  protected step(dt: number): number | null {
+    let leftover = dt;
+    while (this.#index < this.animations.length) {
+      const animation = this.animations[this.#index];
+      leftover = animation.advance(leftover);
+      if (!animation.isFinished) return null;
+      this.#index++;
+    }
+    return leftover;
+  }
+
+  stop() {
+    for (const animation of this.animations) {
+      animation.stop();
+    }
+    super.stop();
+  }
+}
+
+/**
+ * Plays animations at the same time and completes when all of them completed.
+ */
+export class Parallel extends Animation {
+  readonly animations: readonly Animation[];
+
+  constructor(animations: Animation[]) {
+    super();
+    this.animations = animations;
+  }
+
+  protected step(dt: number): number | null {
+    let isPlaying = false;
+    let leftover = dt;
+    for (const animation of this.animations) {
+      if (animation.isFinished) continue;
+      const rest = animation.advance(dt);
+      if (animation.isFinished) {
+        leftover = Math.min(leftover, rest);
+      } else {
+        isPlaying = true;
+      }
+    }
+    return isPlaying ? null : leftover;
+  }
+
+  stop() {
+    for (const animation of this.animations) {
+      animation.stop();
+    }
+    super.stop();
+  }
+}
+
+/**
+ * Play animations one after another, see {@link Sequence}.
+ *
+ * @example
+ *
+ * timeline.add(
+ *   sequence(
+ *     tween(door, { position: { y: 64 } }, { duration: 1 }),
+ *     wait(0.5),
+ *     parallel(
+ *       tween(hero, { position: { x: 200 } }, { duration: 2 }),
+ *       tween(hero, { color: { a: 0 } }, { duration: 2 }),
+ *     ),
+ *   ),
+ * );
+ */
+export function sequence(...animations: Animation[]): Sequence {
+  return new Sequence(animations);
+}
+
+/**
+ * Play animations at the same time, see {@link Parallel}.
+ */
+export function parallel(...animations: Animation[]): Parallel {
+  return new Parallel(animations);
+}
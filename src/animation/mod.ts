@@ -0,0 +1,8 @@
+export * from "./Animation";
+export * from "./aseprite";
+export * from "./clips";
+export * from "./easing";
+export * from "./groups";
+export * from "./SpriteAnimator";
+export * from "./Timeline";
+export * from "./Tween";
@@ -2,6 +2,29 @@ import type { EngineUniform } from "../coreTypes/EngineUniform";
 import type { SceneNode } from "../scene/SceneNode";
 import type { BlendMode } from "./IRenderBackend";
 
+/**
+ * What a quad shader does when a batch has more instances than it was created for.
+ *
+ * **throw**: Throw a ToodleInstanceCap error.
+ *
+ * **split**: Split the batch into multiple instanced draws that reuse the instance buffer.
+ *
+ * **grow**: Grow the instance buffer to fit the batch. Buffers are never shrunk.
+ */
+export type InstanceOverflowStrategy = "throw" | "split" | "grow";
+
+/**
+ * Reported by a quad shader whenever it splits a batch or grows its instance buffer.
+ */
+export type InstanceOverflowEvent = {
+  /** Debug label of the shader */
+  label: string;
+  /** The strategy that was applied */
+  strategy: Exclude<InstanceOverflowStrategy, "throw">;
+  /** The number of instances the shader can hold after the overflow was handled */
+  capacity: number;
+};
+
 /**
  * Options for creating a quad shader.
  */
@@ -16,8 +39,31 @@ export type QuadShaderCreationOpts = {
   blendMode?: BlendMode;
   /** Which texture atlas to bind (default: "default") */
   atlasId?: string;
+  /** What to do when a batch doesn't fit in the instance buffer (default: "throw") */
+  overflow?: InstanceOverflowStrategy;
+  /** Called whenever a batch is split or the instance buffer grows */
+  onOverflow?: (event: InstanceOverflowEvent) => void;
 };
 
+/**
+ * Instance data that was written once and is kept in a persistent buffer, see {@link IBackendShader.createStaticBuffer}.
+ */
+export interface IStaticInstanceBuffer {
+  /** The number of instances in the buffer */
+  readonly instanceCount: number;
+
+  /**
+   * Draw all instances in the buffer.
+   * Must be called between startFrame and endFrame of the shader that created it.
+   *
+   * @returns Number of draw calls issued
+   */
+  draw(): number;
+
+  /** Release the buffer */
+  destroy(): void;
+}
+
 /**
  * Backend-agnostic shader interface.
  *
@@ -47,6 +93,16 @@ export interface IBackendShader {
    */
   processBatch(nodes: SceneNode[]): number;
 
+  /**
+   * Write the instance data of nodes into a persistent buffer that can be drawn every frame
+   * without writing the instances again. Used by static batches.
+   *
+   * Shaders that don't implement this have their static batches drawn with processBatch instead.
+   *
+   * @param nodes - The nodes to write, in draw order
+   */
+  createStaticBuffer?(nodes: SceneNode[]): IStaticInstanceBuffer;
+
   /**
    * Cleanup after frame.
    * Called once per frame after all processBatch calls.
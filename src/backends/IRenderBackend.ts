@@ -6,7 +6,7 @@ import type { CpuTextureAtlas } from "../textures/types";
 import type { IBackendShader, QuadShaderCreationOpts } from "./IBackendShader";
 import type { ITextureAtlas, TextureAtlasOptions } from "./ITextureAtlas";
 
-export type BackendType = "webgpu" | "webgl2";
+export type BackendType = "webgpu" | "webgl2" | "null" | "software";
 
 export type BlendFactor =
   | "one"
@@ -30,6 +30,33 @@ export type BlendMode = {
   };
 };
 
+/**
+ * An offscreen texture to render a frame into instead of the canvas.
+ */
+export type FrameTarget = {
+  /** The id of an atlas created with {@link IRenderBackend.createRenderTarget} */
+  atlasId: string;
+  /** Width of the area to render into, from the top left corner of the atlas */
+  width: number;
+  /** Height of the area to render into, from the top left corner of the atlas */
+  height: number;
+};
+
+/**
+ * A rectangle of the frame to draw into, in fractions of the frame size with the origin at the top left.
+ *
+ * @example
+ *
+ * // the right half of the canvas
+ * const viewport: Viewport = { x: 0.5, y: 0, width: 0.5, height: 1 };
+ */
+export type Viewport = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
 /**
  * The render backend interface abstracts WebGPU and WebGL differences.
  *
@@ -37,7 +64,7 @@ export type BlendMode = {
  * shader creation, and frame lifecycle.
  */
 export interface IRenderBackend {
-  /** The type of backend ("webgpu" or "webgl2") */
+  /** The type of backend ("webgpu", "webgl2", "null" or "software") */
   readonly type: BackendType;
 
   /** Engine limits (texture size, instance count, etc.) */
@@ -53,8 +80,33 @@ export interface IRenderBackend {
    * Begin a new frame.
    * WebGPU: Creates command encoder and render pass
    * WebGL: Clears the canvas if loadOp is "clear"
+   *
+   * @param target - Render into a render target instead of the canvas
    */
-  startFrame(clearColor: Color, loadOp: "clear" | "load"): void;
+  startFrame(
+    clearColor: Color,
+    loadOp: "clear" | "load",
+    target?: FrameTarget,
+  ): void;
+
+  /**
+   * Map the following draws of the frame to a viewport and clip them to it.
+   * startFrame resets the viewport to the whole frame.
+   * WebGPU: Submits the draws recorded so far and continues in a new render pass
+   * WebGL: Sets the viewport and scissor rect
+   *
+   * @param viewport - The viewport to draw into, or null for the whole frame
+   */
+  setViewport(viewport: Viewport | null): void;
+
+  /**
+   * The GPU time in milliseconds of a frame, from its startFrame to its endFrame, that was measured
+   * since the last call. Each measurement is returned once, results arrive a few frames late.
+   * Null if the backend can't measure GPU time or no new measurement has resolved.
+   * WebGPU: Requires the "timestamp-query" feature
+   * WebGL: Requires the EXT_disjoint_timer_query_webgl2 extension
+   */
+  takeGpuTime(): number | null;
 
   /**
    * End the current frame and submit to GPU.
@@ -88,6 +140,23 @@ export interface IRenderBackend {
    */
   createTextureAtlas(id: string, options?: TextureAtlasOptions): ITextureAtlas;
 
+  /**
+   * Create a texture atlas with a single layer that frames can be rendered into.
+   * Pass its id in the target of startFrame to render into it.
+   * Destroy it with destroyTextureAtlas.
+   *
+   * A render target can't be sampled while it is being rendered into, so it gets its own atlas.
+   *
+   * @param id - Unique identifier for the atlas
+   * @param size - Atlas size in pixels
+   * @param filter - How the target is sampled when drawn. WebGL: sets the texture filter, other backends sample with the shader's sampler
+   */
+  createRenderTarget(
+    id: string,
+    size: number,
+    filter?: "nearest" | "linear",
+  ): ITextureAtlas;
+
   /**
    * Get a texture atlas by ID.
    * @param id - Atlas identifier or defaults to "default"
@@ -0,0 +1,81 @@
+import type { SceneNode } from "../scene/SceneNode";
+import { assert } from "../utils/assert";
+import { growCapacity } from "./overflow";
+
+// shared instance writing for the quad shader implementations
+
+/**
+ * The instances written for a batch of nodes.
+ */
+export type WrittenInstances = {
+  /** The written instances, the buffer is replaced by a larger one when they don't fit */
+  data: Float32Array<ArrayBuffer>;
+  /** The number of instances written */
+  instanceCount: number;
+  /** The index after the last instance of each node */
+  nodeEnds: number[];
+};
+
+/**
+ * Write the instances of nodes in draw order. Nodes like jumbo quads write more than one
+ * instance, so the buffer is sized from {@link RenderComponent.instanceCount} before writing.
+ *
+ * @param nodes - The nodes to write
+ * @param floatsPerInstance - The instance stride of the shader in floats
+ * @param data - The buffer to write to, a new buffer is created if it is too small
+ */
+export function writeInstances(
+  nodes: SceneNode[],
+  floatsPerInstance: number,
+  data?: Float32Array<ArrayBuffer>,
+): WrittenInstances {
+  let capacity = 0;
+  for (const node of nodes) {
+    capacity += node.renderComponent?.instanceCount?.(node) ?? 1;
+  }
+  if (!data || data.length < capacity * floatsPerInstance) {
+    const current = data ? data.length / floatsPerInstance : 0;
+    data = new Float32Array(
+      growCapacity(current, capacity) * floatsPerInstance,
+    );
+  }
+
+  const nodeEnds: number[] = [];
+  let instanceCount = 0;
+  for (const node of nodes) {
+    const renderComponent = node.renderComponent;
+    assert(renderComponent, "instance has no render component");
+    const expected = renderComponent.instanceCount?.(node) ?? 1;
+    const written = renderComponent.writeInstance(
+      node,
+      data,
+      instanceCount * floatsPerInstance,
+    );
+    // writes past the reserved instances would overwrite the next node or be dropped at the end of the buffer
+    if (written > expected) {
+      throw new Error(
+        `${node.label ?? node.id} wrote ${written} instances but its render component reserves ${expected}, see RenderComponent.instanceCount`,
+      );
+    }
+    instanceCount += written;
+    nodeEnds.push(instanceCount);
+  }
+
+  return { data, instanceCount, nodeEnds };
+}
+
+/**
+ * The nodes that have instances in a range of written instances.
+ */
+export function nodesInRange<T>(
+  nodes: T[],
+  nodeEnds: number[],
+  firstInstance: number,
+  instanceCount: number,
+): T[] {
+  const end = firstInstance + instanceCount;
+  return nodes.filter((_, i) => {
+    const nodeStart = i === 0 ? 0 : nodeEnds[i - 1];
+    return nodeStart < end && nodeEnds[i] > firstInstance;
+  });
+}
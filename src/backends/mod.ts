@@ -5,13 +5,21 @@ export {
   isWebGL2Available,
   isWebGPUAvailable,
 } from "./detection";
-export type { IBackendShader, QuadShaderCreationOpts } from "./IBackendShader";
+export type {
+  IBackendShader,
+  InstanceOverflowEvent,
+  InstanceOverflowStrategy,
+  IStaticInstanceBuffer,
+  QuadShaderCreationOpts,
+} from "./IBackendShader";
 export type {
   BackendType,
   BlendFactor,
   BlendMode,
   BlendOperation,
+  FrameTarget,
   IRenderBackend,
+  Viewport,
 } from "./IRenderBackend";
 export type { ITextShader } from "./ITextShader";
 export type {
@@ -19,6 +27,17 @@ export type {
   TextureAtlasFormat,
   TextureAtlasOptions,
 } from "./ITextureAtlas";
+export {
+  NullBackend,
+  type NullBackendOptions,
+  type NullDrawCall,
+} from "./null/NullBackend";
+export {
+  encodePng,
+  type SamplerFilter,
+  SoftwareBackend,
+  type SoftwareBackendOptions,
+} from "./software/mod";
 export { defaultFragmentShader as defaultGLSLFragmentShader } from "./webgl2/glsl/quad.glsl";
 export { WebGLBackend } from "./webgl2/WebGLBackend";
 // WebGPU-specific postprocess utilities
@@ -0,0 +1,254 @@
+import type { Color } from "../../coreTypes/Color";
+import type { EngineUniform } from "../../coreTypes/EngineUniform";
+import type { Size } from "../../coreTypes/Size";
+import type { Limits, LimitsOptions } from "../../limits";
+import { DEFAULT_LIMITS } from "../../limits";
+import type { SceneNode } from "../../scene/SceneNode";
+import type { CpuTextureAtlas } from "../../textures/types";
+import { assert } from "../../utils/assert";
+import type { IBackendShader, QuadShaderCreationOpts } from "../IBackendShader";
+import type { FrameTarget, IRenderBackend, Viewport } from "../IRenderBackend";
+import type {
+  ITextureAtlas,
+  TextureAtlasFormat,
+  TextureAtlasOptions,
+} from "../ITextureAtlas";
+import { NullQuadShader } from "./NullQuadShader";
+
+export type NullBackendOptions = {
+  limits?: LimitsOptions;
+  format?: "rgba8unorm" | "rg8unorm";
+};
+
+/**
+ * A record of a single processBatch call made against a null backend shader.
+ */
+export type NullDrawCall = {
+  /** The shader that processed the batch */
+  shader: IBackendShader;
+  /** The debug label of the shader */
+  label: string;
+  /** The layer (z-index) the batch was drawn on */
+  layer: number;
+  /** The nodes in the batch, in draw order */
+  nodes: SceneNode[];
+  /** Whether the batch was drawn from a static instance buffer */
+  isStatic: boolean;
+  /** The viewport the batch was drawn into, or null for the whole frame */
+  viewport: Viewport | null;
+};
+
+/**
+ * A headless implementation of the render backend that draws nothing.
+ *
+ * Every processBatch call is recorded in {@link NullBackend.drawCalls} so tests and
+ * servers can assert on what would have been drawn without a GPU or a canvas.
+ */
+export class NullBackend implements IRenderBackend {
+  readonly type = "null" as const;
+  readonly limits: Limits;
+  readonly atlasSize: Size;
+  readonly defaultAtlasId = "default";
+
+  /** Draw calls recorded since the last call to startFrame */
+  drawCalls: NullDrawCall[] = [];
+
+  #atlases = new Map<string, ITextureAtlas>();
+  #clearColor: Color = { r: 0, g: 0, b: 0, a: 0 };
+  #loadOp: "clear" | "load" = "clear";
+  #target: FrameTarget | null = null;
+  #viewport: Viewport | null = null;
+  #engineUniform: EngineUniform | null = null;
+  #resolution: Size = { width: 0, height: 0 };
+  #isFrameActive = false;
+
+  private constructor(limits: Limits) {
+    this.limits = limits;
+    this.atlasSize = {
+      width: limits.textureSize,
+      height: limits.textureSize,
+    };
+  }
+
+  /**
+   * Create a null backend. No canvas or GPU is required.
+   */
+  static async create(options: NullBackendOptions = {}): Promise<NullBackend> {
+    const limits: Limits = {
+      ...DEFAULT_LIMITS,
+      ...options.limits,
+    };
+
+    const backend = new NullBackend(limits);
+
+    // Create the default texture atlas
+    backend.createTextureAtlas("default", {
+      format: options.format ?? "rgba8unorm",
+      layers: limits.textureArrayLayers,
+      size: limits.textureSize,
+    });
+
+    return backend;
+  }
+
+  startFrame(
+    clearColor: Color,
+    loadOp: "clear" | "load",
+    target?: FrameTarget,
+  ): void {
+    if (target) {
+      assert(
+        this.#atlases.has(target.atlasId),
+        `Render target "${target.atlasId}" not found`,
+      );
+    }
+    this.#clearColor = { ...clearColor };
+    this.#loadOp = loadOp;
+    this.#target = target ?? null;
+    this.#viewport = null;
+    this.#isFrameActive = true;
+    this.drawCalls = [];
+  }
+
+  setViewport(viewport: Viewport | null): void {
+    assert(
+      this.#isFrameActive,
+      "No frame in progress - did you call startFrame?",
+    );
+    this.#viewport = viewport && { ...viewport };
+  }
+
+  endFrame(): void {
+    assert(
+      this.#isFrameActive,
+      "No frame in progress - did you call startFrame?",
+    );
+    this.#isFrameActive = false;
+  }
+
+  /** The null backend has no GPU to measure */
+  takeGpuTime(): null {
+    return null;
+  }
+
+  updateEngineUniform(uniform: EngineUniform): void {
+    this.#engineUniform = uniform;
+  }
+
+  async uploadAtlas(
+    _atlas: CpuTextureAtlas,
+    layerIndex: number,
+    atlasId?: string,
+  ): Promise<void> {
+    const targetAtlas = this.getTextureAtlas(atlasId ?? "default");
+    assert(targetAtlas, `Atlas "${atlasId ?? "default"}" not found`);
+    assert(
+      layerIndex >= 0 && layerIndex < targetAtlas.layers,
+      `Layer ${layerIndex} is out of range for atlas "${targetAtlas.id}"`,
+    );
+  }
+
+  createQuadShader(opts: QuadShaderCreationOpts): IBackendShader {
+    return new NullQuadShader(
+      opts.label,
+      this,
+      opts.instanceCount,
+      opts.userCode,
+      opts.atlasId,
+      opts,
+    );
+  }
+
+  createTextureAtlas(id: string, options?: TextureAtlasOptions): ITextureAtlas {
+    if (this.#atlases.has(id)) {
+      throw new Error(`Atlas "${id}" already exists`);
+    }
+
+    const format: TextureAtlasFormat = options?.format ?? "rgba8unorm";
+    const layers = options?.layers ?? this.limits.textureArrayLayers;
+    const size = options?.size ?? this.limits.textureSize;
+
+    const atlas: ITextureAtlas = { id, format, layers, size, handle: null };
+    this.#atlases.set(id, atlas);
+    return atlas;
+  }
+
+  createRenderTarget(id: string, size: number): ITextureAtlas {
+    return this.createTextureAtlas(id, { layers: 1, size });
+  }
+
+  getTextureAtlas(id?: string): ITextureAtlas | null {
+    return this.#atlases.get(id ?? "default") ?? null;
+  }
+
+  destroyTextureAtlas(id: string): void {
+    this.#atlases.delete(id);
+  }
+
+  resize(width: number, height: number): void {
+    this.#resolution = { width, height };
+  }
+
+  destroy(): void {
+    this.#atlases.clear();
+    this.drawCalls = [];
+  }
+
+  /**
+   * Record a processBatch call. Called by the null backend shaders.
+   */
+  recordDrawCall(
+    shader: IBackendShader,
+    nodes: SceneNode[],
+    isStatic = false,
+  ): void {
+    assert(
+      this.#isFrameActive,
+      "Tried to draw outside of a frame - did you call startFrame?",
+    );
+    this.drawCalls.push({
+      shader,
+      label: shader.label,
+      // all nodes in a batch share the same layer
+      layer: nodes[0]?.layer ?? 0,
+      nodes: [...nodes],
+      isStatic,
+      viewport: this.#viewport,
+    });
+  }
+
+  /**
+   * The clear color passed to the most recent startFrame.
+   */
+  get clearColor(): Color {
+    return this.#clearColor;
+  }
+
+  /**
+   * The load op passed to the most recent startFrame.
+   */
+  get loadOp(): "clear" | "load" {
+    return this.#loadOp;
+  }
+
+  /**
+   * The render target passed to the most recent startFrame, or null if it rendered to the canvas.
+   */
+  get target(): FrameTarget | null {
+    return this.#target;
+  }
+
+  /**
+   * The engine uniform passed to the most recent updateEngineUniform.
+   */
+  get engineUniform(): EngineUniform | null {
+    return this.#engineUniform;
+  }
+
+  /**
+   * The resolution passed to the most recent resize.
+   */
+  get resolution(): Size {
+    return this.#resolution;
+  }
+}
@@ -0,0 +1,85 @@
+import type { EngineUniform } from "../../coreTypes/EngineUniform";
+import type { SceneNode } from "../../scene/SceneNode";
+import type { IBackendShader, IStaticInstanceBuffer } from "../IBackendShader";
+import { nodesInRange, writeInstances } from "../instanceBuffer";
+import { drawWithOverflow, type OverflowOptions } from "../overflow";
+import { INSTANCE_FLOATS } from "../quadInstance";
+import type { NullBackend } from "./NullBackend";
+
+/**
+ * Null implementation of quad shader. Records batches instead of drawing them.
+ */
+export class NullQuadShader implements IBackendShader {
+  readonly label: string;
+  readonly code: string;
+
+  #backend: NullBackend;
+  #instanceCount: number;
+  #overflow: OverflowOptions;
+  // instances are written to count them, nodes like jumbo quads write more than one
+  #cpuBuffer = new Float32Array(INSTANCE_FLOATS);
+
+  constructor(
+    label: string,
+    backend: NullBackend,
+    instanceCount: number,
+    userCode?: string,
+    atlasId?: string,
+    overflow: OverflowOptions = {},
+  ) {
+    if (!backend.getTextureAtlas(atlasId ?? "default")) {
+      throw new Error(`Atlas "${atlasId ?? "default"}" not found`);
+    }
+
+    this.label = label;
+    this.code = userCode ?? "";
+    this.#backend = backend;
+    this.#instanceCount = instanceCount;
+    this.#overflow = overflow;
+  }
+
+  startFrame(_uniform: EngineUniform): void {
+    // Nothing to do
+  }
+
+  processBatch(nodes: SceneNode[]): number {
+    const { data, instanceCount, nodeEnds } = writeInstances(
+      nodes,
+      INSTANCE_FLOATS,
+      this.#cpuBuffer,
+    );
+    this.#cpuBuffer = data;
+
+    return drawWithOverflow(
+      instanceCount,
+      this.#instanceCount,
+      this.label,
+      this.#overflow,
+      (first, count) =>
+        this.#backend.recordDrawCall(
+          this,
+          nodesInRange(nodes, nodeEnds, first, count),
+        ),
+      (capacity) => {
+        this.#instanceCount = capacity;
+      },
+    );
+  }
+
+  createStaticBuffer(nodes: SceneNode[]): IStaticInstanceBuffer {
+    const batch = [...nodes];
+    const { instanceCount } = writeInstances(batch, INSTANCE_FLOATS);
+    return {
+      instanceCount,
+      draw: () => {
+        this.#backend.recordDrawCall(this, batch, true);
+        return 1;
+      },
+      destroy: () => {},
+    };
+  }
+
+  endFrame(): void {
+    // Nothing to do
+  }
+}
@@ -0,0 +1,48 @@
+import type { EngineUniform } from "../../coreTypes/EngineUniform";
+import type { SceneNode } from "../../scene/SceneNode";
+import { TextNode } from "../../scene/TextNode";
+import type { MsdfFont } from "../../text/MsdfFont";
+import type { ITextShader } from "../ITextShader";
+import type { NullBackend } from "./NullBackend";
+
+/**
+ * Null implementation of the text shader. Records batches instead of drawing them.
+ */
+export class NullTextShader implements ITextShader {
+  readonly label = "text";
+  readonly code = "";
+  readonly font: MsdfFont;
+  readonly maxCharCount: number;
+
+  #backend: NullBackend;
+
+  constructor(backend: NullBackend, font: MsdfFont, maxCharCount: number) {
+    this.#backend = backend;
+    this.font = font;
+    this.maxCharCount = maxCharCount;
+  }
+
+  startFrame(_uniform: EngineUniform): void {
+    // Nothing to do
+  }
+
+  processBatch(nodes: SceneNode[]): number {
+    if (nodes.length === 0) return 0;
+
+    for (const node of nodes) {
+      if (!(node instanceof TextNode)) {
+        console.error(node);
+        throw new Error(
+          `Tried to use NullTextShader on something that isn't a TextNode: ${node}`,
+        );
+      }
+    }
+
+    this.#backend.recordDrawCall(this, nodes);
+    return nodes.length;
+  }
+
+  endFrame(): void {
+    // No cleanup needed
+  }
+}
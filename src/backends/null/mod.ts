@@ -0,0 +1,7 @@
+export {
+  NullBackend,
+  type NullBackendOptions,
+  type NullDrawCall,
+} from "./NullBackend";
+export { NullQuadShader } from "./NullQuadShader";
+export { NullTextShader } from "./NullTextShader";
@@ -0,0 +1,91 @@
+import type { QuadShaderCreationOpts } from "./IBackendShader";
+
+// shared instance overflow handling for the quad shader implementations
+
+/**
+ * Create the error thrown when a batch doesn't fit in a shader's instance buffer.
+ */
+export function instanceCapError(
+  count: number,
+  capacity: number,
+  label: string,
+): Error {
+  const err = new Error(
+    `ToodleInstanceCap: ${count} instances enqueued, max is ${capacity} for ${label} shader`,
+  );
+  err.name = "ToodleInstanceCap";
+  return err;
+}
+
+/**
+ * The next power of two capacity that fits the required number of instances.
+ */
+export function growCapacity(capacity: number, required: number): number {
+  let next = Math.max(1, capacity);
+  while (next < required) next *= 2;
+  return next;
+}
+
+/**
+ * Split a number of instances into ranges that fit in the given capacity.
+ */
+export function splitInstances(
+  instanceCount: number,
+  capacity: number,
+): { first: number; count: number }[] {
+  const ranges: { first: number; count: number }[] = [];
+  for (let first = 0; first < instanceCount; first += capacity) {
+    ranges.push({ first, count: Math.min(capacity, instanceCount - first) });
+  }
+  return ranges;
+}
+
+export type OverflowOptions = Pick<
+  QuadShaderCreationOpts,
+  "overflow" | "onOverflow"
+>;
+
+/**
+ * Draw a batch, handling batches that don't fit in the instance buffer with the configured strategy.
+ *
+ * @param instanceCount - The number of instances written for the batch
+ * @param capacity - The number of instances that currently fit in the instance buffer
+ * @param label - Debug label of the shader
+ * @param options - The overflow strategy and callback of the shader
+ * @param draw - Issue a single instanced draw for a range of the written instances that fits in the instance buffer
+ * @param grow - Resize the instance buffer to the given capacity
+ * @returns The number of draw calls issued
+ */
+export function drawWithOverflow(
+  instanceCount: number,
+  capacity: number,
+  label: string,
+  options: OverflowOptions,
+  draw: (firstInstance: number, instanceCount: number) => void,
+  grow: (capacity: number) => void,
+): number {
+  if (instanceCount <= capacity) {
+    draw(0, instanceCount);
+    return 1;
+  }
+
+  switch (options.overflow ?? "throw") {
+    case "split": {
+      const ranges = splitInstances(instanceCount, capacity);
+      for (const range of ranges) {
+        draw(range.first, range.count);
+      }
+      options.onOverflow?.({ label, strategy: "split", capacity });
+      return ranges.length;
+    }
+    case "grow": {
+      const next = growCapacity(capacity, instanceCount);
+      grow(next);
+      options.onOverflow?.({ label, strategy: "grow", capacity: next });
+      draw(0, instanceCount);
+      return 1;
+    }
+    default:
+      throw instanceCapError(instanceCount, capacity, label);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Round the translations of quad instances to whole pixels, see {@link EngineUniform.pixelSnap}.
+ *
+ * Every quad instance starts with its model matrix, whose translation is at floats 8 and 9.
+ *
+ * @param data - The instance data
+ * @param start - Index of the first instance to snap
+ * @param count - Number of instances to snap
+ * @param floatsPerInstance - Size of an instance in floats
+ * @param pixelsPerUnit - Size of a world unit in pixels
+ */
+export function snapInstances(
+  data: Float32Array,
+  start: number,
+  count: number,
+  floatsPerInstance: number,
+  pixelsPerUnit: number,
+) {
+  for (let i = start; i < start + count; i++) {
+    const offset = i * floatsPerInstance;
+    data[offset + 8] =
+      Math.round(data[offset + 8] * pixelsPerUnit) / pixelsPerUnit;
+    data[offset + 9] =
+      Math.round(data[offset + 9] * pixelsPerUnit) / pixelsPerUnit;
+  }
+}
@@ -0,0 +1,12 @@
+// the instance layout of the default quad shader, shared by every backend.
+// these must match the gpu shaders in quad.wgsl.ts and quad.glsl.ts
+
+// Instance data size in floats
+// model (12) + tint (4) + uvOffsetAndScale (4) + cropOffsetAndScale (4) + atlasIndex (1) + padding (3) = 28
+export const INSTANCE_FLOATS = 28;
+
+// atlas indices from here on are primitives drawn without a texture
+export const RECT_INDEX = 1000;
+export const CIRCLE_INDEX = 1001;
+// set on the atlas index of frames that are stored rotated in the atlas, see engineRotatedFlag
+export const ROTATED_FLAG = 0x80000000;
@@ -0,0 +1,385 @@
+import type { Color } from "../../coreTypes/Color";
+import type { EngineUniform } from "../../coreTypes/EngineUniform";
+import type { Size } from "../../coreTypes/Size";
+import type { Limits, LimitsOptions } from "../../limits";
+import { DEFAULT_LIMITS } from "../../limits";
+import type { CpuTextureAtlas } from "../../textures/types";
+import { assert } from "../../utils/assert";
+import type { IBackendShader, QuadShaderCreationOpts } from "../IBackendShader";
+import type { FrameTarget, IRenderBackend, Viewport } from "../IRenderBackend";
+import type {
+  ITextureAtlas,
+  TextureAtlasFormat,
+  TextureAtlasOptions,
+} from "../ITextureAtlas";
+import { encodePng } from "./png";
+import type {
+  Framebuffer,
+  PixelRect,
+  SamplerFilter,
+  SoftwareTextureArray,
+} from "./rasterizer";
+import { SoftwareQuadShader } from "./SoftwareQuadShader";
+
+export type SoftwareBackendOptions = {
+  limits?: LimitsOptions;
+  format?: "rgba8unorm" | "rg8unorm";
+  /**
+   * Texture filter used when sampling atlases.
+   *
+   * Defaults to "nearest", which keeps output stable across platforms for snapshot tests.
+   */
+  filter?: SamplerFilter;
+};
+
+/**
+ * A CPU implementation of the render backend that rasterizes quads into an RGBA8 framebuffer.
+ *
+ * It draws the same instance data as the gpu backends, which makes it useful for golden-image
+ * tests that run without a GPU or a canvas. Use {@link SoftwareBackend.readPixels} or
+ * {@link SoftwareBackend.toPNG} to inspect the last rendered frame.
+ *
+ * Text is not rasterized by the software backend.
+ */
+export class SoftwareBackend implements IRenderBackend {
+  readonly type = "software" as const;
+  readonly limits: Limits;
+  readonly atlasSize: Size;
+  readonly defaultAtlasId = "default";
+  readonly filter: SamplerFilter;
+
+  #atlases = new Map<string, ITextureAtlas>();
+  #screen: Framebuffer = {
+    width: 1,
+    height: 1,
+    pixels: new Uint8ClampedArray(4),
+  };
+  // the framebuffer of the current frame, either the screen or a render target
+  #framebuffer: Framebuffer = this.#screen;
+  #target: FrameTarget | null = null;
+  #viewport: Viewport | null = null;
+  #engineUniform: EngineUniform | null = null;
+  #isFrameActive = false;
+
+  private constructor(limits: Limits, filter: SamplerFilter) {
+    this.limits = limits;
+    this.filter = filter;
+    this.atlasSize = {
+      width: limits.textureSize,
+      height: limits.textureSize,
+    };
+  }
+
+  /**
+   * Create a software backend. No canvas or GPU is required.
+   */
+  static async create(
+    options: SoftwareBackendOptions = {},
+  ): Promise<SoftwareBackend> {
+    const limits: Limits = {
+      ...DEFAULT_LIMITS,
+      ...options.limits,
+    };
+
+    const backend = new SoftwareBackend(limits, options.filter ?? "nearest");
+
+    // Create the default texture atlas
+    backend.createTextureAtlas("default", {
+      format: options.format ?? "rgba8unorm",
+      layers: limits.textureArrayLayers,
+      size: limits.textureSize,
+    });
+
+    return backend;
+  }
+
+  startFrame(
+    clearColor: Color,
+    loadOp: "clear" | "load",
+    target?: FrameTarget,
+  ): void {
+    this.#isFrameActive = true;
+    this.#target = target ?? null;
+    this.#viewport = null;
+    this.#framebuffer = target
+      ? this.#createTargetFramebuffer(target, loadOp)
+      : this.#screen;
+    if (loadOp !== "clear") return;
+
+    const pixels = this.#framebuffer.pixels;
+    const r = clearColor.r * 255;
+    const g = clearColor.g * 255;
+    const b = clearColor.b * 255;
+    const a = clearColor.a * 255;
+    for (let i = 0; i < pixels.length; i += 4) {
+      pixels[i] = r;
+      pixels[i + 1] = g;
+      pixels[i + 2] = b;
+      pixels[i + 3] = a;
+    }
+  }
+
+  setViewport(viewport: Viewport | null): void {
+    this.#viewport = viewport && { ...viewport };
+  }
+
+  endFrame(): void {
+    assert(
+      this.#isFrameActive,
+      "No frame in progress - did you call startFrame?",
+    );
+    this.#isFrameActive = false;
+
+    if (this.#target) {
+      const textures = this.#renderTargetTextures(this.#target.atlasId);
+      textures.layers[0] ??= new Uint8ClampedArray(
+        textures.size * textures.size * 4,
+      );
+      const { pixels, width, height } = this.#framebuffer;
+      copyRows(pixels, width, height, textures.layers[0], textures.size);
+      this.#target = null;
+      this.#framebuffer = this.#screen;
+    }
+  }
+
+  /** The software backend has no GPU to measure */
+  takeGpuTime(): null {
+    return null;
+  }
+
+  updateEngineUniform(uniform: EngineUniform): void {
+    this.#engineUniform = uniform;
+  }
+
+  async uploadAtlas(
+    atlas: CpuTextureAtlas,
+    layerIndex: number,
+    atlasId?: string,
+  ): Promise<void> {
+    const targetAtlas = this.getTextureAtlas(atlasId ?? "default");
+    assert(targetAtlas, `Atlas "${atlasId ?? "default"}" not found`);
+    assert(
+      layerIndex >= 0 && layerIndex < targetAtlas.layers,
+      `Layer ${layerIndex} is out of range for atlas "${targetAtlas.id}"`,
+    );
+
+    const textures = targetAtlas.handle as SoftwareTextureArray;
+    const size = textures.size;
+    const layer = new Uint8ClampedArray(size * size * 4);
+
+    if (atlas.pixels) {
+      copyRows(atlas.pixels, atlas.width, atlas.height, layer, size);
+    } else if (atlas.rg8Bytes) {
+      // Expand RG8 to RGBA8 the same way the gpu samples an rg8unorm texture
+      const texelCount = Math.min(size * size, atlas.rg8Bytes.length / 2);
+      for (let i = 0; i < texelCount; i++) {
+        layer[i * 4] = atlas.rg8Bytes[i * 2];
+        layer[i * 4 + 1] = atlas.rg8Bytes[i * 2 + 1];
+        layer[i * 4 + 3] = 255;
+      }
+    } else {
+      const pixels = readImageBitmap(atlas.texture);
+      copyRows(pixels, atlas.texture.width, atlas.texture.height, layer, size);
+    }
+
+    textures.layers[layerIndex] = layer;
+  }
+
+  createQuadShader(opts: QuadShaderCreationOpts): IBackendShader {
+    return new SoftwareQuadShader(
+      opts.label,
+      this,
+      opts.instanceCount,
+      opts.userCode,
+      opts.blendMode,
+      opts.atlasId,
+      opts,
+    );
+  }
+
+  createTextureAtlas(id: string, options?: TextureAtlasOptions): ITextureAtlas {
+    if (this.#atlases.has(id)) {
+      throw new Error(`Atlas "${id}" already exists`);
+    }
+
+    const format: TextureAtlasFormat = options?.format ?? "rgba8unorm";
+    const layers = options?.layers ?? this.limits.textureArrayLayers;
+    const size = options?.size ?? this.limits.textureSize;
+
+    // layers are allocated lazily on upload since most atlases only use a few of them
+    const handle: SoftwareTextureArray = {
+      size,
+      format,
+      layers: new Array(layers).fill(null),
+    };
+
+    const atlas: ITextureAtlas = { id, format, layers, size, handle };
+    this.#atlases.set(id, atlas);
+    return atlas;
+  }
+
+  createRenderTarget(id: string, size: number): ITextureAtlas {
+    return this.createTextureAtlas(id, { layers: 1, size });
+  }
+
+  getTextureAtlas(id?: string): ITextureAtlas | null {
+    return this.#atlases.get(id ?? "default") ?? null;
+  }
+
+  destroyTextureAtlas(id: string): void {
+    this.#atlases.delete(id);
+  }
+
+  resize(width: number, height: number): void {
+    const w = Math.max(1, Math.round(width));
+    const h = Math.max(1, Math.round(height));
+    if (w === this.#screen.width && h === this.#screen.height) {
+      return;
+    }
+    const isDrawingToScreen = this.#framebuffer === this.#screen;
+    this.#screen = {
+      width: w,
+      height: h,
+      pixels: new Uint8ClampedArray(w * h * 4),
+    };
+    if (isDrawingToScreen) this.#framebuffer = this.#screen;
+  }
+
+  destroy(): void {
+    this.#atlases.clear();
+  }
+
+  /**
+   * Read back the pixels of the framebuffer.
+   *
+   * @returns A copy of the RGBA8 pixel data, rows stored top to bottom
+   */
+  readPixels(): Uint8ClampedArray<ArrayBuffer> {
+    return this.#screen.pixels.slice();
+  }
+
+  /**
+   * Encode the framebuffer as a PNG file, e.g. for writing snapshots to disk.
+   *
+   * @returns The bytes of the PNG file
+   */
+  toPNG(): Uint8Array<ArrayBuffer> {
+    const { pixels, width, height } = this.#screen;
+    return encodePng(pixels, width, height);
+  }
+
+  /**
+   * Width of the framebuffer in pixels.
+   */
+  get width(): number {
+    return this.#screen.width;
+  }
+
+  /**
+   * Height of the framebuffer in pixels.
+   */
+  get height(): number {
+    return this.#screen.height;
+  }
+
+  /**
+   * The framebuffer that shaders draw into. Called by the software backend shaders.
+   */
+  get framebuffer(): Framebuffer {
+    assert(
+      this.#isFrameActive,
+      "Tried to draw outside of a frame - did you call startFrame?",
+    );
+    return this.#framebuffer;
+  }
+
+  /**
+   * The rectangle of the framebuffer that draws are mapped to, in pixels. Called by the software backend shaders.
+   */
+  get viewport(): PixelRect {
+    const { width, height } = this.#framebuffer;
+    const viewport = this.#viewport;
+    if (!viewport) return { x: 0, y: 0, width, height };
+
+    // round the edges rather than the size so adjacent viewports don't overlap or leave gaps
+    const x = Math.round(viewport.x * width);
+    const y = Math.round(viewport.y * height);
+    return {
+      x,
+      y,
+      width: Math.round((viewport.x + viewport.width) * width) - x,
+      height: Math.round((viewport.y + viewport.height) * height) - y,
+    };
+  }
+
+  /**
+   * Read back the pixels of a render target.
+   *
+   * @param id - The id of the render target atlas
+   * @returns A copy of the RGBA8 pixel data of the whole atlas, rows stored top to bottom
+   */
+  readRenderTarget(id: string): Uint8ClampedArray<ArrayBuffer> {
+    const textures = this.#renderTargetTextures(id);
+    return (
+      textures.layers[0]?.slice() ??
+      new Uint8ClampedArray(textures.size * textures.size * 4)
+    );
+  }
+
+  #renderTargetTextures(id: string): SoftwareTextureArray {
+    const atlas = this.getTextureAtlas(id);
+    assert(atlas, `Render target "${id}" not found`);
+    return atlas.handle as SoftwareTextureArray;
+  }
+
+  #createTargetFramebuffer(
+    target: FrameTarget,
+    loadOp: "clear" | "load",
+  ): Framebuffer {
+    const { width, height } = target;
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    const textures = this.#renderTargetTextures(target.atlasId);
+    const layer = textures.layers[0];
+    if (loadOp === "load" && layer) {
+      for (let y = 0; y < height; y++) {
+        const start = y * textures.size * 4;
+        pixels.set(layer.subarray(start, start + width * 4), y * width * 4);
+      }
+    }
+    return { width, height, pixels };
+  }
+
+  /**
+   * The engine uniform passed to the most recent updateEngineUniform.
+   */
+  get engineUniform(): EngineUniform | null {
+    return this.#engineUniform;
+  }
+}
+
+function copyRows(
+  source: Uint8ClampedArray,
+  width: number,
+  height: number,
+  target: Uint8ClampedArray,
+  size: number,
+) {
+  const rowBytes = Math.min(width, size) * 4;
+  for (let y = 0; y < Math.min(height, size); y++) {
+    const start = y * width * 4;
+    target.set(source.subarray(start, start + rowBytes), y * size * 4);
+  }
+}
+
+function readImageBitmap(bitmap: ImageBitmap): Uint8ClampedArray {
+  if (typeof OffscreenCanvas === "undefined") {
+    throw new Error(
+      "SoftwareBackend needs OffscreenCanvas to read ImageBitmap atlases. Provide raw `pixels` on the CpuTextureAtlas instead.",
+    );
+  }
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext("2d");
+  assert(context, "Failed to get 2d context to read atlas pixels");
+  context.drawImage(bitmap, 0, 0);
+  return context.getImageData(0, 0, bitmap.width, bitmap.height).data;
+}
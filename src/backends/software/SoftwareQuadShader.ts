@@ -0,0 +1,149 @@
+import type { EngineUniform } from "../../coreTypes/EngineUniform";
+import type { SceneNode } from "../../scene/SceneNode";
+import { assert } from "../../utils/assert";
+import { warnOnce } from "../../utils/error";
+import type { IBackendShader, IStaticInstanceBuffer } from "../IBackendShader";
+import type { BlendMode } from "../IRenderBackend";
+import type { ITextureAtlas } from "../ITextureAtlas";
+import { writeInstances } from "../instanceBuffer";
+import { drawWithOverflow, type OverflowOptions } from "../overflow";
+import { snapInstances } from "../pixelSnap";
+import { INSTANCE_FLOATS } from "../quadInstance";
+import { writeStaticInstances } from "../staticBuffer";
+import { rasterizeQuadInstance, type SoftwareTextureArray } from "./rasterizer";
+import type { SoftwareBackend } from "./SoftwareBackend";
+
+// matches the default blend state of the gpu quad shaders
+const defaultBlendMode: BlendMode = {
+  color: {
+    srcFactor: "src-alpha",
+    dstFactor: "one-minus-src-alpha",
+    operation: "add",
+  },
+  alpha: {
+    srcFactor: "one",
+    dstFactor: "one-minus-src-alpha",
+    operation: "add",
+  },
+};
+
+/**
+ * Software implementation of the quad shader. Rasterizes instances on the CPU.
+ *
+ * Custom shader code can't be run on the CPU, so quads are always drawn with the
+ * default fragment shader.
+ */
+export class SoftwareQuadShader implements IBackendShader {
+  readonly label: string;
+  readonly code: string;
+
+  #backend: SoftwareBackend;
+  #atlas: ITextureAtlas;
+  #blendMode: BlendMode;
+  #cpuBuffer: Float32Array<ArrayBuffer>;
+  #instanceCount: number;
+  #overflow: OverflowOptions;
+  #uniform: EngineUniform | null = null;
+
+  constructor(
+    label: string,
+    backend: SoftwareBackend,
+    instanceCount: number,
+    userCode?: string,
+    blendMode?: BlendMode,
+    atlasId?: string,
+    overflow: OverflowOptions = {},
+  ) {
+    const atlas = backend.getTextureAtlas(atlasId ?? "default");
+    if (!atlas) {
+      throw new Error(`Atlas "${atlasId ?? "default"}" not found`);
+    }
+
+    if (userCode) {
+      warnOnce(
+        "software-shader-code",
+        `Custom shader code is ignored by the software backend, ${label} will be drawn with the default shader`,
+      );
+    }
+
+    this.label = label;
+    this.code = userCode ?? "";
+    this.#backend = backend;
+    this.#atlas = atlas;
+    this.#blendMode = blendMode ?? defaultBlendMode;
+    this.#instanceCount = instanceCount;
+    this.#overflow = overflow;
+    this.#cpuBuffer = new Float32Array(instanceCount * INSTANCE_FLOATS);
+  }
+
+  startFrame(uniform: EngineUniform): void {
+    this.#uniform = uniform;
+  }
+
+  processBatch(nodes: SceneNode[]): number {
+    const { data, instanceCount } = writeInstances(
+      nodes,
+      INSTANCE_FLOATS,
+      this.#cpuBuffer,
+    );
+    this.#cpuBuffer = data;
+    if (this.#uniform?.pixelSnap) {
+      snapInstances(
+        data,
+        0,
+        instanceCount,
+        INSTANCE_FLOATS,
+        this.#uniform.pixelSnap,
+      );
+    }
+
+    return drawWithOverflow(
+      instanceCount,
+      this.#instanceCount,
+      this.label,
+      this.#overflow,
+      (first, count) =>
+        this.#rasterize(data.subarray(first * INSTANCE_FLOATS), count),
+      (capacity) => {
+        this.#instanceCount = capacity;
+      },
+    );
+  }
+
+  createStaticBuffer(nodes: SceneNode[]): IStaticInstanceBuffer {
+    const { instanceCount, snapped } = writeStaticInstances(
+      nodes,
+      INSTANCE_FLOATS,
+    );
+    return {
+      instanceCount,
+      draw: () => {
+        this.#rasterize(snapped(this.#uniform?.pixelSnap), instanceCount);
+        return 1;
+      },
+      destroy: () => {},
+    };
+  }
+
+  #rasterize(instances: Float32Array, instanceCount: number) {
+    const uniform = this.#uniform;
+    assert(uniform, "Tried to draw but engine uniform is not set");
+
+    const state = {
+      target: this.#backend.framebuffer,
+      viewport: this.#backend.viewport,
+      viewProjection: uniform.viewProjectionMatrix,
+      resolution: uniform.resolution,
+      textures: this.#atlas.handle as SoftwareTextureArray,
+      blendMode: this.#blendMode,
+      filter: this.#backend.filter,
+    };
+    for (let i = 0; i < instanceCount; i++) {
+      rasterizeQuadInstance(state, instances, i * INSTANCE_FLOATS);
+    }
+  }
+
+  endFrame(): void {
+    // Nothing to do
+  }
+}
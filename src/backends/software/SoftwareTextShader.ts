@@ -0,0 +1,41 @@
+import type { EngineUniform } from "../../coreTypes/EngineUniform";
+import type { SceneNode } from "../../scene/SceneNode";
+import type { MsdfFont } from "../../text/MsdfFont";
+import { warnOnce } from "../../utils/error";
+import type { ITextShader } from "../ITextShader";
+
+/**
+ * Software implementation of the text shader.
+ *
+ * MSDF text is not rasterized by the software backend yet, so fonts can be loaded for
+ * measurement and layout but text nodes are skipped when drawing.
+ */
+export class SoftwareTextShader implements ITextShader {
+  readonly label = "text";
+  readonly code = "";
+  readonly font: MsdfFont;
+  readonly maxCharCount: number;
+
+  constructor(font: MsdfFont, maxCharCount: number) {
+    this.font = font;
+    this.maxCharCount = maxCharCount;
+  }
+
+  startFrame(_uniform: EngineUniform): void {
+    // Nothing to do
+  }
+
+  processBatch(nodes: SceneNode[]): number {
+    if (nodes.length === 0) return 0;
+
+    warnOnce(
+      "software-text",
+      "Text is not rendered by the software backend, text nodes will be skipped",
+    );
+    return 0;
+  }
+
+  endFrame(): void {
+    // No cleanup needed
+  }
+}
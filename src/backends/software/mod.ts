@@ -0,0 +1,8 @@
+export { encodePng } from "./png";
+export type { SamplerFilter } from "./rasterizer";
+export {
+  SoftwareBackend,
+  type SoftwareBackendOptions,
+} from "./SoftwareBackend";
+export { SoftwareQuadShader } from "./SoftwareQuadShader";
+export { SoftwareTextShader } from "./SoftwareTextShader";
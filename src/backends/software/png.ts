@@ -0,0 +1,137 @@
+// Minimal dependency-free PNG encoder for exporting software backend frames.
+//
+// Pixel data is written with uncompressed (stored) deflate blocks, which keeps the encoder
+// small and synchronous at the cost of file size. Output is deterministic for the same pixels,
+// which makes it suitable for checked-in snapshots.
+// see: https://www.w3.org/TR/png/ and https://www.rfc-editor.org/rfc/rfc1950
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// the maximum length of a single stored deflate block
+const MAX_STORED_BLOCK = 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Encode RGBA8 pixels as a PNG file.
+ *
+ * @param pixels - RGBA8 pixel data, rows stored top to bottom
+ * @param width - Width of the image in pixels
+ * @param height - Height of the image in pixels
+ * @returns The bytes of the PNG file
+ */
+export function encodePng(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+): Uint8Array<ArrayBuffer> {
+  if (pixels.length !== width * height * 4) {
+    throw new Error(
+      `Expected ${width * height * 4} bytes of rgba data for a ${width}x${height} image, got ${pixels.length}`,
+    );
+  }
+
+  // each scanline is prefixed with a filter type byte, 0 = no filter
+  const rowBytes = width * 4 + 1;
+  const raw = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(
+      pixels.subarray(y * width * 4, (y + 1) * width * 4),
+      y * rowBytes + 1,
+    );
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: truecolor with alpha
+  header[10] = 0; // compression method
+  header[11] = 0; // filter method
+  header[12] = 0; // interlace method
+
+  const chunks = [
+    createChunk("IHDR", header),
+    createChunk("IDAT", zlibStore(raw)),
+    createChunk("IEND", new Uint8Array(0)),
+  ];
+
+  const length =
+    PNG_SIGNATURE.length + chunks.reduce((sum, c) => sum + c.length, 0);
+  const png = new Uint8Array(length);
+  png.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
+
+function createChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  // the crc covers the chunk type and data but not the length
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+function zlibStore(data: Uint8Array) {
+  const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + blockCount * 5 + data.length + 4);
+  const view = new DataView(out.buffer);
+
+  // zlib header: deflate with a 32k window, no preset dictionary, fastest compression
+  out[0] = 0x78;
+  out[1] = 0x01;
+
+  let offset = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, data.length - start);
+    const isFinal = block === blockCount - 1;
+
+    out[offset] = isFinal ? 1 : 0;
+    view.setUint16(offset + 1, length, true);
+    view.setUint16(offset + 3, ~length & 0xffff, true);
+    out.set(data.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+
+  view.setUint32(offset, adler32(data));
+  return out;
+}
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array) {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
@@ -0,0 +1,338 @@
+import { type Mat3, mat3 } from "wgpu-matrix";
+import type { Size } from "../../coreTypes/Size";
+import type { BlendFactor, BlendMode, BlendOperation } from "../IRenderBackend";
+import type { TextureAtlasFormat } from "../ITextureAtlas";
+import {
+  CIRCLE_INDEX,
+  INSTANCE_FLOATS,
+  RECT_INDEX,
+  ROTATED_FLAG,
+} from "../quadInstance";
+
+// cpu-side port of the default quad shader in quad.wgsl.ts / quad.glsl.ts.
+// everything in here should stay in sync with the gpu shaders so that
+// frames rendered by the software backend match what the gpu would draw.
+
+/**
+ * An RGBA8 pixel buffer. Rows are stored top to bottom.
+ */
+export type Framebuffer = {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray<ArrayBuffer>;
+};
+
+/**
+ * CPU-side texture array backing a software texture atlas.
+ * Every layer is stored as RGBA8 regardless of the atlas format.
+ */
+export type SoftwareTextureArray = {
+  size: number;
+  format: TextureAtlasFormat;
+  /** null for layers that have never been uploaded, which sample as transparent black */
+  layers: (Uint8ClampedArray<ArrayBuffer> | null)[];
+};
+
+export type SamplerFilter = "nearest" | "linear";
+
+/**
+ * A rectangle of a framebuffer in whole pixels, with the origin at the top left.
+ */
+export type PixelRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type RasterState = {
+  target: Framebuffer;
+  /** The pixels of the target to map clip space to. Nothing is drawn outside of them */
+  viewport: PixelRect;
+  viewProjection: Mat3;
+  /** logical resolution, used for resolution-dependent effects like circle edges */
+  resolution: Size;
+  textures: SoftwareTextureArray;
+  blendMode: BlendMode;
+  filter: SamplerFilter;
+};
+
+// scratch space to avoid allocating per instance
+const modelViewProjection = mat3.create();
+const src = new Float64Array(4);
+const texel = new Float64Array(4);
+
+/**
+ * Rasterize a single quad instance as written by `writeInstance` into the target framebuffer.
+ *
+ * @param state - The render target, uniforms and textures to draw with
+ * @param instance - Instance data in the layout described by {@link INSTANCE_FLOATS}
+ * @param offset - Float offset of the instance in the instance array
+ */
+export function rasterizeQuadInstance(
+  state: RasterState,
+  instance: Float32Array,
+  offset: number,
+) {
+  const { target, viewport } = state;
+  const flaggedIndex = new DataView(
+    instance.buffer,
+    instance.byteOffset,
+  ).getUint32((offset + 24) * Float32Array.BYTES_PER_ELEMENT, true);
+  const isRotated = (flaggedIndex & ROTATED_FLAG) !== 0;
+  const atlasIndex = (flaggedIndex & ~ROTATED_FLAG) >>> 0;
+
+  const model = instance.subarray(offset, offset + 12);
+  mat3.mul(state.viewProjection, model, modelViewProjection);
+
+  const uvOffsetX = instance[offset + 16];
+  const uvOffsetY = instance[offset + 17];
+  const uvScaleX = instance[offset + 18];
+  const uvScaleY = instance[offset + 19];
+  const cropOffsetX = instance[offset + 20];
+  const cropOffsetY = instance[offset + 21];
+  const cropScaleX = instance[offset + 22];
+  const cropScaleY = instance[offset + 23];
+
+  // the quad is an affine transform of the unit square, so every pixel can be expressed
+  // as origin + s * edgeS + t * edgeT where (s, t) are the original uvs of the quad
+  const toPixel = (s: number, t: number) => {
+    // see enginePosLookup and engineUvLookup in quad.wgsl.ts
+    const x = (s - 0.5) * cropScaleX + cropOffsetX;
+    const y = (0.5 - t) * cropScaleY + cropOffsetY;
+    const m = modelViewProjection;
+    const clipX = m[0] * x + m[4] * y + m[8];
+    const clipY = m[1] * x + m[5] * y + m[9];
+    return [
+      viewport.x + ((clipX + 1) * viewport.width) / 2,
+      viewport.y + ((1 - clipY) * viewport.height) / 2,
+    ];
+  };
+
+  const [originX, originY] = toPixel(0, 0);
+  const [sx, sy] = toPixel(1, 0);
+  const [tx, ty] = toPixel(0, 1);
+  const [ox, oy] = toPixel(1, 1);
+  const edgeSX = sx - originX;
+  const edgeSY = sy - originY;
+  const edgeTX = tx - originX;
+  const edgeTY = ty - originY;
+
+  const det = edgeSX * edgeTY - edgeSY * edgeTX;
+  if (Math.abs(det) < 1e-12) return;
+
+  const minX = Math.max(viewport.x, Math.floor(Math.min(originX, sx, tx, ox)));
+  const maxX = Math.min(
+    viewport.x + viewport.width,
+    Math.ceil(Math.max(originX, sx, tx, ox)),
+  );
+  const minY = Math.max(viewport.y, Math.floor(Math.min(originY, sy, ty, oy)));
+  const maxY = Math.min(
+    viewport.y + viewport.height,
+    Math.ceil(Math.max(originY, sy, ty, oy)),
+  );
+
+  for (let py = minY; py < maxY; py++) {
+    const dy = py + 0.5 - originY;
+    for (let px = minX; px < maxX; px++) {
+      const dx = px + 0.5 - originX;
+      const s = (dx * edgeTY - dy * edgeTX) / det;
+      const t = (edgeSX * dy - edgeSY * dx) / det;
+      if (s < 0 || s >= 1 || t < 0 || t >= 1) continue;
+
+      // see atlas_uv in quad.wgsl.ts
+      const u = isRotated
+        ? -t * uvScaleX * cropScaleY + uvOffsetX
+        : s * uvScaleX * cropScaleX + uvOffsetX;
+      const v = isRotated
+        ? s * uvScaleY * cropScaleX + uvOffsetY
+        : t * uvScaleY * cropScaleY + uvOffsetY;
+      shadeFragment(state, instance, offset, atlasIndex, s, t, u, v);
+
+      if (src[3] <= 0 && isSourceOver(state.blendMode)) continue;
+      blendPixel(target, (py * target.width + px) * 4, state.blendMode);
+    }
+  }
+}
+
+function shadeFragment(
+  state: RasterState,
+  instance: Float32Array,
+  offset: number,
+  atlasIndex: number,
+  s: number,
+  t: number,
+  u: number,
+  v: number,
+) {
+  const tintR = instance[offset + 12];
+  const tintG = instance[offset + 13];
+  const tintB = instance[offset + 14];
+  const tintA = instance[offset + 15];
+
+  if (atlasIndex === RECT_INDEX) {
+    // rectangle - return a solid color
+    src[0] = tintR;
+    src[1] = tintG;
+    src[2] = tintB;
+    src[3] = tintA;
+    return;
+  }
+
+  if (atlasIndex === CIRCLE_INDEX) {
+    // edge width is 4 logical pixels
+    const edgeWidth =
+      4 / Math.max(state.resolution.width, state.resolution.height);
+    // distance from center of the quad ranging from [0,1]
+    const centerDistance = 2 * Math.hypot(s - 0.5, t - 0.5);
+    const alpha = 1 - smoothstep(1 - edgeWidth, 1 + edgeWidth, centerDistance);
+    src[0] = tintR;
+    src[1] = tintG;
+    src[2] = tintB;
+    src[3] = alpha * tintA;
+    return;
+  }
+
+  sampleTexture(state.textures, atlasIndex, u, v, state.filter);
+  src[0] = texel[0] * tintR;
+  src[1] = texel[1] * tintG;
+  src[2] = texel[2] * tintB;
+  src[3] = texel[3] * tintA;
+}
+
+/**
+ * Sample a texture array layer with clamp-to-edge addressing, writing normalized rgba into `texel`.
+ */
+function sampleTexture(
+  textures: SoftwareTextureArray,
+  layer: number,
+  u: number,
+  v: number,
+  filter: SamplerFilter,
+) {
+  const data = textures.layers[layer];
+  if (!data) {
+    texel.fill(0);
+    return;
+  }
+
+  const size = textures.size;
+  if (filter === "nearest") {
+    const x = clampTexel(Math.floor(u * size), size);
+    const y = clampTexel(Math.floor(v * size), size);
+    const i = (y * size + x) * 4;
+    for (let c = 0; c < 4; c++) texel[c] = data[i + c] / 255;
+    return;
+  }
+
+  const fx = u * size - 0.5;
+  const fy = v * size - 0.5;
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const wx = fx - x0;
+  const wy = fy - y0;
+  const left = clampTexel(x0, size);
+  const right = clampTexel(x0 + 1, size);
+  const top = clampTexel(y0, size);
+  const bottom = clampTexel(y0 + 1, size);
+
+  const i00 = (top * size + left) * 4;
+  const i10 = (top * size + right) * 4;
+  const i01 = (bottom * size + left) * 4;
+  const i11 = (bottom * size + right) * 4;
+  for (let c = 0; c < 4; c++) {
+    const upper = data[i00 + c] * (1 - wx) + data[i10 + c] * wx;
+    const lower = data[i01 + c] * (1 - wx) + data[i11 + c] * wx;
+    texel[c] = (upper * (1 - wy) + lower * wy) / 255;
+  }
+}
+
+function blendPixel(target: Framebuffer, index: number, mode: BlendMode) {
+  const pixels = target.pixels;
+  const srcA = src[3];
+  const dstA = pixels[index + 3] / 255;
+
+  for (let c = 0; c < 3; c++) {
+    pixels[index + c] =
+      applyBlend(
+        src[c],
+        pixels[index + c] / 255,
+        blendFactor(mode.color.srcFactor, srcA, dstA),
+        blendFactor(mode.color.dstFactor, srcA, dstA),
+        mode.color.operation,
+      ) * 255;
+  }
+
+  pixels[index + 3] =
+    applyBlend(
+      srcA,
+      dstA,
+      blendFactor(mode.alpha.srcFactor, srcA, dstA),
+      blendFactor(mode.alpha.dstFactor, srcA, dstA),
+      mode.alpha.operation,
+    ) * 255;
+}
+
+function blendFactor(factor: BlendFactor, srcA: number, dstA: number) {
+  switch (factor) {
+    case "one":
+      return 1;
+    case "zero":
+      return 0;
+    case "src-alpha":
+      return srcA;
+    case "one-minus-src-alpha":
+      return 1 - srcA;
+    case "dst-alpha":
+      return dstA;
+    case "one-minus-dst-alpha":
+      return 1 - dstA;
+    default:
+      throw new Error(`Unknown blend factor: ${factor}`);
+  }
+}
+
+function applyBlend(
+  srcValue: number,
+  dstValue: number,
+  srcFactor: number,
+  dstFactor: number,
+  operation: BlendOperation,
+) {
+  // blending happens in normalized space and the result is clamped like an rgba8unorm target
+  const srcTerm = Math.min(1, Math.max(0, srcValue)) * srcFactor;
+  const dstTerm = dstValue * dstFactor;
+  switch (operation) {
+    case "add":
+      return srcTerm + dstTerm;
+    case "subtract":
+      return srcTerm - dstTerm;
+    case "reverse-subtract":
+      return dstTerm - srcTerm;
+    default:
+      throw new Error(`Unknown blend operation: ${operation}`);
+  }
+}
+
+/**
+ * Whether a fully transparent source leaves the destination untouched for this blend mode,
+ * which lets us skip the blend entirely.
+ */
+function isSourceOver(mode: BlendMode) {
+  return (
+    mode.color.srcFactor === "src-alpha" &&
+    mode.color.dstFactor === "one-minus-src-alpha" &&
+    mode.color.operation === "add" &&
+    mode.alpha.dstFactor === "one-minus-src-alpha" &&
+    mode.alpha.operation === "add"
+  );
+}
+
+function smoothstep(edge0: number, edge1: number, x: number) {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+function clampTexel(value: number, size: number) {
+  return Math.min(size - 1, Math.max(0, value));
+}
@@ -0,0 +1,45 @@
+import type { SceneNode } from "../scene/SceneNode";
+import { writeInstances } from "./instanceBuffer";
+import { snapInstances } from "./pixelSnap";
+
+export type StaticInstances = {
+  data: Float32Array<ArrayBuffer>;
+  instanceCount: number;
+  /**
+   * The instances to draw with the pixel snap of a frame, see {@link EngineUniform.pixelSnap}.
+   * Returns the unsnapped data without pixel snap, and the same snapped copy until the pixel snap changes,
+   * so shaders only need to upload the instances again when the returned array changes.
+   */
+  snapped(pixelSnap: number | null | undefined): Float32Array<ArrayBuffer>;
+};
+
+/**
+ * Write the instances of nodes into a tightly sized buffer for a static instance buffer.
+ *
+ * @param nodes - The nodes to write, in draw order
+ * @param floatsPerInstance - The instance stride of the shader in floats
+ */
+export function writeStaticInstances(
+  nodes: SceneNode[],
+  floatsPerInstance: number,
+): StaticInstances {
+  const written = writeInstances(nodes, floatsPerInstance);
+  const instanceCount = written.instanceCount;
+  const data = written.data.slice(0, instanceCount * floatsPerInstance);
+
+  let snapped: Float32Array<ArrayBuffer> | null = null;
+  let snappedTo = 0;
+  return {
+    data,
+    instanceCount,
+    snapped: (pixelSnap) => {
+      if (!pixelSnap) return data;
+      if (!snapped || snappedTo !== pixelSnap) {
+        snapped = data.slice();
+        snapInstances(snapped, 0, instanceCount, floatsPerInstance, pixelSnap);
+        snappedTo = pixelSnap;
+      }
+      return snapped;
+    },
+  };
+}
@@ -6,12 +6,13 @@ import { DEFAULT_LIMITS } from "../../limits";
 import type { CpuTextureAtlas } from "../../textures/types";
 import { assert } from "../../utils/assert";
 import type { IBackendShader, QuadShaderCreationOpts } from "../IBackendShader";
-import type { IRenderBackend } from "../IRenderBackend";
+import type { FrameTarget, IRenderBackend, Viewport } from "../IRenderBackend";
 import type {
   ITextureAtlas,
   TextureAtlasFormat,
   TextureAtlasOptions,
 } from "../ITextureAtlas";
+import { WebGLGpuTimer } from "./WebGLGpuTimer";
 import { WebGLQuadShader } from "./WebGLQuadShader";
 
 export type WebGLBackendOptions = {
@@ -29,8 +30,12 @@ export class WebGLBackend implements IRenderBackend {
   readonly defaultAtlasId = "default";
 
   #atlases = new Map<string, ITextureAtlas>();
+  #framebuffers = new Map<string, WebGLFramebuffer>();
   #gl: WebGL2RenderingContext;
   #canvas: HTMLCanvasElement;
+  #gpuTimer: WebGLGpuTimer | null;
+  #frameSize: Size = { width: 0, height: 0 };
+  #isTargetFrame = false;
 
   private constructor(
     gl: WebGL2RenderingContext,
@@ -39,6 +44,7 @@ export class WebGLBackend implements IRenderBackend {
   ) {
     this.#gl = gl;
     this.#canvas = canvas;
+    this.#gpuTimer = WebGLGpuTimer.create(gl);
     this.limits = limits;
     this.atlasSize = {
       width: limits.textureSize,
@@ -80,11 +86,31 @@ export class WebGLBackend implements IRenderBackend {
     return backend;
   }
 
-  startFrame(clearColor: Color, loadOp: "clear" | "load"): void {
+  startFrame(
+    clearColor: Color,
+    loadOp: "clear" | "load",
+    target?: FrameTarget,
+  ): void {
     const gl = this.#gl;
 
-    // Set viewport to canvas size
-    gl.viewport(0, 0, this.#canvas.width, this.#canvas.height);
+    this.#gpuTimer?.begin();
+
+    if (target) {
+      const framebuffer = this.#framebuffers.get(target.atlasId);
+      assert(framebuffer, `Render target "${target.atlasId}" not found`);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      this.#frameSize = { width: target.width, height: target.height };
+    } else {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      this.#frameSize = {
+        width: this.#canvas.width,
+        height: this.#canvas.height,
+      };
+    }
+    this.#isTargetFrame = !!target;
+    // the scissor test would also clip the clear
+    gl.disable(gl.SCISSOR_TEST);
+    gl.viewport(0, 0, this.#frameSize.width, this.#frameSize.height);
 
     if (loadOp === "clear") {
       gl.clearColor(clearColor.r, clearColor.g, clearColor.b, clearColor.a);
@@ -101,11 +127,43 @@ export class WebGLBackend implements IRenderBackend {
     );
   }
 
+  setViewport(viewport: Viewport | null): void {
+    const gl = this.#gl;
+    if (!viewport) {
+      gl.disable(gl.SCISSOR_TEST);
+      gl.viewport(0, 0, this.#frameSize.width, this.#frameSize.height);
+      return;
+    }
+
+    const { width, height } = this.#frameSize;
+    const x = Math.round(viewport.x * width);
+    const right = Math.round((viewport.x + viewport.width) * width);
+    let y = Math.round(viewport.y * height);
+    const bottom = Math.round((viewport.y + viewport.height) * height);
+    const h = bottom - y;
+    // the canvas has its origin at the bottom left. render targets are drawn upside down
+    // by their projection matrix, so their top rows are already at the bottom
+    if (!this.#isTargetFrame) {
+      y = height - bottom;
+    }
+
+    gl.viewport(x, y, right - x, h);
+    gl.scissor(x, y, right - x, h);
+    gl.enable(gl.SCISSOR_TEST);
+  }
+
   endFrame(): void {
     const gl = this.#gl;
+    this.#gpuTimer?.end();
+    gl.disable(gl.SCISSOR_TEST);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
     gl.flush();
   }
 
+  takeGpuTime(): number | null {
+    return this.#gpuTimer?.takeTime() ?? null;
+  }
+
   updateEngineUniform(_uniform: EngineUniform): void {
     // Uniforms are updated per-shader in WebGL, not at the backend level
   }
@@ -164,6 +222,7 @@ export class WebGLBackend implements IRenderBackend {
       opts.instanceCount,
       opts.userCode,
       opts.atlasId,
+      opts,
     );
   }
 
@@ -207,6 +266,43 @@ export class WebGLBackend implements IRenderBackend {
     return atlas;
   }
 
+  createRenderTarget(
+    id: string,
+    size: number,
+    filter: "nearest" | "linear" = "linear",
+  ): ITextureAtlas {
+    const gl = this.#gl;
+    const atlas = this.createTextureAtlas(id, { layers: 1, size });
+
+    if (filter === "nearest") {
+      gl.bindTexture(gl.TEXTURE_2D_ARRAY, atlas.handle as WebGLTexture);
+      gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+    }
+
+    const framebuffer = gl.createFramebuffer();
+    assert(framebuffer, "Failed to create WebGL framebuffer");
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTextureLayer(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      atlas.handle as WebGLTexture,
+      0, // mip level
+      0, // layer
+    );
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      gl.deleteFramebuffer(framebuffer);
+      this.destroyTextureAtlas(id);
+      throw new Error(`Render target "${id}" is incomplete: ${status}`);
+    }
+
+    this.#framebuffers.set(id, framebuffer);
+    return atlas;
+  }
+
   getTextureAtlas(id: string): ITextureAtlas | null {
     return this.#atlases.get(id) ?? null;
   }
@@ -217,6 +313,11 @@ export class WebGLBackend implements IRenderBackend {
       this.#gl.deleteTexture(atlas.handle as WebGLTexture);
       this.#atlases.delete(id);
     }
+    const framebuffer = this.#framebuffers.get(id);
+    if (framebuffer) {
+      this.#gl.deleteFramebuffer(framebuffer);
+      this.#framebuffers.delete(id);
+    }
   }
 
   /**
@@ -238,6 +339,11 @@ export class WebGLBackend implements IRenderBackend {
       gl.deleteTexture(atlas.handle as WebGLTexture);
     }
     this.#atlases.clear();
+    for (const framebuffer of this.#framebuffers.values()) {
+      gl.deleteFramebuffer(framebuffer);
+    }
+    this.#framebuffers.clear();
+    this.#gpuTimer?.destroy();
   }
 
   /**
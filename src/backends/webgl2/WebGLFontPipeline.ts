@@ -1,13 +1,13 @@
-import type { MsdfFont } from "../../text/MsdfFont";
+import { CHAR_STRIDE, type MsdfFont } from "../../text/MsdfFont";
 import { assert } from "../../utils/assert";
 
 /**
  * Manages WebGL font resources for MSDF text rendering.
  *
  * Creates and manages:
- * - Font atlas texture (MSDF image)
+ * - Font atlas texture (MSDF image, one layer per page)
  * - Character data texture (metrics as RGBA32F)
- * - Text buffer texture (per-glyph positions)
+ * - Text buffer texture (per-glyph positions, scales and colors)
  */
 export class WebGLFontPipeline {
   readonly font: MsdfFont;
@@ -45,25 +45,41 @@ export class WebGLFontPipeline {
     const fontTexture = gl.createTexture();
     assert(fontTexture, "Failed to create font texture");
 
-    gl.bindTexture(gl.TEXTURE_2D, fontTexture);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, fontTexture);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
 
-    // Upload the MSDF font image
-    gl.texImage2D(
-      gl.TEXTURE_2D,
-      0,
-      gl.RGBA,
-      gl.RGBA,
-      gl.UNSIGNED_BYTE,
-      font.imageBitmap,
+    // Upload the MSDF font image of each page to a layer
+    const { width, height } = font.pages[0];
+    gl.texStorage3D(
+      gl.TEXTURE_2D_ARRAY,
+      1,
+      gl.RGBA8,
+      width,
+      height,
+      font.pages.length,
     );
+    font.pages.forEach((page, layer) => {
+      gl.texSubImage3D(
+        gl.TEXTURE_2D_ARRAY,
+        0,
+        0,
+        0,
+        layer,
+        width,
+        height,
+        1,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        page,
+      );
+    });
 
     // Create character data texture (RGBA32F)
-    // Each character needs 8 floats = 2 RGBA texels
-    // charBuffer layout per char: texOffset.x, texOffset.y, texExtent.x, texExtent.y, size.x, size.y, offset.x, offset.y
+    // Each character needs 9 floats = 3 RGBA texels
+    // charBuffer layout per char: texOffset.x, texOffset.y, texExtent.x, texExtent.y, size.x, size.y, offset.x, offset.y, page
     const charDataTexture = gl.createTexture();
     assert(charDataTexture, "Failed to create char data texture");
 
@@ -73,15 +89,16 @@ export class WebGLFontPipeline {
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
 
-    // Convert charBuffer to texture format (2 texels per character)
+    // Convert charBuffer to texture format (3 texels per character)
     const charCount = font.charCount;
-    const charTextureWidth = charCount * 2; // 2 texels per char
+    const charTextureWidth = charCount * 3; // 3 texels per char
     const charTextureData = new Float32Array(charTextureWidth * 4); // 4 components per texel
 
     for (let i = 0; i < charCount; i++) {
-      const srcOffset = i * 8;
-      const dstOffset0 = i * 2 * 4; // First texel for this char
-      const dstOffset1 = (i * 2 + 1) * 4; // Second texel for this char
+      const srcOffset = i * CHAR_STRIDE;
+      const dstOffset0 = i * 3 * 4; // First texel for this char
+      const dstOffset1 = (i * 3 + 1) * 4; // Second texel for this char
+      const dstOffset2 = (i * 3 + 2) * 4; // Third texel for this char
 
       // Texel 0: texOffset.xy, texExtent.xy
       charTextureData[dstOffset0] = font.charBuffer[srcOffset]; // texOffset.x
@@ -94,6 +111,9 @@ export class WebGLFontPipeline {
       charTextureData[dstOffset1 + 1] = font.charBuffer[srcOffset + 5]; // size.y
       charTextureData[dstOffset1 + 2] = font.charBuffer[srcOffset + 6]; // offset.x
       charTextureData[dstOffset1 + 3] = font.charBuffer[srcOffset + 7]; // offset.y
+
+      // Texel 2: page
+      charTextureData[dstOffset2] = font.charBuffer[srcOffset + 8]; // page
     }
 
     gl.texImage2D(
@@ -109,7 +129,7 @@ export class WebGLFontPipeline {
     );
 
     // Create text buffer texture (RGBA32F)
-    // Each glyph needs 1 texel: xy = position, z = charIndex, w = unused
+    // Each glyph needs 2 texels: xy = position, z = charIndex, w = scale, then the color
     const textBufferTexture = gl.createTexture();
     assert(textBufferTexture, "Failed to create text buffer texture");
 
@@ -124,7 +144,7 @@ export class WebGLFontPipeline {
       gl.TEXTURE_2D,
       0,
       gl.RGBA32F,
-      maxCharCount,
+      maxCharCount * 2,
       1,
       0,
       gl.RGBA,
@@ -155,7 +175,7 @@ export class WebGLFontPipeline {
       0,
       0,
       0,
-      glyphCount,
+      glyphCount * 2,
       1,
       gl.RGBA,
       gl.FLOAT,
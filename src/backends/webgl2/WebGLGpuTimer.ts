@@ -0,0 +1,82 @@
+// EXT_disjoint_timer_query_webgl2 is not part of the typescript dom types
+// see: https://registry.khronos.org/webgl/extensions/EXT_disjoint_timer_query_webgl2/
+type TimerQueryExtension = {
+  readonly TIME_ELAPSED_EXT: number;
+  readonly GPU_DISJOINT_EXT: number;
+};
+
+/**
+ * Measures how long the GPU spends on a frame using EXT_disjoint_timer_query_webgl2.
+ *
+ * Only one query is in flight at a time, so frames that start while a result is still
+ * pending are not measured. Results arrive a few frames late.
+ */
+export class WebGLGpuTimer {
+  #gl: WebGL2RenderingContext;
+  #ext: TimerQueryExtension;
+  #query: WebGLQuery | null = null;
+  #isMeasuring = false;
+  #time: number | null = null;
+
+  private constructor(gl: WebGL2RenderingContext, ext: TimerQueryExtension) {
+    this.#gl = gl;
+    this.#ext = ext;
+  }
+
+  /**
+   * Create a timer if the extension is available.
+   */
+  static create(gl: WebGL2RenderingContext): WebGLGpuTimer | null {
+    const ext = gl.getExtension(
+      "EXT_disjoint_timer_query_webgl2",
+    ) as TimerQueryExtension | null;
+    return ext ? new WebGLGpuTimer(gl, ext) : null;
+  }
+
+  begin(): void {
+    this.#poll();
+    if (this.#query) return;
+
+    this.#query = this.#gl.createQuery();
+    this.#gl.beginQuery(this.#ext.TIME_ELAPSED_EXT, this.#query);
+    this.#isMeasuring = true;
+  }
+
+  end(): void {
+    if (!this.#isMeasuring) return;
+    this.#gl.endQuery(this.#ext.TIME_ELAPSED_EXT);
+    this.#isMeasuring = false;
+  }
+
+  /**
+   * The GPU time in milliseconds of the frame that resolved since the last call, or null if none did.
+   */
+  takeTime(): number | null {
+    this.#poll();
+    const time = this.#time;
+    this.#time = null;
+    return time;
+  }
+
+  destroy(): void {
+    if (this.#query) {
+      this.#gl.deleteQuery(this.#query);
+      this.#query = null;
+    }
+  }
+
+  #poll() {
+    const gl = this.#gl;
+    const query = this.#query;
+    if (!query || this.#isMeasuring) return;
+    if (!gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)) return;
+
+    // results are invalid if the gpu was disjoint, e.g. due to a power state change
+    if (!gl.getParameter(this.#ext.GPU_DISJOINT_EXT)) {
+      const nanoseconds: number = gl.getQueryParameter(query, gl.QUERY_RESULT);
+      this.#time = nanoseconds / 1e6;
+    }
+    gl.deleteQuery(query);
+    this.#query = null;
+  }
+}
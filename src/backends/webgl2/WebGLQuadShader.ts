@@ -1,14 +1,16 @@
 import type { EngineUniform } from "../../coreTypes/EngineUniform";
 import type { SceneNode } from "../../scene/SceneNode";
 import { assert } from "../../utils/assert";
-import type { IBackendShader } from "../IBackendShader";
+import type { IBackendShader, IStaticInstanceBuffer } from "../IBackendShader";
 import type { ITextureAtlas } from "../ITextureAtlas";
+import { writeInstances } from "../instanceBuffer";
+import { drawWithOverflow, type OverflowOptions } from "../overflow";
+import { snapInstances } from "../pixelSnap";
+import { INSTANCE_FLOATS } from "../quadInstance";
+import { writeStaticInstances } from "../staticBuffer";
 import { fragmentShader, vertexShader } from "./glsl/quad.glsl";
 import type { WebGLBackend } from "./WebGLBackend";
 
-// Instance data size in floats (must match WGSL shader)
-// model (12) + tint (4) + uvOffsetAndScale (4) + cropOffsetAndScale (4) + atlasIndex (1) + padding (3) = 28
-const INSTANCE_FLOATS = 28;
 const INSTANCE_BYTES = INSTANCE_FLOATS * Float32Array.BYTES_PER_ELEMENT;
 
 /**
@@ -23,9 +25,9 @@ export class WebGLQuadShader implements IBackendShader {
   #program: WebGLProgram;
   #vao: WebGLVertexArrayObject;
   #instanceBuffer: WebGLBuffer;
-  #cpuBuffer: Float32Array;
+  #cpuBuffer: Float32Array<ArrayBuffer>;
   #instanceCount: number;
-  #instanceIndex = 0;
+  #overflow: OverflowOptions;
 
   // Uniform locations
   #uViewProjection: WebGLUniformLocation | null = null;
@@ -38,6 +40,7 @@ export class WebGLQuadShader implements IBackendShader {
     instanceCount: number,
     userFragmentShader?: string,
     atlasId?: string,
+    overflow: OverflowOptions = {},
   ) {
     const atlas = backend.getTextureAtlas(atlasId ?? "default");
     if (!atlas) {
@@ -49,6 +52,7 @@ export class WebGLQuadShader implements IBackendShader {
     this.code = userFragmentShader ?? fragmentShader;
     this.#backend = backend;
     this.#instanceCount = instanceCount;
+    this.#overflow = overflow;
 
     const gl = backend.gl;
 
@@ -79,11 +83,6 @@ export class WebGLQuadShader implements IBackendShader {
     this.#uResolution = gl.getUniformLocation(program, "u_resolution");
     this.#uTextureArray = gl.getUniformLocation(program, "u_textureArray");
 
-    // Create VAO
-    const vao = gl.createVertexArray();
-    assert(vao, "Failed to create WebGL VAO");
-    this.#vao = vao;
-
     // Create instance buffer
     const instanceBuffer = gl.createBuffer();
     assert(instanceBuffer, "Failed to create WebGL instance buffer");
@@ -92,55 +91,16 @@ export class WebGLQuadShader implements IBackendShader {
     // Allocate CPU buffer
     this.#cpuBuffer = new Float32Array(instanceCount * INSTANCE_FLOATS);
 
-    // Set up VAO
-    gl.bindVertexArray(vao);
     gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
     gl.bufferData(
       gl.ARRAY_BUFFER,
       instanceCount * INSTANCE_BYTES,
       gl.DYNAMIC_DRAW,
     );
-
-    // Set up instance attributes
-    // Each vec4 attribute takes up 16 bytes
-    // model0 at location 0
-    gl.enableVertexAttribArray(0);
-    gl.vertexAttribPointer(0, 4, gl.FLOAT, false, INSTANCE_BYTES, 0);
-    gl.vertexAttribDivisor(0, 1);
-
-    // model1 at location 1
-    gl.enableVertexAttribArray(1);
-    gl.vertexAttribPointer(1, 4, gl.FLOAT, false, INSTANCE_BYTES, 16);
-    gl.vertexAttribDivisor(1, 1);
-
-    // model2 at location 2
-    gl.enableVertexAttribArray(2);
-    gl.vertexAttribPointer(2, 4, gl.FLOAT, false, INSTANCE_BYTES, 32);
-    gl.vertexAttribDivisor(2, 1);
-
-    // tint at location 3
-    gl.enableVertexAttribArray(3);
-    gl.vertexAttribPointer(3, 4, gl.FLOAT, false, INSTANCE_BYTES, 48);
-    gl.vertexAttribDivisor(3, 1);
-
-    // uvOffsetAndScale at location 4
-    gl.enableVertexAttribArray(4);
-    gl.vertexAttribPointer(4, 4, gl.FLOAT, false, INSTANCE_BYTES, 64);
-    gl.vertexAttribDivisor(4, 1);
-
-    // cropOffsetAndScale at location 5
-    gl.enableVertexAttribArray(5);
-    gl.vertexAttribPointer(5, 4, gl.FLOAT, false, INSTANCE_BYTES, 80);
-    gl.vertexAttribDivisor(5, 1);
-
-    // atlasIndex at location 6 (integer attribute - use vertexAttribIPointer)
-    gl.enableVertexAttribArray(6);
-    gl.vertexAttribIPointer(6, 1, gl.UNSIGNED_INT, INSTANCE_BYTES, 96);
-    gl.vertexAttribDivisor(6, 1);
-
-    gl.bindVertexArray(null);
     gl.bindBuffer(gl.ARRAY_BUFFER, null);
 
+    this.#vao = this.#createVertexArray(instanceBuffer);
+
     // Cleanup shaders (they're linked to the program now)
     gl.deleteShader(vs);
     gl.deleteShader(fs);
@@ -149,7 +109,6 @@ export class WebGLQuadShader implements IBackendShader {
   #cachedUniform: EngineUniform | null = null;
 
   startFrame(uniform: EngineUniform): void {
-    this.#instanceIndex = 0;
     // Cache uniform for use in processBatch - WebGL state is global,
     // so we need to set program/uniforms/textures right before drawing
     this.#cachedUniform = uniform;
@@ -199,42 +158,47 @@ export class WebGLQuadShader implements IBackendShader {
   }
 
   processBatch(nodes: SceneNode[]): number {
-    const gl = this.#backend.gl;
-
     // Bind program, uniforms, and textures right before drawing
     // (WebGL state is global, so this must happen per-batch)
     this.#bindState();
 
-    if (nodes.length > this.#instanceCount) {
-      throw new Error(
-        `ToodleInstanceCap: ${nodes.length} instances enqueued, max is ${this.#instanceCount} for ${this.label} shader`,
+    const { data, instanceCount } = writeInstances(
+      nodes,
+      INSTANCE_FLOATS,
+      this.#cpuBuffer,
+    );
+    this.#cpuBuffer = data;
+    if (this.#cachedUniform?.pixelSnap) {
+      snapInstances(
+        data,
+        0,
+        instanceCount,
+        INSTANCE_FLOATS,
+        this.#cachedUniform.pixelSnap,
       );
     }
 
-    let instanceCount = 0;
+    return drawWithOverflow(
+      instanceCount,
+      this.#instanceCount,
+      this.label,
+      this.#overflow,
+      (first, count) => this.#draw(first, count),
+      (capacity) => this.#growInstanceBuffer(capacity),
+    );
+  }
 
-    // WebGL2 doesn't support firstInstance in drawArraysInstanced,
-    // so we always write starting at offset 0 for each batch
-    for (let i = 0; i < nodes.length; i++) {
-      const instance = nodes[i];
-      assert(instance.renderComponent, "instance has no render component");
-      const floatOffset = instanceCount * INSTANCE_FLOATS;
-
-      instanceCount += instance.renderComponent.writeInstance(
-        instance,
-        this.#cpuBuffer,
-        floatOffset,
-      );
-    }
+  #draw(firstInstance: number, instanceCount: number): void {
+    const gl = this.#backend.gl;
 
-    // Upload instance data to GPU starting at offset 0
+    // WebGL2 doesn't support firstInstance in drawArraysInstanced,
+    // so each draw uploads its instances to the start of the buffer
     gl.bindBuffer(gl.ARRAY_BUFFER, this.#instanceBuffer);
-
     gl.bufferSubData(
       gl.ARRAY_BUFFER,
       0,
       this.#cpuBuffer,
-      0,
+      firstInstance * INSTANCE_FLOATS,
       instanceCount * INSTANCE_FLOATS,
     );
 
@@ -242,14 +206,113 @@ export class WebGLQuadShader implements IBackendShader {
     gl.bindVertexArray(this.#vao);
     gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, instanceCount);
     gl.bindVertexArray(null);
+  }
 
-    return 1;
+  createStaticBuffer(nodes: SceneNode[]): IStaticInstanceBuffer {
+    const gl = this.#backend.gl;
+    const { data, instanceCount, snapped } = writeStaticInstances(
+      nodes,
+      INSTANCE_FLOATS,
+    );
+    let uploaded = data;
+
+    const buffer = gl.createBuffer();
+    assert(buffer, "Failed to create WebGL static instance buffer");
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+    const vao = this.#createVertexArray(buffer);
+
+    return {
+      instanceCount,
+      draw: () => {
+        const instances = snapped(this.#cachedUniform?.pixelSnap);
+        if (instances !== uploaded) {
+          gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+          gl.bufferSubData(gl.ARRAY_BUFFER, 0, instances);
+          gl.bindBuffer(gl.ARRAY_BUFFER, null);
+          uploaded = instances;
+        }
+        this.#bindState();
+        gl.bindVertexArray(vao);
+        gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, instanceCount);
+        gl.bindVertexArray(null);
+        return 1;
+      },
+      destroy: () => {
+        gl.deleteVertexArray(vao);
+        gl.deleteBuffer(buffer);
+      },
+    };
+  }
+
+  #growInstanceBuffer(capacity: number): void {
+    const gl = this.#backend.gl;
+    this.#instanceCount = capacity;
+
+    // the vao references the buffer object, so reallocating its storage keeps the attributes intact
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.#instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, capacity * INSTANCE_BYTES, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
   }
 
   endFrame(): void {
     // Nothing to do
   }
 
+  /**
+   * Create a VAO that reads instance attributes from the given buffer.
+   */
+  #createVertexArray(instanceBuffer: WebGLBuffer): WebGLVertexArrayObject {
+    const gl = this.#backend.gl;
+    const vao = gl.createVertexArray();
+    assert(vao, "Failed to create WebGL VAO");
+
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+
+    // Set up instance attributes
+    // Each vec4 attribute takes up 16 bytes
+    // model0 at location 0
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 4, gl.FLOAT, false, INSTANCE_BYTES, 0);
+    gl.vertexAttribDivisor(0, 1);
+
+    // model1 at location 1
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 4, gl.FLOAT, false, INSTANCE_BYTES, 16);
+    gl.vertexAttribDivisor(1, 1);
+
+    // model2 at location 2
+    gl.enableVertexAttribArray(2);
+    gl.vertexAttribPointer(2, 4, gl.FLOAT, false, INSTANCE_BYTES, 32);
+    gl.vertexAttribDivisor(2, 1);
+
+    // tint at location 3
+    gl.enableVertexAttribArray(3);
+    gl.vertexAttribPointer(3, 4, gl.FLOAT, false, INSTANCE_BYTES, 48);
+    gl.vertexAttribDivisor(3, 1);
+
+    // uvOffsetAndScale at location 4
+    gl.enableVertexAttribArray(4);
+    gl.vertexAttribPointer(4, 4, gl.FLOAT, false, INSTANCE_BYTES, 64);
+    gl.vertexAttribDivisor(4, 1);
+
+    // cropOffsetAndScale at location 5
+    gl.enableVertexAttribArray(5);
+    gl.vertexAttribPointer(5, 4, gl.FLOAT, false, INSTANCE_BYTES, 80);
+    gl.vertexAttribDivisor(5, 1);
+
+    // atlasIndex at location 6 (integer attribute - use vertexAttribIPointer)
+    gl.enableVertexAttribArray(6);
+    gl.vertexAttribIPointer(6, 1, gl.UNSIGNED_INT, INSTANCE_BYTES, 96);
+    gl.vertexAttribDivisor(6, 1);
+
+    gl.bindVertexArray(null);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+    return vao;
+  }
+
   #compileShader(
     gl: WebGL2RenderingContext,
     type: number,
@@ -1,9 +1,11 @@
 import type { EngineUniform } from "../../coreTypes/EngineUniform";
 import type { SceneNode } from "../../scene/SceneNode";
 import { DEFAULT_FONT_SIZE, TextNode } from "../../scene/TextNode";
+import { TEXT_EFFECTS_STRIDE, writeTextEffects } from "../../text/effects";
 import type { MsdfFont } from "../../text/MsdfFont";
 import {
   findLargestFontSize,
+  GLYPH_STRIDE,
   measureText,
   shapeText,
 } from "../../text/shaping";
@@ -13,6 +15,18 @@ import { fragmentShader, vertexShader } from "./glsl/text.glsl";
 import type { WebGLBackend } from "./WebGLBackend";
 import type { WebGLFontPipeline } from "./WebGLFontPipeline";
 
+/**
+ * The uniforms of text.glsl.ts that the effects written by {@link writeTextEffects} are uploaded to,
+ * by float offset and size in the written effects.
+ */
+export const TEXT_EFFECT_UNIFORMS = [
+  { name: "u_outlineColor", offset: 0, size: 4 },
+  { name: "u_glowColor", offset: 4, size: 4 },
+  { name: "u_shadowColor", offset: 8, size: 4 },
+  { name: "u_shadow", offset: 12, size: 4 },
+  { name: "u_effectWidths", offset: 16, size: 2 },
+] as const;
+
 /**
  * WebGL 2 text shader for MSDF font rendering.
  *
@@ -30,6 +44,7 @@ export class WebGLTextShader implements ITextShader {
   #program: WebGLProgram;
   #vao: WebGLVertexArrayObject;
   #cpuTextBuffer: Float32Array;
+  #cpuEffects = new Float32Array(TEXT_EFFECTS_STRIDE);
   #cachedUniform: EngineUniform | null = null;
 
   // Uniform locations
@@ -40,6 +55,8 @@ export class WebGLTextShader implements ITextShader {
   #uBlockWidth: WebGLUniformLocation | null = null;
   #uBlockHeight: WebGLUniformLocation | null = null;
   #uLineHeight: WebGLUniformLocation | null = null;
+  // by TEXT_EFFECT_UNIFORMS
+  #uEffects: (WebGLUniformLocation | null)[] = [];
   #uCharData: WebGLUniformLocation | null = null;
   #uTextBuffer: WebGLUniformLocation | null = null;
   #uFontTexture: WebGLUniformLocation | null = null;
@@ -78,6 +95,9 @@ export class WebGLTextShader implements ITextShader {
     this.#uBlockWidth = gl.getUniformLocation(program, "u_blockWidth");
     this.#uBlockHeight = gl.getUniformLocation(program, "u_blockHeight");
     this.#uLineHeight = gl.getUniformLocation(program, "u_lineHeight");
+    this.#uEffects = TEXT_EFFECT_UNIFORMS.map((uniform) =>
+      gl.getUniformLocation(program, uniform.name),
+    );
     this.#uCharData = gl.getUniformLocation(program, "u_charData");
     this.#uTextBuffer = gl.getUniformLocation(program, "u_textBuffer");
     this.#uFontTexture = gl.getUniformLocation(program, "u_fontTexture");
@@ -88,7 +108,7 @@ export class WebGLTextShader implements ITextShader {
     this.#vao = vao;
 
     // Allocate CPU buffer for text shaping
-    this.#cpuTextBuffer = new Float32Array(this.maxCharCount * 4);
+    this.#cpuTextBuffer = new Float32Array(this.maxCharCount * GLYPH_STRIDE);
 
     // Cleanup shaders
     gl.deleteShader(vs);
@@ -136,7 +156,7 @@ export class WebGLTextShader implements ITextShader {
     // Bind textures
     // Texture unit 0: font atlas
     gl.activeTexture(gl.TEXTURE0);
-    gl.bindTexture(gl.TEXTURE_2D, this.#pipeline.fontTexture);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.#pipeline.fontTexture);
     if (this.#uFontTexture) {
       gl.uniform1i(this.#uFontTexture, 0);
     }
@@ -164,33 +184,33 @@ export class WebGLTextShader implements ITextShader {
         );
       }
 
-      const text = node.text;
+      // the node is laid out in its own font, this shader draws the glyphs of its font
+      const font = node.font;
+      const runs = node.runs;
       const formatting = node.formatting;
-      const measurements = measureText(this.font, text, formatting.wordWrap);
+      const measurements = measureText(font, runs, formatting);
 
       // Calculate font size
       const size = node.size ?? measurements;
       const fontSize = formatting.shrinkToFit
-        ? findLargestFontSize(this.font, text, size, formatting)
+        ? findLargestFontSize(font, runs, size, formatting)
         : formatting.fontSize;
       const actualFontSize = fontSize || DEFAULT_FONT_SIZE;
 
       // Shape text into buffer
-      shapeText(
-        this.font,
-        text,
+      const glyphCount = shapeText(
+        font,
+        runs,
         size,
         actualFontSize,
         formatting,
         this.#cpuTextBuffer,
         0,
+        this.font,
       );
 
       // Upload glyph data to text buffer texture
-      this.#pipeline.updateTextBuffer(
-        this.#cpuTextBuffer,
-        measurements.printedCharCount,
-      );
+      this.#pipeline.updateTextBuffer(this.#cpuTextBuffer, glyphCount);
 
       // Set per-text uniforms
       if (this.#uTextTransform) {
@@ -215,7 +235,11 @@ export class WebGLTextShader implements ITextShader {
       }
 
       if (this.#uFontSize) {
-        gl.uniform1f(this.#uFontSize, actualFontSize);
+        // glyph positions are in em units of the node's font
+        gl.uniform1f(
+          this.#uFontSize,
+          (actualFontSize * this.font.lineHeight) / font.lineHeight,
+        );
       }
 
       if (this.#uBlockWidth) {
@@ -229,13 +253,21 @@ export class WebGLTextShader implements ITextShader {
         gl.uniform1f(this.#uBlockHeight, measurements.height);
       }
 
+      // Outline, glow and shadow, laid out as in the WebGPU text descriptor
+      const effects = this.#cpuEffects;
+      writeTextEffects(formatting, effects);
+      TEXT_EFFECT_UNIFORMS.forEach(({ offset, size }, i) => {
+        const location = this.#uEffects[i];
+        if (!location) return;
+        if (size === 4) {
+          gl.uniform4fv(location, effects, offset, size);
+        } else {
+          gl.uniform2fv(location, effects, offset, size);
+        }
+      });
+
       // Draw instanced: 4 vertices per glyph, one instance per character
-      gl.drawArraysInstanced(
-        gl.TRIANGLE_STRIP,
-        0,
-        4,
-        measurements.printedCharCount,
-      );
+      gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, glyphCount);
     }
 
     gl.bindVertexArray(null);
@@ -17,6 +17,7 @@ layout(location = 4) in vec4 a_uvOffsetAndScale;
 // location 5 is the crop offset and scale
 layout(location = 5) in vec4 a_cropOffsetAndScale;
 // location 6 is the atlas index (integer attribute)
+// the highest bit is set for frames that are stored rotated in the atlas
 layout(location = 6) in uint a_atlasIndex;
 
 // Outputs to fragment shader
@@ -39,6 +40,8 @@ const vec2 uvLookup[4] = vec2[4](
   vec2(1.0, 1.0)
 );
 
+const uint ROTATED_FLAG = 0x80000000u;
+
 void main() {
   // Reconstruct model matrix from instance data
   mat3 modelMatrix = mat3(a_model0.xyz, a_model1.xyz, a_model2.xyz);
@@ -54,12 +57,17 @@ void main() {
 
   // Set UV coordinates
   vec2 originalUv = uvLookup[gl_VertexID];
-  vec2 atlasUv = originalUv * a_uvOffsetAndScale.zw * cropScale + a_uvOffsetAndScale.xy;
+  // frames stored rotated clockwise in the atlas are sampled with swapped axes,
+  // starting from their top right corner
+  bool isRotated = (a_atlasIndex & ROTATED_FLAG) != 0u;
+  vec2 frameUv = isRotated ? vec2(-originalUv.y, originalUv.x) : originalUv;
+  vec2 uvCropScale = isRotated ? cropScale.yx : cropScale;
+  vec2 atlasUv = frameUv * a_uvOffsetAndScale.zw * uvCropScale + a_uvOffsetAndScale.xy;
   v_uv = vec4(atlasUv, originalUv);
 
   // Pass through tint and atlas index
   v_tint = a_tint;
-  v_atlasIndex = int(a_atlasIndex);
+  v_atlasIndex = int(a_atlasIndex & ~ROTATED_FLAG);
 }
 
 `;
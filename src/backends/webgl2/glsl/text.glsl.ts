@@ -3,8 +3,9 @@
  *
  * Key differences from WebGPU version:
  * - Uses texelFetch() to read from data textures instead of storage buffers
- * - Character metrics stored in RGBA32F texture (8 floats per char = 2 texels)
- * - Per-glyph positions stored in RGBA32F texture (vec4: xy = pos, z = charIndex)
+ * - Character metrics stored in RGBA32F texture (9 floats per char = 3 texels)
+ * - Font pages are layers of a texture array
+ * - Per-glyph data stored in RGBA32F texture (2 texels per glyph: xy = pos, z = charIndex, w = scale, then color)
  * - Each TextNode is rendered separately with uniforms (no firstInstance)
  */
 
@@ -21,18 +22,34 @@ uniform float u_fontSize;
 uniform float u_blockWidth;
 uniform float u_blockHeight;
 uniform float u_lineHeight;
+uniform vec4 u_shadow;        // Shadow offset (xy) and blur (z) in pixels
+uniform vec2 u_effectWidths;  // Outline (x) and glow (y) width in pixels
 
-// Character data texture (RGBA32F, 2 texels per character)
+// Font texture (MSDF atlas, one layer per page), for its size
+uniform highp sampler2DArray u_fontTexture;
+
+// Character data texture (RGBA32F, 3 texels per character)
 // Texel 0: texOffset.xy, texExtent.xy
 // Texel 1: size.xy, offset.xy
+// Texel 2: page
 uniform sampler2D u_charData;
 
-// Text buffer texture (RGBA32F, 1 texel per glyph)
-// Each texel: xy = glyph position, z = char index
+// Text buffer texture (RGBA32F, 2 texels per glyph)
+// Texel 0: xy = glyph position, z = char index, w = scale
+// Texel 1: color
 uniform sampler2D u_textBuffer;
 
 // Outputs to fragment shader
 out vec2 v_texcoord;
+out vec4 v_color;
+flat out float v_page;
+flat out vec4 v_rect;         // Glyph rect in the font texture (uv)
+flat out vec3 v_effects;      // Outline width, glow width and shadow blur (texels)
+flat out vec2 v_shadowOffset; // Shadow offset (uv)
+
+// pxRange (AKA distanceRange) comes from the msdfgen tool.
+// Distances are known up to half of it away from the edge of a glyph, in texels.
+const float pxRange = 4.0;
 
 // Quad vertex positions for a character (matches WGSL)
 const vec2 pos[4] = vec2[4](
@@ -49,26 +66,42 @@ void main() {
   int glyphIndex = gl_InstanceID;
 
   // Fetch glyph data from text buffer texture
-  vec4 glyphData = texelFetch(u_textBuffer, ivec2(glyphIndex, 0), 0);
+  vec4 glyphData = texelFetch(u_textBuffer, ivec2(glyphIndex * 2, 0), 0);
   vec2 glyphPos = glyphData.xy;
   int charIndex = int(glyphData.z);
+  float glyphScale = glyphData.w;
+  v_color = texelFetch(u_textBuffer, ivec2(glyphIndex * 2 + 1, 0), 0);
 
-  // Fetch character metrics (2 texels per char)
+  // Fetch character metrics (3 texels per char)
   // Texel 0: texOffset.x, texOffset.y, texExtent.x, texExtent.y
   // Texel 1: size.x, size.y, offset.x, offset.y
-  vec4 charData0 = texelFetch(u_charData, ivec2(charIndex * 2, 0), 0);
-  vec4 charData1 = texelFetch(u_charData, ivec2(charIndex * 2 + 1, 0), 0);
+  // Texel 2: page
+  vec4 charData0 = texelFetch(u_charData, ivec2(charIndex * 3, 0), 0);
+  vec4 charData1 = texelFetch(u_charData, ivec2(charIndex * 3 + 1, 0), 0);
+  v_page = texelFetch(u_charData, ivec2(charIndex * 3 + 2, 0), 0).x;
 
   vec2 texOffset = charData0.xy;
   vec2 texExtent = charData0.zw;
   vec2 charSize = charData1.xy;
   vec2 charOffset = charData1.zw;
 
-  // Center text vertically; origin is mid-height
-  vec2 offset = vec2(0.0, -u_blockHeight / 2.0);
+  vec2 texSize = vec2(textureSize(u_fontTexture, 0).xy);
+
+  // Effect sizes in texels of the font texture, limited to the distances the field knows
+  float texelsPerPixel = u_lineHeight / (u_fontSize * glyphScale);
+  float reach = pxRange / 2.0;
+  float outlineWidth = min(u_effectWidths.x * texelsPerPixel, reach);
+  float glowWidth = min(u_effectWidths.y * texelsPerPixel, reach - outlineWidth);
+  float shadowBlur = min(u_shadow.z * texelsPerPixel, reach);
+  vec2 shadowOffset = u_shadow.xy * texelsPerPixel;
+
+  // The quad grows by the shadow offset so the shadow isn't cut off
+  vec2 corner = pos[vertexIndex] * 2.0 + vec2(-1.0, 1.0);
+  vec2 quadPos = pos[vertexIndex] * charSize + corner * abs(shadowOffset);
 
-  // Glyph position in ems (quad pos * size + per-char offset)
-  vec2 emPos = pos[vertexIndex] * charSize + charOffset + glyphPos - offset;
+  // Glyph position in ems (quad pos + per-char offset, scaled for runs of other sizes),
+  // glyph positions are aligned relative to the center of the block by shapeText
+  vec2 emPos = (quadPos + charOffset) * glyphScale + glyphPos;
   vec2 charPos = emPos * (u_fontSize / u_lineHeight);
 
   // Transform position through model and view-projection matrices
@@ -78,23 +111,36 @@ void main() {
   gl_Position = vec4(clipPos.xy, 0.0, 1.0);
 
   // Calculate texture coordinates
-  v_texcoord = pos[vertexIndex] * vec2(1.0, -1.0);
-  v_texcoord *= texExtent;
+  v_texcoord = quadPos * vec2(1.0, -1.0) / texSize;
   v_texcoord += texOffset;
+
+  v_rect = vec4(texOffset, texOffset + texExtent);
+  v_effects = vec3(outlineWidth, glowWidth, shadowBlur);
+  v_shadowOffset = shadowOffset * vec2(1.0, -1.0) / texSize;
 }
 `;
 
 export const fragmentShader = /*glsl*/ `#version 300 es
 precision highp float;
 
-// Font texture (MSDF atlas)
-uniform sampler2D u_fontTexture;
+// Font texture (MSDF atlas, one layer per page)
+uniform highp sampler2DArray u_fontTexture;
 
 // Text color
 uniform vec4 u_textColor;
 
+// Effect colors, transparent for effects the text doesn't have
+uniform vec4 u_outlineColor;
+uniform vec4 u_glowColor;
+uniform vec4 u_shadowColor;
+
 // Input from vertex shader
 in vec2 v_texcoord;
+in vec4 v_color;
+flat in float v_page;
+flat in vec4 v_rect;
+flat in vec3 v_effects;
+flat in vec2 v_shadowOffset;
 
 // Output color
 out vec4 fragColor;
@@ -102,31 +148,63 @@ out vec4 fragColor;
 // Signed distance function sampling for MSDF font rendering
 // Median of three: max(min(r,g), min(max(r,g), b))
 float sampleMsdf(vec2 texcoord) {
-  vec4 c = texture(u_fontTexture, texcoord);
+  vec4 c = texture(u_fontTexture, vec3(texcoord, v_page));
   return max(min(c.r, c.g), min(max(c.r, c.g), c.b));
 }
 
+// pxRange (AKA distanceRange) comes from the msdfgen tool.
+// Distances are known up to half of it away from the edge of a glyph, in texels.
+const float pxRange = 4.0;
+
+// Signed distance to the edge of a glyph in texels, positive inside.
+// Outside of the glyph rect, where the texture holds its neighbours, it is further than any effect reaches.
+float glyphDistance(vec2 texcoord) {
+  bool inside = all(greaterThanEqual(texcoord, v_rect.xy)) && all(lessThanEqual(texcoord, v_rect.zw));
+  float sigDist = (sampleMsdf(clamp(texcoord, v_rect.xy, v_rect.zw)) - 0.5) * pxRange;
+  return inside ? sigDist : -pxRange;
+}
+
+// Composite two colors with straight alpha
+vec4 over(vec4 top, vec4 bottom) {
+  float alpha = top.a + bottom.a * (1.0 - top.a);
+  vec3 rgb = top.rgb * top.a + bottom.rgb * bottom.a * (1.0 - top.a);
+  return vec4(rgb / max(alpha, 0.0001), alpha);
+}
+
 void main() {
-  // pxRange (AKA distanceRange) comes from the msdfgen tool
-  float pxRange = 4.0;
-  vec2 texSize = vec2(textureSize(u_fontTexture, 0));
+  vec2 texSize = vec2(textureSize(u_fontTexture, 0).xy);
 
   // Anti-aliasing technique by Paul Houx
   // https://github.com/Chlumsky/msdfgen/issues/22#issuecomment-234958005
   float dx = texSize.x * length(vec2(dFdx(v_texcoord.x), dFdy(v_texcoord.x)));
   float dy = texSize.y * length(vec2(dFdx(v_texcoord.y), dFdy(v_texcoord.y)));
 
-  float toPixels = pxRange * inversesqrt(dx * dx + dy * dy);
-  float sigDist = sampleMsdf(v_texcoord) - 0.5;
-  float pxDist = sigDist * toPixels;
+  float toPixels = inversesqrt(dx * dx + dy * dy);
+  float glyphDist = glyphDistance(v_texcoord);
+  float shadowDist = glyphDistance(v_texcoord - v_shadowOffset);
 
-  float edgeWidth = 0.5;
-  float alpha = smoothstep(-edgeWidth, edgeWidth, pxDist);
+  float outlineWidth = v_effects.x;
+  float glowWidth = v_effects.y;
+  float shadowBlur = v_effects.z;
 
-  if (alpha < 0.001) {
+  float edgeWidth = 0.5;
+  float fill = smoothstep(-edgeWidth, edgeWidth, glyphDist * toPixels);
+  float outline = smoothstep(-edgeWidth, edgeWidth, (glyphDist + outlineWidth) * toPixels);
+  float glow = 1.0 - smoothstep(0.0, max(glowWidth, 0.001), -(glyphDist + outlineWidth));
+  float shadowEdge = shadowBlur / 2.0 + edgeWidth / toPixels;
+  float shadow = smoothstep(-shadowEdge, shadowEdge, shadowDist + outlineWidth);
+
+  // Effects fade with the text
+  vec4 color = u_textColor * v_color;
+  vec4 result = vec4(u_shadowColor.rgb, u_shadowColor.a * color.a * shadow);
+  result = over(vec4(u_glowColor.rgb, u_glowColor.a * color.a * glow), result);
+  result = over(vec4(u_outlineColor.rgb, u_outlineColor.a * color.a * outline), result);
+  result = over(vec4(color.rgb, color.a * fill), result);
+
+  if (result.a < 0.001) {
     discard;
   }
 
-  fragColor = vec4(u_textColor.rgb, u_textColor.a * alpha);
+  fragColor = result;
 }
 `;
@@ -1,4 +1,4 @@
-import type { MsdfFont } from "../../text/MsdfFont";
+import { CHAR_STRIDE, type MsdfFont } from "../../text/MsdfFont";
 import msdfShader from "./wgsl/text.wgsl";
 
 /**
@@ -19,24 +19,28 @@ export class FontPipeline {
     maxCharCount: number,
   ): Promise<FontPipeline> {
     const pipeline = await pipelinePromise(device, colorFormat, font.name);
+    // each page of the font is a layer of the texture
+    const { width, height } = font.pages[0];
     const texture = device.createTexture({
       label: `MSDF font ${font.name}`,
-      size: [font.imageBitmap.width, font.imageBitmap.height, 1],
+      size: [width, height, font.pages.length],
       format: "rgba8unorm",
       usage:
         GPUTextureUsage.TEXTURE_BINDING |
         GPUTextureUsage.COPY_DST |
         GPUTextureUsage.RENDER_ATTACHMENT,
     });
-    device.queue.copyExternalImageToTexture(
-      { source: font.imageBitmap },
-      { texture },
-      [font.imageBitmap.width, font.imageBitmap.height],
-    );
+    font.pages.forEach((page, layer) => {
+      device.queue.copyExternalImageToTexture(
+        { source: page },
+        { texture, origin: [0, 0, layer] },
+        [width, height],
+      );
+    });
 
     const charsGpuBuffer = device.createBuffer({
       label: `MSDF font ${font.name} character layout buffer`,
-      size: font.charCount * Float32Array.BYTES_PER_ELEMENT * 8,
+      size: font.charCount * Float32Array.BYTES_PER_ELEMENT * CHAR_STRIDE,
       usage: GPUBufferUsage.STORAGE,
       mappedAtCreation: true,
     });
@@ -63,7 +67,7 @@ export class FontPipeline {
         // msdf texture
         {
           binding: 0,
-          resource: texture.createView(),
+          resource: texture.createView({ dimension: "2d-array" }),
         },
         // msdf texture sampler
         {
@@ -153,9 +157,10 @@ const fontBindGroupLayout: GPUBindGroupLayoutDescriptor = {
   label: "MSDF font group layout",
   entries: [
     {
+      // the vertex stage reads the size of the texture to place text effects
       binding: 0,
-      visibility: GPUShaderStage.FRAGMENT,
-      texture: {},
+      visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+      texture: { viewDimension: "2d-array" },
     },
     {
       binding: 1,
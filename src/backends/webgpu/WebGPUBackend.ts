@@ -6,13 +6,14 @@ import { DEFAULT_LIMITS } from "../../limits";
 import type { CpuTextureAtlas } from "../../textures/types";
 import { assert } from "../../utils/assert";
 import type { IBackendShader, QuadShaderCreationOpts } from "../IBackendShader";
-import type { IRenderBackend } from "../IRenderBackend";
+import type { FrameTarget, IRenderBackend, Viewport } from "../IRenderBackend";
 import type {
   ITextureAtlas,
   TextureAtlasFormat,
   TextureAtlasOptions,
 } from "../ITextureAtlas";
 import type { PostProcess } from "./postprocess/mod";
+import { WebGPUGpuTimer } from "./WebGPUGpuTimer";
 import { WebGPUQuadShader } from "./WebGPUQuadShader";
 
 export type WebGPUBackendOptions = {
@@ -36,9 +37,13 @@ export class WebGPUBackend implements IRenderBackend {
   #presentationFormat: GPUTextureFormat;
   #encoder: GPUCommandEncoder | null = null;
   #renderPass: GPURenderPassEncoder | null = null;
+  #target: FrameTarget | null = null;
+  #viewport: Viewport | null = null;
+  #hasViewport = false;
   #postprocess: PostProcess | null = null;
   #pingpong: [GPUTexture, GPUTexture] | null = null;
   #canvas: HTMLCanvasElement;
+  #gpuTimer: WebGPUGpuTimer | null;
 
   private constructor(
     device: GPUDevice,
@@ -56,6 +61,9 @@ export class WebGPUBackend implements IRenderBackend {
       height: limits.textureSize,
     };
     this.#canvas = canvas;
+    this.#gpuTimer = device.features.has("timestamp-query")
+      ? new WebGPUGpuTimer(device)
+      : null;
   }
 
   /**
@@ -70,7 +78,12 @@ export class WebGPUBackend implements IRenderBackend {
       throw new Error("WebGPU not supported: no adapter found");
     }
 
-    const device = await adapter.requestDevice();
+    // timestamp queries are used for gpu timings in diagnostics when available
+    const device = await adapter.requestDevice({
+      requiredFeatures: adapter.features.has("timestamp-query")
+        ? ["timestamp-query"]
+        : [],
+    });
     device.lost.then((info) => {
       console.error("GPU Device lost", info);
     });
@@ -108,25 +121,120 @@ export class WebGPUBackend implements IRenderBackend {
     return backend;
   }
 
-  startFrame(clearColor: Color, loadOp: "clear" | "load"): void {
+  startFrame(
+    clearColor: Color,
+    loadOp: "clear" | "load",
+    target?: FrameTarget,
+  ): void {
+    if (target) {
+      assert(
+        this.#atlases.has(target.atlasId),
+        `Render target "${target.atlasId}" not found`,
+      );
+    }
+    this.#target = target ?? null;
+    this.#viewport = null;
+    this.#hasViewport = false;
+    this.#encoder = this.#device.createCommandEncoder();
+    this.#renderPass = this.#beginRenderPass(
+      this.#encoder,
+      clearColor,
+      loadOp,
+      this.#gpuTimer?.beginPass(true),
+    );
+  }
+
+  /**
+   * Submit the draws recorded so far and continue the frame in a new render pass that
+   * loads the current contents of the target.
+   *
+   * Used by shaders that split oversized batches, so they can reuse their instance buffer
+   * within a frame. The gpu timer measures all passes of a split frame.
+   */
+  splitPass(): void {
+    assert(this.#renderPass, "No render pass - did you call startFrame?");
+    assert(this.#encoder, "No encoder - did you call startFrame?");
+
+    this.#renderPass.end();
+    this.#device.queue.submit([this.#encoder.finish()]);
+
     this.#encoder = this.#device.createCommandEncoder();
+    this.#renderPass = this.#beginRenderPass(
+      this.#encoder,
+      { r: 0, g: 0, b: 0, a: 0 },
+      "load",
+      this.#gpuTimer?.beginPass(false),
+    );
+  }
+
+  setViewport(viewport: Viewport | null): void {
+    // shaders rewrite their uniforms and instances for every viewport, so the draws of
+    // the previous viewport have to be submitted first
+    if (this.#hasViewport) {
+      this.splitPass();
+    }
+    this.#hasViewport = true;
+    this.#viewport = viewport && { ...viewport };
+    assert(this.#renderPass, "No render pass - did you call startFrame?");
+    this.#applyViewport(this.#renderPass);
+  }
+
+  #applyViewport(pass: GPURenderPassEncoder) {
+    const { width, height } = this.#target ?? this.#canvas;
+    const viewport = this.#viewport ?? { x: 0, y: 0, width: 1, height: 1 };
+    const x = Math.round(viewport.x * width);
+    const y = Math.round(viewport.y * height);
+    const w = Math.round((viewport.x + viewport.width) * width) - x;
+    const h = Math.round((viewport.y + viewport.height) * height) - y;
+    pass.setViewport(x, y, w, h, 0, 1);
+    // the scissor rect has to be inside of the attachment
+    const left = Math.min(Math.max(x, 0), width);
+    const top = Math.min(Math.max(y, 0), height);
+    pass.setScissorRect(
+      left,
+      top,
+      Math.max(0, Math.min(x + w, width) - left),
+      Math.max(0, Math.min(y + h, height) - top),
+    );
+  }
 
-    // If postprocessing, render to ping-pong texture; otherwise render to canvas
-    const target = this.#postprocess
-      ? this.#pingpong![0]
-      : this.#context.getCurrentTexture();
+  #beginRenderPass(
+    encoder: GPUCommandEncoder,
+    clearColor: Color,
+    loadOp: "clear" | "load",
+    timestampWrites?: GPURenderPassTimestampWrites,
+  ): GPURenderPassEncoder {
+    let view: GPUTextureView;
+    if (this.#target) {
+      const texture = this.#atlases.get(this.#target.atlasId)!
+        .handle as GPUTexture;
+      view = texture.createView({
+        dimension: "2d",
+        baseArrayLayer: 0,
+        arrayLayerCount: 1,
+      });
+    } else {
+      // If postprocessing, render to ping-pong texture; otherwise render to canvas
+      const target = this.#postprocess
+        ? this.#pingpong![0]
+        : this.#context.getCurrentTexture();
+      view = target.createView();
+    }
 
-    this.#renderPass = this.#encoder.beginRenderPass({
+    const pass = encoder.beginRenderPass({
       label: "toodle frame",
       colorAttachments: [
         {
-          view: target.createView(),
+          view,
           clearValue: clearColor,
           loadOp,
           storeOp: "store",
         },
       ],
+      timestampWrites,
     });
+    this.#applyViewport(pass);
+    return pass;
   }
 
   endFrame(): void {
@@ -134,9 +242,10 @@ export class WebGPUBackend implements IRenderBackend {
     assert(this.#encoder, "No encoder - did you call startFrame?");
 
     this.#renderPass.end();
+    this.#gpuTimer?.resolve(this.#encoder);
 
-    // Run postprocessing if set
-    if (this.#postprocess && this.#pingpong) {
+    // Run postprocessing if set. Render targets are not postprocessed
+    if (this.#postprocess && this.#pingpong && !this.#target) {
       this.#postprocess.process(
         this.#device.queue,
         this.#encoder,
@@ -146,9 +255,15 @@ export class WebGPUBackend implements IRenderBackend {
     }
 
     this.#device.queue.submit([this.#encoder.finish()]);
+    this.#gpuTimer?.read();
 
     this.#renderPass = null;
     this.#encoder = null;
+    this.#target = null;
+  }
+
+  takeGpuTime(): number | null {
+    return this.#gpuTimer?.takeTime() ?? null;
   }
 
   updateEngineUniform(_uniform: EngineUniform): void {
@@ -204,6 +319,7 @@ export class WebGPUBackend implements IRenderBackend {
       opts.userCode,
       opts.blendMode,
       opts.atlasId,
+      opts,
     );
   }
 
@@ -231,6 +347,34 @@ export class WebGPUBackend implements IRenderBackend {
     return atlas;
   }
 
+  createRenderTarget(id: string, size: number): ITextureAtlas {
+    if (this.#atlases.has(id)) {
+      throw new Error(`Atlas "${id}" already exists`);
+    }
+
+    // render targets use the presentation format so they are compatible with the quad pipelines
+    const texture = this.#device.createTexture({
+      label: `Toodle Render Target "${id}"`,
+      size: [size, size, 1],
+      format: this.#presentationFormat,
+      usage:
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.RENDER_ATTACHMENT |
+        GPUTextureUsage.COPY_SRC |
+        GPUTextureUsage.COPY_DST,
+    });
+
+    const atlas: ITextureAtlas = {
+      id,
+      format: "rgba8unorm",
+      layers: 1,
+      size,
+      handle: texture,
+    };
+    this.#atlases.set(id, atlas);
+    return atlas;
+  }
+
   getTextureAtlas(id?: string): ITextureAtlas | null {
     return this.#atlases.get(id ?? "default") ?? null;
   }
@@ -261,6 +405,7 @@ export class WebGPUBackend implements IRenderBackend {
       (atlas.handle as GPUTexture).destroy();
     }
     this.#atlases.clear();
+    this.#gpuTimer?.destroy();
     this.#device.destroy();
   }
 
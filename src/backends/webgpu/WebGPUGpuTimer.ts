@@ -0,0 +1,107 @@
+/**
+ * Measures how long the GPU spends on a frame using timestamp queries, from the start of its
+ * first render pass to the end of its last one.
+ *
+ * Requires the "timestamp-query" device feature. Only one readback is in flight at a time,
+ * so frames that start while a result is still pending are not measured.
+ */
+export class WebGPUGpuTimer {
+  #querySet: GPUQuerySet;
+  #resolveBuffer: GPUBuffer;
+  #readBuffer: GPUBuffer;
+  #isPending = false;
+  #isMeasuring = false;
+  #time: number | null = null;
+
+  constructor(device: GPUDevice) {
+    this.#querySet = device.createQuerySet({
+      label: "toodle gpu timer",
+      type: "timestamp",
+      count: 2,
+    });
+    this.#resolveBuffer = device.createBuffer({
+      label: "toodle gpu timer resolve",
+      size: 2 * BigInt64Array.BYTES_PER_ELEMENT,
+      usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC,
+    });
+    this.#readBuffer = device.createBuffer({
+      label: "toodle gpu timer readback",
+      size: 2 * BigInt64Array.BYTES_PER_ELEMENT,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+  }
+
+  /**
+   * Timestamp writes to add to the render pass descriptor, or undefined if the frame isn't measured.
+   * The first pass of a frame writes the start time, every pass writes the end time so the last one wins.
+   *
+   * @param isFirstPass - Whether the pass starts a new frame
+   */
+  beginPass(isFirstPass: boolean): GPURenderPassTimestampWrites | undefined {
+    if (isFirstPass) {
+      // the previous measurement hasn't been read back yet
+      if (this.#isPending) return undefined;
+      this.#isMeasuring = true;
+      return {
+        querySet: this.#querySet,
+        beginningOfPassWriteIndex: 0,
+        endOfPassWriteIndex: 1,
+      };
+    }
+    if (!this.#isMeasuring) return undefined;
+    return { querySet: this.#querySet, endOfPassWriteIndex: 1 };
+  }
+
+  /**
+   * Resolve the timestamps of the frame. Call after its last pass has ended and before the encoder is finished.
+   */
+  resolve(encoder: GPUCommandEncoder): void {
+    if (!this.#isMeasuring) return;
+    encoder.resolveQuerySet(this.#querySet, 0, 2, this.#resolveBuffer, 0);
+    encoder.copyBufferToBuffer(
+      this.#resolveBuffer,
+      0,
+      this.#readBuffer,
+      0,
+      this.#readBuffer.size,
+    );
+  }
+
+  /**
+   * Start reading back the resolved timestamps. Call after the encoder has been submitted.
+   */
+  read(): void {
+    if (!this.#isMeasuring) return;
+    this.#isMeasuring = false;
+    this.#isPending = true;
+
+    this.#readBuffer
+      .mapAsync(GPUMapMode.READ)
+      .then(() => {
+        const times = new BigInt64Array(this.#readBuffer.getMappedRange());
+        this.#time = Number(times[1] - times[0]) / 1e6;
+        this.#readBuffer.unmap();
+      })
+      .catch(() => {
+        // the device was lost or destroyed while mapping, nothing to report
+      })
+      .finally(() => {
+        this.#isPending = false;
+      });
+  }
+
+  /**
+   * The GPU time in milliseconds of the frame that resolved since the last call, or null if none did.
+   */
+  takeTime(): number | null {
+    const time = this.#time;
+    this.#time = null;
+    return time;
+  }
+
+  destroy(): void {
+    this.#querySet.destroy();
+    this.#resolveBuffer.destroy();
+    this.#readBuffer.destroy();
+  }
+}
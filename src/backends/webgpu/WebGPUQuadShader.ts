@@ -6,15 +6,22 @@ import {
 import { WgslReflect } from "wgsl_reflect";
 import type { EngineUniform } from "../../coreTypes/EngineUniform";
 import type { SceneNode } from "../../scene/SceneNode";
-import { assert } from "../../utils/assert";
 import {
   createGpuPipeline,
   getGpuPipelineDescriptor,
   setVertexInstanceBufferLayout,
 } from "../../utils/boilerplate";
-import type { IBackendShader } from "../IBackendShader";
+import type { IBackendShader, IStaticInstanceBuffer } from "../IBackendShader";
 import type { BlendMode } from "../IRenderBackend";
 import type { ITextureAtlas } from "../ITextureAtlas";
+import { writeInstances } from "../instanceBuffer";
+import {
+  growCapacity,
+  instanceCapError,
+  type OverflowOptions,
+} from "../overflow";
+import { snapInstances } from "../pixelSnap";
+import { writeStaticInstances } from "../staticBuffer";
 import {
   codeWithLineNumbers,
   combineShaderCode,
@@ -25,7 +32,6 @@ import type { WebGPUBackend } from "./WebGPUBackend";
 import quadWgsl from "./wgsl/quad.wgsl";
 
 type InstanceData = {
-  cpuBuffer: Float32Array<ArrayBuffer>;
   gpuBuffer: GPUBuffer;
   bufferLayout: GPUVertexBufferLayout;
 };
@@ -41,8 +47,14 @@ export class WebGPUQuadShader implements IBackendShader {
   #atlas: ITextureAtlas;
   #uniformValues: StructuredView;
   #instanceData: InstanceData;
+  // instances of the current batch, written before they are copied to the gpu buffer
+  #cpuBuffer: Float32Array<ArrayBuffer>;
   #instanceIndex = 0;
   #instanceCount: number;
+  #overflow: OverflowOptions;
+  #pixelSnap: number | null = null;
+  // instance buffers replaced by a grow, destroyed once the frame using them was submitted
+  #retiredBuffers: GPUBuffer[] = [];
 
   #pipeline: GPURenderPipeline;
   #bindGroups: GPUBindGroup[] = [];
@@ -55,6 +67,7 @@ export class WebGPUQuadShader implements IBackendShader {
     userCode?: string,
     blendMode?: BlendMode,
     atlasId?: string,
+    overflow: OverflowOptions = {},
   ) {
     const atlas = backend.getTextureAtlas(atlasId ?? "default");
     if (!atlas) {
@@ -64,6 +77,7 @@ export class WebGPUQuadShader implements IBackendShader {
     this.label = label;
     this.#backend = backend;
     this.#instanceCount = instanceCount;
+    this.#overflow = overflow;
 
     const device = backend.device;
     const presentationFormat = backend.presentationFormat;
@@ -128,18 +142,11 @@ export class WebGPUQuadShader implements IBackendShader {
       );
     }
     const bufferLayout = struct2BufferLayout(instanceStruct);
-    this.#instanceData = {
-      bufferLayout,
-      cpuBuffer: new Float32Array(
-        (bufferLayout.arrayStride * instanceCount) /
-          Float32Array.BYTES_PER_ELEMENT,
-      ),
-      gpuBuffer: device.createBuffer({
-        size: bufferLayout.arrayStride * instanceCount,
-        usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
-        label: `${label} instance data`,
-      }),
-    };
+    this.#instanceData = this.#createInstanceData(bufferLayout, instanceCount);
+    this.#cpuBuffer = new Float32Array(
+      (bufferLayout.arrayStride * instanceCount) /
+        Float32Array.BYTES_PER_ELEMENT,
+    );
 
     // Create pipeline descriptor
     const pipelineDescriptor = getGpuPipelineDescriptor(
@@ -177,7 +184,12 @@ export class WebGPUQuadShader implements IBackendShader {
 
   startFrame(uniform: EngineUniform): void {
     this.#instanceIndex = 0;
+    for (const buffer of this.#retiredBuffers) {
+      buffer.destroy();
+    }
+    this.#retiredBuffers.length = 0;
 
+    this.#pixelSnap = uniform.pixelSnap ?? null;
     this.#uniformValues.set(uniform);
     this.#uniformValues.set({
       viewProjection: uniform.viewProjectionMatrix,
@@ -194,63 +206,165 @@ export class WebGPUQuadShader implements IBackendShader {
   }
 
   processBatch(nodes: SceneNode[]): number {
-    const device = this.#backend.device;
-    const renderPass = this.#backend.renderPass;
-
-    renderPass.setPipeline(this.#pipeline);
-    const batchStartInstanceIndex = this.#instanceIndex;
-
-    let instanceCount = 0;
+    const floatsPerInstance =
+      this.#instanceData.bufferLayout.arrayStride /
+      Float32Array.BYTES_PER_ELEMENT;
+    const { data, instanceCount } = writeInstances(
+      nodes,
+      floatsPerInstance,
+      this.#cpuBuffer,
+    );
+    this.#cpuBuffer = data;
+    if (this.#pixelSnap) {
+      snapInstances(data, 0, instanceCount, floatsPerInstance, this.#pixelSnap);
+    }
 
-    if (nodes.length > this.#instanceCount) {
-      throw new Error(
-        `ToodleInstanceCap: ${nodes.length} instances enqueued, max is ${this.#instanceCount} for ${this.label} shader`,
-      );
+    // instances of all batches in a frame share the buffer, so a batch can run out of room
+    // even if it is smaller than the capacity
+    const available = this.#instanceCount - this.#instanceIndex;
+    if (instanceCount <= available) {
+      this.#draw(0, instanceCount);
+      return 1;
     }
 
-    for (let i = 0; i < nodes.length; i++) {
-      if (!this.#instanceData) {
-        continue;
+    switch (this.#overflow.overflow ?? "throw") {
+      case "split": {
+        let drawCalls = 0;
+        for (let first = 0; first < instanceCount; ) {
+          if (this.#instanceIndex >= this.#instanceCount) {
+            this.#submitPendingDraws();
+          }
+          const count = Math.min(
+            instanceCount - first,
+            this.#instanceCount - this.#instanceIndex,
+          );
+          this.#draw(first, count);
+          first += count;
+          drawCalls++;
+        }
+        this.#overflow.onOverflow?.({
+          label: this.label,
+          strategy: "split",
+          capacity: this.#instanceCount,
+        });
+        return drawCalls;
       }
-      const instance = nodes[i];
-      assert(instance.renderComponent, "instance has no render component");
-      const floatOffset =
-        ((batchStartInstanceIndex + instanceCount) *
-          this.#instanceData.bufferLayout.arrayStride) /
-        Float32Array.BYTES_PER_ELEMENT;
-
-      instanceCount += instance.renderComponent.writeInstance(
-        instance,
-        this.#instanceData.cpuBuffer,
-        floatOffset,
-      );
+      case "grow": {
+        const capacity = growCapacity(this.#instanceCount, instanceCount);
+        this.#growInstanceBuffer(capacity);
+        this.#overflow.onOverflow?.({
+          label: this.label,
+          strategy: "grow",
+          capacity,
+        });
+        this.#draw(0, instanceCount);
+        return 1;
+      }
+      default:
+        if (instanceCount > this.#instanceCount) {
+          throw instanceCapError(
+            instanceCount,
+            this.#instanceCount,
+            this.label,
+          );
+        }
+        this.#submitPendingDraws();
+        this.#draw(0, instanceCount);
+        return 1;
     }
+  }
 
-    if (this.#instanceData) {
-      const byteOffset =
-        batchStartInstanceIndex * this.#instanceData.bufferLayout.arrayStride;
-      const byteLength =
-        instanceCount * this.#instanceData.bufferLayout.arrayStride;
-
-      device.queue.writeBuffer(
-        this.#instanceData.gpuBuffer,
-        byteOffset,
-        this.#instanceData.cpuBuffer,
-        byteOffset / Float32Array.BYTES_PER_ELEMENT,
-        byteLength / Float32Array.BYTES_PER_ELEMENT,
-      );
+  // submit the pending draws so their instances can be overwritten
+  #submitPendingDraws(): void {
+    this.#backend.splitPass();
+    this.#instanceIndex = 0;
+  }
 
-      renderPass.setVertexBuffer(0, this.#instanceData.gpuBuffer);
+  #draw(firstInstance: number, instanceCount: number): void {
+    const device = this.#backend.device;
+    const renderPass = this.#backend.renderPass;
+    const stride = this.#instanceData.bufferLayout.arrayStride;
+    const floatsPerInstance = stride / Float32Array.BYTES_PER_ELEMENT;
 
-      for (let i = 0; i < this.#bindGroups.length; i++) {
-        renderPass.setBindGroup(i, this.#bindGroups[i]);
-      }
+    renderPass.setPipeline(this.#pipeline);
+    device.queue.writeBuffer(
+      this.#instanceData.gpuBuffer,
+      this.#instanceIndex * stride,
+      this.#cpuBuffer,
+      firstInstance * floatsPerInstance,
+      instanceCount * floatsPerInstance,
+    );
+
+    renderPass.setVertexBuffer(0, this.#instanceData.gpuBuffer);
+    for (let i = 0; i < this.#bindGroups.length; i++) {
+      renderPass.setBindGroup(i, this.#bindGroups[i]);
     }
 
+    renderPass.draw(4, instanceCount, 0, this.#instanceIndex);
     this.#instanceIndex += instanceCount;
+  }
+
+  createStaticBuffer(nodes: SceneNode[]): IStaticInstanceBuffer {
+    const device = this.#backend.device;
+    const { data, instanceCount, snapped } = writeStaticInstances(
+      nodes,
+      this.#instanceData.bufferLayout.arrayStride /
+        Float32Array.BYTES_PER_ELEMENT,
+    );
+
+    const buffer = device.createBuffer({
+      label: `${this.label} static instance data`,
+      size: Math.max(data.byteLength, 4),
+      usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+    });
+    device.queue.writeBuffer(buffer, 0, data);
+    let uploaded = data;
+
+    return {
+      instanceCount,
+      draw: () => {
+        // queue writes land before the frame is submitted, so every draw of the batch in a frame uses the last snap
+        const instances = snapped(this.#pixelSnap);
+        if (instances !== uploaded) {
+          device.queue.writeBuffer(buffer, 0, instances);
+          uploaded = instances;
+        }
+        const renderPass = this.#backend.renderPass;
+        renderPass.setPipeline(this.#pipeline);
+        renderPass.setVertexBuffer(0, buffer);
+        for (let i = 0; i < this.#bindGroups.length; i++) {
+          renderPass.setBindGroup(i, this.#bindGroups[i]);
+        }
+        renderPass.draw(4, instanceCount);
+        return 1;
+      },
+      destroy: () => buffer.destroy(),
+    };
+  }
+
+  #growInstanceBuffer(capacity: number): void {
+    // earlier draws of this frame still read from the old buffer
+    this.#retiredBuffers.push(this.#instanceData.gpuBuffer);
+    this.#instanceData = this.#createInstanceData(
+      this.#instanceData.bufferLayout,
+      capacity,
+    );
+    this.#instanceCount = capacity;
+    this.#instanceIndex = 0;
+  }
 
-    renderPass.draw(4, instanceCount, 0, batchStartInstanceIndex);
-    return 1;
+  #createInstanceData(
+    bufferLayout: GPUVertexBufferLayout,
+    instanceCount: number,
+  ): InstanceData {
+    return {
+      bufferLayout,
+      gpuBuffer: this.#backend.device.createBuffer({
+        size: bufferLayout.arrayStride * instanceCount,
+        usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+        label: `${this.label} instance data`,
+      }),
+    };
   }
 
   endFrame(): void {
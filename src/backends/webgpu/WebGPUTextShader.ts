@@ -2,9 +2,11 @@ import { WgslReflect } from "wgsl_reflect";
 import type { EngineUniform } from "../../coreTypes/EngineUniform";
 import type { SceneNode } from "../../scene/SceneNode";
 import { DEFAULT_FONT_SIZE, TextNode } from "../../scene/TextNode";
+import { writeTextEffects } from "../../text/effects";
 import type { MsdfFont } from "../../text/MsdfFont";
 import {
   findLargestFontSize,
+  GLYPH_STRIDE,
   measureText,
   shapeText,
 } from "../../text/shaping";
@@ -20,6 +22,37 @@ if (!struct) {
 }
 const textDescriptorInstanceSize = struct.size;
 
+/**
+ * Write the TextBlockDescriptor of text.wgsl.ts for a text node.
+ *
+ * @param node - The text node
+ * @param block - The font size in the shader's font, the block width (0 for centered text) and height,
+ * and the index of the node's first glyph in the text block buffer
+ * @param dst - The descriptor buffer
+ * @param offset - The float offset of the descriptor in the buffer
+ */
+export function writeTextDescriptor(
+  node: TextNode,
+  block: {
+    fontSize: number;
+    width: number;
+    height: number;
+    bufferPosition: number;
+  },
+  dst: Float32Array,
+  offset: number,
+) {
+  dst.set(node.matrix, offset);
+  const tint = node.tint;
+  dst.set([tint.r, tint.g, tint.b, tint.a], offset + 12);
+  dst[offset + 16] = block.fontSize;
+  dst[offset + 17] = block.width;
+  dst[offset + 18] = block.height;
+  dst[offset + 19] = block.bufferPosition;
+  // Outline, glow and shadow
+  writeTextEffects(node.formatting, dst, offset + 20);
+}
+
 export class WebGPUTextShader implements ITextShader {
   readonly label = "text";
   readonly code: string = msdfShader;
@@ -62,7 +95,7 @@ export class WebGPUTextShader implements ITextShader {
     );
 
     this.#cpuTextBlockBuffer = new Float32Array(
-      instanceCount * this.maxCharCount * 4,
+      instanceCount * this.maxCharCount * GLYPH_STRIDE,
     );
 
     this.#engineUniformsBuffer = device.createBuffer({
@@ -74,7 +107,10 @@ export class WebGPUTextShader implements ITextShader {
     this.#textBlockBuffer = device.createBuffer({
       label: "msdf text buffer",
       size:
-        instanceCount * this.maxCharCount * 4 * Float32Array.BYTES_PER_ELEMENT,
+        instanceCount *
+        this.maxCharCount *
+        GLYPH_STRIDE *
+        Float32Array.BYTES_PER_ELEMENT,
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
     });
 
@@ -138,55 +174,48 @@ export class WebGPUTextShader implements ITextShader {
           `Tried to use WebGPUTextShader on something that isn't a TextNode: ${node}`,
         );
       }
-      const text = node.text;
+      // the node is laid out in its own font, this shader draws the glyphs of its font
+      const font = node.font;
+      const runs = node.runs;
       const formatting = node.formatting;
-      const measurements = measureText(this.#font, text, formatting.wordWrap);
-
-      const textBlockSize = 4 * text.length;
+      const measurements = measureText(font, runs, formatting);
 
       // Calculate the buffer offset to get the current TextBlockDescriptor
       const textDescriptorOffset =
         (this.#instanceIndex * textDescriptorInstanceSize) /
         Float32Array.BYTES_PER_ELEMENT;
 
-      // Shape text and pack to the buffer...
-      this.#cpuDescriptorBuffer.set(node.matrix, textDescriptorOffset);
-
-      // Color
-      this.#cpuDescriptorBuffer.set(
-        [node.tint.r, node.tint.g, node.tint.b, node.tint.a],
-        textDescriptorOffset + 12,
-      );
-
-      // Font Size
       const size = node.size ?? measurements;
       const fontSize = formatting.shrinkToFit
-        ? findLargestFontSize(this.#font, text, size, formatting)
+        ? findLargestFontSize(font, runs, size, formatting)
         : formatting.fontSize;
       const actualFontSize = fontSize || DEFAULT_FONT_SIZE;
-      this.#cpuDescriptorBuffer[textDescriptorOffset + 16] = actualFontSize;
-
-      // Alignment and dimensions
-      this.#cpuDescriptorBuffer[textDescriptorOffset + 17] =
-        formatting.align === "center" ? 0 : measurements.width;
-      this.#cpuDescriptorBuffer[textDescriptorOffset + 18] =
-        measurements.height;
-
-      // Text block buffer offset
-      // the shader at text.wgsl.ts is expecting an index into the text block buffer,
-      // which is an array<vec4f> hence the division by 4
-      this.#cpuDescriptorBuffer[textDescriptorOffset + 19] =
-        this.#textBlockOffset / 4;
+      writeTextDescriptor(
+        node,
+        {
+          // glyph positions are in em units of the node's font
+          fontSize: (actualFontSize * this.#font.lineHeight) / font.lineHeight,
+          width: formatting.align === "center" ? 0 : measurements.width,
+          height: measurements.height,
+          // the shader at text.wgsl.ts is expecting an index into the text block buffer,
+          // which is an array<Glyph> hence the division by the glyph stride
+          bufferPosition: this.#textBlockOffset / GLYPH_STRIDE,
+        },
+        this.#cpuDescriptorBuffer,
+        textDescriptorOffset,
+      );
 
-      shapeText(
-        this.#font,
-        text,
+      const glyphCount = shapeText(
+        font,
+        runs,
         size,
         actualFontSize,
         formatting,
         this.#cpuTextBlockBuffer,
         this.#textBlockOffset,
+        this.#font,
       );
+      const textBlockSize = GLYPH_STRIDE * glyphCount;
 
       // Write instance data
       this.#backend.device.queue.writeBuffer(
@@ -208,12 +237,7 @@ export class WebGPUTextShader implements ITextShader {
       this.#textBlockOffset += textBlockSize;
 
       // Draw text
-      renderPass.draw(
-        4,
-        measurements.printedCharCount,
-        4 * this.#instanceIndex,
-        0,
-      );
+      renderPass.draw(4, glyphCount, 4 * this.#instanceIndex, 0);
       this.#instanceIndex++;
     }
 
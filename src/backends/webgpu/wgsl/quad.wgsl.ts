@@ -10,7 +10,7 @@ struct InstanceData {
   @location(4) uvOffsetAndScale: vec4<f32>,
   // location 5 is the crop offset from center and scale. These are ratios applied to the unit quad.
   @location(5) cropOffsetAndScale: vec4<f32>,
-  // location 6 is the atlas index
+  // location 6 is the atlas index. the highest bit is set for frames that are stored rotated in the atlas
   @location(6) atlasIndex: u32,
   // @INSTANCE_DATA SNIPPET
 }
@@ -48,6 +48,7 @@ struct EngineUniform {
 // if the top left vertex was -1, it would be: (-1 * 10 - 45) * 2 / 100 = -1.1
 const enginePosLookup = array(vec2f(-0.5, 0.5), vec2f(-0.5, -0.5), vec2f(0.5, 0.5), vec2f(0.5, -0.5));
 const engineUvLookup = array(vec2f(0, 0), vec2f(0, 1), vec2f(1, 0), vec2f(1, 1));
+const engineRotatedFlag = 0x80000000u;
 
 @group(0) @binding(0) var<uniform> engineUniform: EngineUniform;
 @group(0) @binding(1) var linearSampler: sampler;
@@ -93,14 +94,19 @@ fn default_vertex_shader(
 
   // set the uv coordinates in the texture atlas.
   let original_uv = engineUvLookup[VertexIndex];
+  // frames stored rotated clockwise in the atlas are sampled with swapped axes,
+  // starting from their top right corner
+  let isRotated = (instance.atlasIndex & engineRotatedFlag) != 0u;
+  let frame_uv = select(original_uv, vec2f(-original_uv.y, original_uv.x), isRotated);
+  let uvCropScale = select(cropScale, cropScale.yx, isRotated);
   // uvOffsetAndScale is a vec4 with the following values:
   // [0,1] = uv offset
   // [2,3] = uv scale
-  let atlas_uv = original_uv * instance.uvOffsetAndScale.zw * cropScale + instance.uvOffsetAndScale.xy;
+  let atlas_uv = frame_uv * instance.uvOffsetAndScale.zw * uvCropScale + instance.uvOffsetAndScale.xy;
   // we also pack the original uv coordinates in the w and z components
   // since these can be useful in the fragment shader
   output.engine_uv = vec4f(atlas_uv, original_uv);
-  output.engine_atlasIndex = u32(instance.atlasIndex);
+  output.engine_atlasIndex = instance.atlasIndex & ~engineRotatedFlag;
   // @PASSTHROUGH_SNIPPET
 
   return output;
@@ -9,6 +9,10 @@ const pos = array(
   vec2f(1,  0),
 );
 
+// pxRange (AKA distanceRange) comes from the msdfgen tool.
+// Distances are known up to half of it away from the edge of a glyph, in texels.
+const pxRange = 4.0;
+
 // Debug colors for visualization
 const debugColors = array(
   vec4f(1, 0, 0, 1),
@@ -29,6 +33,11 @@ struct VertexOutput {
   @location(0) texcoord: vec2f,
   @location(1) debugColor: vec4f,
   @location(2) @interpolate(flat) instanceIndex: u32,
+  @location(3) color: vec4f,
+  @location(4) @interpolate(flat) page: u32,
+  @location(5) @interpolate(flat) rect: vec4f,         // Glyph rect in the font texture (uv)
+  @location(6) @interpolate(flat) effects: vec3f,      // Outline width, glow width and shadow blur (texels)
+  @location(7) @interpolate(flat) shadowOffset: vec2f, // Shadow offset (uv)
 };
 
 // Metadata for a single character glyph
@@ -37,6 +46,15 @@ struct Char {
   texExtent: vec2f, // Size in texture (pixels)
   size: vec2f,      // Glyph size in ems
   offset: vec2f,    // Position offset in ems
+  page: f32,        // Layer of the page in the font texture
+};
+
+// A glyph of a text block
+struct Glyph {
+  position: vec2f, // Position in ems
+  charIndex: f32,  // Index into chars
+  scale: f32,      // Scale of the glyph in ems of the text block
+  color: vec4f,    // Color, multiplied with the text color
 };
 
 // Metadata for a text block
@@ -46,18 +64,23 @@ struct TextBlockDescriptor {
   fontSize: f32,        // Font size
   blockWidth: f32,      // Total width of text block
   blockHeight: f32,     // Total height of text block
-  bufferPosition: f32   // Index and length in textBuffer
+  bufferPosition: f32,  // Index and length in textBuffer
+  outlineColor: vec4f,  // Outline color, transparent without an outline
+  glowColor: vec4f,     // Glow color, transparent without a glow
+  shadowColor: vec4f,   // Shadow color, transparent without a shadow
+  shadow: vec4f,        // Shadow offset (xy) and blur (z) in pixels
+  effectWidths: vec2f,  // Outline (x) and glow (y) width in pixels
 };
 
 // Font bindings
-@group(0) @binding(0) var fontTexture: texture_2d<f32>;
+@group(0) @binding(0) var fontTexture: texture_2d_array<f32>; // One layer per page
 @group(0) @binding(1) var fontSampler: sampler;
 @group(0) @binding(2) var<storage> chars: array<Char>;
 @group(0) @binding(3) var<uniform> fontData: vec4f; // Contains line height (x)
 
 // Text bindings
 @group(1) @binding(0) var<storage> texts: array<TextBlockDescriptor>;
-@group(1) @binding(1) var<storage> textBuffer: array<vec4f>; // Each vec4: xy = glyph pos, z = char index
+@group(1) @binding(1) var<storage> textBuffer: array<Glyph>;
 
 // Global uniforms
 @group(2) @binding(0) var<uniform> viewProjectionMatrix: mat3x3f;
@@ -76,29 +99,42 @@ fn vertexMain(input: VertexInput) -> VertexOutput {
   let textIndex = input.vertex / 4;
 
   let text = texts[textIndex];
-  let textElement = textBuffer[u32(text.bufferPosition) + input.instance];
-  let char = chars[u32(textElement.z)];
+  let glyph = textBuffer[u32(text.bufferPosition) + input.instance];
+  let char = chars[u32(glyph.charIndex)];
 
   let lineHeight = fontData.x;
-  let textWidth = text.blockWidth;
-  let textHeight = text.blockHeight;
-
-  // Center text vertically; origin is mid-height
-  let offset = vec2f(0, -textHeight / 2);
+  let texSize = vec2f(textureDimensions(fontTexture, 0));
 
-  // Glyph position in ems (quad pos * size + per-char offset)
-  let emPos = pos[vertexIndex] * char.size + char.offset + textElement.xy - offset;
+  // Effect sizes in texels of the font texture, limited to the distances the field knows
+  let texelsPerPixel = lineHeight / (text.fontSize * glyph.scale);
+  let reach = pxRange / 2;
+  let outlineWidth = min(text.effectWidths.x * texelsPerPixel, reach);
+  let glowWidth = min(text.effectWidths.y * texelsPerPixel, reach - outlineWidth);
+  let shadowBlur = min(text.shadow.z * texelsPerPixel, reach);
+  let shadowOffset = text.shadow.xy * texelsPerPixel;
+
+  // The quad grows by the shadow offset so the shadow isn't cut off
+  let corner = pos[vertexIndex] * 2 + vec2f(-1, 1);
+  let quadPos = pos[vertexIndex] * char.size + corner * abs(shadowOffset);
+
+  // Glyph position in ems (quad pos + per-char offset, scaled for runs of other sizes),
+  // glyph positions are aligned relative to the center of the block by shapeText
+  let emPos = (quadPos + char.offset) * glyph.scale + glyph.position;
   let charPos = emPos * (text.fontSize / lineHeight);
 
   var output: VertexOutput;
   let transformedPosition = viewProjectionMatrix * text.transform * vec3f(charPos, 1);
 
   output.position = vec4f(transformedPosition, 1);
-  output.texcoord = pos[vertexIndex] * vec2f(1, -1);
-  output.texcoord *= char.texExtent;
+  output.texcoord = quadPos * vec2f(1, -1) / texSize;
   output.texcoord += char.texOffset;
   output.debugColor = debugColors[vertexIndex];
   output.instanceIndex = textIndex;
+  output.color = glyph.color;
+  output.page = u32(char.page);
+  output.rect = vec4f(char.texOffset, char.texOffset + char.texExtent);
+  output.effects = vec3f(outlineWidth, glowWidth, shadowBlur);
+  output.shadowOffset = shadowOffset * vec2f(1, -1) / texSize;
   return output;
 
   // To debug - hardcode quad in bottom right quarter of the screen:
@@ -106,11 +142,26 @@ fn vertexMain(input: VertexInput) -> VertexOutput {
 }
 
 // Signed distance function sampling for MSDF font rendering
-fn sampleMsdf(texcoord: vec2f) -> f32 {
-  let c = textureSample(fontTexture, fontSampler, texcoord);
+fn sampleMsdf(texcoord: vec2f, page: u32) -> f32 {
+  let c = textureSample(fontTexture, fontSampler, texcoord, page);
   return max(min(c.r, c.g), min(max(c.r, c.g), c.b));
 }
 
+// Signed distance to the edge of a glyph in texels, positive inside.
+// Outside of the glyph rect, where the texture holds its neighbours, it is further than any effect reaches.
+fn glyphDistance(texcoord: vec2f, page: u32, rect: vec4f) -> f32 {
+  let inside = all(texcoord >= rect.xy) && all(texcoord <= rect.zw);
+  let sigDist = (sampleMsdf(clamp(texcoord, rect.xy, rect.zw), page) - 0.5) * pxRange;
+  return select(-pxRange, sigDist, inside);
+}
+
+// Composite two colors with straight alpha
+fn over(top: vec4f, bottom: vec4f) -> vec4f {
+  let alpha = top.a + bottom.a * (1 - top.a);
+  let rgb = top.rgb * top.a + bottom.rgb * bottom.a * (1 - top.a);
+  return vec4f(rgb / max(alpha, 0.0001), alpha);
+}
+
 // Fragment shader
 // Anti-aliasing technique by Paul Houx
 // more details here:
@@ -118,32 +169,43 @@ fn sampleMsdf(texcoord: vec2f) -> f32 {
 @fragment
 fn fragmentMain(input: VertexOutput) -> @location(0) vec4f {
   let text = texts[input.instanceIndex];
-
-  // pxRange (AKA distanceRange) comes from the msdfgen tool.
-  let pxRange = 4.0;
   let texSize = vec2f(textureDimensions(fontTexture, 0));
 
   let dx = texSize.x * length(vec2f(dpdxFine(input.texcoord.x), dpdyFine(input.texcoord.x)));
   let dy = texSize.y * length(vec2f(dpdxFine(input.texcoord.y), dpdyFine(input.texcoord.y)));
 
-  let toPixels = pxRange * inverseSqrt(dx * dx + dy * dy);
-  let sigDist = sampleMsdf(input.texcoord) - 0.5;
-  let pxDist = sigDist * toPixels;
+  let toPixels = inverseSqrt(dx * dx + dy * dy);
+  let glyphDist = glyphDistance(input.texcoord, input.page, input.rect);
+  let shadowDist = glyphDistance(input.texcoord - input.shadowOffset, input.page, input.rect);
 
-  let edgeWidth = 0.5;
-  let alpha = smoothstep(-edgeWidth, edgeWidth, pxDist);
+  let outlineWidth = input.effects.x;
+  let glowWidth = input.effects.y;
+  let shadowBlur = input.effects.z;
 
-  if (alpha < 0.001) {
+  let edgeWidth = 0.5;
+  let fill = smoothstep(-edgeWidth, edgeWidth, glyphDist * toPixels);
+  let outline = smoothstep(-edgeWidth, edgeWidth, (glyphDist + outlineWidth) * toPixels);
+  let glow = 1 - smoothstep(0, max(glowWidth, 0.001), -(glyphDist + outlineWidth));
+  let shadowEdge = shadowBlur / 2 + edgeWidth / toPixels;
+  let shadow = smoothstep(-shadowEdge, shadowEdge, shadowDist + outlineWidth);
+
+  // Effects fade with the text
+  let color = text.color * input.color;
+  var result = vec4f(text.shadowColor.rgb, text.shadowColor.a * color.a * shadow);
+  result = over(vec4f(text.glowColor.rgb, text.glowColor.a * color.a * glow), result);
+  result = over(vec4f(text.outlineColor.rgb, text.outlineColor.a * color.a * outline), result);
+  result = over(vec4f(color.rgb, color.a * fill), result);
+
+  if (result.a < 0.001) {
     discard;
   }
 
-  let msdfColor = vec4f(text.color.rgb, text.color.a * alpha);
-  return msdfColor;
+  return result;
 
   // Debug options:
   // return text.color;
   // return input.debugColor;
   // return vec4f(1, 0, 1, 1); // hardcoded magenta
-  // return textureSample(fontTexture, fontSampler, input.texcoord);
+  // return textureSample(fontTexture, fontSampler, input.texcoord, input.page);
 }
 `;
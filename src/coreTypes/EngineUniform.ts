@@ -6,6 +6,11 @@ export type EngineUniform = {
   resolution: Resolution;
   camera: Camera;
   viewProjectionMatrix: Mat3;
+  /**
+   * Size of a world unit in pixels if quad translations should be rounded to whole pixels, null otherwise.
+   * Set in pixel perfect mode, see {@link ToodleOptions.pixelPerfect}.
+   */
+  pixelSnap?: number | null;
 
   // could add time, deltaTime, etc here if needed
 };
@@ -0,0 +1,228 @@
+import { vec2 } from "wgpu-matrix";
+import type { IBackendShader } from "../backends/IBackendShader";
+import { INSTANCE_FLOATS, RECT_INDEX } from "../backends/quadInstance";
+import { web } from "../colors/mod";
+import type { Color } from "../coreTypes/Color";
+import type { Batcher, Pipeline } from "../scene/Batcher";
+import { SceneNode } from "../scene/SceneNode";
+
+/**
+ * The layer that batch outlines are drawn on. It sits above every layer a game would use.
+ */
+export const DEBUG_OUTLINE_LAYER = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Information about the batch a {@link DrawCallDebugger} is stopped on.
+ */
+export type DebugBatchInfo = {
+  /** The index of the batch in draw order, starting at 0 */
+  index: number;
+  /** The total number of batches in the frame */
+  batchCount: number;
+  /** The debug label of the shader that draws the batch */
+  label: string;
+  /** The layer (z-index) of the batch */
+  layer: number;
+  /** The number of nodes in the batch */
+  instanceCount: number;
+};
+
+/**
+ * Steps through the draw calls of a frame one pipeline batch at a time.
+ *
+ * When enabled, only the first {@link DrawCallDebugger.step} batches are drawn and the nodes of the
+ * last drawn batch are outlined. Batches are counted in the order they are submitted in
+ * `toodle.endFrame` - by layer, then by pipeline.
+ *
+ * Only the world space batches of the frame's camera are counted and stepped through.
+ * Draws with other cameras and screen space nodes are always drawn in full.
+ *
+ * @example
+ *
+ * toodle.debug.enabled = true;
+ * window.addEventListener("keydown", (e) => {
+ *   if (e.key === "ArrowRight") toodle.debug.next();
+ *   if (e.key === "ArrowLeft") toodle.debug.previous();
+ * });
+ */
+export class DrawCallDebugger {
+  /** Whether step-through mode is active */
+  enabled = false;
+  /** The number of batches to draw. The last drawn batch is highlighted */
+  step = 1;
+  /** The color of the outlines drawn around the nodes of the current batch */
+  outlineColor: Color = web.magenta;
+  /** The width of the outlines in logical pixels */
+  outlineWidth = 2;
+  /**
+   * Called with the current batch whenever it changes.
+   * Defaults to logging the shader label, layer and instance count to the console.
+   */
+  print: (info: DebugBatchInfo) => void = (info) => {
+    console.log(
+      `toodle: batch ${info.index + 1}/${info.batchCount} "${info.label}" layer ${info.layer}, ${info.instanceCount} instances`,
+    );
+  };
+
+  #current: DebugBatchInfo | null = null;
+  #batchCount = 0;
+
+  /**
+   * Draw one more batch.
+   */
+  next() {
+    this.step = Math.min(this.step + 1, Math.max(1, this.#batchCount));
+  }
+
+  /**
+   * Draw one fewer batch.
+   */
+  previous() {
+    this.step = Math.max(1, this.step - 1);
+  }
+
+  /**
+   * The batch that was highlighted in the last frame, or null if nothing was drawn.
+   */
+  get currentBatch(): DebugBatchInfo | null {
+    return this.#current;
+  }
+
+  /**
+   * The number of batches in the last frame.
+   */
+  get batchCount(): number {
+    return this.#batchCount;
+  }
+
+  /**
+   * Whether the batch at the given index in draw order should be drawn.
+   */
+  shouldDraw(batchIndex: number): boolean {
+    return !this.enabled || batchIndex < this.step;
+  }
+
+  /**
+   * Find the batch to highlight for the enqueued frame and print it if it changed.
+   * Called by toodle at the start of endFrame.
+   *
+   * @returns The pipeline to highlight, or null if the frame is empty
+   */
+  inspect(layers: Batcher["layers"]): Pipeline | null {
+    const batches = layers.flatMap((layer) =>
+      layer.pipelines.map((pipeline) => ({ layer: layer.z, pipeline })),
+    );
+    this.#batchCount = batches.length;
+    if (!batches.length) {
+      this.#current = null;
+      return null;
+    }
+
+    const index = Math.min(Math.max(this.step, 1), batches.length) - 1;
+    const { layer, pipeline } = batches[index];
+    const previous = this.#current;
+    this.#current = {
+      index,
+      batchCount: batches.length,
+      label: pipeline.shader.label,
+      layer,
+      instanceCount: pipeline.nodes.length,
+    };
+
+    if (
+      previous?.index !== index ||
+      previous.batchCount !== this.#current.batchCount ||
+      previous.label !== this.#current.label ||
+      previous.layer !== layer ||
+      previous.instanceCount !== this.#current.instanceCount
+    ) {
+      this.print(this.#current);
+    }
+    return pipeline;
+  }
+
+  /**
+   * Create a node that draws an outline around the world space quad of another node.
+   *
+   * @param node - The node to outline
+   * @param shader - The default quad shader
+   * @param zoom - The camera zoom, used to keep the outline width constant on screen
+   */
+  createOutline(node: SceneNode, shader: IBackendShader, zoom: number) {
+    const color = this.outlineColor;
+    const thickness = this.outlineWidth / zoom;
+
+    return new SceneNode({
+      layer: DEBUG_OUTLINE_LAYER,
+      render: {
+        shader,
+        writeInstance: (_outline, array, offset) => {
+          const width = node.size?.width ?? 0;
+          const height = node.size?.height ?? 0;
+          const corners = [
+            vec2.transformMat3([-width / 2, height / 2], node.matrix),
+            vec2.transformMat3([width / 2, height / 2], node.matrix),
+            vec2.transformMat3([width / 2, -height / 2], node.matrix),
+            vec2.transformMat3([-width / 2, -height / 2], node.matrix),
+          ];
+
+          for (let i = 0; i < 4; i++) {
+            writeEdge(
+              array,
+              offset + i * INSTANCE_FLOATS,
+              corners[i],
+              corners[(i + 1) % 4],
+              thickness,
+              color,
+            );
+          }
+          return 4;
+        },
+        instanceCount: () => 4,
+      },
+    });
+  }
+}
+
+/**
+ * Write a rect instance for the default quad shader that spans from start to end.
+ */
+function writeEdge(
+  array: Float32Array,
+  offset: number,
+  start: ArrayLike<number>,
+  end: ArrayLike<number>,
+  thickness: number,
+  color: Color,
+) {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const length = Math.hypot(dx, dy) || 1;
+
+  // model matrix columns: along the edge, across the edge and the center of the edge
+  array.set(
+    [
+      dx,
+      dy,
+      0,
+      0,
+      (-dy / length) * thickness,
+      (dx / length) * thickness,
+      0,
+      0,
+      (start[0] + end[0]) / 2,
+      (start[1] + end[1]) / 2,
+      1,
+      0,
+    ],
+    offset,
+  );
+  array.set([color.r, color.g, color.b, color.a], offset + 12);
+  array.set([0, 0, 0, 0], offset + 16);
+  array.set([0, 0, 1, 1], offset + 20);
+  new DataView(array.buffer).setUint32(
+    array.byteOffset + (offset + 24) * Float32Array.BYTES_PER_ELEMENT,
+    RECT_INDEX,
+    true,
+  );
+}
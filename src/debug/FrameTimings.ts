@@ -0,0 +1,170 @@
+/**
+ * A fixed size window of samples with a running average.
+ */
+export class RollingAverage {
+  readonly size: number;
+
+  #samples: number[] = [];
+  #index = 0;
+  #sum = 0;
+  #last = 0;
+
+  /**
+   * @param size - The number of samples to average over
+   */
+  constructor(size: number) {
+    this.size = size;
+  }
+
+  push(value: number) {
+    if (this.#samples.length < this.size) {
+      this.#samples.push(value);
+    } else {
+      this.#sum -= this.#samples[this.#index];
+      this.#samples[this.#index] = value;
+      this.#index = (this.#index + 1) % this.size;
+    }
+    this.#sum += value;
+    this.#last = value;
+  }
+
+  /** The most recent sample */
+  get last(): number {
+    return this.#last;
+  }
+
+  /** The average of the samples in the window, 0 if there are none */
+  get average(): number {
+    return this.#samples.length ? this.#sum / this.#samples.length : 0;
+  }
+
+  toJSON(): TimingStats {
+    return { last: this.last, average: this.average };
+  }
+}
+
+/**
+ * Timing of one part of the frame in milliseconds.
+ */
+export type TimingStats = {
+  /** Time spent in the last frame */
+  last: number;
+  /** Rolling average over the last {@link FrameTimings.windowSize} frames */
+  average: number;
+};
+
+/**
+ * A plain object snapshot of {@link FrameTimings}, e.g. to send to a dashboard.
+ */
+export type FrameTimingsSnapshot = {
+  enqueue: TimingStats;
+  endFrame: TimingStats;
+  submit: TimingStats;
+  gpu: TimingStats | null;
+  shaders: Record<string, TimingStats>;
+  layers: Record<number, TimingStats>;
+};
+
+/**
+ * CPU and GPU timings of recent frames in milliseconds, with rolling averages.
+ *
+ * CPU times are measured with `performance.now()`. GPU times are only available on backends
+ * that support timer queries and lag a few frames behind.
+ */
+export class FrameTimings {
+  /** The number of frames the rolling averages are computed over */
+  readonly windowSize: number;
+  /** Time spent enqueueing nodes with toodle.draw */
+  readonly enqueue: RollingAverage;
+  /** Total time spent in toodle.endFrame */
+  readonly endFrame: RollingAverage;
+  /** Time spent submitting the frame to the backend, after all batches were processed */
+  readonly submit: RollingAverage;
+  /** Time the GPU spent on the frame. Only updated when the backend can measure it */
+  readonly gpu: RollingAverage;
+  /** Time spent in processBatch, by shader label */
+  readonly shaders = new Map<string, RollingAverage>();
+  /** Time spent in processBatch, by layer */
+  readonly layers = new Map<number, RollingAverage>();
+
+  #hasGpuTime = false;
+  #enqueueTime = 0;
+  #shaderTimes = new Map<string, number>();
+  #layerTimes = new Map<number, number>();
+
+  constructor(windowSize = 60) {
+    this.windowSize = windowSize;
+    this.enqueue = new RollingAverage(windowSize);
+    this.endFrame = new RollingAverage(windowSize);
+    this.submit = new RollingAverage(windowSize);
+    this.gpu = new RollingAverage(windowSize);
+  }
+
+  /**
+   * Add time spent enqueueing nodes to the current frame.
+   */
+  addEnqueue(ms: number) {
+    this.#enqueueTime += ms;
+  }
+
+  /**
+   * Add time spent processing a batch to the current frame.
+   */
+  addBatch(label: string, layer: number, ms: number) {
+    this.#shaderTimes.set(label, (this.#shaderTimes.get(label) ?? 0) + ms);
+    this.#layerTimes.set(layer, (this.#layerTimes.get(layer) ?? 0) + ms);
+  }
+
+  /**
+   * Finish the current frame and push its timings into the rolling averages.
+   *
+   * @param endFrame - Total time spent in endFrame
+   * @param submit - Time spent submitting the frame to the backend
+   * @param gpu - The gpu time of a frame that resolved since the last commit, if any
+   */
+  commit(endFrame: number, submit: number, gpu: number | null) {
+    this.enqueue.push(this.#enqueueTime);
+    this.endFrame.push(endFrame);
+    this.submit.push(submit);
+    if (gpu !== null) {
+      this.#hasGpuTime = true;
+      this.gpu.push(gpu);
+    }
+
+    // shaders and layers that weren't drawn this frame count as 0 so their averages decay
+    commitTimes(this.shaders, this.#shaderTimes, this.windowSize);
+    commitTimes(this.layers, this.#layerTimes, this.windowSize);
+
+    this.#enqueueTime = 0;
+    this.#shaderTimes.clear();
+    this.#layerTimes.clear();
+  }
+
+  toJSON(): FrameTimingsSnapshot {
+    return {
+      enqueue: this.enqueue.toJSON(),
+      endFrame: this.endFrame.toJSON(),
+      submit: this.submit.toJSON(),
+      gpu: this.#hasGpuTime ? this.gpu.toJSON() : null,
+      shaders: Object.fromEntries(
+        [...this.shaders].map(([label, avg]) => [label, avg.toJSON()]),
+      ),
+      layers: Object.fromEntries(
+        [...this.layers].map(([z, avg]) => [z, avg.toJSON()]),
+      ),
+    };
+  }
+}
+
+function commitTimes<K>(
+  averages: Map<K, RollingAverage>,
+  times: Map<K, number>,
+  windowSize: number,
+) {
+  for (const key of times.keys()) {
+    if (!averages.has(key)) averages.set(key, new RollingAverage(windowSize));
+  }
+  for (const [key, average] of averages) {
+    average.push(times.get(key) ?? 0);
+  }
+}
@@ -0,0 +1,11 @@
+export {
+  DEBUG_OUTLINE_LAYER,
+  type DebugBatchInfo,
+  DrawCallDebugger,
+} from "./DrawCallDebugger";
+export {
+  FrameTimings,
+  type FrameTimingsSnapshot,
+  RollingAverage,
+  type TimingStats,
+} from "./FrameTimings";
@@ -15,7 +15,7 @@ export const DEFAULT_LIMITS = {
   instanceBufferFields: 16 - 6,
   /** Maximum size of instance buffer */
   instanceBufferSize: Float32Array.BYTES_PER_ELEMENT * 4 * (16 - 6),
-  /** Maximum length of a single piece of text */
+  /** Maximum number of glyphs in a single piece of text */
   maxTextLength: 256,
 };
 
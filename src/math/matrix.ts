@@ -2,6 +2,7 @@ import { type Mat3, mat3, vec2 } from "wgpu-matrix";
 import type { Point } from "../coreTypes/Point";
 import type { Transform } from "../coreTypes/Transform";
 import type { Camera } from "../scene/Camera";
+import type { Bounds } from "../scene/SceneNode";
 import type { Resolution } from "../screen/resolution";
 
 /**
@@ -90,6 +91,31 @@ export function convertWorldToScreen(
   };
 }
 
+/**
+ * Get the axis-aligned bounds of the area visible to the camera in world space.
+ * When the camera is rotated, this is the bounding box of the rotated view rectangle.
+ *
+ * @param camera - The camera, taking position, zoom and rotation into account.
+ * @param resolution - The resolution of the screen in logical pixels.
+ */
+export function getViewBounds(camera: Camera, resolution: Resolution): Bounds {
+  const halfWidth = resolution.width / 2 / camera.zoom;
+  const halfHeight = resolution.height / 2 / camera.zoom;
+  const cos = Math.abs(Math.cos(camera.rotationRadians));
+  const sin = Math.abs(Math.sin(camera.rotationRadians));
+  const extentX = halfWidth * cos + halfHeight * sin;
+  const extentY = halfWidth * sin + halfHeight * cos;
+
+  return {
+    x: camera.x,
+    y: camera.y,
+    left: camera.x - extentX,
+    right: camera.x + extentX,
+    top: camera.y + extentY,
+    bottom: camera.y - extentY,
+  };
+}
+
 export function transformPoint(point: Point, matrix: Mat3): Point {
   const result = vec2.transformMat3([point.x, point.y], matrix);
   return {
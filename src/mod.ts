@@ -3,13 +3,17 @@ export type * from "./coreTypes/mod";
 export type * from "./scene/QuadNode";
 export type * from "./scene/SceneNode";
 export type * from "./scene/TextNode";
+export type * from "./scene/FrameCapture";
+export type * from "./scene/StaticBatch";
 export type * from "./backends/IBackendShader";
 export type * from "./backends/IRenderBackend";
 
 export * from "./limits";
 export * from "./Toodle";
 
+export * as Animation from "./animation/mod";
 export * as Colors from "./colors/mod";
+export * as Debug from "./debug/mod";
 export * as GfxMath from "./math/mod";
 export * as Scene from "./scene/mod";
 export * as Screen from "./screen/mod";
@@ -20,3 +24,4 @@ export * as Utils from "./utils/mod";
 
 export { AssetManager } from "./textures/AssetManager";
 export { Bundles } from "./textures/Bundles";
+export { RenderTarget } from "./textures/RenderTarget";
@@ -1,5 +1,9 @@
-import type { IBackendShader } from "../backends/IBackendShader";
-import type { SceneNode } from "./SceneNode";
+import type {
+  IBackendShader,
+  IStaticInstanceBuffer,
+} from "../backends/IBackendShader";
+import type { Bounds, SceneNode } from "./SceneNode";
+import type { StaticBatch } from "./StaticBatch";
 
 type Layer = {
   z: number;
@@ -9,34 +13,132 @@ type Layer = {
 export type Pipeline<TNode extends SceneNode = SceneNode> = {
   shader: IBackendShader;
   nodes: TNode[];
+  /** Set for pipelines of a static batch, which are drawn from this buffer instead of their nodes */
+  staticBuffer?: IStaticInstanceBuffer;
 };
 
 export class Batcher {
   nodes: SceneNode[] = [];
   layers: Layer[] = [];
   pipelines: Pipeline[] = [];
+  /** Number of nodes skipped because their bounds were outside of the view */
+  culledNodes = 0;
+  /** Number of subtrees skipped because their {@link SceneNode.subtreeBounds} were outside of the view */
+  culledSubtrees = 0;
+  /**
+   * Batches of screen space nodes. When set, subtrees in screen space are enqueued here instead,
+   * without culling. See {@link SceneNode.space}.
+   */
+  screen: Batcher | null = null;
+
+  /**
+   * Add a node and its descendants to the batches.
+   *
+   * @param node - The root of the tree to enqueue
+   * @param view - World space bounds of the view. Nodes outside of it are culled. Pass null to disable culling.
+   */
+  enqueue(node: SceneNode, view: Bounds | null = null) {
+    if (this.screen && node.space === "screen") {
+      this.screen.enqueue(node);
+      return;
+    }
+
+    if (view) {
+      const subtreeBounds = node.subtreeBounds;
+      if (subtreeBounds && !intersects(subtreeBounds, view)) {
+        this.culledSubtrees++;
+        this.#enqueueScreenDescendants(node);
+        return;
+      }
+    }
 
-  enqueue(node: SceneNode) {
     if (node.renderComponent && node.isActive) {
-      this.nodes.push(node);
-      const z = node.layer;
-      const layer = this.#findOrCreateLayer(z);
-      const pipeline = this.#findOrCreatePipeline(
-        layer,
-        node.renderComponent.shader,
-      );
-      pipeline.nodes.push(node);
+      // nodes without a size have no meaningful bounds, so they are never culled
+      if (view && node.size && !intersects(node.bounds, view)) {
+        this.culledNodes++;
+      } else {
+        this.#add(node, node.renderComponent.shader);
+      }
     }
 
     for (const kid of node.kids) {
-      this.enqueue(kid);
+      this.enqueue(kid, view);
+    }
+  }
+
+  /**
+   * Add the baked pipelines of a static batch, rebaking it first if it was invalidated.
+   * The baked nodes are drawn in the space of its root, screen space subtrees inside a world space batch
+   * are enqueued like any other screen space node, see {@link StaticBatch.screenNodes}.
+   *
+   * @param batch - The static batch to enqueue
+   * @param view - World space bounds of the view. The batch is culled if its root has subtree bounds outside of it.
+   */
+  enqueueStatic(batch: StaticBatch, view: Bounds | null = null) {
+    if (this.screen && batch.root.space === "screen") {
+      this.screen.enqueueStatic(batch);
+      return;
+    }
+
+    const subtreeBounds = batch.root.subtreeBounds;
+    if (view && subtreeBounds && !intersects(subtreeBounds, view)) {
+      this.culledSubtrees++;
+      this.#enqueueScreenDescendants(batch.root);
+      return;
+    }
+
+    const pipelines = batch.bake();
+    for (const node of batch.screenNodes) {
+      (this.screen ?? this).enqueue(node);
+    }
+    for (const baked of pipelines) {
+      const layer = this.#findOrCreateLayer(baked.z);
+      if (!baked.buffer) {
+        // the shader can't keep instances around, so the nodes are drawn like any other node
+        for (const node of baked.nodes) {
+          this.#add(node, baked.shader);
+        }
+        continue;
+      }
+
+      const pipeline: Pipeline = {
+        shader: baked.shader,
+        nodes: baked.nodes,
+        staticBuffer: baked.buffer,
+      };
+      layer.pipelines.push(pipeline);
+      this.pipelines.push(pipeline);
     }
   }
 
   flush() {
+    this.screen?.flush();
     this.nodes = [];
     this.layers = [];
     this.pipelines = [];
+    this.culledNodes = 0;
+    this.culledSubtrees = 0;
+  }
+
+  /**
+   * Screen space nodes are anchored to the screen, so they are drawn even if their world space ancestors are culled.
+   */
+  #enqueueScreenDescendants(node: SceneNode) {
+    if (!this.screen) return;
+    for (const kid of node.kids) {
+      if (kid.space === "screen") {
+        this.screen.enqueue(kid);
+      } else {
+        this.#enqueueScreenDescendants(kid);
+      }
+    }
+  }
+
+  #add(node: SceneNode, shader: IBackendShader) {
+    this.nodes.push(node);
+    const layer = this.#findOrCreateLayer(node.layer);
+    const pipeline = this.#findOrCreatePipeline(layer, shader);
+    pipeline.nodes.push(node);
   }
 
   #findOrCreateLayer(z: number) {
@@ -50,7 +152,9 @@ export class Batcher {
   }
 
   #findOrCreatePipeline(layer: Layer, shader: IBackendShader) {
-    let pipeline = layer.pipelines.find((p) => p.shader === shader);
+    let pipeline = layer.pipelines.find(
+      (p) => p.shader === shader && !p.staticBuffer,
+    );
     if (!pipeline) {
       pipeline = { shader, nodes: [] };
       layer.pipelines.push(pipeline);
@@ -59,3 +163,12 @@ export class Batcher {
     return pipeline;
   }
 }
+
+function intersects(a: Bounds, b: Bounds) {
+  return (
+    a.left <= b.right &&
+    a.right >= b.left &&
+    a.bottom <= b.top &&
+    a.top >= b.bottom
+  );
+}
@@ -1,9 +1,18 @@
 import { mat3 } from "wgpu-matrix";
+import type { Viewport } from "../backends/IRenderBackend";
 import type { Vec2 } from "../coreTypes/Vec2";
 import { deg2rad, rad2deg } from "../math/angle";
 import { createViewMatrix } from "../math/matrix";
 
 export class Camera {
+  /**
+   * The part of the frame this camera draws into, in fractions of the frame size.
+   * Null draws into the whole frame. Draws are clipped to the viewport.
+   *
+   * See {@link DrawOptions.camera} for drawing with more than one camera per frame.
+   */
+  viewport: Viewport | null = null;
+
   #position: Vec2 = { x: 0, y: 0 };
   #zoom = 1;
   #rotation = 0;
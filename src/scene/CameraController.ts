@@ -0,0 +1,274 @@
+import type { Point } from "../coreTypes/Point";
+import type { Size } from "../coreTypes/Size";
+import { getViewBounds } from "../math/matrix";
+import type { Toodle } from "../Toodle";
+import type { Camera } from "./Camera";
+import type { Bounds, SceneNode } from "./SceneNode";
+
+export type CameraShakeOptions = {
+  /** The largest offset of the camera in world units, reached at full trauma. Defaults to 16 */
+  maxOffset?: number;
+  /** The largest rotation of the camera in degrees, reached at full trauma. Defaults to 3 */
+  maxRotation?: number;
+  /** How many times per second the shake changes direction. Defaults to 20 */
+  frequency?: number;
+  /** How much trauma is removed per second. Defaults to 1 */
+  decay?: number;
+  /** Seed of the shake noise, the same seed and delta times always shake the same way. Defaults to 1 */
+  seed?: number;
+};
+
+export type CameraControllerOptions = {
+  /** The camera to control. Defaults to toodle.camera */
+  camera?: Camera;
+  /** The node to follow, see {@link CameraController.target} */
+  target?: SceneNode | null;
+  /**
+   * The time in seconds it takes the camera to catch up about two thirds of the distance to its target.
+   * 0 snaps to the target. Defaults to 0.15
+   */
+  smoothTime?: number;
+  /** See {@link CameraController.deadzone} */
+  deadzone?: Size | null;
+  /** See {@link CameraController.bounds} */
+  bounds?: WorldBounds | null;
+  shake?: CameraShakeOptions;
+};
+
+/**
+ * A rectangle in world space the camera view is kept inside of.
+ */
+export type WorldBounds = Pick<Bounds, "left" | "right" | "top" | "bottom">;
+
+/**
+ * Drives a camera to follow a node, stay inside of world bounds and shake.
+ *
+ * The controller owns the position and rotation of the camera, shake is added on top of them
+ * in {@link CameraController.update}. Move the camera through {@link CameraController.center}
+ * and {@link CameraController.rotation} instead of setting the camera directly.
+ *
+ * Updates only depend on the delta time passed in, so the same inputs always move the camera the same way.
+ *
+ * @example
+ *
+ * const controller = new CameraController(toodle, {
+ *   target: player,
+ *   deadzone: { width: 100, height: 60 },
+ *   bounds: { left: 0, right: 4000, top: 1000, bottom: 0 },
+ * });
+ *
+ * function frame(dt: number) {
+ *   controller.update(dt);
+ *   toodle.startFrame();
+ *   toodle.draw(world);
+ *   toodle.endFrame();
+ * }
+ *
+ * // on explosions
+ * controller.addTrauma(0.5);
+ */
+export class CameraController {
+  readonly camera: Camera;
+
+  /** The node to follow, or null to leave the camera where it is */
+  target: SceneNode | null;
+  /** See {@link CameraControllerOptions.smoothTime} */
+  smoothTime: number;
+  /**
+   * A rectangle in world units around the center of the camera that the target can move in
+   * without moving the camera. Null follows every movement of the target.
+   */
+  deadzone: Size | null;
+  /**
+   * The camera view is kept inside of these world space bounds at any zoom level.
+   * If the view is larger than the bounds, it is centered on them.
+   */
+  bounds: WorldBounds | null;
+  /** The position of the camera without shake */
+  center: Point;
+  /** The rotation of the camera in degrees without shake */
+  rotation: number;
+  /** The amount of shake between 0 and 1. The camera shakes with the square of the trauma */
+  trauma = 0;
+
+  #toodle: Pick<Toodle, "viewResolution" | "convertSpace">;
+  #shake: Required<CameraShakeOptions>;
+  #time = 0;
+
+  /**
+   * @param toodle - The toodle instance the camera draws with, used for its view resolution and space conversions
+   * @param options - The camera to control and how it moves
+   */
+  constructor(
+    toodle: Pick<Toodle, "camera" | "viewResolution" | "convertSpace">,
+    options: CameraControllerOptions = {},
+  ) {
+    this.camera = options.camera ?? toodle.camera;
+    this.target = options.target ?? null;
+    this.smoothTime = options.smoothTime ?? 0.15;
+    this.deadzone = options.deadzone ?? null;
+    this.bounds = options.bounds ?? null;
+    this.center = { x: this.camera.x, y: this.camera.y };
+    this.rotation = this.camera.rotation;
+    this.#toodle = toodle;
+    this.#shake = {
+      maxOffset: 16,
+      maxRotation: 3,
+      frequency: 20,
+      decay: 1,
+      seed: 1,
+      ...options.shake,
+    };
+  }
+
+  /**
+   * Add trauma to shake the camera, e.g. 0.3 for a hit and 1 for an explosion.
+   * Trauma is capped at 1 and decays over time.
+   */
+  addTrauma(amount: number) {
+    this.trauma = clamp(this.trauma + amount, 0, 1);
+  }
+
+  /**
+   * Move the camera to its target immediately, skipping smoothing and the deadzone.
+   */
+  snap() {
+    if (this.target) {
+      const { x, y } = this.target.bounds;
+      this.center = { x, y };
+    }
+    this.#clampToBounds();
+    this.#apply(0, 0, 0);
+  }
+
+  /**
+   * Change the zoom of the camera while keeping the world point under a screen point in place,
+   * e.g. to zoom towards the mouse cursor.
+   *
+   * @param screenPoint - The point in screen space to zoom around
+   * @param zoom - The new zoom of the camera
+   */
+  zoomAt(screenPoint: Point, zoom: number) {
+    const options = {
+      from: "screen",
+      to: "world",
+      camera: this.camera,
+    } as const;
+    const before = this.#toodle.convertSpace(screenPoint, options);
+    this.camera.zoom = zoom;
+    const after = this.#toodle.convertSpace(screenPoint, options);
+
+    this.center.x += before.x - after.x;
+    this.center.y += before.y - after.y;
+    this.camera.x += before.x - after.x;
+    this.camera.y += before.y - after.y;
+  }
+
+  /**
+   * Move the camera towards its target, keep it in bounds and apply shake.
+   * Call this once per frame before drawing.
+   *
+   * @param dt - The time since the last update in seconds
+   */
+  update(dt: number) {
+    this.#time += dt;
+
+    if (this.target) {
+      const desired = this.#followPoint(this.target);
+      const t = this.smoothTime > 0 ? 1 - Math.exp(-dt / this.smoothTime) : 1;
+      this.center.x += (desired.x - this.center.x) * t;
+      this.center.y += (desired.y - this.center.y) * t;
+    }
+    this.#clampToBounds();
+
+    const shake = this.trauma * this.trauma;
+    const { maxOffset, maxRotation, frequency, seed } = this.#shake;
+    const time = this.#time * frequency;
+    this.#apply(
+      maxOffset * shake * noise(seed, time),
+      maxOffset * shake * noise(seed + 1, time),
+      maxRotation * shake * noise(seed + 2, time),
+    );
+
+    this.trauma = Math.max(0, this.trauma - this.#shake.decay * dt);
+  }
+
+  #followPoint(target: SceneNode): Point {
+    const { x, y } = target.bounds;
+    if (!this.deadzone) return { x, y };
+
+    const halfWidth = this.deadzone.width / 2;
+    const halfHeight = this.deadzone.height / 2;
+    return {
+      x: clamp(this.center.x, x - halfWidth, x + halfWidth),
+      y: clamp(this.center.y, y - halfHeight, y + halfHeight),
+    };
+  }
+
+  #clampToBounds() {
+    if (!this.bounds) return;
+
+    // the extents of the view only depend on zoom and rotation, not on the camera's position
+    const { left, right, top, bottom, x, y } = getViewBounds(
+      this.camera,
+      this.#toodle.viewResolution(this.camera),
+    );
+    this.center.x = clampView(
+      this.center.x,
+      this.bounds.left,
+      this.bounds.right,
+      x - left,
+      right - x,
+    );
+    this.center.y = clampView(
+      this.center.y,
+      this.bounds.bottom,
+      this.bounds.top,
+      y - bottom,
+      top - y,
+    );
+  }
+
+  #apply(offsetX: number, offsetY: number, rotation: number) {
+    this.camera.x = this.center.x + offsetX;
+    this.camera.y = this.center.y + offsetY;
+    this.camera.rotation = this.rotation + rotation;
+  }
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+function clampView(
+  center: number,
+  min: number,
+  max: number,
+  extentBelow: number,
+  extentAbove: number,
+) {
+  if (max - min <= extentBelow + extentAbove) {
+    return (min + max) / 2;
+  }
+  return clamp(center, min + extentBelow, max - extentAbove);
+}
+
+/**
+ * Smooth 1d value noise between -1 and 1.
+ */
+function noise(seed: number, t: number) {
+  const i = Math.floor(t);
+  const f = t - i;
+  const smooth = f * f * (3 - 2 * f);
+  const a = hash(seed, i);
+  const b = hash(seed, i + 1);
+  return a + (b - a) * smooth;
+}
+
+function hash(seed: number, i: number) {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(i, 0xc2b2ae35);
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 0xffffffff) * 2 - 1;
+}
@@ -0,0 +1,177 @@
+import type { IBackendShader } from "../backends/IBackendShader";
+import type { Color } from "../coreTypes/Color";
+import type { EngineUniform } from "../coreTypes/EngineUniform";
+import type { Resolution } from "../screen/resolution";
+import type { Batcher } from "./Batcher";
+import { Camera } from "./Camera";
+import { SceneNode } from "./SceneNode";
+import { TextNode } from "./TextNode";
+
+/**
+ * The current version of the frame capture format.
+ * Bump this whenever the shape of {@link FrameCapture} changes.
+ */
+export const FRAME_CAPTURE_VERSION = 1;
+
+/**
+ * A serializable snapshot of everything that was batched for a single frame.
+ *
+ * Captures are plain JSON objects, so they can be written to a file with `JSON.stringify`
+ * and attached to bug reports. See {@link Toodle.captureFrame} and {@link Toodle.replayFrame}.
+ */
+export type FrameCapture = {
+  /** The version of the capture format, see {@link FRAME_CAPTURE_VERSION} */
+  version: number;
+  /** The frame number the capture was taken on */
+  frame: number;
+  /** The logical resolution the frame was drawn at */
+  resolution: Resolution;
+  clearColor: Color;
+  loadOp: "clear" | "load";
+  camera: {
+    x: number;
+    y: number;
+    zoom: number;
+    rotation: number;
+  };
+  /** Column-major view projection matrix, stored as 12 floats like wgpu-matrix mat3 */
+  viewProjectionMatrix: number[];
+  /** Layers in draw order */
+  layers: CapturedLayer[];
+};
+
+export type CapturedLayer = {
+  z: number;
+  /** Batches in draw order, one per pipeline */
+  batches: CapturedBatch[];
+};
+
+export type CapturedBatch = {
+  /** The debug label of the shader that drew the batch */
+  shader: string;
+  nodes: CapturedNode[];
+};
+
+export type CapturedNode = {
+  /** The id of the node at capture time */
+  id: number;
+  /** The number of instances written by the node's writeInstance */
+  instances: number;
+  /** Base64 encoded little-endian float32 instance data as written by writeInstance */
+  data: string;
+  /** The text of a TextNode. Text nodes don't write instance data, so data is empty */
+  text?: string;
+};
+
+// scratch buffer that is filled with NaN before each writeInstance call, so we can tell
+// how many floats were written without knowing the instance stride of the shader
+let scratch = new Float32Array(0);
+
+/**
+ * Capture the layers and pipelines currently enqueued in a batcher.
+ *
+ * @param batcher - The batcher holding the enqueued nodes for the frame
+ * @param maxInstanceFloats - Upper bound on the number of floats a single instance can occupy
+ */
+export function captureBatches(
+  batcher: Batcher,
+  maxInstanceFloats: number,
+): CapturedLayer[] {
+  return batcher.layers.map((layer) => ({
+    z: layer.z,
+    batches: layer.pipelines.map((pipeline) => ({
+      shader: pipeline.shader.label,
+      nodes: pipeline.nodes.map((node) => captureNode(node, maxInstanceFloats)),
+    })),
+  }));
+}
+
+function captureNode(node: SceneNode, maxInstanceFloats: number): CapturedNode {
+  if (node instanceof TextNode) {
+    return { id: node.id, instances: 0, data: "", text: node.text };
+  }
+
+  const renderComponent = node.renderComponent;
+  if (!renderComponent) {
+    throw new Error(
+      `Tried to capture node ${node.id} with no render component`,
+    );
+  }
+
+  const maxInstances = renderComponent.instanceCount?.(node) ?? 1;
+  const size = maxInstances * maxInstanceFloats;
+  if (scratch.length < size) scratch = new Float32Array(size);
+  scratch.fill(Number.NaN);
+  const instances = renderComponent.writeInstance(node, scratch, 0);
+
+  let length = Math.min(size, instances * maxInstanceFloats);
+  while (length > 0 && Number.isNaN(scratch[length - 1])) length--;
+
+  const data = scratch.slice(0, length);
+  // floats that were skipped over, e.g. padding, are written as zeros
+  for (let i = 0; i < data.length; i++) {
+    if (Number.isNaN(data[i])) data[i] = 0;
+  }
+
+  return { id: node.id, instances, data: encodeFloats(data) };
+}
+
+/**
+ * Create an engine uniform from a frame capture.
+ */
+export function capturedUniform(frame: FrameCapture): EngineUniform {
+  const camera = new Camera();
+  camera.x = frame.camera.x;
+  camera.y = frame.camera.y;
+  camera.zoom = frame.camera.zoom;
+  camera.rotation = frame.camera.rotation;
+
+  return {
+    resolution: { ...frame.resolution },
+    camera,
+    viewProjectionMatrix: new Float32Array(frame.viewProjectionMatrix),
+  };
+}
+
+/**
+ * Create a node that writes the captured instance data back out verbatim.
+ *
+ * @param captured - The captured node
+ * @param shader - The shader to draw the node with
+ * @param layer - The layer to draw the node on
+ */
+export function createReplayNode(
+  captured: CapturedNode,
+  shader: IBackendShader,
+  layer: number,
+): SceneNode {
+  const data = decodeFloats(captured.data);
+  return new SceneNode({
+    layer,
+    render: {
+      shader,
+      writeInstance: (_node, dst, offset) => {
+        dst.set(data, offset);
+        return captured.instances;
+      },
+    },
+  });
+}
+
+function encodeFloats(data: Float32Array) {
+  const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function decodeFloats(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float32Array(bytes.buffer);
+}
@@ -46,6 +46,7 @@ export class JumboQuadNode extends QuadNode {
     options.render ??= {
       shader: options.shader,
       writeInstance: writeJumboQuadInstance,
+      instanceCount: countJumboQuadInstances,
     };
 
     super(
@@ -130,6 +131,11 @@ export class JumboQuadNode extends QuadNode {
   }
 }
 
+// jumbo quads write one instance per tile
+function countJumboQuadInstances(node: SceneNode): number {
+  return node instanceof JumboQuadNode ? node.tiles.length : 1;
+}
+
 function writeJumboQuadInstance(
   node: SceneNode,
   array: Float32Array,
@@ -0,0 +1,93 @@
+import type { Point } from "../coreTypes/Point";
+import type { SceneNode } from "./SceneNode";
+
+/**
+ * The pointer events a node can listen to with {@link SceneNode.on}.
+ *
+ * - pointerdown, pointerup: a button was pressed or released over the node
+ * - click: a button was pressed and released over the node
+ * - pointerenter, pointerleave: the pointer moved onto or off of the node or one of its descendants. These don't bubble.
+ * - drag: the pointer moved while a button that was pressed over the node is held, even when it left the node
+ */
+export type NodePointerEventType =
+  | "pointerdown"
+  | "pointerup"
+  | "pointerenter"
+  | "pointerleave"
+  | "click"
+  | "drag";
+
+export type NodePointerHandler = (event: NodePointerEvent) => void;
+
+export type NodePointerEventInit = {
+  pointerId: number;
+  button: number;
+  screen: Point;
+  world: Point;
+  point: Point;
+  delta: Point;
+  bubbles: boolean;
+};
+
+/**
+ * A pointer event dispatched to scene nodes by {@link PointerInput}.
+ *
+ * Events that bubble are dispatched to the target first and then to each of its ancestors,
+ * until a handler calls {@link NodePointerEvent.stopPropagation}.
+ */
+export class NodePointerEvent {
+  readonly type: NodePointerEventType;
+  /** The node the event was dispatched to */
+  readonly target: SceneNode;
+  /** The node whose handler is being called, the target or one of its ancestors */
+  currentTarget: SceneNode;
+  /** Identifies the pointer when there are several, e.g. fingers on a touch screen */
+  readonly pointerId: number;
+  /** The button that was pressed or released, 0 is the primary button */
+  readonly button: number;
+  /** The position of the pointer in logical pixels relative to the canvas */
+  readonly screen: Point;
+  /** The position of the pointer in world space */
+  readonly world: Point;
+  /**
+   * The position of the pointer in the space of the target:
+   * world space, or relative to the center of the view for screen space nodes.
+   */
+  readonly point: Point;
+  /** How far the pointer moved since the last drag event in the space of the target. Zero for other events */
+  readonly delta: Point;
+  readonly bubbles: boolean;
+
+  #isPropagationStopped = false;
+
+  constructor(
+    type: NodePointerEventType,
+    target: SceneNode,
+    init: NodePointerEventInit,
+  ) {
+    this.type = type;
+    this.target = target;
+    this.currentTarget = target;
+    this.pointerId = init.pointerId;
+    this.button = init.button;
+    this.screen = init.screen;
+    this.world = init.world;
+    this.point = init.point;
+    this.delta = init.delta;
+    this.bubbles = init.bubbles;
+  }
+
+  /**
+   * Don't dispatch the event to the ancestors of the current target.
+   */
+  stopPropagation() {
+    this.#isPropagationStopped = true;
+  }
+
+  /**
+   * Whether {@link NodePointerEvent.stopPropagation} was called.
+   */
+  get isPropagationStopped() {
+    return this.#isPropagationStopped;
+  }
+}
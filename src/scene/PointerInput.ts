@@ -0,0 +1,287 @@
+import type { Point } from "../coreTypes/Point";
+import { transformPoint } from "../math/matrix";
+import type { Toodle } from "../Toodle";
+import type { Camera } from "./Camera";
+import {
+  NodePointerEvent,
+  type NodePointerEventType,
+} from "./NodePointerEvent";
+import type { SceneNode } from "./SceneNode";
+
+/**
+ * A pointer position and button, e.g. from a DOM pointer event.
+ */
+export type PointerInputEvent = {
+  /** Logical pixels from the left of the canvas */
+  x: number;
+  /** Logical pixels from the top of the canvas */
+  y: number;
+  /** Defaults to 0 */
+  pointerId?: number;
+  /** Defaults to 0, the primary button */
+  button?: number;
+};
+
+type Pointer = {
+  id: number;
+  button: number;
+  screen: Point;
+  world: Point;
+  // the position relative to the center of the view, where screen space nodes are
+  view: Point;
+};
+
+type Press = {
+  target: SceneNode;
+  // the last position of the pointer in the space of the target
+  point: Point;
+};
+
+/**
+ * Dispatches pointer events to the interactive nodes of a scene, see {@link SceneNode.on}.
+ *
+ * Toodle creates one as {@link Toodle.pointer} and feeds it the pointer events of its canvas.
+ * Set {@link PointerInput.root} to the scene to receive events.
+ * Without a canvas, call the pointer methods directly, e.g. to replay input in tests.
+ *
+ * Targets are found with {@link Toodle.pick}, skipping nodes that aren't {@link SceneNode.interactive}.
+ * A node that was pressed captures the pointer: it receives drag events and the pointerup
+ * even after the pointer left it, until the button is released.
+ *
+ * @example
+ *
+ * toodle.pointer.root = world;
+ * button.interactive = true;
+ * button.on("click", () => console.log("clicked"));
+ */
+export class PointerInput {
+  /** The tree that receives pointer events, usually the root of the scene. No events are dispatched while it is null */
+  root: SceneNode | null = null;
+  /** The camera the tree is drawn with. Defaults to toodle.camera */
+  camera: Camera | null = null;
+
+  #toodle: Pick<Toodle, "camera" | "convertSpace" | "pickAll">;
+  // the hovered node and its ancestors of each pointer, target first
+  #hovered = new Map<number, SceneNode[]>();
+  #presses = new Map<number, Press>();
+  #detach: (() => void) | null = null;
+
+  /**
+   * @param toodle - The toodle instance the scene is drawn with, used to pick nodes
+   */
+  constructor(toodle: Pick<Toodle, "camera" | "convertSpace" | "pickAll">) {
+    this.#toodle = toodle;
+  }
+
+  /**
+   * The node that is under a pointer, or null if there is none.
+   *
+   * @param pointerId - Defaults to 0
+   */
+  hovered(pointerId = 0): SceneNode | null {
+    return this.#hovered.get(pointerId)?.[0] ?? null;
+  }
+
+  /**
+   * Press a button. Dispatches pointerdown to the node under the pointer, which captures the pointer.
+   *
+   * @returns The node that was pressed, or null if there is none
+   */
+  pointerDown(input: PointerInputEvent): SceneNode | null {
+    const pointer = this.#pointer(input);
+    const target = this.#hover(pointer);
+    if (!target) return null;
+
+    this.#dispatch("pointerdown", target, pointer);
+    this.#presses.set(pointer.id, {
+      target,
+      point: pointOf(target, pointer),
+    });
+    return target;
+  }
+
+  /**
+   * Move the pointer. Dispatches pointerenter and pointerleave when the hovered node changes,
+   * and drag to the node that captured the pointer.
+   */
+  pointerMove(input: PointerInputEvent) {
+    const pointer = this.#pointer(input);
+    this.#hover(pointer);
+
+    const press = this.#presses.get(pointer.id);
+    if (!press) return;
+    const point = pointOf(press.target, pointer);
+    const delta = { x: point.x - press.point.x, y: point.y - press.point.y };
+    press.point = point;
+    this.#dispatch("drag", press.target, pointer, delta);
+  }
+
+  /**
+   * Release a button. Dispatches pointerup to the node that captured the pointer or the node under the pointer,
+   * and click if the button is released over the pressed node or one of its ancestors.
+   */
+  pointerUp(input: PointerInputEvent) {
+    const pointer = this.#pointer(input);
+    const hovered = this.#hover(pointer);
+    const press = this.#presses.get(pointer.id);
+    this.#presses.delete(pointer.id);
+
+    const target = press?.target ?? hovered;
+    if (target) this.#dispatch("pointerup", target, pointer);
+    if (!press || !hovered) return;
+
+    // like the dom, click goes to the closest node that contains both the press and the release
+    const clicked = commonAncestor(press.target, hovered);
+    if (clicked) this.#dispatch("click", clicked, pointer);
+  }
+
+  /**
+   * The pointer left the canvas or was cancelled. Dispatches pointerleave and releases the capture without a click.
+   */
+  pointerCancel(input: PointerInputEvent) {
+    const pointer = this.#pointer(input);
+    this.#presses.delete(pointer.id);
+    this.#setHovered(pointer, []);
+  }
+
+  /**
+   * Dispatch the pointer events of a canvas. Called by Toodle for the canvas it draws to.
+   */
+  attach(canvas: HTMLCanvasElement) {
+    this.detach();
+
+    const input = (e: PointerEvent): PointerInputEvent => ({
+      x: e.offsetX,
+      y: e.offsetY,
+      pointerId: e.pointerId,
+      button: e.button,
+    });
+    const down = (e: PointerEvent) => {
+      if (this.pointerDown(input(e))) {
+        // keep receiving moves and the release when the pointer leaves the canvas
+        canvas.setPointerCapture(e.pointerId);
+      }
+    };
+    const move = (e: PointerEvent) => this.pointerMove(input(e));
+    const up = (e: PointerEvent) => this.pointerUp(input(e));
+    const cancel = (e: PointerEvent) => {
+      // a captured pointer that leaves the canvas is still dragging
+      if (e.type === "pointerleave" && this.#presses.has(e.pointerId)) return;
+      this.pointerCancel(input(e));
+    };
+
+    canvas.addEventListener("pointerdown", down);
+    canvas.addEventListener("pointermove", move);
+    canvas.addEventListener("pointerup", up);
+    canvas.addEventListener("pointercancel", cancel);
+    canvas.addEventListener("pointerleave", cancel);
+    this.#detach = () => {
+      canvas.removeEventListener("pointerdown", down);
+      canvas.removeEventListener("pointermove", move);
+      canvas.removeEventListener("pointerup", up);
+      canvas.removeEventListener("pointercancel", cancel);
+      canvas.removeEventListener("pointerleave", cancel);
+    };
+  }
+
+  /**
+   * Stop dispatching the pointer events of the attached canvas.
+   */
+  detach() {
+    this.#detach?.();
+    this.#detach = null;
+  }
+
+  #pointer(input: PointerInputEvent): Pointer {
+    const camera = this.camera ?? this.#toodle.camera;
+    const screen = { x: input.x, y: input.y };
+    const world = this.#toodle.convertSpace(screen, {
+      from: "screen",
+      to: "world",
+      camera,
+    });
+    return {
+      id: input.pointerId ?? 0,
+      button: input.button ?? 0,
+      screen,
+      world,
+      view: transformPoint(world, camera.matrix),
+    };
+  }
+
+  /**
+   * Find the node under the pointer and dispatch enter and leave events if it changed.
+   */
+  #hover(pointer: Pointer): SceneNode | null {
+    const target = this.root
+      ? this.#toodle.pickAll(pointer.screen, this.root, {
+          camera: this.camera ?? this.#toodle.camera,
+          filter: (node) => node.interactive,
+        })[0]
+      : undefined;
+    this.#setHovered(pointer, target ? ancestry(target) : []);
+    return target ?? null;
+  }
+
+  #setHovered(pointer: Pointer, path: SceneNode[]) {
+    const previous = this.#hovered.get(pointer.id) ?? [];
+    this.#hovered.set(pointer.id, path);
+
+    // leave from the inside out and enter from the outside in, like the dom
+    for (const node of previous) {
+      if (!path.includes(node)) {
+        this.#dispatch("pointerleave", node, pointer, undefined, false);
+      }
+    }
+    for (const node of [...path].reverse()) {
+      if (!previous.includes(node)) {
+        this.#dispatch("pointerenter", node, pointer, undefined, false);
+      }
+    }
+  }
+
+  #dispatch(
+    type: NodePointerEventType,
+    target: SceneNode,
+    pointer: Pointer,
+    delta: Point = { x: 0, y: 0 },
+    bubbles = true,
+  ) {
+    const event = new NodePointerEvent(type, target, {
+      pointerId: pointer.id,
+      button: pointer.button,
+      screen: pointer.screen,
+      world: pointer.world,
+      point: pointOf(target, pointer),
+      delta,
+      bubbles,
+    });
+
+    let node: SceneNode | null = target;
+    while (node && !event.isPropagationStopped) {
+      event.currentTarget = node;
+      node.dispatchPointerEvent(event);
+      node = bubbles ? node.parent : null;
+    }
+  }
+}
+
+function pointOf(node: SceneNode, pointer: Pointer): Point {
+  return node.space === "screen" ? pointer.view : pointer.world;
+}
+
+function ancestry(node: SceneNode): SceneNode[] {
+  const path: SceneNode[] = [];
+  for (let n: SceneNode | null = node; n; n = n.parent) {
+    path.push(n);
+  }
+  return path;
+}
+
+function commonAncestor(a: SceneNode, b: SceneNode): SceneNode | null {
+  const path = ancestry(a);
+  for (let n: SceneNode | null = b; n; n = n.parent) {
+    if (path.includes(n)) return n;
+  }
+  return null;
+}
@@ -1,5 +1,10 @@
 import { type Mat3, mat3 } from "wgpu-matrix";
 import type { IBackendShader } from "../backends/IBackendShader";
+import {
+  CIRCLE_INDEX,
+  RECT_INDEX,
+  ROTATED_FLAG,
+} from "../backends/quadInstance";
 import type { Color } from "../coreTypes/Color";
 import type { Size } from "../coreTypes/Size";
 import type { Vec2 } from "../coreTypes/Vec2";
@@ -11,9 +16,6 @@ import type { Pool } from "../utils/pool";
 import { type NodeOptions, SceneNode } from "./SceneNode";
 
 const PRIMITIVE_TEXTURE = "__primitive__";
-const RESERVED_PRIMITIVE_INDEX_START = 1000;
-// this must match the circle index in the default fragment shader of quad.wgsl.ts
-const CIRCLE_INDEX = 1001;
 
 // a default region used for shapes
 const DEFAULT_REGION: TexelRegion = {
@@ -74,10 +76,7 @@ export class QuadNode extends SceneNode {
     assert(options.assetManager, "QuadNode requires an asset manager");
     this.assetManager = options.assetManager;
 
-    if (
-      options.atlasCoords &&
-      options.atlasCoords.atlasIndex >= RESERVED_PRIMITIVE_INDEX_START
-    ) {
+    if (options.atlasCoords && options.atlasCoords.atlasIndex >= RECT_INDEX) {
       this.#textureId = PRIMITIVE_TEXTURE;
       this.#region = DEFAULT_REGION;
       this.#atlasSize = DEFAULT_REGION;
@@ -106,16 +105,7 @@ export class QuadNode extends SceneNode {
     this.#matrixPool = matrixPool;
     this.#flip = { x: options.flipX ? -1 : 1, y: options.flipY ? -1 : 1 };
     this.#cropOffset = options.cropOffset ?? { x: 0, y: 0 };
-    this.#cropRatio = !this.#atlasCoords.uvScaleCropped
-      ? { width: 1, height: 1 }
-      : {
-          width:
-            this.#atlasCoords.uvScaleCropped.width /
-            this.#atlasCoords.uvScale.width,
-          height:
-            this.#atlasCoords.uvScaleCropped.height /
-            this.#atlasCoords.uvScale.height,
-        };
+    this.#cropRatio = getCropRatio(this.#atlasCoords);
     this.#writeInstance = options.writeInstance;
   }
 
@@ -181,6 +171,36 @@ export class QuadNode extends SceneNode {
     return this.#region;
   }
 
+  set region(value: TexelRegion) {
+    this.#region = value;
+    this.setDirty();
+  }
+
+  /**
+   * Draw a different texture of the quad's asset manager, e.g. to show the next frame of an animation.
+   * The region is reset to the full texture, the size of the quad is kept.
+   *
+   * @param textureId - The id of a loaded texture
+   */
+  setTexture(textureId: TextureId) {
+    assert(
+      !this.isPrimitive,
+      `Can't set the texture of ${this.label ?? this.id}, it is a primitive shape`,
+    );
+    const coords = this.assetManager.extra.getAtlasCoords(textureId)[0];
+    this.#textureId = textureId;
+    this.#atlasCoords = coords;
+    this.#cropOffset = this.assetManager.extra.getTextureOffset(textureId);
+    this.#cropRatio = getCropRatio(coords);
+    this.#region = {
+      x: 0,
+      y: 0,
+      width: coords.uvScale.width * this.#atlasSize.width,
+      height: coords.uvScale.height * this.#atlasSize.height,
+    };
+    this.setDirty();
+  }
+
   get writeInstance() {
     return this.#writeInstance;
   }
@@ -337,6 +357,14 @@ export type QuadOptions = NodeOptions & {
   matrixPool?: Pool<Mat3>;
 };
 
+function getCropRatio(coords: AtlasCoords): Size {
+  if (!coords.uvScaleCropped) return { width: 1, height: 1 };
+  return {
+    width: coords.uvScaleCropped.width / coords.uvScale.width,
+    height: coords.uvScaleCropped.height / coords.uvScale.height,
+  };
+}
+
 function writeQuadInstance(
   node: SceneNode,
   array: Float32Array,
@@ -364,6 +392,23 @@ function writeQuadInstance(
       ],
       offset + 16,
     );
+  } else if (node.atlasCoords.rotated) {
+    // the frame is stored rotated clockwise, so the upright x axis runs down the atlas
+    // and the upright y axis runs right to left from the right edge of the frame.
+    // the shader swaps the uv axes, see atlas_uv in quad.wgsl.ts
+    const atlasSize = node.extra.atlasSize();
+    const coords = node.atlasCoords;
+    const frameWidth =
+      (coords.uvScaleCropped ?? coords.uvScale).height * atlasSize.height;
+    array.set(
+      [
+        coords.uvOffset.x + (frameWidth - region.y) / atlasSize.width,
+        coords.uvOffset.y + region.x / atlasSize.height,
+        region.height / atlasSize.width,
+        region.width / atlasSize.height,
+      ],
+      offset + 16,
+    );
   } else {
     const atlasSize = node.extra.atlasSize();
     array.set(
@@ -394,7 +439,9 @@ function writeQuadInstance(
 
   new DataView(array.buffer).setUint32(
     array.byteOffset + (offset + 24) * Float32Array.BYTES_PER_ELEMENT,
-    node.atlasCoords.atlasIndex,
+    node.atlasCoords.rotated
+      ? (node.atlasCoords.atlasIndex | ROTATED_FLAG) >>> 0
+      : node.atlasCoords.atlasIndex,
     true,
   );
 
@@ -9,4 +9,10 @@ export type RenderComponent = {
    * Write cpu instance data to the buffer. Returns number of instances written
    */
   writeInstance: (node: SceneNode, dst: Float32Array, offset: number) => number;
+
+  /**
+   * The number of instances writeInstance writes for the node, used to size instance buffers before writing.
+   * Defaults to 1
+   */
+  instanceCount?: (node: SceneNode) => number;
 };
@@ -5,7 +5,13 @@ import type { Transform } from "../coreTypes/Transform";
 import type { Vec2 } from "../coreTypes/Vec2";
 import { deg2rad, rad2deg } from "../math/angle";
 import { createModelMatrix } from "../math/matrix";
+import type {
+  NodePointerEvent,
+  NodePointerEventType,
+  NodePointerHandler,
+} from "./NodePointerEvent";
 import type { RenderComponent } from "./RenderComponent";
+import type { StaticBatch } from "./StaticBatch";
 
 /**
  * A node in the scene graph.
@@ -18,8 +24,19 @@ export class SceneNode {
 
   id: number;
   label?: string;
+  /**
+   * The static batch this node was baked into, if any. Marking the node dirty invalidates the batch.
+   * This is set by {@link StaticBatch} and should not be necessary to set directly.
+   */
+  staticBatch: StaticBatch | null = null;
+  /**
+   * Whether the node can be the target of pointer events. Pointer events pass through nodes that aren't interactive,
+   * but they still receive events that bubble up from their descendants. See {@link SceneNode.on}.
+   */
+  interactive: boolean;
 
   #isActive = true;
+  #space: NodeSpace = "world";
   #layer: null | number = null;
   #parent: SceneNode | null = null;
   #key: string | null = null;
@@ -28,10 +45,13 @@ export class SceneNode {
   #matrix: Mat3 = mat3.identity();
   #renderComponent: RenderComponent | null = null;
   #size: Size | null = null;
+  #subtreeSize: Size | null = null;
   #positionProxy: Point;
   #scaleProxy: Vec2;
 
   #cache: RenderLayoutCache | null = null;
+  #pointerHandlers: Map<NodePointerEventType, NodePointerHandler[]> | null =
+    null;
 
   constructor(opts?: NodeOptions) {
     this.id = opts?.id ?? SceneNode.nextId++;
@@ -55,8 +75,11 @@ export class SceneNode {
     this.#renderComponent = opts?.render ?? null;
     this.#layer = opts?.layer ?? null;
     this.#isActive = opts?.isActive ?? true;
+    this.#space = opts?.space ?? "world";
+    this.interactive = opts?.interactive ?? false;
     this.label = opts?.label ?? undefined;
     this.#size = opts?.size ?? null;
+    this.#subtreeSize = opts?.subtreeSize ?? null;
     this.#key = opts?.key ?? null;
 
     for (const kid of opts?.kids ?? []) {
@@ -104,6 +127,7 @@ export class SceneNode {
    */
   add<T extends SceneNode>(kid: T, index?: number) {
     kid.#parent = this;
+    this.staticBatch?.invalidate();
     if (index === undefined) {
       this.#kids.push(kid);
     } else {
@@ -258,6 +282,22 @@ export class SceneNode {
     return this.#size;
   }
 
+  /**
+   * A conservative size in local space, centered on the node, that contains the node and all of its descendants.
+   *
+   * When set, camera culling skips the whole subtree if these bounds are off-screen,
+   * except for screen space descendants, which are anchored to the screen.
+   * Leave it null for nodes whose kids can move outside of a known area.
+   */
+  set subtreeSize(value: Size | null) {
+    this.#subtreeSize = value;
+    this.setDirty();
+  }
+
+  get subtreeSize() {
+    return this.#subtreeSize;
+  }
+
   /**
    * The aspect ratio of the node.
    * If the node has no defined size, the aspect ratio will be 1.
@@ -297,6 +337,34 @@ export class SceneNode {
     this.setDirty();
   }
 
+  /**
+   * The space the node is drawn in. Screen space nodes are drawn without the camera transform,
+   * so they stay in place when the camera moves, zooms or rotates, e.g. for a HUD.
+   *
+   * In screen space the origin is the center of the camera's viewport and a unit is a logical pixel,
+   * see {@link Toodle.anchor} to place nodes at the edges of the screen.
+   * If any of a node's ancestors are in screen space, the node is drawn in screen space as well.
+   */
+  get space(): NodeSpace {
+    if (this.#cache?.space === undefined) {
+      this.#cache ??= {};
+
+      let parent = this as SceneNode;
+      let space = this.#space;
+      while (space === "world" && parent.#parent) {
+        parent = parent.#parent;
+        space = parent.#space;
+      }
+      this.#cache.space = space;
+    }
+    return this.#cache.space;
+  }
+
+  set space(value: NodeSpace) {
+    this.#space = value;
+    this.setDirty();
+  }
+
   /**
    * Nodes are batched for drawing based on their layer. Each layer will submit a separate draw call.
    * Nodes with the same layer will be drawn in the order they are drawn with toodle.Draw
@@ -369,36 +437,54 @@ export class SceneNode {
   get bounds(): Bounds {
     if (!this.#cache?.bounds) {
       this.#cache ??= {};
-
-      const height = this.size?.height ?? 0;
-      const width = this.size?.width ?? 0;
-
-      // we don't need to add the node's position to the points
-      // because the points are relative to the node's center
-      // and the matrix already applies the node's position
-      const corners = [
-        vec2.transformMat3([-width / 2, height / 2], this.matrix),
-        vec2.transformMat3([width / 2, height / 2], this.matrix),
-        vec2.transformMat3([-width / 2, -height / 2], this.matrix),
-        vec2.transformMat3([width / 2, -height / 2], this.matrix),
-      ];
-      const center = vec2.transformMat3([0, 0], this.matrix);
-
-      const xValues = corners.map((c) => c[0]);
-      const yValues = corners.map((c) => c[1]);
-
-      this.#cache.bounds = {
-        x: center[0],
-        y: center[1],
-        left: Math.min(xValues[0], xValues[1], xValues[2], xValues[3]),
-        right: Math.max(xValues[0], xValues[1], xValues[2], xValues[3]),
-        top: Math.max(yValues[0], yValues[1], yValues[2], yValues[3]),
-        bottom: Math.min(yValues[0], yValues[1], yValues[2], yValues[3]),
-      };
+      this.#cache.bounds = this.#worldBounds(
+        this.size?.width ?? 0,
+        this.size?.height ?? 0,
+      );
     }
     return this.#cache.bounds;
   }
 
+  /**
+   * Get the bounds of {@link SceneNode.subtreeSize} in world space, or null if the node has no subtree size.
+   */
+  get subtreeBounds(): Bounds | null {
+    if (!this.#subtreeSize) return null;
+    if (!this.#cache?.subtreeBounds) {
+      this.#cache ??= {};
+      this.#cache.subtreeBounds = this.#worldBounds(
+        this.#subtreeSize.width,
+        this.#subtreeSize.height,
+      );
+    }
+    return this.#cache.subtreeBounds;
+  }
+
+  #worldBounds(width: number, height: number): Bounds {
+    // we don't need to add the node's position to the points
+    // because the points are relative to the node's center
+    // and the matrix already applies the node's position
+    const corners = [
+      vec2.transformMat3([-width / 2, height / 2], this.matrix),
+      vec2.transformMat3([width / 2, height / 2], this.matrix),
+      vec2.transformMat3([-width / 2, -height / 2], this.matrix),
+      vec2.transformMat3([width / 2, -height / 2], this.matrix),
+    ];
+    const center = vec2.transformMat3([0, 0], this.matrix);
+
+    const xValues = corners.map((c) => c[0]);
+    const yValues = corners.map((c) => c[1]);
+
+    return {
+      x: center[0],
+      y: center[1],
+      left: Math.min(xValues[0], xValues[1], xValues[2], xValues[3]),
+      right: Math.max(xValues[0], xValues[1], xValues[2], xValues[3]),
+      top: Math.max(yValues[0], yValues[1], yValues[2], yValues[3]),
+      bottom: Math.min(yValues[0], yValues[1], yValues[2], yValues[3]),
+    };
+  }
+
   /**
    * Set the bounds of the node in world space.
    */
@@ -527,12 +613,62 @@ export class SceneNode {
     this.setDirty();
   }
 
+  /**
+   * Listen to pointer events on this node. The node must be {@link SceneNode.interactive} to be the target of events,
+   * and receives the events of its descendants as they bubble up. Events are dispatched by {@link Toodle.pointer}.
+   *
+   * @param type - The event to listen to
+   * @param handler - Called with the event
+   * @returns A function that removes the handler
+   *
+   * @example
+   *
+   * const button = toodle.Quad("button", { interactive: true });
+   * button.on("click", () => startGame());
+   *
+   * const piece = toodle.Quad("piece", { interactive: true });
+   * piece.on("drag", (e) => {
+   *   piece.x += e.delta.x;
+   *   piece.y += e.delta.y;
+   * });
+   */
+  on(type: NodePointerEventType, handler: NodePointerHandler): () => void {
+    this.#pointerHandlers ??= new Map();
+    const handlers = this.#pointerHandlers.get(type) ?? [];
+    handlers.push(handler);
+    this.#pointerHandlers.set(type, handlers);
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Remove a handler added with {@link SceneNode.on}.
+   */
+  off(type: NodePointerEventType, handler: NodePointerHandler) {
+    const handlers = this.#pointerHandlers?.get(type);
+    const index = handlers?.indexOf(handler) ?? -1;
+    if (index !== -1) handlers?.splice(index, 1);
+  }
+
+  /**
+   * Call the handlers of this node for an event. This should not be necessary to call directly,
+   * events are dispatched and bubbled by {@link PointerInput}.
+   */
+  dispatchPointerEvent(event: NodePointerEvent) {
+    const handlers = this.#pointerHandlers?.get(event.type);
+    if (!handlers) return;
+    // copy so handlers can remove themselves
+    for (const handler of [...handlers]) {
+      handler(event);
+    }
+  }
+
   /**
    * This marks the node as dirty, invalidating its cache and causing its matrix to be recalculated.
    * This should not be necessary to call directly, but is available for advanced use cases.
    */
   setDirty() {
     this.#cache = null;
+    this.staticBatch?.invalidate();
     this.#kids.forEach((kid) => kid.setDirty());
   }
 
@@ -592,8 +728,14 @@ export type NodeOptions = {
   scale?: Vec2 | number;
   /** The desired size for the node. */
   size?: Size;
+  /** A conservative size that contains the node and all of its descendants, see {@link SceneNode.subtreeSize}. */
+  subtreeSize?: Size;
   /** The active state for the node. */
   isActive?: boolean;
+  /** The space to draw the node and its descendants in, see {@link SceneNode.space}. Defaults to "world". */
+  space?: NodeSpace;
+  /** Whether the node can be the target of pointer events, see {@link SceneNode.interactive}. Defaults to false. */
+  interactive?: boolean;
   /** The kids for the node. */
   kids?: SceneNode[];
   /** The render component for the node. */
@@ -625,11 +767,18 @@ function reviver(key: string, value: any) {
   return value;
 }
 
+/**
+ * "world" nodes are drawn with the camera transform, "screen" nodes are drawn without it.
+ */
+export type NodeSpace = "world" | "screen";
+
 type RenderLayoutCache = {
   layer?: number;
   isActive?: boolean;
+  space?: NodeSpace;
   matrix?: Mat3;
   bounds?: Bounds;
+  subtreeBounds?: Bounds;
 };
 
 /**
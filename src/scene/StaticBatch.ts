@@ -0,0 +1,136 @@
+import type {
+  IBackendShader,
+  IStaticInstanceBuffer,
+} from "../backends/IBackendShader";
+import { Batcher } from "./Batcher";
+import type { SceneNode } from "./SceneNode";
+
+/**
+ * The nodes of a static batch that share a layer and a shader.
+ */
+export type StaticPipeline = {
+  z: number;
+  shader: IBackendShader;
+  nodes: SceneNode[];
+  /** The baked instances, or null if the shader doesn't support static buffers */
+  buffer: IStaticInstanceBuffer | null;
+};
+
+/**
+ * A subtree whose instance data is written once into persistent buffers and redrawn every frame
+ * without recomputing matrices or calling writeInstance. Create one with {@link Toodle.createStaticBatch}.
+ *
+ * The batch is rebaked the next time it is drawn after it was invalidated.
+ * Marking any node inside the subtree dirty invalidates it, which happens automatically when
+ * transforms, layers, active state or kids change. Changes that don't mark a node dirty,
+ * like a quad's color, need a call to {@link StaticBatch.invalidate}.
+ *
+ * Screen space descendants of a world space root are not baked, they are drawn like any other screen space node,
+ * see {@link StaticBatch.screenNodes}.
+ */
+export class StaticBatch {
+  readonly root: SceneNode;
+
+  #pipelines: StaticPipeline[] = [];
+  #nodes: SceneNode[] = [];
+  #screenNodes: SceneNode[] = [];
+  #isDirty = true;
+  #bakes = 0;
+
+  constructor(root: SceneNode) {
+    this.root = root;
+  }
+
+  /**
+   * Whether the batch will be rebaked the next time it is drawn.
+   */
+  get isDirty() {
+    return this.#isDirty;
+  }
+
+  /**
+   * The number of times the batch was baked. Useful to check that a batch isn't rebaked every frame.
+   */
+  get bakes() {
+    return this.#bakes;
+  }
+
+  /**
+   * The screen space subtrees inside a world space batch as of the last bake.
+   * They are anchored to the screen instead of the batch, so they are drawn every frame with the screen space nodes.
+   */
+  get screenNodes(): readonly SceneNode[] {
+    return this.#screenNodes;
+  }
+
+  /**
+   * Mark the batch to be rebaked the next time it is drawn.
+   */
+  invalidate() {
+    this.#isDirty = true;
+  }
+
+  /**
+   * The baked pipelines of the batch in draw order, rebaking first if the batch was invalidated.
+   */
+  bake(): readonly StaticPipeline[] {
+    if (!this.#isDirty) return this.#pipelines;
+
+    this.#release();
+
+    const batcher = new Batcher();
+    if (this.root.space === "world") {
+      // keeps screen space subtrees out of the baked pipelines, #track collects them
+      batcher.screen = new Batcher();
+    }
+    batcher.enqueue(this.root);
+    for (const layer of batcher.layers) {
+      for (const pipeline of layer.pipelines) {
+        this.#pipelines.push({
+          z: layer.z,
+          shader: pipeline.shader,
+          nodes: pipeline.nodes,
+          buffer: pipeline.shader.createStaticBuffer?.(pipeline.nodes) ?? null,
+        });
+      }
+    }
+
+    this.#track(this.root);
+    this.#isDirty = false;
+    this.#bakes++;
+    return this.#pipelines;
+  }
+
+  /**
+   * Release the baked buffers. The batch will be rebaked if it is drawn again.
+   */
+  destroy() {
+    this.#release();
+    this.#isDirty = true;
+  }
+
+  #track(node: SceneNode) {
+    node.staticBatch = this;
+    this.#nodes.push(node);
+    if (node.space !== this.root.space) {
+      // changes inside screen space subtrees don't need a rebake, only the subtree roots are tracked
+      this.#screenNodes.push(node);
+      return;
+    }
+    for (const kid of node.kids) {
+      this.#track(kid);
+    }
+  }
+
+  #release() {
+    for (const pipeline of this.#pipelines) {
+      pipeline.buffer?.destroy();
+    }
+    for (const node of this.#nodes) {
+      if (node.staticBatch === this) node.staticBatch = null;
+    }
+    this.#pipelines = [];
+    this.#nodes = [];
+    this.#screenNodes = [];
+  }
+}
@@ -1,23 +1,60 @@
 import type { ITextShader } from "../backends/ITextShader";
 import type { Color } from "../coreTypes/Color";
+import type { Size } from "../coreTypes/Size";
 import type { MsdfFont } from "../text/MsdfFont";
-import { measureText } from "../text/shaping";
+import { parseMarkup } from "../text/markup";
+import {
+  findLargestFontSize,
+  measureText,
+  type ShapingRun,
+  shapeIcons,
+} from "../text/shaping";
 import type { TextFormatting } from "../text/TextFormatting";
+import { warnOnce } from "../utils/error";
 import { type NodeOptions, SceneNode } from "./SceneNode";
 
 export const DEFAULT_FONT_SIZE = 14;
 
+/**
+ * Looks up the fonts and textures that text markup refers to.
+ */
+export interface TextResources {
+  /** The text shader of a font id, for runs in [b] and [font] tags and for fallback fonts */
+  getFont(fontId: string): ITextShader;
+  /** Create a node that draws a texture, for [icon] tags */
+  createIcon(textureId: string): SceneNode;
+}
+
 export class TextNode extends SceneNode {
   #text: string;
   #formatting: TextFormatting;
   #font: MsdfFont;
+  #shader: ITextShader;
+  #resources?: TextResources;
+  #runs: ShapingRun[];
+  #markup: ResolvedMarkup | null = null;
+  #inlineNodes: SceneNode[] = [];
+  #iconNodes: SceneNode[] = [];
 
-  constructor(shader: ITextShader, text: string, opts: TextOptions = {}) {
-    const { width, height } = measureText(shader.font, text, opts.wordWrap);
+  constructor(
+    shader: ITextShader,
+    text: string,
+    opts: TextOptions = {},
+    resources?: TextResources,
+  ) {
+    const markup = opts.markup
+      ? resolveMarkup(shader, text, opts, resources)
+      : null;
+    const { width, height, printedCharCount } = measureText(
+      shader.font,
+      markup?.runs ?? text,
+      opts,
+    );
 
-    if (text.length > shader.maxCharCount) {
+    // the limit is on glyphs, so surrogate pairs count once and whitespace doesn't count
+    if (printedCharCount > shader.maxCharCount) {
       throw new Error(
-        `Text: ${text} exceeds ${shader.maxCharCount} characters. Try using fewer characters or increase the limit in Toodle.attach.`,
+        `Text: ${text} exceeds ${shader.maxCharCount} glyphs. Try using fewer characters or increase the limit in Toodle.attach.`,
       );
     }
 
@@ -40,18 +77,41 @@ export class TextNode extends SceneNode {
     });
 
     this.#font = shader.font;
+    this.#shader = shader;
+    this.#resources = resources;
     this.#text = text;
     this.#formatting = opts;
+    this.#runs = [];
+    this.#applyMarkup(markup);
   }
 
   get text() {
     return this.#text;
   }
 
+  /**
+   * The styled runs of the text. Text without markup is a single run in the font of the node.
+   */
+  get runs(): ShapingRun[] {
+    return this.#runs;
+  }
+
   get formatting() {
     return this.#formatting;
   }
 
+  override get size() {
+    return super.size;
+  }
+
+  /**
+   * Setting the size lays out inline icons again, since they are placed in the wrapped text.
+   */
+  override set size(value: Size | null) {
+    super.size = value;
+    this.#layoutIcons();
+  }
+
   get font() {
     return this.#font;
   }
@@ -61,6 +121,7 @@ export class TextNode extends SceneNode {
       throw new Error("text cannot be empty");
     }
     this.#text = text;
+    this.#updateRuns();
     this.setDirty();
   }
 
@@ -75,8 +136,190 @@ export class TextNode extends SceneNode {
 
   set formatting(formatting: TextFormatting) {
     this.#formatting = formatting;
+    this.#updateRuns();
     this.setDirty();
   }
+
+  #updateRuns() {
+    this.#applyMarkup(
+      this.#formatting.markup
+        ? resolveMarkup(
+            this.#shader,
+            this.#text,
+            this.#formatting,
+            this.#resources,
+          )
+        : null,
+    );
+  }
+
+  // glyphs of other fonts, from markup or font fallbacks, are drawn by layers with the shader of their font,
+  // icons are kids placed where the layout leaves room for them
+  #applyMarkup(markup: ResolvedMarkup | null) {
+    for (const node of [...this.#inlineNodes, ...this.#iconNodes]) {
+      node.delete();
+    }
+    this.#inlineNodes = [];
+    this.#iconNodes = [];
+    this.#markup = markup;
+    this.#runs = markup?.runs ?? [
+      { text: this.#text, font: this.#font, scale: 1 },
+    ];
+    if (this instanceof TextLayer) return;
+
+    // only markup and fallback fonts can put glyphs of other fonts in the text
+    const fonts = new Set<MsdfFont>();
+    if (markup || this.#font.fallbacks.length > 0) {
+      const { words } = measureText(this.#font, this.#runs, this.#formatting);
+      for (const { glyphs } of words) {
+        for (const glyph of glyphs) {
+          if (glyph.font !== this.#font) fonts.add(glyph.font);
+        }
+      }
+    }
+    for (const font of fonts) {
+      if (!this.#resources) {
+        warnOnce(
+          "text-layer-font",
+          `Text uses font ${font.id}, but the text node can't look up fonts. Create text with toodle.Text to use other fonts.`,
+        );
+        break;
+      }
+      const layer = new TextLayer(this.#resources.getFont(font.id), this);
+      this.#inlineNodes.push(this.add(layer));
+    }
+
+    this.#layoutIcons();
+  }
+
+  #layoutIcons() {
+    // icons are kept and added again where the layout places them, they can be left out by overflow
+    for (const node of this.#iconNodes) {
+      if (node.parent === this) this.remove(node);
+    }
+    this.#iconNodes = [];
+    const markup = this.#markup;
+    if (!markup?.icons.length) return;
+
+    const size = this.size ?? measureText(this.#font, this.#runs);
+    const fontSize = this.#formatting.shrinkToFit
+      ? findLargestFontSize(this.#font, this.#runs, size, this.#formatting)
+      : this.#formatting.fontSize;
+    const icons = shapeIcons(
+      this.#font,
+      this.#runs,
+      size,
+      fontSize || DEFAULT_FONT_SIZE,
+      this.#formatting,
+    );
+    for (const icon of icons) {
+      const node = markup.icons[icon.index];
+      node.size = icon.size;
+      node.position = icon.position;
+      this.#iconNodes.push(this.add(node));
+    }
+  }
+}
+
+/**
+ * Draws the glyphs of a text node that use another font than the node, from markup or fallbacks,
+ * with the layout of the node and the shader of the other font.
+ */
+class TextLayer extends TextNode {
+  #source: TextNode;
+
+  constructor(shader: ITextShader, source: TextNode) {
+    super(shader, source.text, { size: source.size ?? undefined });
+    this.#source = source;
+  }
+
+  override get text() {
+    return this.#source.text;
+  }
+
+  override get runs() {
+    return this.#source.runs;
+  }
+
+  override get formatting() {
+    return this.#source.formatting;
+  }
+
+  override get font() {
+    return this.#source.font;
+  }
+
+  override get tint() {
+    return this.#source.tint;
+  }
+
+  override get size() {
+    return this.#source.size;
+  }
+}
+
+type ResolvedMarkup = {
+  runs: ShapingRun[];
+  /** A node for each icon run, in order */
+  icons: SceneNode[];
+};
+
+function resolveMarkup(
+  shader: ITextShader,
+  text: string,
+  formatting: TextFormatting,
+  resources?: TextResources,
+): ResolvedMarkup {
+  const nodeFont = shader.font;
+  const nominalSize = formatting.fontSize ?? DEFAULT_FONT_SIZE;
+  const icons: SceneNode[] = [];
+
+  const runs = parseMarkup(text, { boldFont: formatting.boldFont }).flatMap(
+    (run): ShapingRun[] => {
+      let font = nodeFont;
+      if (run.font && run.font !== nodeFont.id) {
+        if (resources) {
+          font = resources.getFont(run.font).font;
+        } else {
+          warnOnce(
+            "text-markup-font",
+            `Text markup uses font ${run.font}, but the text node can't look up fonts. Create text with toodle.Text to use other fonts.`,
+          );
+        }
+      }
+      // sizes are relative to the font size of the node so they follow shrink to fit
+      const scale =
+        ((run.size ?? nominalSize) / nominalSize) *
+        (nodeFont.lineHeight / font.lineHeight);
+
+      if (run.icon) {
+        if (!resources) {
+          warnOnce(
+            "text-markup-icon",
+            `Text markup uses icon ${run.icon}, but the text node can't create icons. Create text with toodle.Text to use icons.`,
+          );
+          return [];
+        }
+        const icon = resources.createIcon(run.icon);
+        icons.push(icon);
+        return [
+          {
+            text: "",
+            font,
+            scale,
+            color: run.color,
+            icon: {
+              textureId: run.icon,
+              aspectRatio: icon.size ? icon.aspectRatio : 1,
+            },
+          },
+        ];
+      }
+      return [{ text: run.text, font, scale, color: run.color }];
+    },
+  );
+
+  return { runs, icons };
 }
 
 export type TextOptions = Omit<NodeOptions, "render"> & TextFormatting;
@@ -1,5 +1,17 @@
 export * from "./Camera";
+export * from "./CameraController";
+export {
+  type CapturedBatch,
+  type CapturedLayer,
+  type CapturedNode,
+  FRAME_CAPTURE_VERSION,
+  type FrameCapture,
+} from "./FrameCapture";
+export * from "./NodePointerEvent";
+export * from "./PointerInput";
+export { hitTest, type PickOptions, type PickPoint, pickNodes } from "./pick";
 export * from "./QuadNode";
 export * from "./RenderComponent";
 export * from "./SceneNode";
+export * from "./StaticBatch";
 export * from "./TextNode";
@@ -0,0 +1,163 @@
+import { mat3 } from "wgpu-matrix";
+import type { Point } from "../coreTypes/Point";
+import { transformPoint } from "../math/matrix";
+import type { CpuTextureAtlas } from "../textures/types";
+import { Batcher } from "./Batcher";
+import { JumboQuadNode } from "./JumboQuadNode";
+import { QuadNode } from "./QuadNode";
+import type { SceneNode } from "./SceneNode";
+
+export type PickOptions = {
+  /**
+   * Also test the texture of quads: texels with an alpha at or below the threshold don't count as hits.
+   * Needs the pixels of the texture's atlas on the cpu, quads without them are tested against their whole quad.
+   * Circles are tested against their circle. Defaults to null, which only tests the quads.
+   */
+  alphaThreshold?: number | null;
+  /** Only nodes that pass the filter can be hit, other nodes are skipped as if they weren't there */
+  filter?: (node: SceneNode) => boolean;
+};
+
+/**
+ * A point to pick at, in the coordinates of world space and screen space nodes.
+ */
+export type PickPoint = {
+  world: Point;
+  /** The point relative to the center of the view, which is how screen space nodes are positioned */
+  screen: Point;
+};
+
+// pixels read back from atlases that were only loaded as bitmaps
+const bitmapPixels = new WeakMap<CpuTextureAtlas, Uint8ClampedArray | null>();
+
+/**
+ * Find every node under a point, topmost first.
+ *
+ * Nodes are ordered the way they are drawn: screen space nodes are above world space nodes,
+ * higher layers are above lower layers and later draws are above earlier draws.
+ * Only active nodes that render something and have a size can be hit.
+ *
+ * @param root - The root of the tree to pick from
+ * @param point - The point to pick at
+ */
+export function pickNodes(
+  root: SceneNode,
+  point: PickPoint,
+  options: PickOptions = {},
+): SceneNode[] {
+  const batcher = new Batcher();
+  batcher.screen = new Batcher();
+  batcher.enqueue(root);
+
+  const hits: SceneNode[] = [];
+  const collect = (nodes: Batcher, at: Point) => {
+    for (const layer of nodes.layers) {
+      for (const pipeline of layer.pipelines) {
+        for (const node of pipeline.nodes) {
+          if (options.filter && !options.filter(node)) continue;
+          if (hitTest(node, at, options)) hits.push(node);
+        }
+      }
+    }
+  };
+  collect(batcher, point.world);
+  collect(batcher.screen, point.screen);
+  return hits.reverse();
+}
+
+/**
+ * Test whether a point is inside of a node's oriented quad, taking rotation, scale and skew into account.
+ *
+ * @param node - The node to test
+ * @param point - The point in the space of the node, world space unless the node is in screen space
+ */
+export function hitTest(
+  node: SceneNode,
+  point: Point,
+  options: PickOptions = {},
+): boolean {
+  const size = node.size;
+  if (!size || size.width === 0 || size.height === 0) return false;
+
+  // the matrix isn't invertible when a node is scaled to 0
+  const inverse = mat3.inverse(node.matrix);
+  if (inverse.some((value) => !Number.isFinite(value))) return false;
+
+  const local = transformPoint(point, inverse);
+  // the point on the unit quad, between -0.5 and 0.5
+  const x = local.x / size.width;
+  const y = local.y / size.height;
+  if (Math.abs(x) > 0.5 || Math.abs(y) > 0.5) return false;
+
+  const alphaThreshold = options.alphaThreshold ?? null;
+  if (alphaThreshold === null || !(node instanceof QuadNode)) return true;
+
+  if (node.isCircle) return x * x + y * y <= 0.25;
+  // jumbo quads are made of several textures, they are only tested against their quad
+  if (node.isPrimitive || node instanceof JumboQuadNode) return true;
+
+  const alpha = sampleAlpha(node, node.flipX ? -x : x, node.flipY ? -y : y);
+  return alpha === null || alpha * node.color.a > alphaThreshold;
+}
+
+/**
+ * The alpha of the texel of a quad at a point on its unit quad, or null if the atlas pixels aren't available.
+ * Mirrors the uv math of the quad shader, see writeQuadInstance.
+ */
+function sampleAlpha(node: QuadNode, x: number, y: number): number | null {
+  const { atlasCoords, region, cropOffset } = node;
+  const atlas = node.assetManager.bundles.getLoadedAtlas(
+    atlasCoords.atlasIndex,
+  );
+  const pixels = atlas && readPixels(atlas);
+  if (!atlas || !pixels) return null;
+
+  const cropRatio = node.extra.cropRatio();
+  const cropX = cropOffset.x / 2 / (atlasCoords.originalSize.width || 1);
+  const cropY = cropOffset.y / 2 / (atlasCoords.originalSize.height || 1);
+  const s = (x - cropX) / cropRatio.width + 0.5;
+  const t = 0.5 - (y - cropY) / cropRatio.height;
+  // outside of the cropped texture, where only transparent texels were
+  if (s < 0 || s >= 1 || t < 0 || t >= 1) return 0;
+
+  const atlasSize = node.extra.atlasSize();
+  // texel position in the upright texture
+  const x0 = region.x + s * region.width * cropRatio.width;
+  const y0 = region.y + t * region.height * cropRatio.height;
+  let u = atlasCoords.uvOffset.x + x0 / atlasSize.width;
+  let v = atlasCoords.uvOffset.y + y0 / atlasSize.height;
+  if (atlasCoords.rotated) {
+    // rotated frames are stored clockwise, with the upright top left at the top right of the frame
+    const frameWidth =
+      (atlasCoords.uvScaleCropped ?? atlasCoords.uvScale).height *
+      atlasSize.height;
+    u = atlasCoords.uvOffset.x + (frameWidth - y0) / atlasSize.width;
+    v = atlasCoords.uvOffset.y + x0 / atlasSize.height;
+  }
+
+  // atlases are uploaded to the top left of their layer, so uvs map to the same texels of the cpu atlas
+  const px = Math.floor(u * atlasSize.width);
+  const py = Math.floor(v * atlasSize.height);
+  if (px < 0 || py < 0 || px >= atlas.width || py >= atlas.height) return 0;
+  return pixels[(py * atlas.width + px) * 4 + 3] / 255;
+}
+
+function readPixels(atlas: CpuTextureAtlas): Uint8ClampedArray | null {
+  if (atlas.pixels) return atlas.pixels;
+  // rg8 atlases don't have an alpha channel
+  if (atlas.rg8Bytes) return null;
+
+  if (!bitmapPixels.has(atlas)) {
+    bitmapPixels.set(atlas, readBitmap(atlas.texture));
+  }
+  return bitmapPixels.get(atlas) ?? null;
+}
+
+function readBitmap(bitmap: ImageBitmap): Uint8ClampedArray | null {
+  if (typeof OffscreenCanvas === "undefined") return null;
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+  context.drawImage(bitmap, 0, 0);
+  return context.getImageData(0, 0, bitmap.width, bitmap.height).data;
+}
@@ -0,0 +1,68 @@
+import type { Point } from "../coreTypes/Point";
+import type { Bounds } from "../scene/SceneNode";
+import type { Resolution } from "./resolution";
+
+/**
+ * A point on the edge or in the center of the screen to place screen space nodes at.
+ */
+export type ScreenAnchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+/**
+ * Get the point of the screen an anchor refers to, in screen space.
+ *
+ * @param anchor - The anchor to look up
+ * @param resolution - The logical resolution of the screen or viewport
+ * @returns The point relative to the center of the screen, with y pointing up
+ */
+export function getAnchorPoint(
+  anchor: ScreenAnchor,
+  resolution: Resolution,
+): Point {
+  const [x, y] = anchorDirection(anchor);
+  return { x: (x * resolution.width) / 2, y: (y * resolution.height) / 2 };
+}
+
+/**
+ * Get the bounds that place a node at an anchor, to be passed to {@link SceneNode.setBounds}.
+ *
+ * The edges of the node that face the anchor are aligned with it, e.g. "top-left" aligns
+ * the top left corner of the node with the top left corner of the screen.
+ *
+ * @param anchor - The anchor to place the node at
+ * @param resolution - The logical resolution of the screen or viewport
+ * @param margin - Distance between the node and the edges of the screen in logical pixels
+ */
+export function getAnchorBounds(
+  anchor: ScreenAnchor,
+  resolution: Resolution,
+  margin = 0,
+): Partial<Bounds> {
+  const [x, y] = anchorDirection(anchor);
+  const point = getAnchorPoint(anchor, resolution);
+  const bounds: Partial<Bounds> = {};
+
+  if (x < 0) bounds.left = point.x + margin;
+  else if (x > 0) bounds.right = point.x - margin;
+  else bounds.x = point.x;
+
+  if (y < 0) bounds.bottom = point.y + margin;
+  else if (y > 0) bounds.top = point.y - margin;
+  else bounds.y = point.y;
+
+  return bounds;
+}
+
+function anchorDirection(anchor: ScreenAnchor): [number, number] {
+  const x = anchor.endsWith("left") ? -1 : anchor.endsWith("right") ? 1 : 0;
+  const y = anchor.startsWith("top") ? 1 : anchor.startsWith("bottom") ? -1 : 0;
+  return [x, y];
+}
@@ -7,6 +7,9 @@ import { warnOnce } from "../utils/error";
 
 export type KerningMap = Map<number, Map<number, number>>;
 
+/** The number of floats per character in {@link MsdfFont.charBuffer} */
+export const CHAR_STRIDE = 10;
+
 export interface MsdfChar {
   id: number;
   index: number;
@@ -30,10 +33,18 @@ export class MsdfFont {
   charset: string[];
   charCount: number;
   lineHeight: number;
+  /** the distance from the top of a line to the baseline */
+  base: number;
 
   /** a binary buffer of character data for loading into the gpu */
   charBuffer: Float32Array;
 
+  /**
+   * Fonts that supply the characters this font doesn't have, in order of preference.
+   * See {@link MsdfFont.findGlyph}.
+   */
+  fallbacks: MsdfFont[] = [];
+
   #kernings: KerningMap;
   #chars: Map<number, MsdfChar>;
   #fallbackCharCode?: number;
@@ -41,11 +52,13 @@ export class MsdfFont {
   constructor(
     public id: string,
     public json: MsdfFontJson,
-    public imageBitmap: ImageBitmap,
+    /** the texture of each page of the font, all pages have the same size */
+    public pages: ImageBitmap[],
   ) {
     const charArray = Object.values(json.chars);
     this.charCount = charArray.length;
     this.lineHeight = json.common.lineHeight;
+    this.base = json.common.base;
     this.charset = json.info.charset;
     this.name = json.info.face;
 
@@ -63,7 +76,7 @@ export class MsdfFont {
 
     this.#chars = new Map<number, MsdfChar>();
     const charCount = Object.values(json.chars).length;
-    this.charBuffer = new Float32Array(charCount * 8);
+    this.charBuffer = new Float32Array(charCount * CHAR_STRIDE);
     let offset = 0;
     const u = 1 / json.common.scaleW;
     const v = 1 / json.common.scaleH;
@@ -79,10 +92,19 @@ export class MsdfFont {
       this.charBuffer[offset + 5] = char.height; // size.y
       this.charBuffer[offset + 6] = char.xoffset; // offset.x
       this.charBuffer[offset + 7] = -char.yoffset; // offset.y
-      offset += 8;
+      this.charBuffer[offset + 8] = char.page; // page
+      offset += CHAR_STRIDE;
     }
   }
 
+  /**
+   * The texture of the first page of the font.
+   * @deprecated Fonts can have multiple pages, use {@link MsdfFont.pages} instead
+   */
+  get imageBitmap(): ImageBitmap {
+    return this.pages[0];
+  }
+
   getChar(charCode: number): MsdfChar {
     const char = this.#chars.get(charCode)!;
     if (!char) {
@@ -98,6 +120,46 @@ export class MsdfFont {
     return char;
   }
 
+  /** Whether the font has a character, without falling back to the placeholder */
+  hasChar(charCode: number): boolean {
+    return this.#chars.has(charCode);
+  }
+
+  /**
+   * Find the font that supplies a character, searching this font and then its fallbacks depth first.
+   * Characters that no font has are replaced by the placeholder of this font.
+   *
+   * @param charCode - The character code to look up
+   * @returns The character and the font it belongs to
+   */
+  findGlyph(charCode: number): { font: MsdfFont; char: MsdfChar } {
+    const font = this.findFont(charCode);
+    if (font) {
+      return { font, char: font.getChar(charCode) };
+    }
+    return { font: this, char: this.getChar(charCode) };
+  }
+
+  /**
+   * Find the font that supplies a character, like {@link MsdfFont.findGlyph} but without a placeholder.
+   *
+   * @returns The font, or null if neither this font nor its fallbacks have the character
+   */
+  findFont(charCode: number): MsdfFont | null {
+    return this.#findFont(charCode, new Set());
+  }
+
+  #findFont(charCode: number, visited: Set<MsdfFont>): MsdfFont | null {
+    if (this.#chars.has(charCode)) return this;
+    visited.add(this);
+    for (const fallback of this.fallbacks) {
+      if (visited.has(fallback)) continue;
+      const font = fallback.#findFont(charCode, visited);
+      if (font) return font;
+    }
+    return null;
+  }
+
   // Gets the distance in pixels a line should advance for a given character code. If the upcoming
   // character code is given any kerning between the two characters will be taken into account.
   getXAdvance(charCode: number, nextCharCode = -1): number {
@@ -123,15 +185,15 @@ export class MsdfFont {
         `Can't create an msdf font without a reference to the page url in the json`,
       );
     }
-    if (json.pages.length > 1) {
-      throw new Error(`Can't create an msdf font with more than one page`);
-    }
 
-    const textureUrl = baseUrl + json.pages[0];
-    const textureResponse = await fetch(textureUrl);
-    const bitmap = await createImageBitmap(await textureResponse.blob());
+    const pages = await Promise.all(
+      json.pages.map(async (page) => {
+        const textureResponse = await fetch(baseUrl + page);
+        return createImageBitmap(await textureResponse.blob());
+      }),
+    );
 
-    return new MsdfFont(id, json, bitmap);
+    return new MsdfFont(id, json, pages);
   }
 
   set fallbackCharacter(character: string) {
@@ -1,22 +1,51 @@
 import type { Color } from "../coreTypes/Color";
+import type { Point } from "../coreTypes/Point";
+import type { TextDirection } from "./bidi";
 
 export interface TextFormatting {
-  /*Horizontal alignment of the text, defaults to center*/
-  align?: "left" | "right" | "center";
+  /*Horizontal alignment of the text, defaults to left. Justified text stretches the spaces of each line but the last of a paragraph to the width of the node.*/
+  align?: "left" | "right" | "center" | "justify";
+  /*Vertical alignment of the text within the size of the node, defaults to middle.*/
+  verticalAlign?: "top" | "middle" | "bottom";
   /*Font size in pixels. 10 means that a character with an em height of 1 will be 10 pixels high.*/
   fontSize?: number;
   /*RGBA color of the text, defaults to white.*/
   color?: Color;
+  /*Multiplier for the height of each line, defaults to 1.*/
+  lineHeight?: number;
+  /*Extra space after each character as a multiple of the font size, defaults to 0.*/
+  letterSpacing?: number;
+
+  /*Direction of the paragraphs for bidi text, defaults to the direction of the first strong character of each paragraph.*/
+  direction?: TextDirection;
 
   /*Options for word wrapping.*/
   wordWrap?: WordWrapOptions;
 
   /*Options for shrinking the text to fit within the bounds.*/
   shrinkToFit?: ShrinkToFitOptions;
+
+  /*What happens to text that doesn't fit the size of the node, defaults to visible. clip drops the glyphs and lines that don't fit, ellipsis also ends the text that is left with "…".*/
+  overflow?: "visible" | "clip" | "ellipsis";
+  /*Maximum number of lines, the lines after it are dropped.*/
+  maxLines?: number;
+
+  /*Outline around the glyphs, drawn from the distance field in the same draw as the text.*/
+  outline?: TextOutline;
+  /*Drop shadow behind the glyphs and their outline.*/
+  shadow?: TextShadow;
+  /*Glow that fades out from the edge of the glyphs and their outline.*/
+  glow?: TextGlow;
+
+  /*Parse BBCode-like tags in the text for inline colors, sizes, fonts and icons. See parseMarkup.*/
+  markup?: boolean;
+  /*The font id used for text inside [b] tags when markup is enabled.*/
+  boldFont?: string;
 }
 
 export type WordWrapOptions = {
   emWidth: number;
+  /*Break lines at unicode line break opportunities (UAX #14) or between any two characters.*/
   breakOn?: "word" | "character";
 };
 
@@ -26,3 +55,25 @@ export type ShrinkToFitOptions = {
   maxLines?: number;
   padding?: number;
 };
+
+/*
+Sizes of text effects are in pixels at the font size. They are limited by the distance range of the
+font, the outline and glow share half of it and the shadow blur can use at most half of it.
+*/
+export type TextOutline = {
+  width: number;
+  color: Color;
+};
+
+export type TextShadow = {
+  /*Offset of the shadow in pixels, with y up like node positions.*/
+  offset: Point;
+  /*Width of the soft edge of the shadow, defaults to 0.*/
+  blur?: number;
+  color: Color;
+};
+
+export type TextGlow = {
+  width: number;
+  color: Color;
+};
@@ -0,0 +1,343 @@
+// bidi is responsible for the unicode bidirectional algorithm (UAX #9):
+// - classifying code points by bidi class
+// - resolving the embedding level of each code point of a paragraph
+// - reordering the items of a line from logical to visual order
+// explicit embeddings, overrides and isolates are not supported, their control characters are ignored
+// https://www.unicode.org/reports/tr9/
+
+/** The direction of a paragraph. `auto` uses the direction of the first strong character */
+export type TextDirection = "ltr" | "rtl" | "auto";
+
+/** The subset of bidi classes that the implicit algorithm distinguishes */
+export type BidiClass =
+  | "L"
+  | "R"
+  | "AL"
+  | "EN"
+  | "ES"
+  | "ET"
+  | "AN"
+  | "CS"
+  | "NSM"
+  | "BN"
+  | "B"
+  | "S"
+  | "WS"
+  | "ON";
+
+export type BidiLevels = {
+  /** The embedding level of each code point, odd levels are right to left */
+  levels: number[];
+  /** The level of the paragraph of each code point */
+  paragraphLevels: number[];
+};
+
+const hebrewLike =
+  /[\p{Script=Hebrew}\p{Script=Samaritan}\p{Script=Mandaic}\p{Script=Nko}\p{Script=Adlam}\p{Script=Mende_Kikakui}\p{Script=Imperial_Aramaic}\p{Script=Phoenician}\p{Script=Kharoshthi}\p{Script=Old_South_Arabian}\p{Script=Avestan}\p{Script=Hatran}\p{Script=Nabataean}\p{Script=Palmyrene}\p{Script=Old_Hungarian}]/u;
+const arabicLike =
+  /[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Hanifi_Rohingya}]/u;
+const strongLeft = /[\p{L}\p{Mc}\p{Nl}]/u;
+const nonSpacingMark = /[\p{Mn}\p{Me}]/u;
+const formatOrControl = /[\p{Cf}\p{Cc}]/u;
+const spaceSeparator = /\p{Zs}/u;
+
+const ARABIC_NUMBERS = new Set([
+  0x0600, 0x0601, 0x0602, 0x0603, 0x0604, 0x0605, 0x066b, 0x066c, 0x06dd,
+  0x0890, 0x0891, 0x08e2,
+]);
+const TERMINATORS = new Set([
+  0x23, 0x24, 0x25, 0xa2, 0xa3, 0xa4, 0xa5, 0xb0, 0xb1, 0x0609, 0x060a, 0x066a,
+  0x2030, 0x2031, 0x2032, 0x2033, 0x2034, 0x212e, 0x2213, 0xfe5f, 0xfe69,
+  0xfe6a, 0xff03, 0xff04, 0xff05, 0xffe0, 0xffe1, 0xffe5, 0xffe6,
+]);
+const SEPARATORS = new Set([
+  0x2b, 0x2d, 0x207a, 0x207b, 0x208a, 0x208b, 0x2212, 0xfb29, 0xfe62, 0xfe63,
+  0xff0b, 0xff0d,
+]);
+const COMMON_SEPARATORS = new Set([
+  0x2c, 0x2e, 0x2f, 0x3a, 0xa0, 0x060c, 0x202f, 0x2044, 0xfe50, 0xfe52, 0xfe55,
+  0xff0c, 0xff0e, 0xff0f, 0xff1a,
+]);
+
+/**
+ * The bidi class of a code point, approximated from its script and general category.
+ */
+export function bidiClass(codePoint: number): BidiClass {
+  if (codePoint < 0x80) return ASCII_CLASSES[codePoint];
+  if (codePoint === 0x85 || codePoint === 0x2029) return "B";
+  if (codePoint === 0x2028) return "WS";
+  if (codePoint >= 0x0660 && codePoint <= 0x0669) return "AN";
+  if (ARABIC_NUMBERS.has(codePoint)) return "AN";
+  if (
+    (codePoint >= 0x06f0 && codePoint <= 0x06f9) ||
+    (codePoint >= 0x2070 && codePoint <= 0x2079) ||
+    (codePoint >= 0x2080 && codePoint <= 0x2089) ||
+    (codePoint >= 0xff10 && codePoint <= 0xff19) ||
+    codePoint === 0xb2 ||
+    codePoint === 0xb3 ||
+    codePoint === 0xb9
+  ) {
+    return "EN";
+  }
+  if (TERMINATORS.has(codePoint)) return "ET";
+  if (codePoint >= 0x20a0 && codePoint <= 0x20cf) return "ET";
+  if (SEPARATORS.has(codePoint)) return "ES";
+  if (COMMON_SEPARATORS.has(codePoint)) return "CS";
+
+  const char = String.fromCodePoint(codePoint);
+  if (nonSpacingMark.test(char)) return "NSM";
+  if (formatOrControl.test(char)) return "BN";
+  if (spaceSeparator.test(char)) return "WS";
+  if (arabicLike.test(char)) return strongLeft.test(char) ? "AL" : "ON";
+  if (hebrewLike.test(char)) return strongLeft.test(char) ? "R" : "ON";
+  if (codePoint >= 0x10800 && codePoint <= 0x10fff) return "R";
+  if (codePoint >= 0x1e800 && codePoint <= 0x1efff) return "R";
+  if (strongLeft.test(char) || /\p{N}/u.test(char)) return "L";
+  return "ON";
+}
+
+/**
+ * Resolve the embedding levels of text with the implicit rules of the bidi algorithm.
+ * Each line break starts a new paragraph.
+ *
+ * @param codePoints - The code points of the text in logical order
+ * @param direction - The direction of the paragraphs
+ */
+export function resolveBidiLevels(
+  codePoints: number[],
+  direction: TextDirection = "auto",
+): BidiLevels {
+  const levels = new Array<number>(codePoints.length).fill(0);
+  const paragraphLevels = new Array<number>(codePoints.length).fill(0);
+
+  // left to right text without right to left characters keeps level 0
+  if (direction !== "rtl" && codePoints.every((cp) => cp < 0x0590)) {
+    return { levels, paragraphLevels };
+  }
+
+  const classes = codePoints.map(bidiClass);
+  let start = 0;
+  for (let i = 0; i <= classes.length; i++) {
+    if (i < classes.length && classes[i] !== "B") continue;
+    // the paragraph separator belongs to the paragraph it ends
+    const end = Math.min(i + 1, classes.length);
+    resolveParagraph(classes, start, end, direction, levels, paragraphLevels);
+    start = end;
+  }
+
+  return { levels, paragraphLevels };
+}
+
+/**
+ * The visual order of the items of a line, by rule L2 of the bidi algorithm.
+ *
+ * @param levels - The embedding level of each item in logical order
+ * @returns The logical indices of the items from left to right
+ */
+export function reorderVisually(levels: number[]): number[] {
+  const order = levels.map((_, i) => i);
+  if (levels.length === 0) return order;
+
+  const highest = Math.max(...levels);
+  const lowestOdd = Math.min(...levels.map((level) => level | 1));
+
+  // reverse each run of items at or above a level, from the highest level down to the lowest odd level
+  for (let level = highest; level >= lowestOdd; level--) {
+    let i = 0;
+    while (i < order.length) {
+      if (levels[order[i]] < level) {
+        i++;
+        continue;
+      }
+      let end = i;
+      while (end < order.length && levels[order[end]] >= level) end++;
+      const reversed = order.slice(i, end).reverse();
+      order.splice(i, reversed.length, ...reversed);
+      i = end;
+    }
+  }
+  return order;
+}
+
+/**
+ * The mirrored form of a code point that is drawn in a right to left run, like ( for ).
+ *
+ * @returns The mirrored code point, or the code point itself if it has no mirrored form
+ */
+export function mirrorCodePoint(codePoint: number): number {
+  return MIRRORS.get(codePoint) ?? codePoint;
+}
+
+function resolveParagraph(
+  allClasses: BidiClass[],
+  start: number,
+  end: number,
+  direction: TextDirection,
+  levels: number[],
+  paragraphLevels: number[],
+) {
+  // rules P2 and P3: the paragraph level comes from the first strong character
+  let paragraphLevel = direction === "rtl" ? 1 : 0;
+  if (direction === "auto") {
+    for (let i = start; i < end; i++) {
+      const type = allClasses[i];
+      if (type === "L") break;
+      if (type === "R" || type === "AL") {
+        paragraphLevel = 1;
+        break;
+      }
+    }
+  }
+  const embedding: BidiClass = paragraphLevel === 1 ? "R" : "L";
+
+  // rule X9: boundary neutrals are skipped by the weak and neutral rules
+  const indices: number[] = [];
+  for (let i = start; i < end; i++) {
+    if (allClasses[i] !== "BN") indices.push(i);
+  }
+  const types = indices.map((i) => allClasses[i]);
+
+  // W1: non spacing marks take the type of the previous character
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === "NSM") types[i] = i === 0 ? embedding : types[i - 1];
+  }
+  // W2: european numbers after arabic letters are arabic numbers
+  let lastStrong: BidiClass = embedding;
+  for (let i = 0; i < types.length; i++) {
+    const type = types[i];
+    if (type === "L" || type === "R" || type === "AL") lastStrong = type;
+    if (type === "EN" && lastStrong === "AL") types[i] = "AN";
+  }
+  // W3: arabic letters are right to left
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === "AL") types[i] = "R";
+  }
+  // W4: a single separator between two numbers of the same type joins them
+  for (let i = 1; i < types.length - 1; i++) {
+    const before = types[i - 1];
+    const after = types[i + 1];
+    if (types[i] === "ES" && before === "EN" && after === "EN") {
+      types[i] = "EN";
+    } else if (
+      types[i] === "CS" &&
+      before === after &&
+      (before === "EN" || before === "AN")
+    ) {
+      types[i] = before;
+    }
+  }
+  // W5: terminators next to european numbers are european numbers
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] !== "ET") continue;
+    let end = i;
+    while (end < types.length && types[end] === "ET") end++;
+    if (types[i - 1] === "EN" || types[end] === "EN") {
+      types.fill("EN", i, end);
+    }
+    i = end - 1;
+  }
+  // W6: remaining separators and terminators are neutral
+  for (let i = 0; i < types.length; i++) {
+    const type = types[i];
+    if (type === "ES" || type === "ET" || type === "CS") types[i] = "ON";
+  }
+  // W7: european numbers in left to right text are left to right
+  lastStrong = embedding;
+  for (let i = 0; i < types.length; i++) {
+    const type = types[i];
+    if (type === "L" || type === "R") lastStrong = type;
+    if (type === "EN" && lastStrong === "L") types[i] = "L";
+  }
+  // N1 and N2: neutrals between characters of the same direction take that direction,
+  // other neutrals take the embedding direction. Numbers count as right to left.
+  const strongDirection = (type: BidiClass | undefined) =>
+    type === undefined
+      ? embedding
+      : type === "L"
+        ? "L"
+        : type === "R" || type === "EN" || type === "AN"
+          ? "R"
+          : null;
+  for (let i = 0; i < types.length; i++) {
+    if (strongDirection(types[i]) !== null) continue;
+    let end = i;
+    while (end < types.length && strongDirection(types[end]) === null) end++;
+    const before = strongDirection(i === 0 ? undefined : types[i - 1]);
+    const after = strongDirection(types[end]);
+    types.fill(before === after ? (before ?? embedding) : embedding, i, end);
+    i = end - 1;
+  }
+  // I1 and I2: implicit levels
+  for (let i = 0; i < types.length; i++) {
+    const type = types[i];
+    let level = paragraphLevel;
+    if (paragraphLevel === 0) {
+      if (type === "R") level = 1;
+      else if (type === "AN" || type === "EN") level = 2;
+    } else if (type === "L" || type === "EN" || type === "AN") {
+      level = 2;
+    }
+    levels[indices[i]] = level;
+  }
+
+  // boundary neutrals take the level of the character before them
+  for (let i = start; i < end; i++) {
+    paragraphLevels[i] = paragraphLevel;
+    if (allClasses[i] === "BN") {
+      levels[i] = i === start ? paragraphLevel : levels[i - 1];
+    }
+  }
+  // L1: separators and the whitespace before them are reset to the paragraph level
+  for (let i = start; i < end; i++) {
+    const type = allClasses[i];
+    if (type !== "B" && type !== "S") continue;
+    levels[i] = paragraphLevel;
+    for (let j = i - 1; j >= start && allClasses[j] === "WS"; j--) {
+      levels[j] = paragraphLevel;
+    }
+  }
+}
+
+const ASCII_CLASSES: BidiClass[] = Array.from({ length: 0x80 }, (_, cp) => {
+  if (cp === 0x0a || cp === 0x0d || (cp >= 0x1c && cp <= 0x1e)) return "B";
+  if (cp === 0x09 || cp === 0x0b || cp === 0x1f) return "S";
+  if (cp === 0x0c || cp === 0x20) return "WS";
+  if (cp < 0x20 || cp === 0x7f) return "BN";
+  if (cp >= 0x30 && cp <= 0x39) return "EN";
+  if (SEPARATORS.has(cp)) return "ES";
+  if (TERMINATORS.has(cp)) return "ET";
+  if (COMMON_SEPARATORS.has(cp)) return "CS";
+  if ((cp >= 0x41 && cp <= 0x5a) || (cp >= 0x61 && cp <= 0x7a)) return "L";
+  return "ON";
+});
+
+const MIRROR_PAIRS = [
+  "()",
+  "<>",
+  "[]",
+  "{}",
+  "«»",
+  "‹›",
+  "⁅⁆",
+  "⁽⁾",
+  "₍₎",
+  "≤≥",
+  "⟨⟩",
+  "〈〉",
+  "《》",
+  "「」",
+  "『』",
+  "【】",
+  "〔〕",
+  "〖〗",
+  "（）",
+  "＜＞",
+  "［］",
+  "｛｝",
+];
+const MIRRORS = new Map<number, number>();
+for (const pair of MIRROR_PAIRS) {
+  const [open, close] = [...pair].map((char) => char.codePointAt(0)!);
+  MIRRORS.set(open, close);
+  MIRRORS.set(close, open);
+}
@@ -0,0 +1,50 @@
+// effects is responsible for packing the outline, shadow and glow of a text block for the text
+// shaders, which draw them from the distance field in the same draw as the glyphs
+import type { Color } from "../coreTypes/Color";
+import type { TextFormatting } from "./TextFormatting";
+
+/**
+ * The number of floats written by {@link writeTextEffects}:
+ * outline color, glow color, shadow color, shadow (offset x, offset y, blur, unused),
+ * outline width and glow width.
+ */
+export const TEXT_EFFECTS_STRIDE = 18;
+
+const NONE: Color = { r: 0, g: 0, b: 0, a: 0 };
+
+/**
+ * Write the text effects of a formatting to a buffer. Effects that are missing or have no width
+ * are written with a transparent color so the shaders can draw every text block the same way.
+ *
+ * @param formatting - The formatting of the text block
+ * @param buffer - The buffer to write to
+ * @param offset - The index in the buffer to start writing at
+ */
+export function writeTextEffects(
+  formatting: TextFormatting,
+  buffer: Float32Array,
+  offset = 0,
+) {
+  const { outline, glow, shadow } = formatting;
+  const outlineWidth = Math.max(outline?.width ?? 0, 0);
+  const glowWidth = Math.max(glow?.width ?? 0, 0);
+
+  writeColor(outlineWidth > 0 ? outline!.color : NONE, buffer, offset);
+  writeColor(glowWidth > 0 ? glow!.color : NONE, buffer, offset + 4);
+  writeColor(shadow?.color ?? NONE, buffer, offset + 8);
+
+  buffer[offset + 12] = shadow?.offset.x ?? 0;
+  buffer[offset + 13] = shadow?.offset.y ?? 0;
+  buffer[offset + 14] = Math.max(shadow?.blur ?? 0, 0);
+  buffer[offset + 15] = 0;
+
+  buffer[offset + 16] = outlineWidth;
+  buffer[offset + 17] = glowWidth;
+}
+
+function writeColor(color: Color, buffer: Float32Array, offset: number) {
+  buffer[offset] = color.r;
+  buffer[offset + 1] = color.g;
+  buffer[offset + 2] = color.b;
+  buffer[offset + 3] = color.a;
+}
@@ -0,0 +1,227 @@
+// lineBreak is responsible for finding line break opportunities with the pair rules of UAX #14.
+// classes are approximated from general categories and scripts, and the rules for
+// numbers, emoji and regional indicators are simplified.
+// https://www.unicode.org/reports/tr14/
+
+/** The subset of line break classes that the pair rules distinguish */
+export type LineBreakClass =
+  | "BK"
+  | "CR"
+  | "LF"
+  | "SP"
+  | "ZW"
+  | "ZWJ"
+  | "WJ"
+  | "GL"
+  | "CM"
+  | "BA"
+  | "HY"
+  | "BB"
+  | "OP"
+  | "CL"
+  | "CP"
+  | "QU"
+  | "EX"
+  | "IS"
+  | "SY"
+  | "NS"
+  | "IN"
+  | "NU"
+  | "PR"
+  | "PO"
+  | "ID"
+  | "AL";
+
+const ideographic =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Bopomofo}\p{Script=Yi}\p{Extended_Pictographic}]/u;
+const mark = /\p{M}/u;
+const control = /\p{Cc}/u;
+const digit = /\p{Nd}/u;
+const openPunctuation = /\p{Ps}/u;
+const closePunctuation = /\p{Pe}/u;
+const quotation = /[\p{Pi}\p{Pf}]/u;
+const currency = /\p{Sc}/u;
+
+// small kana and iteration marks don't start a line (CJ is resolved to NS)
+const NONSTARTERS = new Set(
+  [
+    ..."ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶㇰㇱㇲㇳㇴㇵㇶㇷㇸㇹㇺㇻㇼㇽㇾㇿｧｨｩｪｫｬｭｮｯｰ",
+    ..."ゝゞヽヾ々〻ー゠・ヿ‼‽⁇⁈⁉",
+  ].map((char) => char.codePointAt(0)!),
+);
+const CLOSERS = new Set([..."、。，．｡､"].map((char) => char.codePointAt(0)!));
+const AFTER_BREAKS = new Set([
+  0x09, 0x7c, 0xad, 0x058a, 0x0f0b, 0x1680, 0x2010, 0x2012, 0x2013, 0x205f,
+  0x3000,
+]);
+const POSTFIXES = new Set([
+  0x25, 0xa2, 0xb0, 0x2030, 0x2031, 0x2032, 0x2033, 0x2103, 0xff05, 0xffe0,
+]);
+
+/**
+ * The line break class of a code point.
+ */
+export function lineBreakClass(codePoint: number): LineBreakClass {
+  switch (codePoint) {
+    case 0x0a:
+      return "LF";
+    case 0x0d:
+      return "CR";
+    case 0x0b:
+    case 0x0c:
+    case 0x85:
+    case 0x2028:
+    case 0x2029:
+      return "BK";
+    case 0x20:
+      return "SP";
+    case 0x200b:
+      return "ZW";
+    case 0x200d:
+      return "ZWJ";
+    case 0x2060:
+    case 0xfeff:
+      return "WJ";
+    case 0xa0:
+    case 0x202f:
+    case 0x2007:
+    case 0x034f:
+      return "GL";
+    case 0x2d:
+      return "HY";
+    case 0xb4:
+    case 0x02c8:
+    case 0x02cc:
+    case 0x02df:
+      return "BB";
+    case 0x28:
+    case 0x5b:
+    case 0x7b:
+    case 0xa1:
+    case 0xbf:
+      return "OP";
+    case 0x29:
+    case 0x5d:
+      return "CP";
+    case 0x7d:
+      return "CL";
+    case 0x22:
+    case 0x27:
+      return "QU";
+    case 0x21:
+    case 0x3f:
+      return "EX";
+    case 0x2c:
+    case 0x2e:
+    case 0x3a:
+    case 0x3b:
+    case 0x037e:
+    case 0x0589:
+    case 0x060c:
+    case 0x060d:
+    case 0x2044:
+      return "IS";
+    case 0x2f:
+      return "SY";
+    case 0x2024:
+    case 0x2025:
+    case 0x2026:
+      return "IN";
+  }
+  if (AFTER_BREAKS.has(codePoint)) return "BA";
+  if (codePoint >= 0x2000 && codePoint <= 0x200a) return "BA";
+  if (POSTFIXES.has(codePoint)) return "PO";
+  if (NONSTARTERS.has(codePoint)) return "NS";
+  if (CLOSERS.has(codePoint)) return "CL";
+
+  const char = String.fromCodePoint(codePoint);
+  if (mark.test(char) || control.test(char)) return "CM";
+  if (codePoint >= 0xff10 && codePoint <= 0xff19) return "ID";
+  if (digit.test(char)) return "NU";
+  if (currency.test(char)) return "PR";
+  if (openPunctuation.test(char)) return "OP";
+  if (closePunctuation.test(char)) return "CL";
+  if (quotation.test(char)) return "QU";
+  if (ideographic.test(char)) return "ID";
+  return "AL";
+}
+
+/**
+ * Find where lines may break in a sequence of grapheme clusters.
+ *
+ * @param codePoints - The first code point of each cluster
+ * @returns Whether a line may break before each cluster. Mandatory breaks after line feeds are included.
+ */
+export function lineBreakOpportunities(codePoints: number[]): boolean[] {
+  const classes = codePoints.map(lineBreakClass);
+  const breaks = classes.map(() => false);
+  // the class before a run of spaces, for rules like OP SP* ×
+  let beforeSpaces: LineBreakClass | null = null;
+
+  for (let i = 1; i < classes.length; i++) {
+    const before = classes[i - 1];
+    if (before !== "SP") beforeSpaces = before;
+    breaks[i] = canBreak(before, classes[i], beforeSpaces);
+  }
+  return breaks;
+}
+
+const CLOSING = new Set<LineBreakClass>(["CL", "CP", "EX", "IS", "SY"]);
+const HARD = new Set<LineBreakClass>(["BK", "CR", "LF"]);
+const ALPHABETIC = new Set<LineBreakClass>(["AL"]);
+const AFFIXES = new Set<LineBreakClass>(["PR", "PO"]);
+
+function canBreak(
+  a: LineBreakClass,
+  b: LineBreakClass,
+  beforeSpaces: LineBreakClass | null,
+): boolean {
+  // LB4, LB5: always break after hard line breaks, but not inside CR LF
+  if (a === "CR" && b === "LF") return false;
+  if (HARD.has(a)) return true;
+  // LB6, LB7: don't break before hard line breaks, spaces or zero width spaces
+  if (HARD.has(b) || b === "SP" || b === "ZW") return false;
+  // LB8: break after zero width spaces
+  if (beforeSpaces === "ZW") return true;
+  // LB8a, LB9: don't break after zero width joiners or before combining marks
+  if (a === "ZWJ" || b === "ZWJ" || b === "CM") return false;
+  // LB11, LB12, LB12a: word joiners and non breaking characters glue
+  if (a === "WJ" || b === "WJ" || a === "GL") return false;
+  if (b === "GL" && a !== "SP" && a !== "BA" && a !== "HY") return false;
+  // LB13: don't break before closing punctuation
+  if (CLOSING.has(b)) return false;
+  // LB14: don't break after opening punctuation, even with spaces in between
+  if (beforeSpaces === "OP") return false;
+  // LB16: don't break between closing punctuation and nonstarters
+  if ((beforeSpaces === "CL" || beforeSpaces === "CP") && b === "NS") {
+    return false;
+  }
+  // LB18: break after spaces
+  if (a === "SP") return true;
+  // LB19: don't break around quotation marks
+  if (a === "QU" || b === "QU") return false;
+  // LB21, LB22: don't break before hyphens, nonstarters and ellipses, or after BB
+  if (b === "BA" || b === "HY" || b === "NS" || b === "IN" || a === "BB") {
+    return false;
+  }
+  // LB23 - LB25: keep numbers with letters, prefixes and postfixes
+  if (ALPHABETIC.has(a) && b === "NU") return false;
+  if (a === "NU" && ALPHABETIC.has(b)) return false;
+  if (a === "PR" && b === "ID") return false;
+  if (a === "ID" && b === "PO") return false;
+  if (AFFIXES.has(a) && (ALPHABETIC.has(b) || b === "NU" || b === "OP")) {
+    return false;
+  }
+  if (ALPHABETIC.has(a) && AFFIXES.has(b)) return false;
+  if ((a === "OP" || a === "HY") && b === "NU") return false;
+  if (a === "NU" && (b === "NU" || AFFIXES.has(b))) return false;
+  if ((a === "CL" || a === "CP") && AFFIXES.has(b)) return false;
+  // LB28, LB29: don't break inside words
+  if (ALPHABETIC.has(a) && ALPHABETIC.has(b)) return false;
+  if (a === "IS" && ALPHABETIC.has(b)) return false;
+  // LB30: don't break between words and parentheses
+  if ((ALPHABETIC.has(a) || a === "NU") && b === "OP") return false;
+  if (a === "CP" && (ALPHABETIC.has(b) || b === "NU")) return false;
+  // LB31: break everywhere else
+  return true;
+}
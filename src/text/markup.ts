@@ -0,0 +1,152 @@
+import { web } from "../colors/mod";
+import type { Color } from "../coreTypes/Color";
+
+// markup is responsible for turning BBCode-like markup into styled runs:
+// - [color=#f00]...[/color] or [color=red]...[/color] for inline colors
+// - [size=20]...[/size] for inline font sizes in pixels
+// - [b]...[/b] for bold text, drawn with an alternate font
+// - [font=id]...[/font] for text in another font
+// - [icon=coin] to inline a texture from the atlas
+// tags that are not recognized are kept as text, and \[ prints a literal bracket
+
+/** A run of text that shares one style */
+export type TextRun = {
+  /** The text of the run, empty for icons */
+  text: string;
+  /** The color of the run, multiplied with the color of the text node */
+  color?: Color;
+  /** The font size of the run in pixels */
+  size?: number;
+  /** The id of the font of the run, defaults to the font of the text node */
+  font?: string;
+  /** The texture id of an inline icon */
+  icon?: string;
+};
+
+export type MarkupOptions = {
+  /** The font id used for text inside [b] tags */
+  boldFont?: string;
+};
+
+type Style = Omit<TextRun, "text" | "icon">;
+
+const tagPattern = /\\\[|\[(\/?)(\w+)(?:=([^\]]*))?\]/g;
+
+/**
+ * Parse BBCode-like markup into runs of styled text.
+ *
+ * @param markup - The text with markup tags
+ * @param options - How tags map to fonts
+ * @returns The runs in reading order
+ *
+ * @example
+ *
+ * parseMarkup("Costs [color=#fc0]5[/color] [icon=coin]");
+ * // [{ text: "Costs " }, { text: "5", color: { r: 1, g: 0.8, b: 0, a: 1 } }, { text: " " }, { text: "", icon: "coin" }]
+ */
+export function parseMarkup(
+  markup: string,
+  options: MarkupOptions = {},
+): TextRun[] {
+  const runs: TextRun[] = [];
+  // each open tag pushes the style it applies, closing a tag drops the innermost one with its name
+  const stack: { tag: string; style: Style }[] = [];
+  let text = "";
+  let cursor = 0;
+
+  for (const match of markup.matchAll(tagPattern)) {
+    text += markup.slice(cursor, match.index);
+    cursor = match.index + match[0].length;
+
+    if (match[0] === "\\[") {
+      text += "[";
+      continue;
+    }
+
+    const [source, closing, tag, value] = match;
+    if (closing) {
+      const index = stack.findLastIndex((entry) => entry.tag === tag);
+      if (index === -1) {
+        text += source;
+        continue;
+      }
+      flush();
+      stack.splice(index, 1);
+      continue;
+    }
+
+    if (tag === "icon" && value) {
+      flush();
+      runs.push({ ...currentStyle(), text: "", icon: value });
+      continue;
+    }
+
+    const style = tagStyle(tag, value, options);
+    if (!style) {
+      text += source;
+      continue;
+    }
+    flush();
+    stack.push({ tag, style });
+  }
+  text += markup.slice(cursor);
+  flush();
+
+  return runs;
+
+  function currentStyle(): Style {
+    return Object.assign({}, ...stack.map((entry) => entry.style));
+  }
+
+  function flush() {
+    if (!text) return;
+    runs.push({ ...currentStyle(), text });
+    text = "";
+  }
+}
+
+/**
+ * Parse a hex color like #f00, #f008, #ff0000 or #ff000080, or the name of a web color like red or cornflowerBlue.
+ *
+ * @returns The color, or null if the value is not a color
+ */
+export function parseColor(value: string): Color | null {
+  if (Object.hasOwn(web, value)) {
+    return web[value as keyof typeof web];
+  }
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(value)?.[1];
+  if (!hex) return null;
+
+  const digits = hex.length <= 4 ? 1 : 2;
+  const channel = (i: number) => {
+    const part = hex.slice(i * digits, (i + 1) * digits);
+    if (!part) return 1;
+    return parseInt(part.repeat(3 - digits), 16) / 255;
+  };
+  return { r: channel(0), g: channel(1), b: channel(2), a: channel(3) };
+}
+
+function tagStyle(
+  tag: string,
+  value: string | undefined,
+  options: MarkupOptions,
+): Style | null {
+  switch (tag) {
+    case "color": {
+      const color = value ? parseColor(value) : null;
+      return color && { color };
+    }
+    case "size": {
+      const size = Number(value);
+      return value && size > 0 ? { size } : null;
+    }
+    case "font":
+      return value ? { font: value } : null;
+    case "b":
+      if (value !== undefined) return null;
+      return options.boldFont ? { font: options.boldFont } : {};
+    default:
+      return null;
+  }
+}
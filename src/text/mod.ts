@@ -3,3 +3,7 @@
 // https://github.com/Chlumsky/msdfgen/issues/22#issuecomment-234958005
 // https://github.com/pixijs/pixijs/blob/dev/src/scene/text-bitmap/utils/getBitmapTextLayout.ts#L20
 export { WebGPUTextShader as TextShader } from "../backends/webgpu/WebGPUTextShader";
+export type { TextDirection } from "./bidi";
+export * from "./markup";
+export type { ShapingRun } from "./shaping";
+export type * from "./TextFormatting";
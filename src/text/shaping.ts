@@ -1,11 +1,15 @@
+import type { Color } from "../coreTypes/Color";
+import type { Point } from "../coreTypes/Point";
 import type { Size } from "../coreTypes/Size";
+import { mirrorCodePoint, reorderVisually, resolveBidiLevels } from "./bidi";
+import { lineBreakOpportunities } from "./lineBreak";
 import { type MsdfChar, type MsdfFont, WhitespaceKeyCodes } from "./MsdfFont";
-import type { TextFormatting, WordWrapOptions } from "./TextFormatting";
+import type { TextFormatting } from "./TextFormatting";
 
 // shaping is responsible for cpu-side text shaping:
-// - measuring a text block
+// - measuring a text block in grapheme clusters, with bidi reordering and unicode line breaking
 // - calculating the glyph quads for the text block
-// - applying word wrap, shrink-to-fit, justification and other formatting options
+// - applying word wrap, shrink-to-fit, alignment, spacing, overflow and other formatting options
 // - returning the text measurements and glyph quads
 const TAB_SPACES = 4;
 
@@ -16,6 +20,8 @@ export interface MsdfTextMeasurements {
   height: number;
   /** The width of each line in em units. */
   lineWidths: number[];
+  /** The height of each line in em units. */
+  lineHeights: number[];
   /** The number of lines in the text block. */
   lineCount: number;
   /** The number of characters printed in the text block. */
@@ -23,12 +29,34 @@ export interface MsdfTextMeasurements {
 
   /** All words in the text block */
   words: Word[];
+  /** The inline icons of the text block */
+  icons: InlineIcon[];
 }
 
+/**
+ * A run of text resolved to the font that draws it.
+ * A plain string is measured as a single run in the font of the text block.
+ */
+export type ShapingRun = {
+  text: string;
+  font: MsdfFont;
+  /** Converts em units of the run's font to em units of the text block's font */
+  scale: number;
+  /** The color of the glyphs, multiplied with the color of the text block */
+  color?: Color;
+  /** An inline icon, drawn as high as the ascent of the run */
+  icon?: { textureId: string; aspectRatio: number };
+};
+
 export type Glyph = {
   char: MsdfChar;
   offset: [number, number];
   line: number;
+  /** The font the glyph is drawn with */
+  font: MsdfFont;
+  /** Converts em units of the glyph's font to em units of the text block's font */
+  scale: number;
+  color?: Color;
 };
 
 export type Word = {
@@ -38,24 +66,68 @@ export type Word = {
   startY: number;
 };
 
+/** An inline icon, with the top left of the icon and its size in em units */
+export type InlineIcon = {
+  textureId: string;
+  /** The index of the icon among the icon runs, icons can be dropped by overflow */
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  line: number;
+};
+
+/** An inline icon placed relative to the center of the text block, in pixels */
+export type ShapedIcon = {
+  textureId: string;
+  /** The index of the icon among the icon runs */
+  index: number;
+  /** The center of the icon */
+  position: Point;
+  size: Size;
+};
+
+/** The number of floats {@link shapeText} writes per glyph: position, char index, scale and color */
+export const GLYPH_STRIDE = 8;
+
+const WHITE: Color = { r: 1, g: 1, b: 1, a: 1 };
+
+/**
+ * Shape the glyphs of a text block into a buffer.
+ *
+ * @param font - The font of the text block
+ * @param text - The text, or the runs of styled text
+ * @param blockSize - The size of the text block in pixels
+ * @param fontSize - The font size in pixels
+ * @param formatting - The formatting of the text block
+ * @param textArray - The buffer to write {@link GLYPH_STRIDE} floats per glyph to
+ * @param initialFloatOffset - Where to start writing in the buffer
+ * @param glyphFont - Only glyphs drawn with this font are written, defaults to the font of the text block
+ * @param debug - Log a table of the glyph positions
+ * @returns The number of glyphs written
+ */
 export function shapeText(
   font: MsdfFont,
-  text: string,
+  text: string | ShapingRun[],
   blockSize: Size,
   fontSize: number,
   formatting: TextFormatting,
   textArray: Float32Array,
   initialFloatOffset = 0,
+  glyphFont = font,
   debug = false,
 ) {
   let offset = initialFloatOffset;
 
-  const measurements = measureText(font, text, formatting.wordWrap);
-  const alignment = formatting.align || "left";
   const em2px = fontSize / font.lineHeight;
-  // currently there is a code path that sets blockSize.width to measurements.width (em)
-  // if blockSize is not explicitly set (px)
-  const hackHasExplicitBlock = blockSize.width !== measurements.width;
+  const measurements = measureText(
+    font,
+    text,
+    formatting,
+    blockBounds(blockSize, em2px),
+  );
+  const top = alignBlock(measurements, formatting, blockSize, em2px);
 
   let debugData: any[] | null = null;
   if (debug) {
@@ -64,27 +136,15 @@ export function shapeText(
 
   for (const word of measurements.words) {
     for (const glyph of word.glyphs) {
-      let lineOffset = 0;
-      if (alignment === "center") {
-        lineOffset =
-          measurements.width * -0.5 -
-          (measurements.width - measurements.lineWidths[glyph.line]) * -0.5;
-      } else if (alignment === "right") {
-        const blockSizeEm = blockSize.width / em2px;
-
-        const delta = measurements.width - measurements.lineWidths[glyph.line];
-
-        lineOffset =
-          (hackHasExplicitBlock ? blockSizeEm / 2 : measurements.width / 2) -
-          measurements.width +
-          delta;
-      } else if (alignment === "left") {
-        const blockSizeEm = blockSize.width / em2px;
-
-        lineOffset = hackHasExplicitBlock
-          ? -blockSizeEm / 2
-          : -measurements.width / 2;
-      }
+      if (glyph.font !== glyphFont) continue;
+
+      const lineOffset = alignLine(
+        measurements,
+        glyph.line,
+        formatting,
+        blockSize,
+        em2px,
+      );
 
       if (debug && debugData) {
         debugData.push({
@@ -99,145 +159,689 @@ export function shapeText(
           glyphY: glyph.offset[1],
         });
       }
+      const color = glyph.color ?? WHITE;
       textArray[offset] = word.startX + glyph.offset[0] + lineOffset;
-      textArray[offset + 1] = word.startY + glyph.offset[1];
+      textArray[offset + 1] = word.startY + glyph.offset[1] + top;
       textArray[offset + 2] = glyph.char.charIndex;
+      textArray[offset + 3] = glyph.scale;
+      textArray[offset + 4] = color.r;
+      textArray[offset + 5] = color.g;
+      textArray[offset + 6] = color.b;
+      textArray[offset + 7] = color.a;
 
-      offset += 4;
+      offset += GLYPH_STRIDE;
     }
   }
 
   if (debug && debugData) {
     console.table(debugData);
   }
+
+  return (offset - initialFloatOffset) / GLYPH_STRIDE;
+}
+
+/**
+ * Place the inline icons of a text block, see {@link shapeText}.
+ *
+ * @returns The icons relative to the center of the text block in pixels
+ */
+export function shapeIcons(
+  font: MsdfFont,
+  text: string | ShapingRun[],
+  blockSize: Size,
+  fontSize: number,
+  formatting: TextFormatting,
+): ShapedIcon[] {
+  const em2px = fontSize / font.lineHeight;
+  const measurements = measureText(
+    font,
+    text,
+    formatting,
+    blockBounds(blockSize, em2px),
+  );
+  const top = alignBlock(measurements, formatting, blockSize, em2px);
+
+  return measurements.icons.map((icon) => {
+    const x =
+      icon.x +
+      icon.width / 2 +
+      alignLine(measurements, icon.line, formatting, blockSize, em2px);
+    const y = icon.y - icon.height / 2 + top;
+    return {
+      textureId: icon.textureId,
+      index: icon.index,
+      position: { x: x * em2px, y: y * em2px },
+      size: { width: icon.width * em2px, height: icon.height * em2px },
+    };
+  });
+}
+
+function blockBounds(blockSize: Size, em2px: number): Size {
+  return { width: blockSize.width / em2px, height: blockSize.height / em2px };
+}
+
+// the horizontal offset of a line from the center of the block in em units
+function alignLine(
+  measurements: MsdfTextMeasurements,
+  line: number,
+  formatting: TextFormatting,
+  blockSize: Size,
+  em2px: number,
+) {
+  const blockWidth = blockSize.width / em2px;
+  const lineWidth = measurements.lineWidths[line];
+
+  switch (formatting.align) {
+    case "center":
+      return -lineWidth / 2;
+    case "right":
+      return blockWidth / 2 - lineWidth;
+    default:
+      // justified lines are stretched to the width of the block when they are measured
+      return -blockWidth / 2;
+  }
+}
+
+// the vertical offset of the top of the text from the center of the block in em units
+function alignBlock(
+  measurements: MsdfTextMeasurements,
+  formatting: TextFormatting,
+  blockSize: Size,
+  em2px: number,
+) {
+  const blockHeight = blockSize.height / em2px;
+
+  switch (formatting.verticalAlign) {
+    case "top":
+      return blockHeight / 2;
+    case "bottom":
+      return measurements.height - blockHeight / 2;
+    default:
+      return measurements.height / 2;
+  }
 }
 
 /**
  * Measure the text and return measurements for block + each glyph.
- * @param font - The font to use.
- * @param text - The text to measure
- * @param wordWrap - Maximum word length before word wrapping
- * @returns The measurements of the text in em units.
+ *
+ * Runs of different fonts and sizes share lines: each line is as high as its tallest run
+ * and the glyphs of a line sit on a common baseline. Each glyph is measured with the metrics
+ * of the font that supplies it, which may be a fallback of the run's font.
+ *
+ * Text is laid out in grapheme clusters, so surrogate pairs and combining marks are kept together,
+ * and lines with right to left text are reordered with the bidi algorithm.
+ *
+ * Justification and overflow need the size of the block. Without bounds, lines are justified
+ * to the word wrap width and only `maxLines` limits the text.
+ *
+ * @param font - The font of the text block.
+ * @param text - The text to measure, or the runs of styled text
+ * @param formatting - The word wrap, direction, spacing and overflow options
+ * @param bounds - The size of the text block in em units of the font
+ * @returns The measurements of the text in em units of the font.
  */
 export function measureText(
   font: MsdfFont,
-  text: string,
-  wordWrap?: WordWrapOptions,
+  text: string | ShapingRun[],
+  formatting: TextFormatting = {},
+  bounds?: Size,
 ): MsdfTextMeasurements {
-  let maxWidth = 0;
+  const { wordWrap } = formatting;
+  const letterSpacing = formatting.letterSpacing ?? 0;
+  const runs = typeof text === "string" ? [{ text, font, scale: 1 }] : text;
+  const clusters = segmentClusters(runs);
+  const codePoints = clusters.map((cluster) => cluster.codePoint);
+  const { levels, paragraphLevels } = resolveBidiLevels(
+    codePoints,
+    formatting.direction,
+  );
+  const breaks =
+    wordWrap?.breakOn === "word" ? lineBreakOpportunities(codePoints) : null;
+
   const lineWidths: number[] = [];
+  // the last line of each paragraph and truncated lines are not justified
+  const ragged: boolean[] = [];
 
   let textOffsetX = 0;
-  let textOffsetY = 0;
   let line = 0;
-  let printedCharCount = 0;
-  let nextCharCode = text.charCodeAt(0);
   let word: Word = { glyphs: [], width: 0, startX: 0, startY: 0 };
 
   const words: Word[] = [];
+  let icons: { icon: InlineIcon; run: ShapingRun }[] = [];
+  // the clusters, spaces and icons of each line in logical order
+  let lineItems: LineItem[][] = [[]];
+
+  for (let i = 0; i < clusters.length; i++) {
+    const cluster = clusters[i];
+    const { run } = cluster;
+    if (breaks?.[i] && word.glyphs.length > 0) {
+      flushWord();
+    }
+    if (run.icon) {
+      insertIcon(run, run.icon, i);
+      continue;
+    }
 
-  for (let i = 0; i < text.length; i++) {
-    const isLastLetter = i === text.length - 1;
-
-    const charCode = nextCharCode;
-    nextCharCode = i < text.length - 1 ? text.charCodeAt(i + 1) : -1;
-
-    switch (charCode) {
+    switch (cluster.codePoint) {
       case WhitespaceKeyCodes.HorizontalTab:
-        insertSpaces(TAB_SPACES);
+        insertSpaces(run, TAB_SPACES, i);
         break;
       case WhitespaceKeyCodes.Newline:
-        flushLine();
+      case LINE_SEPARATOR:
+      case PARAGRAPH_SEPARATOR:
+        flushLine(true);
         flushWord();
         break;
       case WhitespaceKeyCodes.CarriageReturn:
+        if (cluster.text === "\r\n") {
+          flushLine(true);
+          flushWord();
+        }
         break;
       case WhitespaceKeyCodes.Space:
-        insertSpaces(1);
+        insertSpaces(run, 1, i);
         break;
       default: {
-        const advance = font.getXAdvance(charCode, nextCharCode);
-        if (
-          wordWrap &&
-          wordWrap.breakOn === "character" &&
-          textOffsetX + advance > wordWrap.emWidth
-        ) {
-          if (word.startX === 0) {
-            flushWord();
-          } else {
-            lineWidths.push(textOffsetX - word.width);
-            line++;
-            maxWidth = Math.max(maxWidth, textOffsetX);
-            textOffsetX = word.width;
-            textOffsetY -= font.lineHeight;
-            word.startX = 0;
-            word.startY = textOffsetY;
-            word.glyphs.forEach((g) => {
-              g.line = line;
-            });
-          }
-        }
-        word.glyphs.push({
-          char: font.getChar(charCode),
-          offset: [word.width, 0],
-          line,
-        });
-
-        if (isLastLetter) {
-          flushWord();
-        }
-
-        word.width += advance;
-        textOffsetX += advance;
+        const next = clusters[i + 1];
+        insertCluster(cluster, next?.run === run ? next.codePoint : -1, i);
       }
     }
   }
+  if (word.glyphs.length > 0) {
+    flushWord();
+  }
 
   lineWidths.push(textOffsetX);
-  maxWidth = Math.max(maxWidth, textOffsetX);
+  ragged.push(true);
+
+  // lines are as high as their tallest glyph, lines without glyphs use the metrics of the block font
+  const ascents = lineWidths.map(() => 0);
+  const lineHeights = lineWidths.map(() => 0);
+  for (const { glyphs } of words) {
+    for (const glyph of glyphs) {
+      growLine(glyph.line, glyph.font, glyph.scale);
+    }
+  }
+  for (const { icon, run } of icons) {
+    growLine(icon.line, run.font, run.scale);
+  }
+  // extra line spacing is split between the top and the bottom of the line
+  const lineSpacing = formatting.lineHeight ?? 1;
+  for (let i = 0; i < lineWidths.length; i++) {
+    ascents[i] ||= font.base;
+    lineHeights[i] ||= font.lineHeight;
+    const leading = lineHeights[i] * (lineSpacing - 1);
+    lineHeights[i] += leading;
+    ascents[i] += leading / 2;
+  }
+
+  fitLines();
 
   const lineCount = lineWidths.length;
+  const justifyWidth =
+    formatting.align === "justify"
+      ? (bounds?.width ?? wordWrap?.emWidth)
+      : undefined;
+  for (let i = 0; i < lineCount; i++) {
+    lineWidths[i] = placeLine(
+      lineItems[i],
+      lineWidths[i],
+      ragged[i] ? undefined : justifyWidth,
+    );
+  }
+
+  const lineTops: number[] = [];
+  let height = 0;
+  for (let i = 0; i < lineCount; i++) {
+    lineTops.push(-height);
+    height += lineHeights[i];
+  }
+
+  // align the baselines of the glyphs on each line
+  let printedCharCount = 0;
+  for (const word of words) {
+    printedCharCount += word.glyphs.length;
+    if (word.glyphs.length === 0) continue;
+    const wordLine = word.glyphs[0].line;
+    word.startY = lineTops[wordLine];
+    for (const glyph of word.glyphs) {
+      glyph.offset[1] = glyph.font.base * glyph.scale - ascents[wordLine];
+    }
+  }
+  for (const { icon } of icons) {
+    icon.y = lineTops[icon.line] - ascents[icon.line] + icon.height;
+  }
 
   return {
-    width: maxWidth,
-    height: lineCount * font.lineHeight,
+    width: Math.max(...lineWidths),
+    height,
     lineWidths,
+    lineHeights,
     lineCount,
     printedCharCount,
     words,
+    icons: icons.map(({ icon }) => icon),
   };
 
+  function growLine(index: number, glyphFont: MsdfFont, scale: number) {
+    ascents[index] = Math.max(ascents[index], glyphFont.base * scale);
+    lineHeights[index] = Math.max(
+      lineHeights[index],
+      glyphFont.lineHeight * scale,
+    );
+  }
+
   function flushWord() {
-    printedCharCount += word.glyphs.length;
     words.push(word);
     word = {
       glyphs: [],
       width: 0,
       startX: textOffsetX,
-      startY: textOffsetY,
+      startY: 0,
     };
   }
 
-  function flushLine() {
+  function flushLine(endsParagraph: boolean) {
     lineWidths.push(textOffsetX);
+    ragged.push(endsParagraph);
     line++;
-    maxWidth = Math.max(maxWidth, textOffsetX);
+    lineItems.push([]);
     textOffsetX = 0;
-    textOffsetY -= font.lineHeight;
   }
 
-  function insertSpaces(spaces: number) {
-    if (spaces < 1) spaces = 1;
-    textOffsetX += font.getXAdvance(WhitespaceKeyCodes.Space) * spaces;
-    if (wordWrap?.breakOn === "word" && textOffsetX >= wordWrap.emWidth) {
-      flushLine();
+  // moves the current word to the start of a new line
+  function wrapWord() {
+    lineWidths.push(word.startX);
+    ragged.push(false);
+    line++;
+    textOffsetX = word.width;
+    word.startX = 0;
+    for (const glyph of word.glyphs) {
+      glyph.line = line;
     }
+    const previousItems = lineItems[line - 1];
+    const moved = previousItems.findIndex((item) => item.word === word);
+    lineItems.push(moved === -1 ? [] : previousItems.splice(moved));
+  }
+
+  // the glyphs of a cluster are placed together: spacing glyphs advance the pen,
+  // combining marks are drawn over the glyph before them
+  function insertCluster(cluster: Cluster, nextCodePoint: number, i: number) {
+    const { run } = cluster;
+    const level = levels[i];
+    const drawn = clusterCodePoints(cluster.text, run.font);
+    if (drawn.length === 0) return;
+
+    const glyphs: Glyph[] = [];
+    let width = 0;
+    let baseX = 0;
+    let baseAdvance = 0;
+    for (let j = 0; j < drawn.length; j++) {
+      // right to left runs use the mirrored form of brackets
+      const codePoint = level % 2 ? mirrorCodePoint(drawn[j]) : drawn[j];
+      const glyph = resolveGlyph(run, codePoint, line);
+
+      if (j > 0 && combiningMark.test(String.fromCodePoint(codePoint))) {
+        // marks without an advance are designed to follow their base, others are centered on it
+        const markAdvance = glyph.char.xadvance * glyph.scale;
+        glyph.offset[0] =
+          markAdvance === 0
+            ? baseX + baseAdvance
+            : baseX + (baseAdvance - markAdvance) / 2;
+        glyphs.push(glyph);
+        continue;
+      }
+
+      const kerningCodePoint = j === drawn.length - 1 ? nextCodePoint : -1;
+      baseX = width;
+      baseAdvance =
+        glyph.font.getXAdvance(codePoint, kerningCodePoint) * glyph.scale;
+      glyph.offset[0] = baseX;
+      glyphs.push(glyph);
+      width += baseAdvance;
+    }
+    width += letterSpacing * run.font.lineHeight * run.scale;
+
+    if (wordWrap && textOffsetX + width > wordWrap.emWidth) {
+      if (word.startX > 0) {
+        wrapWord();
+      } else if (wordWrap.breakOn === "character") {
+        flushWord();
+      }
+    }
+
+    const x = word.width;
+    for (const glyph of glyphs) {
+      glyph.line = line;
+      glyph.offset[0] += x;
+      word.glyphs.push(glyph);
+    }
+    word.width += width;
+    textOffsetX += width;
+    lineItems[line].push({ ...itemLevels(i), run, x, width, word, glyphs });
+  }
+
+  function insertSpaces(run: ShapingRun, spaces: number, i: number) {
+    if (spaces < 1) spaces = 1;
+    const spaceWidth =
+      run.font.getXAdvance(WhitespaceKeyCodes.Space) +
+      letterSpacing * run.font.lineHeight;
+    const width = spaceWidth * run.scale * spaces;
+    lineItems[line].push({
+      ...itemLevels(i),
+      run,
+      x: textOffsetX,
+      width,
+      glyphs: [],
+      whitespace: true,
+    });
+    textOffsetX += width;
     flushWord();
   }
+
+  function insertIcon(
+    run: ShapingRun,
+    { textureId, aspectRatio }: NonNullable<ShapingRun["icon"]>,
+    i: number,
+  ) {
+    // icons are words of their own, so lines can break around them
+    flushWord();
+    const iconHeight = run.font.base * run.scale;
+    const iconWidth = iconHeight * aspectRatio;
+    if (
+      wordWrap &&
+      textOffsetX > 0 &&
+      textOffsetX + iconWidth > wordWrap.emWidth
+    ) {
+      flushLine(false);
+    }
+    const icon = {
+      textureId,
+      index: icons.length,
+      x: textOffsetX,
+      y: 0,
+      width: iconWidth,
+      height: iconHeight,
+      line,
+    };
+    icons.push({ icon, run });
+    lineItems[line].push({
+      ...itemLevels(i),
+      run,
+      x: textOffsetX,
+      width: iconWidth,
+      glyphs: [],
+      icon,
+    });
+    textOffsetX += iconWidth;
+    word.startX = textOffsetX;
+  }
+
+  function itemLevels(i: number) {
+    return { level: levels[i], paragraphLevel: paragraphLevels[i] };
+  }
+
+  // drops the lines after maxLines or below the bounds, and truncates lines wider than the bounds
+  function fitLines() {
+    const overflow = formatting.overflow ?? "visible";
+    const maxWidth = bounds?.width ?? wordWrap?.emWidth;
+
+    let visibleLines = Math.min(
+      lineWidths.length,
+      Math.max(1, formatting.maxLines ?? Number.POSITIVE_INFINITY),
+    );
+    if (bounds && overflow !== "visible") {
+      let height = lineHeights[0];
+      let fitting = 1;
+      while (
+        fitting < visibleLines &&
+        height + lineHeights[fitting] <= bounds.height + EPSILON
+      ) {
+        height += lineHeights[fitting++];
+      }
+      visibleLines = fitting;
+    }
+
+    const truncated = visibleLines < lineWidths.length;
+    if (truncated) {
+      for (const list of [lineWidths, ragged, ascents, lineHeights]) {
+        list.length = visibleLines;
+      }
+      lineItems = lineItems.slice(0, visibleLines);
+      for (const word of words) {
+        word.glyphs = word.glyphs.filter((glyph) => glyph.line < visibleLines);
+      }
+      icons = icons.filter(({ icon }) => icon.line < visibleLines);
+    }
+    if (overflow === "visible") return;
+
+    for (let i = 0; i < lineWidths.length; i++) {
+      const lastLine = truncated && i === lineWidths.length - 1;
+      const tooWide =
+        maxWidth !== undefined && lineWidths[i] > maxWidth + EPSILON;
+      if (overflow === "ellipsis" && (lastLine || tooWide)) {
+        truncateLine(i, maxWidth ?? Number.POSITIVE_INFINITY, true);
+      } else if (overflow === "clip" && tooWide) {
+        truncateLine(i, maxWidth, false);
+      }
+    }
+  }
+
+  // drops the items at the end of a line that don't fit, optionally ending it with an ellipsis
+  function truncateLine(index: number, maxWidth: number, ellipsis: boolean) {
+    const items = lineItems[index];
+    const run = items.at(-1)?.run ?? { text: "", font, scale: 1 };
+    const ellipsisGlyphs = ellipsis ? createEllipsis(run, index) : [];
+    let ellipsisWidth = 0;
+    for (const glyph of ellipsisGlyphs) {
+      glyph.offset[0] = ellipsisWidth;
+      ellipsisWidth +=
+        (glyph.char.xadvance + letterSpacing * glyph.font.lineHeight) *
+        glyph.scale;
+    }
+
+    let kept = 0;
+    let end = 0;
+    for (; kept < items.length; kept++) {
+      const itemEnd = itemX(items[kept]) + items[kept].width;
+      if (itemEnd + ellipsisWidth > maxWidth + EPSILON) break;
+      end = itemEnd;
+    }
+    // an ellipsis follows the last character, not the spaces after it
+    while (ellipsis && kept > 0 && items[kept - 1].whitespace) {
+      kept--;
+      end = itemX(items[kept]);
+    }
+
+    const removed = items.splice(kept);
+    const removedGlyphs = new Set(removed.flatMap((item) => item.glyphs));
+    for (const word of words) {
+      word.glyphs = word.glyphs.filter((glyph) => !removedGlyphs.has(glyph));
+    }
+    icons = icons.filter(({ icon }) => !removed.some((r) => r.icon === icon));
+
+    if (ellipsis) {
+      const ellipsisWord = {
+        glyphs: ellipsisGlyphs,
+        width: ellipsisWidth,
+        startX: end,
+        startY: 0,
+      };
+      words.push(ellipsisWord);
+      const paragraphLevel = items[0]?.paragraphLevel ?? 0;
+      items.push({
+        run,
+        level: paragraphLevel,
+        paragraphLevel,
+        x: 0,
+        width: ellipsisWidth,
+        glyphs: ellipsisGlyphs,
+        word: ellipsisWord,
+      });
+      end += ellipsisWidth;
+    }
+    lineWidths[index] = end;
+    ragged[index] = true;
+  }
+}
+
+/** A grapheme cluster of a run, icons are a single object replacement character */
+type Cluster = {
+  text: string;
+  codePoint: number;
+  run: ShapingRun;
+};
+
+/** Something that takes up space on a line, with its x in em units relative to its word if it has one */
+type LineItem = {
+  run: ShapingRun;
+  level: number;
+  paragraphLevel: number;
+  x: number;
+  width: number;
+  glyphs: Glyph[];
+  word?: Word;
+  icon?: InlineIcon;
+  whitespace?: boolean;
+};
+
+const LINE_SEPARATOR = 0x2028;
+const PARAGRAPH_SEPARATOR = 0x2029;
+const OBJECT_REPLACEMENT = 0xfffc;
+const ZERO_WIDTH_JOINER = 0x200d;
+const ELLIPSIS = 0x2026;
+const FULL_STOP = 0x2e;
+// tolerance for widths and heights converted between pixels and em units
+const EPSILON = 1e-4;
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+// below U+0300 there are no combining marks or surrogates, so each code unit is a cluster
+const needsSegmenting = /[\u0300-\uffff]/;
+const combiningMark = /\p{M}/u;
+const invisible = /[\p{Default_Ignorable_Code_Point}\p{Emoji_Modifier}]/u;
+
+function segmentClusters(runs: ShapingRun[]): Cluster[] {
+  const clusters: Cluster[] = [];
+  for (const run of runs) {
+    if (run.icon) {
+      clusters.push({ text: "", codePoint: OBJECT_REPLACEMENT, run });
+      continue;
+    }
+    const segments = needsSegmenting.test(run.text)
+      ? Array.from(graphemes.segment(run.text), ({ segment }) => segment)
+      : run.text;
+    for (const text of segments) {
+      clusters.push({ text, codePoint: text.codePointAt(0)!, run });
+    }
+  }
+  return clusters;
+}
+
+// characters the run's font doesn't have come from its fallback fonts,
+// scaled so that the line heights of the fonts match
+function resolveGlyph(run: ShapingRun, codePoint: number, line: number): Glyph {
+  const { font, char } = run.font.findGlyph(codePoint);
+  const scale =
+    font === run.font
+      ? run.scale
+      : (run.scale * run.font.lineHeight) / font.lineHeight;
+  return { char, offset: [0, 0], line, font, scale, color: run.color };
 }
+
+// the ellipsis character, or three full stops for fonts without one
+function createEllipsis(run: ShapingRun, line: number): Glyph[] {
+  const codePoints = run.font.findFont(ELLIPSIS)
+    ? [ELLIPSIS]
+    : [FULL_STOP, FULL_STOP, FULL_STOP];
+  return codePoints.map((codePoint) => resolveGlyph(run, codePoint, line));
+}
+
+function itemX(item: LineItem) {
+  return item.x + (item.word?.startX ?? 0);
+}
+
+// the code points to draw for a cluster: the precomposed character if the fonts have it,
+// without invisible characters, and only the first emoji of a zero width joiner sequence
+function clusterCodePoints(text: string, font: MsdfFont): number[] {
+  if (text.length === 1 && text.charCodeAt(0) < 0x7f) {
+    return [text.charCodeAt(0)];
+  }
+
+  const composed = text.normalize("NFC");
+  const composedCodePoint = composed.codePointAt(0)!;
+  if (
+    composed !== text &&
+    composed === String.fromCodePoint(composedCodePoint) &&
+    font.findFont(composedCodePoint)
+  ) {
+    return [composedCodePoint];
+  }
+
+  const codePoints: number[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint === ZERO_WIDTH_JOINER) break;
+    if (invisible.test(char)) continue;
+    codePoints.push(codePoint);
+  }
+  return codePoints;
+}
+
+/**
+ * Moves the items of a line from logical to visual order and stretches its spaces to justify it.
+ *
+ * @returns The width of the line
+ */
+function placeLine(
+  items: LineItem[],
+  width: number,
+  justifyWidth: number | undefined,
+) {
+  // whitespace at the start of a line isn't stretched, and whitespace at the end hangs:
+  // it isn't stretched and takes the paragraph level (rule L1)
+  let start = 0;
+  while (start < items.length && items[start].whitespace) start++;
+  let end = items.length;
+  while (end > start && items[end - 1].whitespace) {
+    end--;
+    items[end].level = items[end].paragraphLevel;
+  }
+
+  let stretch = 0;
+  if (justifyWidth !== undefined && end > start) {
+    const contentWidth = itemX(items[end - 1]) + items[end - 1].width;
+    const gaps = items
+      .slice(start, end)
+      .filter((item) => item.whitespace).length;
+    if (gaps > 0) stretch = Math.max(0, (justifyWidth - contentWidth) / gaps);
+  }
+  const bidi = items.some((item) => item.level > 0);
+  if (!bidi && stretch === 0) return width;
+
+  const order = bidi
+    ? reorderVisually(items.map((item) => item.level))
+    : items.map((_, i) => i);
+  let x = 0;
+  for (const index of order) {
+    const item = items[index];
+    const shift = x - itemX(item);
+    for (const glyph of item.glyphs) {
+      glyph.offset[0] += shift;
+    }
+    if (item.icon) {
+      item.icon.x += shift;
+    }
+    x += item.width;
+    if (item.whitespace && index >= start && index < end) {
+      x += stretch;
+    }
+  }
+  return x;
+}
+
 export function findLargestFontSize(
   font: MsdfFont,
-  text: string,
+  text: string | ShapingRun[],
   size: Size,
   formatting: TextFormatting,
 ): number | undefined {
@@ -259,7 +863,7 @@ export function findLargestFontSize(
   while (high - low > threshold) {
     // Stop when we get close enough
     const testSize = (low + high) / 2;
-    const testMeasure = measureText(font, text, formatting.wordWrap);
+    const testMeasure = measureText(font, text, formatting);
 
     const padding = formatting.shrinkToFit.padding ?? 0;
 
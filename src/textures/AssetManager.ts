@@ -1,5 +1,8 @@
 import type { IRenderBackend } from "../backends/IRenderBackend";
 import type { ITextShader } from "../backends/ITextShader";
+import type { NullBackend } from "../backends/null/NullBackend";
+import { NullTextShader } from "../backends/null/NullTextShader";
+import { SoftwareTextShader } from "../backends/software/SoftwareTextShader";
 import type { WebGLBackend } from "../backends/webgl2/WebGLBackend";
 import { WebGLFontPipeline } from "../backends/webgl2/WebGLFontPipeline";
 import { WebGLTextShader } from "../backends/webgl2/WebGLTextShader";
@@ -17,6 +20,8 @@ import { Bundles } from "./Bundles";
 import type {
   AtlasBundleOpts,
   AtlasCoords,
+  AtlasFrameTag,
+  AtlasSlice,
   CpuTextureAtlas,
   TextureBundleOpts,
   TextureWithMetadata,
@@ -155,6 +160,40 @@ export class AssetManager {
     return this.bundles.textureIds;
   }
 
+  /**
+   * The frame tags of a registered bundle, e.g. the animations of an Aseprite export.
+   *
+   * @param bundleId - The id of the bundle
+   * @returns The frame tags, with frames resolved to texture ids
+   *
+   * @example
+   *
+   * const clips = Animation.clipsFromFrameTags(toodle.assets.getFrameTags("hero"));
+   */
+  getFrameTags(bundleId: BundleId): AtlasFrameTag[] {
+    return this.bundles.getFrameTags(bundleId);
+  }
+
+  /**
+   * The slices of a registered bundle, e.g. the 9-slices and hitboxes of an Aseprite export.
+   *
+   * @param bundleId - The id of the bundle
+   * @returns The slices, with bounds in texels of the uncropped frames
+   */
+  getSlices(bundleId: BundleId): AtlasSlice[] {
+    return this.bundles.getSlices(bundleId);
+  }
+
+  /**
+   * The pivot of a texture, as defined by the atlas it was registered with.
+   *
+   * @param id - The id of the texture
+   * @returns The pivot normalized to the original size of the texture with (0, 0) at the top left, or null if it has none
+   */
+  getPivot(id: TextureId): Vec2 | null {
+    return this.bundles.getPivot(id);
+  }
+
   /**
    * Debug method to load a set of textures from a record of URLS.
    *
@@ -322,17 +361,32 @@ export class AssetManager {
    *
    * @param id - The id of the font to load
    * @param url - The url of the font JSON to load
-   * @param fallbackCharacter - The character to use as a fallback if the font does not contain a character to be rendered
+   * @param fallbackCharacter - The character to use as a fallback if neither the font nor its fallback fonts contain a character to be rendered
+   * @param fallbackFonts - The ids of loaded fonts that supply characters this font doesn't have, in order of preference
    *
    * @remarks
    * On WebGPU backend, loads the full font for rendering.
    * On WebGL backend, loads the font for text measurement only. Attempting to
    * render text on WebGL will throw an error.
+   * On the null backend, text draw calls are recorded but nothing is rendered.
+   * On the software backend, the font is loaded for measurement only and text is skipped when drawing.
+   *
+   * @example
+   *
+   * await toodle.assets.loadFont("noto-jp", new URL("fonts/noto-jp.json", window.location.href));
+   * await toodle.assets.loadFont("roboto", new URL("fonts/roboto.json", window.location.href), "_", ["noto-jp"]);
    */
-  async loadFont(id: string, url: URL, fallbackCharacter = "_") {
+  async loadFont(
+    id: string,
+    url: URL,
+    fallbackCharacter = "_",
+    fallbackFonts: string[] = [],
+  ) {
     const limits = this.#backend.limits;
+    const fallbacks = fallbackFonts.map((fontId) => this.getFont(fontId).font);
     const font = await MsdfFont.create(id, url);
     font.fallbackCharacter = fallbackCharacter;
+    font.fallbacks = fallbacks;
 
     if (this.#backend.type === "webgpu") {
       const webgpuBackend = this.#backend as WebGPUBackend;
@@ -354,6 +408,18 @@ export class AssetManager {
         limits.instanceCount,
       );
       this.#fonts.set(id, textShader);
+    } else if (this.#backend.type === "null") {
+      // Null: no gpu resources, the text shader only records draw calls
+      const textShader = new NullTextShader(
+        this.#backend as NullBackend,
+        font,
+        limits.maxTextLength,
+      );
+      this.#fonts.set(id, textShader);
+    } else if (this.#backend.type === "software") {
+      // Software: text is not rasterized on the cpu yet
+      const textShader = new SoftwareTextShader(font, limits.maxTextLength);
+      this.#fonts.set(id, textShader);
     } else {
       // WebGL: create font pipeline and text shader for rendering
       const webglBackend = this.#backend as WebGLBackend;
@@ -461,6 +527,7 @@ export class AssetManager {
         images,
         this.#backend.limits.textureSize,
         device,
+        opts.packing,
       );
 
       this.bundles.registerDynamicBundle(bundleId, atlases);
@@ -484,6 +551,7 @@ export class AssetManager {
       const atlases = await packBitmapsToAtlasCPU(
         images,
         this.#backend.limits.textureSize,
+        opts.packing,
       );
 
       this.bundles.registerDynamicBundle(bundleId, atlases);
@@ -541,6 +609,19 @@ export class AssetManager {
       return this.bundles.getTextureOffset(id);
     },
 
+    /**
+     * Get how much of each atlas of a bundle is covered by textures.
+     * Only bundles of individual textures are packed at runtime, see {@link TextureBundleOpts.packing}.
+     *
+     * @param bundleId - The id of the bundle
+     * @returns The covered fraction of each atlas of the bundle, or null for atlases that were pre-baked
+     */
+    getPackingEfficiency: (bundleId: BundleId): (number | null)[] => {
+      return this.bundles
+        .getBundleAtlases(bundleId)
+        .map((atlas) => atlas.packingEfficiency ?? null);
+    },
+
     /**
      * Get diagnostics on texture atlas usage
      *
@@ -2,7 +2,7 @@
  * Bundles - A renderer-agnostic class for managing texture bundles and atlas coordinates.
  *
  * This class can be used standalone (without WebGPU) for:
- * - Registering pre-baked texture atlases (Pixi/AssetPack format)
+ * - Registering pre-baked texture atlases (Pixi/AssetPack and Aseprite formats)
  * - Looking up texture regions and UV coordinates
  * - Managing bundle state
  *
@@ -11,9 +11,18 @@
 
 import type { Size } from "../coreTypes/Size";
 import type { Vec2 } from "../coreTypes/Vec2";
+import {
+  atlasFrameEntries,
+  parseAsepriteFrameTags,
+  parseAsepriteSlices,
+  parseFramePivots,
+} from "./aseprite";
 import type {
+  AsepriteJson,
   AtlasBundleOpts,
   AtlasCoords,
+  AtlasFrameTag,
+  AtlasSlice,
   CpuTextureAtlas,
   PixiRegion,
   TextureRegion,
@@ -26,6 +35,9 @@ type CpuBundle = {
   atlases: CpuTextureAtlas[];
   isLoaded: boolean;
   atlasIndices: number[];
+  frameTags: AtlasFrameTag[];
+  slices: AtlasSlice[];
+  pivots: Map<TextureId, Vec2>;
 };
 
 /**
@@ -54,6 +66,10 @@ export class Bundles {
   /**
    * Register a bundle of pre-baked texture atlases.
    *
+   * Reads Pixi/AssetPack atlases and Aseprite exports with frames as an array or hash.
+   * Frame tags, slices and pivots of the atlases are available through
+   * {@link Bundles.getFrameTags}, {@link Bundles.getSlices} and {@link Bundles.getPivot}.
+   *
    * @param bundleId - Unique identifier for this bundle
    * @param opts - Atlas bundle options containing atlas definitions
    * @returns The bundle ID
@@ -63,6 +79,9 @@ export class Bundles {
     opts: AtlasBundleOpts,
   ): Promise<BundleId> {
     const atlases: CpuTextureAtlas[] = [];
+    const frameTags: AtlasFrameTag[] = [];
+    const slices: AtlasSlice[] = [];
+    const pivots = new Map<TextureId, Vec2>();
 
     for (const atlas of opts.atlases) {
       const jsonUrl =
@@ -78,7 +97,7 @@ export class Bundles {
           atlas.json!.origin,
         );
 
-      const atlasDef = await (await fetch(jsonUrl)).json();
+      const atlasDef: AsepriteJson = await (await fetch(jsonUrl)).json();
 
       // For CPU-only usage, we may not need the actual bitmap
       // but we fetch it for compatibility and to get dimensions
@@ -103,11 +122,8 @@ export class Bundles {
         height: opts.rg8 ? this.#atlasSize : bitmap.height,
       };
 
-      // Parse Pixi JSON format into TextureRegions
-      for (const [assetId, frame] of Object.entries(atlasDef.frames) as [
-        string,
-        PixiRegion,
-      ][]) {
+      // Parse Pixi and Aseprite JSON formats into TextureRegions
+      for (const [assetId, frame] of atlasFrameEntries(atlasDef.frames)) {
         const textureRegion = this.#parsePixiFrame(
           frame,
           cpuTextureAtlas.width,
@@ -116,6 +132,12 @@ export class Bundles {
         cpuTextureAtlas.textureRegions.set(assetId, textureRegion);
       }
 
+      frameTags.push(...parseAsepriteFrameTags(atlasDef));
+      slices.push(...parseAsepriteSlices(atlasDef));
+      for (const [id, pivot] of parseFramePivots(atlasDef)) {
+        pivots.set(id, pivot);
+      }
+
       atlases.push(cpuTextureAtlas);
     }
 
@@ -123,6 +145,9 @@ export class Bundles {
       atlases,
       atlasIndices: [],
       isLoaded: false,
+      frameTags,
+      slices,
+      pivots,
     });
 
     return bundleId;
@@ -140,6 +165,9 @@ export class Bundles {
       atlases,
       atlasIndices: [],
       isLoaded: false,
+      frameTags: [],
+      slices: [],
+      pivots: new Map(),
     });
   }
 
@@ -173,6 +201,21 @@ export class Bundles {
     return bundle?.atlasIndices ?? [];
   }
 
+  /**
+   * Get the CPU-side atlas that is loaded at an atlas index.
+   *
+   * @param atlasIndex - The atlas index, e.g. from a node's atlas coords
+   * @returns The CPU texture atlas, or null if no loaded bundle uses the index
+   */
+  getLoadedAtlas(atlasIndex: number): CpuTextureAtlas | null {
+    for (const bundle of this.#bundles.values()) {
+      if (!bundle.isLoaded) continue;
+      const i = bundle.atlasIndices.indexOf(atlasIndex);
+      if (i !== -1) return bundle.atlases[i] ?? null;
+    }
+    return null;
+  }
+
   /**
    * Mark a bundle as loaded without populating texture lookups.
    * Used when texture lookups are already populated via loadAtlas.
@@ -459,6 +502,60 @@ export class Bundles {
     return bundle.atlases;
   }
 
+  /**
+   * Get the frame tags of a bundle, e.g. the animations of an Aseprite export.
+   *
+   * @param bundleId - The bundle ID
+   * @returns The frame tags of all atlases in the bundle
+   */
+  getFrameTags(bundleId: BundleId): AtlasFrameTag[] {
+    const bundle = this.#bundles.get(bundleId);
+    if (!bundle) {
+      throw new Error(`Bundle ${bundleId} not found`);
+    }
+    return bundle.frameTags;
+  }
+
+  /**
+   * Get the slices of a bundle, e.g. the 9-slices and hitboxes of an Aseprite export.
+   *
+   * @param bundleId - The bundle ID
+   * @returns The slices of all atlases in the bundle
+   */
+  getSlices(bundleId: BundleId): AtlasSlice[] {
+    const bundle = this.#bundles.get(bundleId);
+    if (!bundle) {
+      throw new Error(`Bundle ${bundleId} not found`);
+    }
+    return bundle.slices;
+  }
+
+  /**
+   * Get a slice of a bundle by name.
+   *
+   * @param bundleId - The bundle ID
+   * @param name - The name of the slice
+   * @returns The slice, or undefined if the bundle has no slice with the name
+   */
+  getSlice(bundleId: BundleId, name: string): AtlasSlice | undefined {
+    return this.getSlices(bundleId).find((slice) => slice.name === name);
+  }
+
+  /**
+   * Get the pivot of a texture from the atlas it was registered with.
+   *
+   * @param id - The texture ID
+   * @returns The pivot normalized to the original size of the texture with (0, 0) at the top left,
+   * or null if no registered atlas defines a pivot for the texture
+   */
+  getPivot(id: TextureId): Vec2 | null {
+    for (const bundle of this.#bundles.values()) {
+      const pivot = bundle.pivots.get(id);
+      if (pivot) return pivot;
+    }
+    return null;
+  }
+
   /**
    * The atlas size used for coordinate calculations.
    */
@@ -485,7 +582,7 @@ export class Bundles {
     const halfTexelX = 0.5 / atlasWidth;
     const halfTexelY = 0.5 / atlasHeight;
 
-    return {
+    const region: TextureRegion = {
       cropOffset: {
         x: leftCrop - rightCrop,
         y: bottomCrop - topCrop,
@@ -507,6 +604,12 @@ export class Bundles {
         height: (frame.frame.h - 1) / atlasHeight,
       },
     };
+
+    // the frame of a rotated region has the upright size, the quad shader swaps the uv axes
+    if (frame.rotated) {
+      region.rotated = true;
+    }
+    return region;
   }
 
   async #getBitmapFromUrl(url: URL): Promise<ImageBitmap> {
@@ -0,0 +1,135 @@
+import type { IBackendShader } from "../backends/IBackendShader";
+import type { FrameTarget, IRenderBackend } from "../backends/IRenderBackend";
+import type { Color } from "../coreTypes/Color";
+import type { Size } from "../coreTypes/Size";
+import { Camera } from "../scene/Camera";
+import { AssetManager, type TextureId } from "./AssetManager";
+
+export type RenderTargetOptions = {
+  /** Width of the target in pixels */
+  width: number;
+  /** Height of the target in pixels */
+  height: number;
+  /** Id of the target's atlas and texture. Must be unique among atlases */
+  id?: string;
+  /** How the target is sampled when it is drawn. Defaults to the filter of the toodle instance */
+  filter?: "nearest" | "linear";
+};
+
+/**
+ * An offscreen texture that frames can be rendered into and that can be drawn with a quad.
+ * Create one with {@link Toodle.createRenderTarget}.
+ *
+ * Each render target has its own single layer atlas, since a texture can't be sampled while
+ * it is rendered into. It also has its own camera, so a minimap can look at a different part
+ * of the world than the screen.
+ *
+ * @example
+ *
+ * const minimap = toodle.createRenderTarget({ width: 256, height: 256 });
+ * minimap.camera.zoom = 0.1;
+ *
+ * toodle.startFrame({ target: minimap });
+ * toodle.draw(world);
+ * toodle.endFrame();
+ *
+ * toodle.startFrame();
+ * toodle.draw(world);
+ * toodle.draw(toodle.Quad(minimap.textureId));
+ * toodle.endFrame();
+ */
+export class RenderTarget {
+  /** Id of the target's atlas, also used as its texture id */
+  readonly id: string;
+  readonly width: number;
+  readonly height: number;
+  /** Asset manager for the target's atlas, which holds a single texture for the target */
+  readonly assets: AssetManager;
+  /** Quad shader that samples the target's atlas */
+  readonly shader: IBackendShader;
+
+  /** The camera used when rendering into the target */
+  camera = new Camera();
+
+  /** The color the target is cleared to at the start of each frame rendered into it */
+  clearColor: Color = { r: 0, g: 0, b: 0, a: 0 };
+
+  #backend: IRenderBackend;
+  #isDestroyed = false;
+
+  /**
+   * It's unlikely that you want to use the constructor directly, see {@link Toodle.createRenderTarget}.
+   *
+   * @param backend - The backend to create the target's atlas on
+   * @param options - The size and id of the target
+   * @param createShader - Creates the quad shader used to draw the target, bound to the given atlas id
+   */
+  constructor(
+    backend: IRenderBackend,
+    options: Required<RenderTargetOptions>,
+    createShader: (
+      atlasId: string,
+      filter: "nearest" | "linear",
+    ) => IBackendShader,
+  ) {
+    const { id, width, height, filter } = options;
+    const size = Math.max(width, height);
+    if (size > backend.limits.textureSize) {
+      throw new Error(
+        `Render target "${id}" is ${width}x${height}, max is ${backend.limits.textureSize}x${backend.limits.textureSize}`,
+      );
+    }
+
+    this.id = id;
+    this.width = width;
+    this.height = height;
+    this.#backend = backend;
+
+    backend.createRenderTarget(id, size, filter);
+    this.assets = new AssetManager(backend, { atlasId: id });
+    this.assets.bundles.addTextureEntry(id, {
+      atlasIndex: 0,
+      uvOffset: { x: 0, y: 0 },
+      uvScale: { width: width / size, height: height / size },
+      cropOffset: { x: 0, y: 0 },
+      originalSize: { width, height },
+    });
+    this.shader = createShader(id, filter);
+  }
+
+  /**
+   * The texture id to pass to toodle.Quad to draw the contents of the target.
+   */
+  get textureId(): TextureId {
+    return this.id;
+  }
+
+  /**
+   * The size of the target in pixels.
+   */
+  get size(): Size {
+    return { width: this.width, height: this.height };
+  }
+
+  /**
+   * The frame target to pass to the backend's startFrame.
+   */
+  get frameTarget(): FrameTarget {
+    return { atlasId: this.id, width: this.width, height: this.height };
+  }
+
+  /**
+   * Release the target's texture. Quads that draw the target must not be drawn afterwards.
+   */
+  destroy() {
+    this.#backend.destroyTextureAtlas(this.id);
+    this.#isDestroyed = true;
+  }
+
+  /**
+   * Whether {@link RenderTarget.destroy} was called.
+   */
+  get isDestroyed() {
+    return this.#isDestroyed;
+  }
+}
@@ -0,0 +1,121 @@
+import type { Vec2 } from "../coreTypes/Vec2";
+import type {
+  AsepriteAnimationJson,
+  AsepriteFrame,
+  AsepriteJson,
+  AsepriteSliceKey,
+  AtlasFrameTag,
+  AtlasSlice,
+} from "./types";
+
+/**
+ * The frames of an atlas json by texture id.
+ * Aseprite exports frames either as an array with filenames or as an object keyed by filename like Pixi atlases.
+ *
+ * @param frames - The frames of the atlas json
+ * @returns Pairs of texture id and frame, in the order of the export
+ */
+export function atlasFrameEntries<T extends { filename?: string }>(
+  frames: T[] | Record<string, T>,
+): [string, T][] {
+  return Array.isArray(frames)
+    ? frames.map((frame, i) => [frame.filename ?? String(i), frame])
+    : Object.entries(frames);
+}
+
+/**
+ * Resolve the frame tags of an Aseprite export to texture ids.
+ *
+ * @param json - The parsed Aseprite JSON
+ * @returns The frame tags in the order of the export
+ */
+export function parseAsepriteFrameTags(
+  json: AsepriteAnimationJson,
+): AtlasFrameTag[] {
+  const frames = atlasFrameEntries<
+    Pick<AsepriteFrame, "filename" | "duration">
+  >(json.frames);
+
+  return (json.meta.frameTags ?? []).map((tag) => {
+    const repeat = Number(tag.repeat);
+    return {
+      name: tag.name,
+      direction: tag.direction,
+      frames: frames
+        .slice(tag.from, tag.to + 1)
+        .map(([textureId, frame]) => ({ textureId, duration: frame.duration })),
+      repeat: repeat > 0 ? repeat : undefined,
+    };
+  });
+}
+
+/**
+ * Convert the slices of an Aseprite export to texel regions and resolve their frames to texture ids.
+ *
+ * @param json - The parsed Aseprite JSON
+ * @returns The slices in the order of the export
+ */
+export function parseAsepriteSlices(json: AsepriteJson): AtlasSlice[] {
+  const frames = atlasFrameEntries(json.frames);
+
+  return (json.meta.slices ?? []).map((slice) => ({
+    name: slice.name,
+    color: slice.color,
+    data: slice.data,
+    keys: slice.keys.map((key) => ({
+      frame: key.frame,
+      textureId: frames[key.frame]?.[0] ?? String(key.frame),
+      bounds: toTexelRegion(key.bounds),
+      center: key.center && toTexelRegion(key.center),
+      pivot: key.pivot && { x: key.pivot.x, y: key.pivot.y },
+    })),
+  }));
+}
+
+/**
+ * The pivots of the frames of an atlas json, normalized to the original size of each frame
+ * with (0, 0) at the top left.
+ *
+ * Pivots written on frames by packers like TexturePacker are used as is.
+ * Otherwise the first Aseprite slice with a pivot on the frame provides it.
+ *
+ * @param json - The parsed atlas JSON
+ * @returns Pivots by texture id, for frames that have one
+ */
+export function parseFramePivots(json: AsepriteJson): Map<string, Vec2> {
+  const pivots = new Map<string, Vec2>();
+  const slices = json.meta.slices ?? [];
+
+  atlasFrameEntries(json.frames).forEach(([textureId, frame], i) => {
+    if (frame.pivot) {
+      pivots.set(textureId, { x: frame.pivot.x, y: frame.pivot.y });
+      return;
+    }
+    for (const slice of slices) {
+      const key = keyAtFrame(slice.keys, i);
+      if (!key?.pivot) continue;
+      pivots.set(textureId, {
+        x: (key.bounds.x + key.pivot.x) / frame.sourceSize.w,
+        y: (key.bounds.y + key.pivot.y) / frame.sourceSize.h,
+      });
+      return;
+    }
+  });
+
+  return pivots;
+}
+
+// the key that applies to a frame is the last one that starts on or before it
+function keyAtFrame(keys: AsepriteSliceKey[], frame: number) {
+  let match: AsepriteSliceKey | undefined;
+  for (const key of keys) {
+    if (key.frame <= frame && (!match || key.frame >= match.frame)) {
+      match = key;
+    }
+  }
+  return match;
+}
+
+function toTexelRegion(rect: { x: number; y: number; w: number; h: number }) {
+  return { x: rect.x, y: rect.y, width: rect.w, height: rect.h };
+}
@@ -1,3 +1,5 @@
 export type { BundlesOptions } from "./Bundles";
 export { Bundles } from "./Bundles";
+export type { RenderTargetOptions } from "./RenderTarget";
+export { RenderTarget } from "./RenderTarget";
 export type * from "./types";
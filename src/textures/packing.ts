@@ -0,0 +1,305 @@
+import type { PackingOptions, TexelRegion } from "./types";
+
+/** A rectangle to pack into an atlas, in texels */
+export type PackingInput = {
+  id: string;
+  width: number;
+  height: number;
+};
+
+/** Where a rectangle was packed, in texels of its atlas. Padding and extrusion are not included */
+export type PackedRect = PackingInput & {
+  x: number;
+  y: number;
+};
+
+/** The rectangles packed into one atlas */
+export type PackedAtlasLayout = {
+  rects: PackedRect[];
+  /** The fraction of the atlas area covered by the rectangles */
+  efficiency: number;
+};
+
+/** A copy of a strip of texels from a texture to its extruded border in the atlas */
+export type ExtrusionCopy = {
+  /** The source region in texels of the texture */
+  source: TexelRegion;
+  /** The top left of the destination in texels of the atlas */
+  x: number;
+  y: number;
+};
+
+type Rectangle = TexelRegion;
+
+/**
+ * Finds a place for rectangles in a square bin.
+ */
+interface BinPacker {
+  /**
+   * @returns The top left of the placed rectangle, or null if it doesn't fit
+   */
+  insert(width: number, height: number): { x: number; y: number } | null;
+}
+
+/**
+ * Pack rectangles into as few square atlases as needed.
+ *
+ * Padding and extrusion are added around each rectangle when looking for space,
+ * the returned positions are where the rectangles themselves go.
+ *
+ * @param inputs - The rectangles to pack
+ * @param atlasSize - The width and height of an atlas in texels
+ * @param options - The packing algorithm, padding and extrusion
+ * @returns The layout of each atlas
+ */
+export function packRects(
+  inputs: PackingInput[],
+  atlasSize: number,
+  options: PackingOptions = {},
+): PackedAtlasLayout[] {
+  const algorithm = options.algorithm ?? "guillotine";
+  const padding = options.padding ?? 0;
+  const extrude = options.extrude ?? 0;
+  // padding is only needed between rectangles, so the bin is grown by one padding
+  // to allow the right and bottom most rectangles to touch the edge of the atlas
+  const binSize = atlasSize + padding;
+
+  // maxrects packs best when the largest rectangles go first
+  const ordered =
+    algorithm === "maxrects"
+      ? [...inputs].sort(
+          (a, b) =>
+            Math.max(b.width, b.height) - Math.max(a.width, a.height) ||
+            b.width * b.height - a.width * a.height,
+        )
+      : inputs;
+
+  const bins: { packer: BinPacker; rects: PackedRect[] }[] = [];
+  for (const input of ordered) {
+    const width = input.width + extrude * 2 + padding;
+    const height = input.height + extrude * 2 + padding;
+    if (width > binSize || height > binSize) {
+      throw new Error(
+        `Texture ${input.id} of ${input.width}x${input.height} texels does not fit in a ${atlasSize}x${atlasSize} atlas with ${padding} texels of padding and ${extrude} texels of extrusion`,
+      );
+    }
+
+    let placed = false;
+    for (const bin of bins) {
+      const position = bin.packer.insert(width, height);
+      if (!position) continue;
+      bin.rects.push({
+        ...input,
+        x: position.x + extrude,
+        y: position.y + extrude,
+      });
+      placed = true;
+      break;
+    }
+    if (placed) continue;
+
+    const packer =
+      algorithm === "maxrects"
+        ? new MaxRectsPacker(binSize)
+        : new GuillotinePacker(binSize);
+    const position = packer.insert(width, height)!;
+    bins.push({
+      packer,
+      rects: [{ ...input, x: position.x + extrude, y: position.y + extrude }],
+    });
+  }
+
+  return bins.map(({ rects }) => ({
+    rects,
+    efficiency:
+      rects.reduce((area, rect) => area + rect.width * rect.height, 0) /
+      (atlasSize * atlasSize),
+  }));
+}
+
+/**
+ * The copies that repeat the edge texels of a packed rectangle outwards, including the corners.
+ *
+ * @param rect - The packed rectangle
+ * @param extrude - How many texels to extrude
+ */
+export function extrusionCopies(
+  rect: TexelRegion,
+  extrude: number,
+): ExtrusionCopy[] {
+  const copies: ExtrusionCopy[] = [];
+  const { x, y, width, height } = rect;
+  const right = width - 1;
+  const bottom = height - 1;
+
+  for (let i = 1; i <= extrude; i++) {
+    copies.push(
+      { source: { x: 0, y: 0, width: 1, height }, x: x - i, y },
+      { source: { x: right, y: 0, width: 1, height }, x: x + right + i, y },
+      { source: { x: 0, y: 0, width, height: 1 }, x, y: y - i },
+      { source: { x: 0, y: bottom, width, height: 1 }, x, y: y + bottom + i },
+    );
+    for (let j = 1; j <= extrude; j++) {
+      const corner = { width: 1, height: 1 };
+      copies.push(
+        { source: { x: 0, y: 0, ...corner }, x: x - i, y: y - j },
+        { source: { x: right, y: 0, ...corner }, x: x + right + i, y: y - j },
+        { source: { x: 0, y: bottom, ...corner }, x: x - i, y: y + bottom + j },
+        {
+          source: { x: right, y: bottom, ...corner },
+          x: x + right + i,
+          y: y + bottom + j,
+        },
+      );
+    }
+  }
+  return copies;
+}
+
+/**
+ * Splits the free space in two after each placement and picks the free space with the closest area.
+ * Fast, but the splits leave unusable slivers behind.
+ */
+class GuillotinePacker implements BinPacker {
+  #spaces: Rectangle[];
+
+  constructor(size: number) {
+    this.#spaces = [{ x: 0, y: 0, width: size, height: size }];
+  }
+
+  insert(width: number, height: number) {
+    let bestSpace = -1;
+    let bestScore = Number.POSITIVE_INFINITY;
+
+    for (let i = 0; i < this.#spaces.length; i++) {
+      const space = this.#spaces[i];
+      if (width <= space.width && height <= space.height) {
+        // Score based on how well it fits (smaller score is better)
+        const score = Math.abs(space.width * space.height - width * height);
+        if (score < bestScore) {
+          bestScore = score;
+          bestSpace = i;
+        }
+      }
+    }
+    if (bestSpace === -1) return null;
+
+    const space = this.#spaces[bestSpace];
+    // Split remaining space into two new spaces
+    this.#spaces.splice(bestSpace, 1);
+    if (space.width - width > 0) {
+      this.#spaces.push({
+        x: space.x + width,
+        y: space.y,
+        width: space.width - width,
+        height,
+      });
+    }
+    if (space.height - height > 0) {
+      this.#spaces.push({
+        x: space.x,
+        y: space.y + height,
+        width: space.width,
+        height: space.height - height,
+      });
+    }
+    return { x: space.x, y: space.y };
+  }
+}
+
+/**
+ * Keeps track of all maximal free rectangles, which may overlap, and places rectangles
+ * where the shorter leftover side is smallest (best short side fit).
+ *
+ * See "A Thousand Ways to Pack the Bin" by Jukka Jylänki.
+ */
+class MaxRectsPacker implements BinPacker {
+  #free: Rectangle[];
+
+  constructor(size: number) {
+    this.#free = [{ x: 0, y: 0, width: size, height: size }];
+  }
+
+  insert(width: number, height: number) {
+    let best: Rectangle | null = null;
+    let bestShortSide = Number.POSITIVE_INFINITY;
+    let bestLongSide = Number.POSITIVE_INFINITY;
+
+    for (const free of this.#free) {
+      if (width > free.width || height > free.height) continue;
+      const leftoverX = free.width - width;
+      const leftoverY = free.height - height;
+      const shortSide = Math.min(leftoverX, leftoverY);
+      const longSide = Math.max(leftoverX, leftoverY);
+      if (
+        shortSide < bestShortSide ||
+        (shortSide === bestShortSide && longSide < bestLongSide)
+      ) {
+        best = { x: free.x, y: free.y, width, height };
+        bestShortSide = shortSide;
+        bestLongSide = longSide;
+      }
+    }
+    if (!best) return null;
+
+    this.#place(best);
+    return { x: best.x, y: best.y };
+  }
+
+  #place(used: Rectangle) {
+    const free: Rectangle[] = [];
+    for (const rect of this.#free) {
+      if (!intersects(rect, used)) {
+        free.push(rect);
+        continue;
+      }
+      // replace the free rectangle by the up to four maximal rectangles around the used one
+      if (used.x > rect.x) {
+        free.push({ ...rect, width: used.x - rect.x });
+      }
+      if (used.x + used.width < rect.x + rect.width) {
+        free.push({
+          ...rect,
+          x: used.x + used.width,
+          width: rect.x + rect.width - used.x - used.width,
+        });
+      }
+      if (used.y > rect.y) {
+        free.push({ ...rect, height: used.y - rect.y });
+      }
+      if (used.y + used.height < rect.y + rect.height) {
+        free.push({
+          ...rect,
+          y: used.y + used.height,
+          height: rect.y + rect.height - used.y - used.height,
+        });
+      }
+    }
+
+    // drop free rectangles that are contained in others, keeping the first of equal ones
+    this.#free = free.filter(
+      (a, i) =>
+        !free.some(
+          (b, j) => i !== j && contains(b, a) && (!contains(a, b) || j < i),
+        ),
+    );
+  }
+}
+
+function intersects(a: Rectangle, b: Rectangle) {
+  return (
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height
+  );
+}
+
+function contains(outer: Rectangle, inner: Rectangle) {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
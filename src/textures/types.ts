@@ -18,6 +18,11 @@ export type TextureRegion = UvRegion & {
   cropOffset: Vec2;
   /** the original size of the texture in texels */
   originalSize: Size;
+  /**
+   * Whether the texture is stored rotated 90° clockwise in the atlas, as written by texture packers with rotation enabled.
+   * The uv offset is the top left of the rotated frame in the atlas, sizes and crop offsets are of the upright texture.
+   */
+  rotated?: boolean;
 };
 
 /**
@@ -58,9 +63,13 @@ export type UvRegion = {
 export type CpuTextureAtlas = {
   texture: ImageBitmap;
   rg8Bytes?: Uint8Array<ArrayBuffer>;
+  /** raw rgba8 pixels of the atlas, rows stored top to bottom. used by the software backend when present. */
+  pixels?: Uint8ClampedArray<ArrayBuffer>;
   textureRegions: Map<string, TextureRegion>;
   width: number;
   height: number;
+  /** the fraction of the atlas area covered by textures, for atlases that were packed at runtime */
+  packingEfficiency?: number;
 };
 
 /**
@@ -106,6 +115,10 @@ export type TextureBundleOpts = {
    * See [Transparent Pixel Cropping](https://toodle.gg/f849595b3ed13fc956fc1459a5cb5f0228f9d259/examples/transparent-cropping.html) for more information.
    */
   cropTransparentPixels?: boolean;
+  /**
+   * How the textures are packed into texture atlases.
+   */
+  packing?: PackingOptions;
   /**
    * Whether the bundle should be loaded automatically on registration.
    * @default true
@@ -113,6 +126,26 @@ export type TextureBundleOpts = {
   autoLoad?: boolean;
 };
 
+/** Options for packing textures into texture atlases at runtime */
+export type PackingOptions = {
+  /**
+   * The bin packing algorithm. "maxrects" packs tighter at the cost of a slower packing step.
+   * @default "guillotine"
+   */
+  algorithm?: "guillotine" | "maxrects";
+  /**
+   * Empty texels between packed textures.
+   * @default 0
+   */
+  padding?: number;
+  /**
+   * How many texels the edge pixels of each texture are repeated outwards.
+   * This prevents linear filtering from blending in transparent or neighbouring texels at the edges of textures.
+   * @default 0
+   */
+  extrude?: number;
+};
+
 /** Bundle options for registering pre-generated texture atlases */
 export type AtlasBundleOpts = {
   /**
@@ -175,10 +208,108 @@ export type TexelRegion = {
 export type PixiRegion = {
   /** the position and size of the cropped region in the atlas, measured in texels*/
   frame: { x: number; y: number; w: number; h: number };
+  /** whether the region is stored rotated 90° clockwise in the atlas. the size of the frame is the upright size */
   rotated: boolean;
   trimmed: boolean;
   /** the original size of the texture in texels */
   sourceSize: { w: number; h: number };
   /** the position and size of the cropped region of the texture prior to packing in the atlas, measured in texels */
   spriteSourceSize: { x: number; y: number; w: number; h: number };
+  /** the pivot of the texture normalized to its original size, written by packers like TexturePacker */
+  pivot?: { x: number; y: number };
+};
+
+/** A frame of an Aseprite JSON export. Aseprite writes the same region fields as Pixi atlases */
+export type AsepriteFrame = PixiRegion & {
+  /** Present when frames are exported as an array */
+  filename?: string;
+  /** How long the frame is shown in milliseconds */
+  duration: number;
+};
+
+/** An animation tag of an Aseprite JSON export */
+export type AsepriteFrameTag = {
+  name: string;
+  /** Index of the first frame of the tag */
+  from: number;
+  /** Index of the last frame of the tag, inclusive */
+  to: number;
+  direction: "forward" | "reverse" | "pingpong" | "pingpong_reverse";
+  /** How often the tag plays, written as a string by Aseprite. Missing for tags that loop forever */
+  repeat?: string;
+};
+
+/** A slice key of an Aseprite JSON export. A key applies from its frame until the frame of the next key */
+export type AsepriteSliceKey = {
+  frame: number;
+  /** The bounds of the slice in texels of the uncropped frame */
+  bounds: { x: number; y: number; w: number; h: number };
+  /** The center of a 9-slice, relative to the bounds */
+  center?: { x: number; y: number; w: number; h: number };
+  /** The pivot of the slice, relative to the bounds */
+  pivot?: { x: number; y: number };
+};
+
+/** A slice of an Aseprite JSON export */
+export type AsepriteSlice = {
+  name: string;
+  color?: string;
+  /** User data of the slice */
+  data?: string;
+  keys: AsepriteSliceKey[];
+};
+
+/**
+ * An Aseprite JSON export, see https://www.aseprite.org/docs/cli/#data
+ *
+ * Aseprite exports frames either as an array or as an object keyed by filename like Pixi atlases.
+ */
+export type AsepriteJson = {
+  frames: AsepriteFrame[] | Record<string, AsepriteFrame>;
+  meta: {
+    app?: string;
+    image?: string;
+    size?: { w: number; h: number };
+    frameTags?: AsepriteFrameTag[];
+    slices?: AsepriteSlice[];
+  };
+};
+
+/** The parts of an Aseprite JSON export that describe animations */
+export type AsepriteAnimationJson = {
+  frames:
+    | Pick<AsepriteFrame, "filename" | "duration">[]
+    | Record<string, Pick<AsepriteFrame, "duration">>;
+  meta: Pick<AsepriteJson["meta"], "frameTags">;
+};
+
+/** A frame tag of an atlas bundle, with the frames resolved to texture ids */
+export type AtlasFrameTag = {
+  name: string;
+  direction: AsepriteFrameTag["direction"];
+  /** The frames of the tag in the order of the export, regardless of the direction */
+  frames: { textureId: string; duration: number }[];
+  /** How often the tag plays. Undefined for tags that loop forever */
+  repeat?: number;
+};
+
+/** A key of an atlas slice, with texel regions in the uncropped frame */
+export type AtlasSliceKey = {
+  /** The index of the first frame the key applies to */
+  frame: number;
+  /** The texture id of that frame */
+  textureId: string;
+  bounds: TexelRegion;
+  /** The center of a 9-slice, relative to the bounds */
+  center?: TexelRegion;
+  /** The pivot of the slice in texels, relative to the bounds */
+  pivot?: Vec2;
+};
+
+/** A named region of an atlas bundle, like a 9-slice or a hitbox, exported from Aseprite slices */
+export type AtlasSlice = {
+  name: string;
+  color?: string;
+  data?: string;
+  keys: AtlasSliceKey[];
 };
@@ -1,5 +1,7 @@
+import { extrusionCopies, packRects } from "./packing";
 import type {
   CpuTextureAtlas,
+  PackingOptions,
   TextureRegion,
   TextureWithMetadata,
 } from "./types";
@@ -15,129 +17,83 @@ export async function getBitmapFromUrl(url: URL): Promise<ImageBitmap> {
   }
 }
 
+/**
+ * Pack textures into atlases on the gpu, see {@link packRects}.
+ * The textures are destroyed once they are copied to their atlas.
+ */
 export async function packBitmapsToAtlas(
   images: Map<string, TextureWithMetadata>,
   textureSize: number,
   device: GPUDevice,
+  options: PackingOptions = {},
 ): Promise<CpuTextureAtlas[]> {
   const cpuTextureAtlases: CpuTextureAtlas[] = [];
-  const packed: PackedTexture[] = [];
-  const spaces: Rectangle[] = [
-    { x: 0, y: 0, width: textureSize, height: textureSize },
-  ];
-
-  let atlasRegionMap = new Map<string, TextureRegion>();
-
-  for (const [id, { texture, cropOffset: offset, originalSize }] of images) {
-    // Find best fitting space using guillotine method
-    let bestSpace = -1;
-    let bestScore = Number.POSITIVE_INFINITY;
-
-    for (let i = 0; i < spaces.length; i++) {
-      const space = spaces[i];
-      if (texture.width <= space.width && texture.height <= space.height) {
-        // Score based on how well it fits (smaller score is better)
-        const score = Math.abs(
-          space.width * space.height - texture.width * texture.height,
-        );
-        if (score < bestScore) {
-          bestScore = score;
-          bestSpace = i;
-        }
-      }
-    }
-
-    if (bestSpace === -1) {
-      const tex = await createTextureAtlasTexture(device, packed, textureSize);
-      cpuTextureAtlases.push({
-        texture: tex,
-        textureRegions: atlasRegionMap,
-        width: tex.width,
-        height: tex.height,
-      });
-
-      atlasRegionMap = new Map<string, TextureRegion>();
-      packed.length = 0;
-
-      spaces.length = 0;
-      spaces.push({
-        x: 0,
-        y: 0,
-        width: textureSize,
-        height: textureSize,
-      });
-      bestSpace = 0;
-    }
-
-    const space = spaces[bestSpace];
-
-    // Pack the image
-    packed.push(<PackedTexture>{
-      texture: await textureToBitmap(
-        device,
-        texture,
-        texture.width,
-        texture.height,
-      ),
-      x: space.x,
-      y: space.y,
+  const layouts = packRects(
+    Array.from(images, ([id, { texture }]) => ({
+      id,
       width: texture.width,
       height: texture.height,
-    });
-
-    texture.destroy();
-
-    // Split remaining space into two new spaces
-    spaces.splice(bestSpace, 1);
+    })),
+    textureSize,
+    options,
+  );
 
-    if (space.width - texture.width > 0) {
-      spaces.push({
-        x: space.x + texture.width,
-        y: space.y,
-        width: space.width - texture.width,
-        height: texture.height,
+  // Inset UVs by half a texel to prevent bilinear sampling from
+  // bleeding into adjacent atlas padding/sprites
+  const halfTexel = 0.5 / textureSize;
+
+  for (const layout of layouts) {
+    const packed: PackedTexture[] = [];
+    const atlasRegionMap = new Map<string, TextureRegion>();
+
+    for (const rect of layout.rects) {
+      const { texture, cropOffset, originalSize } = images.get(rect.id)!;
+      packed.push({
+        texture: await textureToBitmap(
+          device,
+          texture,
+          texture.width,
+          texture.height,
+        ),
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
       });
-    }
-
-    if (space.height - texture.height > 0) {
-      spaces.push({
-        x: space.x,
-        y: space.y + texture.height,
-        width: space.width,
-        height: space.height - texture.height,
+      texture.destroy();
+
+      atlasRegionMap.set(rect.id, {
+        uvOffset: {
+          x: rect.x / textureSize + halfTexel,
+          y: rect.y / textureSize + halfTexel,
+        },
+        uvScale: {
+          width: originalSize.width / textureSize,
+          height: originalSize.height / textureSize,
+        },
+        uvScaleCropped: {
+          width: (rect.width - 1) / textureSize,
+          height: (rect.height - 1) / textureSize,
+        },
+        cropOffset,
+        originalSize,
       });
     }
 
-    // Create atlas coords
-    // Inset UVs by half a texel to prevent bilinear sampling from
-    // bleeding into adjacent atlas padding/sprites
-    const halfTexel = 0.5 / textureSize;
-
-    atlasRegionMap.set(id, {
-      uvOffset: {
-        x: space.x / textureSize + halfTexel,
-        y: space.y / textureSize + halfTexel,
-      },
-      uvScale: {
-        width: originalSize.width / textureSize,
-        height: originalSize.height / textureSize,
-      },
-      uvScaleCropped: {
-        width: (texture.width - 1) / textureSize,
-        height: (texture.height - 1) / textureSize,
-      },
-      cropOffset: offset,
-      originalSize,
+    const tex = await createTextureAtlasTexture(
+      device,
+      packed,
+      textureSize,
+      options.extrude ?? 0,
+    );
+    cpuTextureAtlases.push({
+      texture: tex,
+      textureRegions: atlasRegionMap,
+      width: tex.width,
+      height: tex.height,
+      packingEfficiency: layout.efficiency,
     });
   }
-  const tex = await createTextureAtlasTexture(device, packed, textureSize);
-
-  cpuTextureAtlases.push({
-    texture: tex,
-    textureRegions: atlasRegionMap,
-    width: tex.width,
-    height: tex.height,
-  });
 
   return cpuTextureAtlases;
 }
@@ -146,6 +102,7 @@ async function createTextureAtlasTexture(
   device: GPUDevice,
   packed: PackedTexture[],
   atlasSize: number,
+  extrude: number,
 ) {
   const encoder: GPUCommandEncoder = device.createCommandEncoder();
   const atlasTexture: GPUTexture = device.createTexture({
@@ -170,6 +127,19 @@ async function createTextureAtlasTexture(
       },
       [texture.width, texture.height, 1],
     );
+    for (const copy of extrusionCopies(texture, extrude)) {
+      device.queue.copyExternalImageToTexture(
+        {
+          source: texture.texture,
+          origin: [copy.source.x, copy.source.y],
+        },
+        {
+          texture: atlasTexture,
+          origin: [copy.x, copy.y, 0],
+        },
+        [copy.source.width, copy.source.height, 1],
+      );
+    }
   }
   device.queue.submit([encoder.finish()]);
   const atlasBitmap: ImageBitmap = await textureToBitmap(
@@ -256,13 +226,6 @@ type PackedTexture = {
   height: number;
 };
 
-type Rectangle = {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-};
-
 /**
  * CPU-only version of packBitmapsToAtlas for WebGL2 backend.
  * Uses OffscreenCanvas to composite packed bitmaps instead of GPU textures.
@@ -271,116 +234,56 @@ type Rectangle = {
 export async function packBitmapsToAtlasCPU(
   images: Map<string, { bitmap: ImageBitmap; id: string }>,
   textureSize: number,
+  options: PackingOptions = {},
 ): Promise<CpuTextureAtlas[]> {
-  const cpuTextureAtlases: CpuTextureAtlas[] = [];
-  const packed: PackedTexture[] = [];
-  const spaces: Rectangle[] = [
-    { x: 0, y: 0, width: textureSize, height: textureSize },
-  ];
-
-  let atlasRegionMap = new Map<string, TextureRegion>();
-
-  for (const [id, { bitmap }] of images) {
-    // Find best fitting space using guillotine method
-    let bestSpace = -1;
-    let bestScore = Number.POSITIVE_INFINITY;
-
-    for (let i = 0; i < spaces.length; i++) {
-      const space = spaces[i];
-      if (bitmap.width <= space.width && bitmap.height <= space.height) {
-        // Score based on how well it fits (smaller score is better)
-        const score = Math.abs(
-          space.width * space.height - bitmap.width * bitmap.height,
-        );
-        if (score < bestScore) {
-          bestScore = score;
-          bestSpace = i;
-        }
-      }
-    }
-
-    if (bestSpace === -1) {
-      // Current atlas is full, finalize it and start a new one
-      const tex = createAtlasBitmapFromPacked(packed, textureSize);
-      cpuTextureAtlases.push({
-        texture: tex,
-        textureRegions: atlasRegionMap,
-        width: tex.width,
-        height: tex.height,
-      });
-
-      atlasRegionMap = new Map<string, TextureRegion>();
-      packed.length = 0;
-
-      spaces.length = 0;
-      spaces.push({
-        x: 0,
-        y: 0,
-        width: textureSize,
-        height: textureSize,
-      });
-      bestSpace = 0;
-    }
-
-    const space = spaces[bestSpace];
-
-    // Pack the image
-    packed.push({
-      texture: bitmap,
-      x: space.x,
-      y: space.y,
+  const layouts = packRects(
+    Array.from(images, ([id, { bitmap }]) => ({
+      id,
       width: bitmap.width,
       height: bitmap.height,
-    });
-
-    // Split remaining space into two new spaces
-    spaces.splice(bestSpace, 1);
-
-    if (space.width - bitmap.width > 0) {
-      spaces.push({
-        x: space.x + bitmap.width,
-        y: space.y,
-        width: space.width - bitmap.width,
-        height: bitmap.height,
-      });
-    }
+    })),
+    textureSize,
+    options,
+  );
 
-    if (space.height - bitmap.height > 0) {
-      spaces.push({
-        x: space.x,
-        y: space.y + bitmap.height,
-        width: space.width,
-        height: space.height - bitmap.height,
+  return layouts.map((layout) => {
+    const packed: PackedTexture[] = [];
+    const atlasRegionMap = new Map<string, TextureRegion>();
+
+    for (const rect of layout.rects) {
+      const { bitmap } = images.get(rect.id)!;
+      packed.push({ texture: bitmap, ...rect });
+
+      // Create atlas coords (no cropping for CPU path)
+      const uvScale = {
+        width: bitmap.width / textureSize,
+        height: bitmap.height / textureSize,
+      };
+      atlasRegionMap.set(rect.id, {
+        uvOffset: {
+          x: rect.x / textureSize,
+          y: rect.y / textureSize,
+        },
+        uvScale,
+        uvScaleCropped: uvScale,
+        cropOffset: { x: 0, y: 0 },
+        originalSize: { width: bitmap.width, height: bitmap.height },
       });
     }
 
-    // Create atlas coords (no cropping for CPU path)
-    const uvScale = {
-      width: bitmap.width / textureSize,
-      height: bitmap.height / textureSize,
+    const tex = createAtlasBitmapFromPacked(
+      packed,
+      textureSize,
+      options.extrude ?? 0,
+    );
+    return {
+      texture: tex,
+      textureRegions: atlasRegionMap,
+      width: tex.width,
+      height: tex.height,
+      packingEfficiency: layout.efficiency,
     };
-    atlasRegionMap.set(id, {
-      uvOffset: {
-        x: space.x / textureSize,
-        y: space.y / textureSize,
-      },
-      uvScale,
-      uvScaleCropped: uvScale,
-      cropOffset: { x: 0, y: 0 },
-      originalSize: { width: bitmap.width, height: bitmap.height },
-    });
-  }
-
-  // Finalize the last atlas
-  const tex = createAtlasBitmapFromPacked(packed, textureSize);
-  cpuTextureAtlases.push({
-    texture: tex,
-    textureRegions: atlasRegionMap,
-    width: tex.width,
-    height: tex.height,
   });
-
-  return cpuTextureAtlases;
 }
 
 /**
@@ -389,6 +292,7 @@ export async function packBitmapsToAtlasCPU(
 function createAtlasBitmapFromPacked(
   packed: PackedTexture[],
   atlasSize: number,
+  extrude: number,
 ): ImageBitmap {
   const canvas = new OffscreenCanvas(atlasSize, atlasSize);
   const ctx = canvas.getContext("2d");
@@ -398,6 +302,19 @@ function createAtlasBitmapFromPacked(
 
   for (const texture of packed) {
     ctx.drawImage(texture.texture, texture.x, texture.y);
+    for (const { source, x, y } of extrusionCopies(texture, extrude)) {
+      ctx.drawImage(
+        texture.texture,
+        source.x,
+        source.y,
+        source.width,
+        source.height,
+        x,
+        y,
+        source.width,
+        source.height,
+      );
+    }
   }
 
   return canvas.transferToImageBitmap();
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "bun:test";
+import { parseAsepriteClips } from "../../src/animation/aseprite";
+import {
+  clipFromRegions,
+  clipFromTextures,
+  gridRegions,
+} from "../../src/animation/clips";
+import { SpriteAnimator } from "../../src/animation/SpriteAnimator";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { StaticBatch } from "../../src/scene/StaticBatch";
+import { Toodle } from "../../src/Toodle";
+import type { TextureRegion } from "../../src/textures/types";
+
+// three 8x8 frames side by side in a 32x32 atlas
+function frameRegion(index: number): TextureRegion {
+  return {
+    uvOffset: { x: (index * 8) / 32, y: 0 },
+    uvScale: { width: 8 / 32, height: 8 / 32 },
+    cropOffset: { x: 0, y: 0 },
+    originalSize: { width: 8, height: 8 },
+  };
+}
+
+async function createSprite() {
+  const backend = await NullBackend.create({
+    limits: { textureSize: 32, textureArrayLayers: 2 },
+  });
+  const toodle = new Toodle(backend, null, { width: 32, height: 32 }, {});
+  await toodle.assets.extra.loadAtlas({
+    texture: null as unknown as ImageBitmap,
+    textureRegions: new Map([
+      ["walk_0", frameRegion(0)],
+      ["walk_1", frameRegion(1)],
+      ["walk_2", frameRegion(2)],
+    ]),
+    width: 32,
+    height: 32,
+  });
+  return toodle.Quad("walk_0");
+}
+
+describe("SpriteAnimator", () => {
+  it("loops through texture frames with left over time", async () => {
+    const sprite = await createSprite();
+    const animator = new SpriteAnimator(sprite, {
+      walk: clipFromTextures(["walk_0", "walk_1", "walk_2"], { fps: 10 }),
+    });
+
+    animator.play("walk");
+    animator.update(0.15);
+    expect(sprite.textureId).toEqual("walk_1");
+    expect(sprite.atlasCoords.uvOffset.x).toEqual(8 / 32);
+
+    animator.update(0.2);
+    expect(sprite.textureId).toEqual("walk_0");
+    animator.speed = 2;
+    animator.update(0.05);
+    expect(animator.frame).toEqual(1);
+  });
+
+  it("plays ping-pong and once clips", async () => {
+    const sprite = await createSprite();
+    const regions = gridRegions({ width: 8, height: 8 }, 3);
+    const animator = new SpriteAnimator(sprite, {
+      bounce: clipFromRegions("walk_0", regions, { mode: "ping-pong" }),
+    });
+    const frames: number[] = [];
+
+    animator.play("bounce");
+    for (let i = 0; i < 5; i++) {
+      frames.push(animator.frame);
+      animator.update(1 / 12);
+    }
+    expect(frames).toEqual([0, 1, 2, 1, 0]);
+    expect(sprite.region).toEqual(regions[1]);
+
+    const completed = animator.play("bounce", { mode: "once", restart: true });
+    let isComplete = false;
+    completed.then(() => {
+      isComplete = true;
+    });
+    animator.update(2.5 / 12);
+    await Promise.resolve();
+    expect(isComplete).toBe(false);
+
+    animator.update(1 / 12);
+    await completed;
+    expect(animator.isPlaying).toBe(false);
+    expect(animator.frame).toEqual(2);
+  });
+
+  it("emits frame events", async () => {
+    const sprite = await createSprite();
+    const events: string[] = [];
+    const animator = new SpriteAnimator(
+      sprite,
+      {
+        step: {
+          frames: [
+            { textureId: "walk_0", duration: 0.1, event: "footstep" },
+            { textureId: "walk_1", duration: 0.1 },
+          ],
+        },
+      },
+      { onEvent: (event, clip) => events.push(`${clip} ${event}`) },
+    );
+
+    animator.play("step");
+    animator.update(0.25);
+    expect(events).toEqual(["step footstep", "step footstep"]);
+  });
+
+  it("builds clips from aseprite frame tags", () => {
+    const clips = parseAsepriteClips({
+      frames: [
+        { filename: "hero 0.png", duration: 100 },
+        { filename: "hero 1.png", duration: 200 },
+        { filename: "hero 2.png", duration: 100 },
+      ],
+      meta: {
+        frameTags: [
+          { name: "idle", from: 0, to: 0, direction: "forward" },
+          { name: "run", from: 1, to: 2, direction: "pingpong_reverse" },
+        ],
+      },
+    });
+
+    expect(clips.idle).toEqual({
+      frames: [{ textureId: "hero 0.png", duration: 0.1 }],
+      mode: "loop",
+    });
+    expect(clips.run).toEqual({
+      frames: [
+        { textureId: "hero 2.png", duration: 0.1 },
+        { textureId: "hero 1.png", duration: 0.2 },
+      ],
+      mode: "ping-pong",
+    });
+  });
+
+  it("stops aseprite tags after their repeat count", async () => {
+    const sprite = await createSprite();
+    const clips = parseAsepriteClips({
+      frames: [
+        { filename: "walk_0", duration: 100 },
+        { filename: "walk_1", duration: 100 },
+      ],
+      meta: {
+        frameTags: [
+          { name: "jump", from: 0, to: 1, direction: "forward", repeat: "2" },
+          { name: "wave", from: 0, to: 1, direction: "pingpong", repeat: "3" },
+          { name: "walk", from: 0, to: 1, direction: "forward", repeat: "0" },
+        ],
+      },
+    });
+    expect(clips.jump.repeat).toEqual(2);
+    expect(clips.walk.repeat).toBeUndefined();
+
+    const animator = new SpriteAnimator(sprite, clips);
+    const play = (name: string, updates: number) => {
+      animator.play(name);
+      const frames = [animator.frame];
+      for (let i = 0; i < updates; i++) {
+        animator.update(0.1);
+        frames.push(animator.frame);
+      }
+      return frames;
+    };
+
+    expect(play("jump", 5)).toEqual([0, 1, 0, 1, 1, 1]);
+    expect(animator.isPlaying).toBe(false);
+    // each direction of a ping-pong is a repeat
+    expect(play("wave", 5)).toEqual([0, 1, 0, 1, 1, 1]);
+    expect(play("walk", 5)).toEqual([0, 1, 0, 1, 0, 1]);
+    expect(animator.isPlaying).toBe(true);
+  });
+
+  it("rebakes static batches of animated sprites", async () => {
+    const sprite = await createSprite();
+    const batch = new StaticBatch(sprite);
+    batch.bake();
+
+    sprite.region = gridRegions({ width: 8, height: 8 }, 2)[1];
+    expect(batch.isDirty).toBe(true);
+    batch.bake();
+
+    sprite.setTexture("walk_2");
+    expect(batch.isDirty).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import { Easing } from "../../src/animation/easing";
+import { parallel, sequence } from "../../src/animation/groups";
+import { Timeline } from "../../src/animation/Timeline";
+import { tween, wait } from "../../src/animation/Tween";
+import { SceneNode } from "../../src/scene/SceneNode";
+
+describe("Timeline", () => {
+  it("tweens numbers and object properties of nodes", () => {
+    const timeline = new Timeline();
+    const node = new SceneNode({ position: { x: 10, y: 20 } });
+    timeline.to(
+      node,
+      { position: { x: 20 }, rotation: 90 },
+      { duration: 1, ease: Easing.linear },
+    );
+
+    timeline.update(0.5);
+    expect(node.position).toEqual({ x: 15, y: 20 });
+    expect(node.rotation).toBeCloseTo(45);
+    // the setters ran, so the matrix follows the tween
+    expect(node.matrix[8]).toBeCloseTo(15);
+
+    timeline.update(1);
+    expect(node.position).toEqual({ x: 20, y: 20 });
+    expect(node.rotation).toBeCloseTo(90);
+    expect(timeline.size).toEqual(0);
+  });
+
+  it("throws instead of tweening from missing start values", () => {
+    type Color = { r: number; g: number; b: number; a: number };
+    const target: { color?: Color; size?: { width?: number } } = {
+      size: {},
+    };
+
+    const timeline = new Timeline();
+    timeline.to(target, { color: { r: 1 } }, { duration: 1 });
+    expect(() => timeline.update(0.5)).toThrow("Can't tween color");
+
+    const sizes = new Timeline();
+    sizes.to(target, { size: { width: 10 } }, { duration: 1 });
+    expect(() => sizes.update(0.5)).toThrow("Can't tween size.width");
+    expect(target).toEqual({ size: {} });
+  });
+
+  it("applies easing, delays, repeats and yoyo", () => {
+    const timeline = new Timeline();
+    const target = { value: 0 };
+    timeline.to(
+      target,
+      { value: 1 },
+      { duration: 1, delay: 0.5, repeat: 1, yoyo: true, ease: Easing.quadIn },
+    );
+
+    timeline.update(0.5);
+    expect(target.value).toEqual(0);
+    timeline.update(0.5);
+    expect(target.value).toEqual(0.25);
+    timeline.update(1);
+    // halfway through the backwards play
+    expect(target.value).toEqual(0.25);
+    timeline.update(10);
+    expect(target.value).toEqual(0);
+  });
+
+  it("passes left over time along sequences and resolves", async () => {
+    const timeline = new Timeline();
+    const a = { value: 0 };
+    const b = { value: 0 };
+    const first = tween(a, { value: 1 }, { duration: 1 });
+    const steps = timeline.add(
+      sequence(
+        first,
+        wait(1),
+        parallel(
+          tween(a, { value: 0 }, { duration: 1 }),
+          tween(b, { value: 4 }, { duration: 2 }),
+        ),
+      ),
+    );
+    const done: string[] = [];
+    first.finished.then(() => done.push("first"));
+    steps.finished.then(() => done.push("steps"));
+
+    timeline.update(1.5);
+    await Promise.resolve();
+    expect(a.value).toEqual(1);
+    expect(done).toEqual(["first"]);
+
+    timeline.update(1);
+    expect(a.value).toEqual(0.5);
+    expect(b.value).toEqual(1);
+
+    timeline.update(1.5);
+    await steps.finished;
+    expect([a.value, b.value]).toEqual([0, 4]);
+    expect(done).toEqual(["first", "steps"]);
+  });
+
+  it("stops the tweens of a target where they are", async () => {
+    const timeline = new Timeline();
+    const a = { value: 0 };
+    const b = { value: 0 };
+    const forever = timeline.to(a, { value: 1 }, { duration: 1, repeat: -1 });
+    timeline.to(b, { value: 1 }, { duration: 1 });
+
+    timeline.update(0.25);
+    timeline.stop(a);
+    await forever.finished;
+    timeline.update(0.25);
+
+    expect(a.value).toEqual(0.25);
+    expect(b.value).toEqual(0.5);
+    expect(timeline.size).toEqual(1);
+  });
+});
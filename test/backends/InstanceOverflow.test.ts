@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import type { InstanceOverflowStrategy } from "../../src/backends/IBackendShader";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { growCapacity, splitInstances } from "../../src/backends/overflow";
+import { INSTANCE_FLOATS } from "../../src/backends/quadInstance";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import type { SceneNode } from "../../src/scene/SceneNode";
+import { Toodle } from "../../src/Toodle";
+
+async function createToodle(instanceOverflow?: InstanceOverflowStrategy) {
+  const backend = await NullBackend.create({ limits: { instanceCount: 4 } });
+  const toodle = new Toodle(
+    backend,
+    null,
+    { width: 100, height: 100 },
+    { instanceOverflow },
+  );
+  return { toodle, backend };
+}
+
+function drawRects(toodle: Toodle, count: number) {
+  toodle.startFrame();
+  for (let i = 0; i < count; i++) {
+    toodle.draw(toodle.shapes.Rect());
+  }
+  toodle.endFrame();
+}
+
+describe("instance overflow", () => {
+  it("throws ToodleInstanceCap by default", async () => {
+    const { toodle } = await createToodle();
+    expect(() => drawRects(toodle, 10)).toThrow("ToodleInstanceCap");
+  });
+
+  it("splits oversized batches into multiple draw calls", async () => {
+    const { toodle, backend } = await createToodle("split");
+    drawRects(toodle, 10);
+
+    expect(backend.drawCalls.map((d) => d.nodes.length)).toEqual([4, 4, 2]);
+    expect(toodle.diagnostics.drawCalls).toEqual(3);
+    expect(toodle.diagnostics.overflow).toEqual({
+      strategy: "split",
+      splits: 1,
+      growths: 0,
+    });
+  });
+
+  it("grows the instance buffer to fit the batch", async () => {
+    const { toodle, backend } = await createToodle("grow");
+    drawRects(toodle, 10);
+
+    expect(backend.drawCalls.map((d) => d.nodes.length)).toEqual([10]);
+    expect(toodle.diagnostics.overflow.growths).toEqual(1);
+
+    // the grown buffer is kept for later frames
+    drawRects(toodle, 10);
+    expect(toodle.diagnostics.overflow.growths).toEqual(0);
+  });
+
+  it("grows to the next power of two", () => {
+    expect(growCapacity(4, 10)).toEqual(16);
+    expect(growCapacity(4, 16)).toEqual(16);
+    expect(growCapacity(0, 3)).toEqual(4);
+  });
+
+  it("splits instances into ranges of the capacity", () => {
+    expect(splitInstances(5, 2)).toEqual([
+      { first: 0, count: 2 },
+      { first: 2, count: 2 },
+      { first: 4, count: 1 },
+    ]);
+  });
+
+  it("throws when a node writes more instances than it reserves", async () => {
+    const { toodle } = await createToodle("grow");
+    const { shader, writeInstance } = toodle.shapes.Rect().renderComponent!;
+    const render = {
+      shader,
+      writeInstance: (node: SceneNode, dst: Float32Array, offset: number) =>
+        writeInstance(node, dst, offset) +
+        writeInstance(node, dst, offset + INSTANCE_FLOATS),
+    };
+
+    toodle.startFrame();
+    toodle.draw(toodle.shapes.Rect({ label: "pair", render }));
+    toodle.draw(toodle.shapes.Rect());
+    expect(() => toodle.endFrame()).toThrow(
+      "pair wrote 2 instances but its render component reserves 1",
+    );
+  });
+
+  it("splits batches of nodes that write more than one instance", async () => {
+    const { toodle, backend } = await createSoftwareToodle("split");
+    drawPairs(toodle);
+
+    // 6 instances in a buffer of 4
+    expect(toodle.diagnostics.drawCalls).toEqual(2);
+    expect(drawnColumns(backend)).toEqual([0, 2, 4]);
+  });
+
+  it("grows to fit nodes that write more than one instance", async () => {
+    const { toodle, backend } = await createSoftwareToodle("grow");
+    drawPairs(toodle);
+
+    expect(toodle.diagnostics.drawCalls).toEqual(1);
+    expect(toodle.diagnostics.overflow.growths).toEqual(1);
+    expect(drawnColumns(backend)).toEqual([0, 2, 4]);
+  });
+});
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+const white = { r: 1, g: 1, b: 1, a: 1 };
+
+async function createSoftwareToodle(
+  instanceOverflow: InstanceOverflowStrategy,
+) {
+  const backend = await SoftwareBackend.create({
+    limits: { instanceCount: 4, textureSize: 2, textureArrayLayers: 2 },
+  });
+  const toodle = new Toodle(
+    backend,
+    null,
+    { width: 6, height: 2 },
+    { instanceOverflow },
+  );
+  toodle.clearColor = white;
+  return { toodle, backend };
+}
+
+// three nodes that each draw a rect and a second one below it, like jumbo quads
+function drawPairs(toodle: Toodle) {
+  toodle.startFrame();
+  for (const x of [-2.5, -0.5, 1.5]) {
+    const size = { width: 1, height: 1 };
+    const below = toodle.shapes.Rect({
+      size,
+      position: { x, y: -0.5 },
+      color: red,
+    });
+    const { shader, writeInstance } = below.renderComponent!;
+    toodle.draw(
+      toodle.shapes.Rect({
+        size,
+        position: { x, y: 0.5 },
+        color: red,
+        render: {
+          shader,
+          writeInstance: (node, dst, offset) =>
+            writeInstance(node, dst, offset) +
+            writeInstance(below, dst, offset + INSTANCE_FLOATS),
+          instanceCount: () => 2,
+        },
+      }),
+    );
+  }
+  toodle.endFrame();
+}
+
+// the columns where both the rect and the one below it were drawn
+function drawnColumns(backend: SoftwareBackend) {
+  const pixels = backend.readPixels();
+  const isRed = (x: number, y: number) =>
+    pixels[(y * backend.width + x) * 4 + 1] === 0;
+  return [0, 1, 2, 3, 4, 5].filter((x) => isRed(x, 0) && isRed(x, 1));
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { Toodle } from "../../src/Toodle";
+
+async function createToodle() {
+  const backend = await NullBackend.create();
+  const toodle = new Toodle(backend, null, { width: 100, height: 100 }, {});
+  return { toodle, backend };
+}
+
+describe("NullBackend", () => {
+  it("can be constructed without a canvas", async () => {
+    const { toodle, backend } = await createToodle();
+    expect(toodle.backend).toBe(backend);
+    expect(backend.type).toEqual("null");
+    expect(backend.resolution).toEqual({ width: 100, height: 100 });
+  });
+
+  it("records a draw call per batch", async () => {
+    const { toodle, backend } = await createToodle();
+    const rect = toodle.shapes.Rect({ label: "rect" });
+    const circle = toodle.shapes.Circle({ label: "circle" });
+
+    toodle.startFrame();
+    toodle.draw(rect);
+    toodle.draw(circle);
+    toodle.endFrame();
+
+    expect(backend.drawCalls.length).toEqual(1);
+    expect(backend.drawCalls[0].label).toEqual("default quad shader");
+    expect(backend.drawCalls[0].layer).toEqual(0);
+    expect(backend.drawCalls[0].nodes).toEqual([rect, circle]);
+    expect(toodle.diagnostics.drawCalls).toEqual(1);
+  });
+
+  it("records layers in draw order", async () => {
+    const { toodle, backend } = await createToodle();
+    const top = toodle.shapes.Rect({ layer: 2 });
+    const bottom = toodle.shapes.Rect({ layer: -1 });
+
+    toodle.startFrame();
+    toodle.draw(top);
+    toodle.draw(bottom);
+    toodle.endFrame();
+
+    expect(backend.drawCalls.map((d) => d.layer)).toEqual([-1, 2]);
+    expect(backend.drawCalls[0].nodes).toEqual([bottom]);
+    expect(backend.drawCalls[1].nodes).toEqual([top]);
+  });
+
+  it("records custom shaders separately", async () => {
+    const { toodle, backend } = await createToodle();
+    const shader = toodle.QuadShader("custom", 16, "");
+    const rect = toodle.shapes.Rect();
+    const custom = toodle.shapes.Rect({ shader });
+
+    toodle.startFrame();
+    toodle.draw(rect);
+    toodle.draw(custom);
+    toodle.endFrame();
+
+    expect(backend.drawCalls.map((d) => d.label)).toEqual([
+      "default quad shader",
+      "custom",
+    ]);
+    expect(backend.drawCalls[1].shader).toBe(shader);
+  });
+
+  it("resets draw calls at the start of each frame", async () => {
+    const { toodle, backend } = await createToodle();
+    toodle.clearColor = { r: 1, g: 0, b: 0, a: 1 };
+
+    toodle.startFrame();
+    toodle.draw(toodle.shapes.Rect());
+    toodle.endFrame();
+
+    toodle.startFrame({ loadOp: "load" });
+    toodle.endFrame();
+
+    expect(backend.drawCalls).toEqual([]);
+    expect(backend.clearColor).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(backend.loadOp).toEqual("load");
+    expect(toodle.frameCount).toEqual(2);
+  });
+
+  it("culls off-screen nodes when culling is enabled", async () => {
+    const { toodle, backend } = await createToodle();
+    toodle.culling = true;
+    const visible = toodle.shapes.Rect({ size: { width: 10, height: 10 } });
+    const offscreen = toodle.shapes.Rect({
+      size: { width: 10, height: 10 },
+      position: { x: 200, y: 0 },
+    });
+
+    toodle.startFrame();
+    toodle.draw(visible);
+    toodle.draw(offscreen);
+    toodle.endFrame();
+
+    expect(backend.drawCalls[0].nodes).toEqual([visible]);
+    expect(toodle.diagnostics.nodesCulled).toEqual(1);
+
+    // moving the camera brings the node into view
+    toodle.camera.x = 200;
+    toodle.startFrame();
+    toodle.draw(visible);
+    toodle.draw(offscreen);
+    toodle.endFrame();
+
+    expect(backend.drawCalls[0].nodes).toEqual([offscreen]);
+  });
+
+  it("counts the written instances of static buffers", async () => {
+    const { toodle } = await createToodle();
+    const root = toodle.Node();
+    const { shader, writeInstance } = toodle.shapes.Rect().renderComponent!;
+    root.add(toodle.shapes.Rect());
+    root.add(
+      toodle.shapes.Rect({
+        render: {
+          shader,
+          // like a jumbo quad with three tiles
+          writeInstance: (node, dst, offset) =>
+            writeInstance(node, dst, offset) * 3,
+          instanceCount: () => 3,
+        },
+      }),
+    );
+
+    const [baked] = toodle.createStaticBatch(root).bake();
+    expect(baked.buffer?.instanceCount).toEqual(4);
+  });
+});
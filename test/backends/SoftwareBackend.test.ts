@@ -0,0 +1,251 @@
+import { describe, expect, it } from "bun:test";
+import { inflateSync } from "node:zlib";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import type { CpuTextureAtlas } from "../../src/textures/types";
+import { Toodle } from "../../src/Toodle";
+import { expectGolden } from "./golden";
+
+const white = { r: 1, g: 1, b: 1, a: 1 };
+
+async function createToodle(width = 10, height = 10) {
+  const backend = await SoftwareBackend.create({
+    limits: { textureSize: 2, textureArrayLayers: 2 },
+  });
+  const toodle = new Toodle(backend, null, { width, height }, {});
+  toodle.clearColor = white;
+  return { toodle, backend };
+}
+
+// 2x2 texture: red, green / blue, white
+function checkerAtlas(): CpuTextureAtlas {
+  return {
+    texture: null as unknown as ImageBitmap,
+    pixels: new Uint8ClampedArray([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255,
+    ]),
+    textureRegions: new Map([
+      [
+        "checker",
+        {
+          uvOffset: { x: 0, y: 0 },
+          uvScale: { width: 1, height: 1 },
+          cropOffset: { x: 0, y: 0 },
+          originalSize: { width: 2, height: 2 },
+        },
+      ],
+    ]),
+    width: 2,
+    height: 2,
+  };
+}
+
+function pixelAt(backend: SoftwareBackend, x: number, y: number) {
+  const i = (y * backend.width + x) * 4;
+  return [...backend.readPixels().subarray(i, i + 4)];
+}
+
+describe("SoftwareBackend", () => {
+  it("clears to the clear color", async () => {
+    const { toodle, backend } = await createToodle(4, 3);
+    toodle.clearColor = { r: 1, g: 0, b: 0, a: 1 };
+
+    toodle.startFrame();
+    toodle.endFrame();
+
+    expect(backend.width).toEqual(4);
+    expect(backend.height).toEqual(3);
+    expect(pixelAt(backend, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 3, 2)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("rasterizes rects in world space", async () => {
+    const { toodle, backend } = await createToodle();
+    const rect = toodle.shapes.Rect({
+      size: { width: 4, height: 4 },
+      position: { x: -3, y: 3 },
+      color: { r: 1, g: 0, b: 0, a: 1 },
+    });
+
+    toodle.startFrame();
+    toodle.draw(rect);
+    toodle.endFrame();
+
+    // the rect covers x in [-5, -1] and y in [1, 5] which is the 4x4 top left corner of the screen
+    expect(pixelAt(backend, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 3, 3)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 4, 3)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(backend, 3, 4)).toEqual([255, 255, 255, 255]);
+  });
+
+  it("samples textures from uploaded atlases", async () => {
+    const { toodle, backend } = await createToodle(4, 4);
+    await toodle.assets.extra.loadAtlas(checkerAtlas());
+    const quad = toodle.Quad("checker", { size: { width: 4, height: 4 } });
+
+    toodle.startFrame();
+    toodle.draw(quad);
+    toodle.endFrame();
+
+    expect(pixelAt(backend, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 3, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixelAt(backend, 0, 3)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(backend, 3, 3)).toEqual([255, 255, 255, 255]);
+  });
+
+  it("samples rotated atlas frames upright", async () => {
+    const backend = await SoftwareBackend.create({
+      limits: { textureSize: 4, textureArrayLayers: 2 },
+    });
+    const toodle = new Toodle(backend, null, { width: 3, height: 2 }, {});
+    const [r, g, b] = [
+      [255, 0, 0, 255],
+      [0, 255, 0, 255],
+      [0, 0, 255, 255],
+    ];
+    const [w, k, y] = [
+      [255, 255, 255, 255],
+      [0, 0, 0, 255],
+      [255, 255, 0, 255],
+    ];
+    const none = [0, 0, 0, 0, 0, 0, 0, 0];
+    // a 3x2 texture (red green blue / white black yellow) rotated clockwise
+    const pixels = new Uint8ClampedArray(
+      [
+        [...w, ...r, ...none],
+        [...k, ...g, ...none],
+        [...y, ...b, ...none],
+        [...none, ...none],
+      ].flat(),
+    );
+    await toodle.assets.extra.loadAtlas({
+      texture: null as unknown as ImageBitmap,
+      pixels,
+      textureRegions: new Map([
+        [
+          "rotated",
+          {
+            rotated: true,
+            uvOffset: { x: 0, y: 0 },
+            uvScale: { width: 3 / 4, height: 2 / 4 },
+            cropOffset: { x: 0, y: 0 },
+            originalSize: { width: 3, height: 2 },
+          },
+        ],
+      ]),
+      width: 4,
+      height: 4,
+    });
+    const quad = toodle.Quad("rotated");
+
+    toodle.startFrame();
+    toodle.draw(quad);
+    toodle.endFrame();
+
+    expect(pixelAt(backend, 0, 0)).toEqual(r);
+    expect(pixelAt(backend, 1, 0)).toEqual(g);
+    expect(pixelAt(backend, 2, 0)).toEqual(b);
+    expect(pixelAt(backend, 0, 1)).toEqual(w);
+    expect(pixelAt(backend, 1, 1)).toEqual(k);
+    expect(pixelAt(backend, 2, 1)).toEqual(y);
+  });
+
+  it("honours blend modes", async () => {
+    const { toodle, backend } = await createToodle(2, 1);
+    toodle.clearColor = { r: 0.5, g: 0, b: 0, a: 1 };
+    const additive = toodle.QuadShader("additive", 16, "", {
+      blendMode: {
+        color: { srcFactor: "one", dstFactor: "one", operation: "add" },
+        alpha: { srcFactor: "one", dstFactor: "one", operation: "add" },
+      },
+    });
+    const translucent = toodle.shapes.Rect({
+      size: { width: 1, height: 1 },
+      position: { x: -0.5, y: 0 },
+      color: { r: 0, g: 0, b: 1, a: 0.5 },
+    });
+    const added = toodle.shapes.Rect({
+      size: { width: 1, height: 1 },
+      position: { x: 0.5, y: 0 },
+      color: { r: 0, g: 1, b: 0, a: 1 },
+      shader: additive,
+    });
+
+    toodle.startFrame();
+    toodle.draw(translucent);
+    toodle.draw(added);
+    toodle.endFrame();
+
+    const [r, g, b, a] = pixelAt(backend, 0, 0);
+    expect(Math.abs(r - 64)).toBeLessThanOrEqual(1);
+    expect(g).toEqual(0);
+    expect(Math.abs(b - 128)).toBeLessThanOrEqual(1);
+    expect(a).toEqual(255);
+    expect(pixelAt(backend, 1, 0)).toEqual([128, 255, 0, 255]);
+  });
+
+  it("exports frames as png", async () => {
+    const { toodle, backend } = await createToodle(3, 2);
+    const rect = toodle.shapes.Rect({
+      size: { width: 1, height: 2 },
+      color: { r: 0, g: 0, b: 0, a: 1 },
+    });
+
+    toodle.startFrame();
+    toodle.draw(rect);
+    toodle.endFrame();
+
+    const png = backend.toPNG();
+    expect([...png.subarray(0, 8)]).toEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+
+    // IDAT data starts after the signature, the IHDR chunk and the IDAT length and type
+    const view = new DataView(png.buffer);
+    const idatLength = view.getUint32(33);
+    const scanlines = inflateSync(png.subarray(41, 41 + idatLength));
+    const pixels = backend.readPixels();
+    expect(scanlines.length).toEqual(2 * (3 * 4 + 1));
+    expect([...scanlines.subarray(1, 13)]).toEqual([...pixels.subarray(0, 12)]);
+    expect([...scanlines.subarray(1, 13)]).toEqual([
+      255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  it("matches the golden image of shapes and blending", async () => {
+    const { toodle, backend } = await createToodle(16, 16);
+    const circle = toodle.shapes.Circle({
+      radius: 5,
+      position: { x: -2, y: 2 },
+      color: { r: 0, g: 0, b: 1, a: 1 },
+    });
+    const rect = toodle.shapes.Rect({
+      size: { width: 8, height: 6 },
+      position: { x: 3, y: -2 },
+      rotation: 30,
+      color: { r: 1, g: 0, b: 0, a: 0.5 },
+    });
+
+    toodle.startFrame();
+    toodle.draw(circle);
+    toodle.draw(rect);
+    toodle.endFrame();
+
+    expectGolden(backend, "shapes");
+  });
+
+  it("matches the golden image of scaled and rotated textures", async () => {
+    const { toodle, backend } = await createToodle(16, 16);
+    await toodle.assets.extra.loadAtlas(checkerAtlas());
+    const quad = toodle.Quad("checker", {
+      size: { width: 8, height: 8 },
+      rotation: 45,
+      color: { r: 1, g: 1, b: 1, a: 0.75 },
+    });
+
+    toodle.startFrame();
+    toodle.draw(quad);
+    toodle.endFrame();
+
+    expectGolden(backend, "textures");
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { inflateSync } from "node:zlib";
+import type { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+
+// checked-in frames of the software backend, see expectGolden
+const GOLDEN_DIR = new URL("./__golden__/", import.meta.url);
+
+/**
+ * Compare the last frame of a software backend against a checked-in PNG.
+ *
+ * Run the tests with UPDATE_GOLDEN=1 to write missing or changed images
+ * instead of comparing them.
+ *
+ * @param backend - The backend that drew the frame
+ * @param name - The file name of the image without extension
+ */
+export function expectGolden(backend: SoftwareBackend, name: string) {
+  const file = new URL(`${name}.png`, GOLDEN_DIR);
+  if (process.env.UPDATE_GOLDEN) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(file, backend.toPNG());
+    return;
+  }
+  if (!existsSync(file)) {
+    throw new Error(
+      `Missing golden image ${name}.png, run with UPDATE_GOLDEN=1 to add it`,
+    );
+  }
+
+  const golden = decodePng(readFileSync(file));
+  expect({ width: backend.width, height: backend.height }).toEqual({
+    width: golden.width,
+    height: golden.height,
+  });
+
+  // report the differing pixels instead of a diff of every byte
+  const pixels = backend.readPixels();
+  const mismatches: string[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    const actual = [...pixels.subarray(i, i + 4)];
+    const expected = [...golden.pixels.subarray(i, i + 4)];
+    if (actual.join() !== expected.join()) {
+      const x = (i / 4) % golden.width;
+      const y = Math.floor(i / 4 / golden.width);
+      mismatches.push(`(${x}, ${y}): ${actual} instead of ${expected}`);
+    }
+  }
+  expect(mismatches).toEqual([]);
+}
+
+/**
+ * Decode an 8 bit RGBA PNG without scanline filters, as written by
+ * encodePng.
+ */
+function decodePng(png: Uint8Array) {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  if (png[24] !== 8 || png[25] !== 6) {
+    throw new Error("Golden images must be 8 bit RGBA");
+  }
+
+  // chunks start after the signature with their length and type
+  const idat: Uint8Array[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (type === "IDAT") {
+      idat.push(png.subarray(offset + 8, offset + 8 + length));
+    }
+    offset += length + 12;
+  }
+
+  const scanlines = inflateSync(Buffer.concat(idat));
+  const rowBytes = width * 4 + 1;
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    if (scanlines[y * rowBytes] !== 0) {
+      throw new Error("Golden images must not use scanline filters");
+    }
+    pixels.set(
+      scanlines.subarray(y * rowBytes + 1, (y + 1) * rowBytes),
+      y * width * 4,
+    );
+  }
+  return { width, height, pixels };
+}
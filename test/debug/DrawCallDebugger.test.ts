@@ -0,0 +1,108 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import type { DebugBatchInfo } from "../../src/debug/DrawCallDebugger";
+import { DEBUG_OUTLINE_LAYER } from "../../src/debug/DrawCallDebugger";
+import { Toodle } from "../../src/Toodle";
+
+async function createToodle() {
+  const backend = await NullBackend.create();
+  const toodle = new Toodle(backend, null, { width: 100, height: 100 }, {});
+  const printed: DebugBatchInfo[] = [];
+  toodle.debug.print = (info) => printed.push(info);
+
+  const custom = toodle.QuadShader("custom", 16, "");
+  const nodes = [
+    toodle.shapes.Rect({ layer: 0 }),
+    toodle.shapes.Rect({ layer: 0, shader: custom }),
+    toodle.shapes.Rect({ layer: 0, shader: custom }),
+    toodle.shapes.Rect({ layer: 1 }),
+  ];
+
+  const drawFrame = () => {
+    toodle.startFrame();
+    for (const node of nodes) toodle.draw(node);
+    toodle.endFrame();
+  };
+
+  return { toodle, backend, printed, drawFrame };
+}
+
+describe("DrawCallDebugger", () => {
+  it("draws every batch when disabled", async () => {
+    const { backend, printed, drawFrame } = await createToodle();
+    drawFrame();
+
+    expect(backend.drawCalls.map((d) => d.label)).toEqual([
+      "default quad shader",
+      "custom",
+      "default quad shader",
+    ]);
+    expect(printed).toEqual([]);
+  });
+
+  it("draws the first n batches and outlines the last one", async () => {
+    const { toodle, backend, printed, drawFrame } = await createToodle();
+    toodle.debug.enabled = true;
+    toodle.debug.step = 2;
+    drawFrame();
+
+    expect(backend.drawCalls.map((d) => d.label)).toEqual([
+      "default quad shader",
+      "custom",
+      "default quad shader",
+    ]);
+    const outlines = backend.drawCalls[2];
+    expect(outlines.layer).toEqual(DEBUG_OUTLINE_LAYER);
+    expect(outlines.nodes.length).toEqual(2);
+    expect(toodle.diagnostics.instancesEnqueued).toEqual(4);
+
+    expect(toodle.debug.currentBatch).toEqual({
+      index: 1,
+      batchCount: 3,
+      label: "custom",
+      layer: 0,
+      instanceCount: 2,
+    });
+    expect(printed.length).toEqual(1);
+  });
+
+  it("steps through batches and only prints changes", async () => {
+    const { toodle, printed, drawFrame } = await createToodle();
+    toodle.debug.enabled = true;
+
+    drawFrame();
+    drawFrame();
+    expect(printed.map((p) => p.index)).toEqual([0]);
+
+    toodle.debug.next();
+    toodle.debug.next();
+    toodle.debug.next();
+    drawFrame();
+    expect(toodle.debug.step).toEqual(3);
+    expect(printed.map((p) => p.index)).toEqual([0, 2]);
+    expect(printed[1].layer).toEqual(1);
+
+    toodle.debug.previous();
+    drawFrame();
+    expect(printed.map((p) => p.index)).toEqual([0, 2, 1]);
+  });
+
+  it("writes four edges per outlined node", async () => {
+    const { toodle } = await createToodle();
+    const rect = toodle.shapes.Rect({ size: { width: 10, height: 4 } });
+    const outline = toodle.debug.createOutline(
+      rect,
+      toodle.QuadShader("outline", 16, ""),
+      1,
+    );
+    const buffer = new Float32Array(28 * 4);
+
+    expect(outline.renderComponent?.writeInstance(outline, buffer, 0)).toEqual(
+      4,
+    );
+    // top edge runs left to right across the top of the rect
+    expect([...buffer.subarray(0, 2)]).toEqual([10, 0]);
+    expect([...buffer.subarray(8, 10)]).toEqual([0, 2]);
+    expect(new DataView(buffer.buffer).getUint32(24 * 4, true)).toEqual(1000);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { WebGLGpuTimer } from "../../src/backends/webgl2/WebGLGpuTimer";
+import { FrameTimings, RollingAverage } from "../../src/debug/FrameTimings";
+import { Toodle } from "../../src/Toodle";
+
+describe("RollingAverage", () => {
+  it("averages over a fixed window", () => {
+    const average = new RollingAverage(3);
+    expect(average.average).toEqual(0);
+
+    average.push(3);
+    average.push(6);
+    expect(average.average).toEqual(4.5);
+
+    average.push(9);
+    average.push(12);
+    expect(average.last).toEqual(12);
+    expect(average.average).toEqual(9);
+  });
+});
+
+describe("FrameTimings", () => {
+  it("accumulates batches per shader and layer", () => {
+    const timings = new FrameTimings(2);
+    timings.addEnqueue(1);
+    timings.addEnqueue(2);
+    timings.addBatch("default", 0, 1);
+    timings.addBatch("custom", 0, 2);
+    timings.addBatch("default", 1, 4);
+    timings.commit(10, 3, null);
+
+    expect(timings.toJSON()).toEqual({
+      enqueue: { last: 3, average: 3 },
+      endFrame: { last: 10, average: 10 },
+      submit: { last: 3, average: 3 },
+      gpu: null,
+      shaders: {
+        default: { last: 5, average: 5 },
+        custom: { last: 2, average: 2 },
+      },
+      layers: {
+        0: { last: 3, average: 3 },
+        1: { last: 4, average: 4 },
+      },
+    });
+
+    // shaders that aren't drawn decay towards 0
+    timings.addBatch("default", 0, 1);
+    timings.commit(4, 1, 2);
+    expect(timings.shaders.get("custom")?.average).toEqual(1);
+    expect(timings.layers.get(1)?.last).toEqual(0);
+    expect(timings.toJSON().gpu).toEqual({ last: 2, average: 2 });
+  });
+
+  it("is recorded by toodle", async () => {
+    const backend = await NullBackend.create();
+    const toodle = new Toodle(backend, null, { width: 100, height: 100 }, {});
+    const custom = toodle.QuadShader("custom", 16, "");
+
+    toodle.startFrame();
+    toodle.draw(toodle.shapes.Rect());
+    toodle.draw(toodle.shapes.Rect({ shader: custom, layer: 2 }));
+    toodle.endFrame();
+
+    const timings = toodle.diagnostics.timings;
+    expect([...timings.shaders.keys()]).toEqual([
+      "default quad shader",
+      "custom",
+    ]);
+    expect([...timings.layers.keys()]).toEqual([0, 2]);
+    expect(timings.endFrame.last).toBeGreaterThanOrEqual(0);
+    expect(timings.endFrame.last).toBeGreaterThanOrEqual(timings.submit.last);
+    expect(timings.toJSON().gpu).toBeNull();
+  });
+
+  it("pushes each gpu reading once", async () => {
+    const gl = fakeTimerQueryGl();
+    const timer = WebGLGpuTimer.create(gl as unknown as WebGL2RenderingContext);
+    const backend = await NullBackend.create();
+    Object.assign(backend, { takeGpuTime: () => timer!.takeTime() });
+    const toodle = new Toodle(backend, null, { width: 100, height: 100 }, {});
+    const gpu = () => toodle.diagnostics.timings.toJSON().gpu;
+    const frame = (nanoseconds?: number) => {
+      timer!.begin();
+      timer!.end();
+      if (nanoseconds !== undefined) gl.resolve(nanoseconds);
+      toodle.startFrame();
+      toodle.endFrame();
+    };
+
+    frame(4e6);
+    expect(gpu()).toEqual({ last: 4, average: 4 });
+
+    // no new reading, the last one isn't pushed again
+    frame();
+    frame();
+    gl.resolve(1e6);
+    frame();
+    expect(gpu()).toEqual({ last: 1, average: 2.5 });
+  });
+});
+
+// a gl context with timer queries that resolve when told to
+function fakeTimerQueryGl() {
+  let result: number | null = null;
+  return {
+    QUERY_RESULT_AVAILABLE: 1,
+    QUERY_RESULT: 2,
+    getExtension: () => ({ TIME_ELAPSED_EXT: 3, GPU_DISJOINT_EXT: 4 }),
+    createQuery: () => ({}),
+    beginQuery: () => {},
+    endQuery: () => {},
+    deleteQuery: () => {
+      result = null;
+    },
+    getParameter: () => false,
+    getQueryParameter: (_query: unknown, pname: number) =>
+      pname === 1 ? result !== null : result,
+    resolve: (nanoseconds: number) => {
+      result = nanoseconds;
+    },
+  };
+}
@@ -5,6 +5,7 @@ import {
   convertWorldToScreen,
   createModelMatrix,
   createProjectionMatrix,
+  getViewBounds,
 } from "../../src/math/matrix";
 import type { Point } from "../../src/mod";
 import { Camera } from "../../src/scene/Camera";
@@ -127,3 +128,35 @@ describe("coordinate conversion", () => {
     expect(worldCoordinates.y).toBeCloseTo(1000);
   });
 });
+
+describe("getViewBounds", () => {
+  it("accounts for camera position and zoom", () => {
+    const camera = new Camera();
+    camera.x = 100;
+    camera.y = -50;
+    camera.zoom = 2;
+
+    const bounds = getViewBounds(camera, { width: 200, height: 100 });
+
+    expect(bounds).toEqual({
+      x: 100,
+      y: -50,
+      left: 50,
+      right: 150,
+      top: -25,
+      bottom: -75,
+    });
+  });
+
+  it("contains the rotated view rectangle", () => {
+    const camera = new Camera();
+    camera.rotation = 90;
+
+    const bounds = getViewBounds(camera, { width: 200, height: 100 });
+
+    expect(bounds.left).toBeCloseTo(-50);
+    expect(bounds.right).toBeCloseTo(50);
+    expect(bounds.top).toBeCloseTo(100);
+    expect(bounds.bottom).toBeCloseTo(-100);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, expect, it } from "bun:test";
 import { Batcher } from "../../src/scene/Batcher";
 import type { RenderComponent } from "../../src/scene/RenderComponent";
-import { SceneNode } from "../../src/scene/SceneNode";
+import { type NodeOptions, SceneNode } from "../../src/scene/SceneNode";
 
 const render: RenderComponent = {
   shader: {
@@ -135,4 +135,74 @@ describe("Batcher", () => {
       expect(batcher.layers[0].pipelines[1].nodes).toEqual([second]);
     });
   });
+
+  describe("culling", () => {
+    const view = { x: 0, y: 0, left: -50, right: 50, top: 50, bottom: -50 };
+
+    function sizedNode(x: number, opts?: NodeOptions) {
+      return new SceneNode({
+        render,
+        position: { x, y: 0 },
+        size: { width: 10, height: 10 },
+        ...opts,
+      });
+    }
+
+    it("skips nodes outside of the view", () => {
+      const batcher = new Batcher();
+      const visible = sizedNode(0);
+      const edge = sizedNode(54);
+      const offscreen = sizedNode(100);
+
+      batcher.enqueue(visible, view);
+      batcher.enqueue(edge, view);
+      batcher.enqueue(offscreen, view);
+
+      expect(batcher.nodes).toEqual([visible, edge]);
+      expect(batcher.culledNodes).toEqual(1);
+    });
+
+    it("still visits the kids of a culled node", () => {
+      const batcher = new Batcher();
+      const parent = sizedNode(100);
+      const kid = parent.add(sizedNode(-100));
+
+      batcher.enqueue(parent, view);
+
+      expect(batcher.nodes).toEqual([kid]);
+      expect(batcher.culledNodes).toEqual(1);
+    });
+
+    it("skips whole subtrees outside of their subtree bounds", () => {
+      const batcher = new Batcher();
+      const container = new SceneNode({
+        position: { x: 200, y: 0 },
+        subtreeSize: { width: 100, height: 100 },
+      });
+      container.add(sizedNode(0));
+      container.add(sizedNode(10));
+
+      batcher.enqueue(container, view);
+
+      expect(batcher.nodes).toEqual([]);
+      expect(batcher.culledSubtrees).toEqual(1);
+      expect(batcher.culledNodes).toEqual(0);
+    });
+
+    it("never culls nodes without a size", () => {
+      const batcher = new Batcher();
+      const node = new SceneNode({ render, position: { x: 1000, y: 0 } });
+
+      batcher.enqueue(node, view);
+
+      expect(batcher.nodes).toEqual([node]);
+    });
+
+    it("resets culled counts on flush", () => {
+      const batcher = new Batcher();
+      batcher.enqueue(sizedNode(100), view);
+      batcher.flush();
+      expect(batcher.culledNodes).toEqual(0);
+    });
+  });
 });
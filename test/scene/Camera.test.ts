@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import { Camera } from "../../src/scene/Camera";
+import { Toodle } from "../../src/Toodle";
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+const blue = { r: 0, g: 0, b: 1, a: 1 };
+
+const leftHalf = { x: 0, y: 0, width: 0.5, height: 1 };
+const rightHalf = { x: 0.5, y: 0, width: 0.5, height: 1 };
+
+async function createSoftwareToodle() {
+  const backend = await SoftwareBackend.create({
+    limits: { textureSize: 2, textureArrayLayers: 2 },
+  });
+  const toodle = new Toodle(backend, null, { width: 8, height: 4 }, {});
+  toodle.clearColor = { r: 1, g: 1, b: 1, a: 1 };
+  return { toodle, backend };
+}
+
+function pixelAt(backend: SoftwareBackend, x: number, y: number) {
+  const i = (y * backend.width + x) * 4;
+  return [...backend.readPixels().subarray(i, i + 4)];
+}
+
+describe("Camera viewports", () => {
+  it("draws each camera into its own viewport", async () => {
+    const { toodle, backend } = await createSoftwareToodle();
+    const player2 = new Camera();
+    player2.x = 100;
+    toodle.camera.viewport = leftHalf;
+    player2.viewport = rightHalf;
+
+    toodle.startFrame();
+    toodle.draw(
+      toodle.shapes.Rect({ size: { width: 2, height: 2 }, color: red }),
+    );
+    toodle.draw(
+      toodle.shapes.Rect({
+        size: { width: 2, height: 2 },
+        position: { x: 100, y: 0 },
+        color: blue,
+      }),
+      { camera: player2 },
+    );
+    toodle.endFrame();
+
+    // each viewport is 4x4 pixels and the rects cover the 2x2 pixels in their centers
+    expect(pixelAt(backend, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(backend, 1, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 4, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(backend, 5, 1)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(backend, 6, 2)).toEqual([0, 0, 255, 255]);
+  });
+
+  it("clips draws to the viewport", async () => {
+    const { toodle, backend } = await createSoftwareToodle();
+    toodle.camera.viewport = leftHalf;
+
+    toodle.startFrame();
+    toodle.draw(
+      toodle.shapes.Rect({ size: { width: 100, height: 100 }, color: red }),
+    );
+    toodle.endFrame();
+
+    expect(pixelAt(backend, 3, 3)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 4, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it("draws the default camera first and other cameras in the order they were drawn with", async () => {
+    const backend = await NullBackend.create();
+    const toodle = new Toodle(backend, null, { width: 100, height: 100 }, {});
+    const minimap = new Camera();
+    minimap.viewport = { x: 0.75, y: 0, width: 0.25, height: 0.25 };
+    const world = toodle.shapes.Rect();
+    const marker = toodle.shapes.Rect();
+
+    toodle.startFrame();
+    toodle.draw(marker, { camera: minimap });
+    toodle.draw(world);
+    toodle.draw(world, { camera: toodle.camera });
+    toodle.endFrame();
+
+    expect(backend.drawCalls.map((call) => call.viewport)).toEqual([
+      null,
+      minimap.viewport,
+    ]);
+    expect(backend.drawCalls[0].nodes).toEqual([world, world]);
+    expect(backend.drawCalls[1].nodes).toEqual([marker]);
+    expect(toodle.diagnostics.instancesEnqueued).toEqual(3);
+    expect(backend.engineUniform?.camera).toBe(minimap);
+  });
+
+  it("converts between screen and world space within a viewport", async () => {
+    const backend = await NullBackend.create();
+    const toodle = new Toodle(backend, null, { width: 200, height: 100 }, {});
+    const camera = new Camera();
+    camera.x = 50;
+    camera.viewport = rightHalf;
+
+    const world = toodle.convertSpace(
+      { x: 150, y: 50 },
+      { from: "screen", to: "world", camera },
+    );
+    expect(world.x).toBeCloseTo(50);
+    expect(world.y).toBeCloseTo(0);
+
+    const screen = toodle.convertSpace(
+      { x: 60, y: 10 },
+      { from: "world", to: "screen", camera },
+    );
+    expect(screen.x).toBeCloseTo(160);
+    expect(screen.y).toBeCloseTo(40);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { CameraController } from "../../src/scene/CameraController";
+import { SceneNode } from "../../src/scene/SceneNode";
+import { Toodle } from "../../src/Toodle";
+
+async function createToodle() {
+  const backend = await NullBackend.create();
+  return new Toodle(backend, null, { width: 200, height: 100 }, {});
+}
+
+describe("CameraController", () => {
+  it("snaps to its target without smoothing", async () => {
+    const toodle = await createToodle();
+    const player = new SceneNode({ position: { x: 30, y: -20 } });
+    const controller = new CameraController(toodle, {
+      target: player,
+      smoothTime: 0,
+    });
+
+    controller.update(1 / 60);
+    expect(toodle.camera.x).toBeCloseTo(30);
+    expect(toodle.camera.y).toBeCloseTo(-20);
+  });
+
+  it("eases towards its target", async () => {
+    const toodle = await createToodle();
+    const player = new SceneNode({ position: { x: 100, y: 0 } });
+    const controller = new CameraController(toodle, {
+      target: player,
+      smoothTime: 1,
+    });
+
+    controller.update(1);
+    expect(toodle.camera.x).toBeCloseTo(100 * (1 - Math.exp(-1)));
+  });
+
+  it("doesn't move while the target is inside of the deadzone", async () => {
+    const toodle = await createToodle();
+    const player = new SceneNode({ position: { x: 10, y: 0 } });
+    const controller = new CameraController(toodle, {
+      target: player,
+      smoothTime: 0,
+      deadzone: { width: 40, height: 40 },
+    });
+
+    controller.update(0.1);
+    expect(toodle.camera.x).toBeCloseTo(0);
+
+    player.x = 50;
+    controller.update(0.1);
+    expect(toodle.camera.x).toBeCloseTo(30);
+  });
+
+  it("keeps the view inside of the bounds at any zoom", async () => {
+    const toodle = await createToodle();
+    const player = new SceneNode({ position: { x: -1000, y: 0 } });
+    const controller = new CameraController(toodle, {
+      target: player,
+      smoothTime: 0,
+      bounds: { left: -500, right: 500, top: 500, bottom: -500 },
+    });
+
+    controller.update(0.1);
+    expect(toodle.camera.x).toBeCloseTo(-400);
+
+    toodle.camera.zoom = 0.5;
+    controller.update(0.1);
+    expect(toodle.camera.x).toBeCloseTo(-300);
+
+    // the view is wider than the bounds, so it is centered
+    toodle.camera.zoom = 0.1;
+    controller.update(0.1);
+    expect(toodle.camera.x).toBeCloseTo(0);
+  });
+
+  it("zooms around a screen point", async () => {
+    const toodle = await createToodle();
+    const controller = new CameraController(toodle);
+    const point = { x: 150, y: 25 };
+    const before = toodle.convertSpace(point, { from: "screen", to: "world" });
+
+    controller.zoomAt(point, 3);
+    const after = toodle.convertSpace(point, { from: "screen", to: "world" });
+    expect(toodle.camera.zoom).toEqual(3);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+
+  it("shakes deterministically and settles once trauma decays", async () => {
+    const positions = [];
+    for (let run = 0; run < 2; run++) {
+      const toodle = await createToodle();
+      const controller = new CameraController(toodle, {
+        shake: { decay: 2 },
+      });
+      controller.addTrauma(2);
+      expect(controller.trauma).toEqual(1);
+
+      const path = [];
+      for (let i = 0; i < 5; i++) {
+        controller.update(0.05);
+        path.push([toodle.camera.x, toodle.camera.y, toodle.camera.rotation]);
+      }
+      positions.push(path);
+
+      controller.update(1);
+      expect(controller.trauma).toEqual(0);
+      controller.update(0.05);
+      expect(toodle.camera.x).toEqual(0);
+      expect(toodle.camera.rotation).toEqual(0);
+    }
+
+    expect(positions[0]).toEqual(positions[1]);
+    expect(positions[0].some(([x]) => Math.abs(x) > 0.1)).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import { FRAME_CAPTURE_VERSION } from "../../src/scene/FrameCapture";
+import { Toodle } from "../../src/Toodle";
+
+async function createToodle() {
+  const backend = await SoftwareBackend.create({
+    limits: { textureSize: 2, textureArrayLayers: 2 },
+  });
+  const toodle = new Toodle(backend, null, { width: 16, height: 16 }, {});
+  return { toodle, backend };
+}
+
+describe("FrameCapture", () => {
+  it("captures layers, shaders and instance data", async () => {
+    const { toodle } = await createToodle();
+    const shader = toodle.QuadShader("custom", 16, "");
+    const rect = toodle.shapes.Rect({ size: { width: 2, height: 3 } });
+    const top = toodle.shapes.Rect({ layer: 1, shader });
+
+    toodle.camera.x = 5;
+    toodle.startFrame();
+    toodle.draw(top);
+    toodle.draw(rect);
+    const capture = toodle.captureFrame();
+    toodle.endFrame();
+
+    expect(capture.version).toEqual(FRAME_CAPTURE_VERSION);
+    expect(capture.resolution).toEqual({ width: 16, height: 16 });
+    expect(capture.camera.x).toEqual(5);
+    expect(capture.layers.map((l) => l.z)).toEqual([0, 1]);
+    expect(capture.layers[0].batches[0].shader).toEqual("default quad shader");
+    expect(capture.layers[1].batches[0].shader).toEqual("custom");
+
+    const node = capture.layers[0].batches[0].nodes[0];
+    expect(node.id).toEqual(rect.id);
+    expect(node.instances).toEqual(1);
+    const bytes = Uint8Array.from(atob(node.data), (c) => c.charCodeAt(0));
+    const data = new Float32Array(bytes.buffer);
+    // model matrix with size applied, then a white tint
+    expect([data[0], data[5]]).toEqual([2, 3]);
+    expect([...data.subarray(12, 16)]).toEqual([1, 1, 1, 1]);
+    expect(new DataView(bytes.buffer).getUint32(24 * 4, true)).toEqual(1000);
+  });
+
+  it("replays a frame to the same pixels", async () => {
+    const { toodle, backend } = await createToodle();
+    toodle.clearColor = { r: 0, g: 0, b: 0, a: 1 };
+    toodle.camera.zoom = 2;
+
+    toodle.startFrame();
+    toodle.draw(
+      toodle.shapes.Rect({
+        size: { width: 3, height: 2 },
+        position: { x: -1, y: 1 },
+        rotation: 30,
+        color: { r: 1, g: 0, b: 0, a: 1 },
+      }),
+    );
+    toodle.draw(
+      toodle.shapes.Circle({
+        radius: 2,
+        layer: 1,
+        color: { r: 0, g: 0, b: 1, a: 0.5 },
+      }),
+    );
+    const capture = toodle.captureFrame();
+    toodle.endFrame();
+    const expected = backend.readPixels();
+
+    const replay = await createToodle();
+    replay.toodle.replayFrame(JSON.parse(JSON.stringify(capture)));
+
+    expect(replay.backend.readPixels()).toEqual(expected);
+    expect(replay.toodle.diagnostics.drawCalls).toEqual(2);
+    expect(replay.toodle.diagnostics.frames).toEqual(1);
+  });
+
+  it("resolves custom shaders by label", async () => {
+    const { toodle } = await createToodle();
+    const shader = toodle.QuadShader("custom", 16, "");
+
+    toodle.startFrame();
+    toodle.draw(toodle.shapes.Rect({ shader }));
+    const capture = toodle.captureFrame();
+    toodle.endFrame();
+
+    const backend = await NullBackend.create();
+    const replay = new Toodle(backend, null, { width: 16, height: 16 }, {});
+    expect(() => replay.replayFrame(capture)).toThrow(/custom/);
+
+    const replayShader = replay.QuadShader("custom", 16, "");
+    replay.replayFrame(capture, { shaders: { custom: replayShader } });
+    expect(backend.drawCalls.length).toEqual(1);
+    expect(backend.drawCalls[0].shader).toBe(replayShader);
+  });
+
+  it("rejects unknown versions", async () => {
+    const { toodle } = await createToodle();
+    toodle.startFrame();
+    const capture = toodle.captureFrame();
+    toodle.endFrame();
+
+    expect(() => toodle.replayFrame({ ...capture, version: 99 })).toThrow(
+      /version/,
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import { SceneNode } from "../../src/scene/SceneNode";
+import { Toodle } from "../../src/Toodle";
+
+// screen (100, 50) is the world origin
+async function createToodle() {
+  const backend = await NullBackend.create();
+  return new Toodle(backend, null, { width: 200, height: 100 }, {});
+}
+
+describe("toodle.pick", () => {
+  it("tests against the rotated quad of a node", async () => {
+    const toodle = await createToodle();
+    const root = new SceneNode();
+    const bar = root.add(
+      toodle.shapes.Rect({ size: { width: 10, height: 2 }, rotation: 90 }),
+    );
+
+    expect(toodle.pick({ x: 100, y: 46 }, root)).toBe(bar);
+    expect(toodle.pick({ x: 104, y: 50 }, root)).toBeNull();
+  });
+
+  it("returns the topmost node by layer and draw order", async () => {
+    const toodle = await createToodle();
+    const size = { width: 10, height: 10 };
+    const root = new SceneNode();
+    const top = root.add(toodle.shapes.Rect({ size, layer: 1 }));
+    const first = root.add(toodle.shapes.Rect({ size }));
+    const second = root.add(toodle.shapes.Rect({ size }));
+    const hud = root.add(
+      toodle.shapes.Rect({ size, space: "screen", layer: -1 }),
+    );
+
+    expect(toodle.pickAll({ x: 100, y: 50 }, root)).toEqual([
+      hud,
+      top,
+      second,
+      first,
+    ]);
+
+    hud.isActive = false;
+    top.isActive = false;
+    expect(toodle.pick({ x: 100, y: 50 }, root)).toBe(second);
+  });
+
+  it("positions screen space nodes without the camera transform", async () => {
+    const toodle = await createToodle();
+    toodle.camera.x = 1000;
+    const root = new SceneNode();
+    const world = root.add(
+      toodle.shapes.Rect({ size: { width: 10, height: 10 } }),
+    );
+    const hud = root.add(
+      toodle.shapes.Rect({
+        size: { width: 10, height: 10 },
+        position: { x: -80, y: 30 },
+        space: "screen",
+      }),
+    );
+
+    expect(toodle.pick({ x: 20, y: 20 }, root)).toBe(hud);
+    expect(toodle.pick({ x: 100, y: 50 }, root)).toBeNull();
+
+    toodle.camera.x = 0;
+    expect(toodle.pick({ x: 100, y: 50 }, root)).toBe(world);
+  });
+
+  it("ignores points outside of the camera's viewport", async () => {
+    const toodle = await createToodle();
+    toodle.camera.viewport = { x: 0, y: 0, width: 0.5, height: 1 };
+    const rect = toodle.shapes.Rect({ size: { width: 1000, height: 1000 } });
+
+    expect(toodle.pick({ x: 50, y: 50 }, rect)).toBe(rect);
+    expect(toodle.pick({ x: 150, y: 50 }, rect)).toBeNull();
+  });
+
+  it("optionally tests the alpha of textures", async () => {
+    const backend = await SoftwareBackend.create({
+      limits: { textureSize: 2, textureArrayLayers: 2 },
+    });
+    const toodle = new Toodle(backend, null, { width: 8, height: 8 }, {});
+    toodle.assets.bundles.registerDynamicBundle("sprites", [
+      {
+        texture: null as unknown as ImageBitmap,
+        // 2x2 texture where only the top left texel is opaque
+        pixels: new Uint8ClampedArray([
+          255, 0, 0, 255, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+        ]),
+        textureRegions: new Map([
+          [
+            "corner",
+            {
+              uvOffset: { x: 0, y: 0 },
+              uvScale: { width: 1, height: 1 },
+              cropOffset: { x: 0, y: 0 },
+              originalSize: { width: 2, height: 2 },
+            },
+          ],
+        ]),
+        width: 2,
+        height: 2,
+      },
+    ]);
+    await toodle.assets.loadBundle("sprites");
+    const quad = toodle.Quad("corner", { size: { width: 4, height: 4 } });
+    const options = { alphaThreshold: 0 };
+
+    expect(toodle.pick({ x: 2, y: 2 }, quad, options)).toBe(quad);
+    expect(toodle.pick({ x: 6, y: 2 }, quad, options)).toBeNull();
+    expect(toodle.pick({ x: 6, y: 2 }, quad)).toBe(quad);
+
+    quad.flipX = true;
+    expect(toodle.pick({ x: 6, y: 2 }, quad, options)).toBe(quad);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import { snapInstances } from "../../src/backends/pixelSnap";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import { Toodle } from "../../src/Toodle";
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+const white = [255, 255, 255, 255];
+const black = [0, 0, 0, 255];
+
+// a 4x2 virtual resolution on an 8x6 canvas is scaled by 2 with a letterbox row above and below
+async function createPixelPerfectToodle() {
+  const backend = await SoftwareBackend.create({
+    limits: { textureSize: 4, textureArrayLayers: 2 },
+  });
+  const toodle = new Toodle(
+    backend,
+    null,
+    { width: 8, height: 6 },
+    { filter: "nearest", pixelPerfect: { width: 4, height: 2 } },
+  );
+  toodle.clearColor = { r: 1, g: 1, b: 1, a: 1 };
+  return { toodle, backend };
+}
+
+function pixelAt(backend: SoftwareBackend, x: number, y: number) {
+  const i = (y * backend.width + x) * 4;
+  return [...backend.readPixels().subarray(i, i + 4)];
+}
+
+describe("pixel perfect mode", () => {
+  it("scales the virtual frame by whole numbers and letterboxes it", async () => {
+    const { toodle, backend } = await createPixelPerfectToodle();
+
+    toodle.startFrame();
+    toodle.draw(
+      toodle.shapes.Rect({ size: { width: 2, height: 2 }, color: red }),
+    );
+    toodle.endFrame();
+
+    expect(pixelAt(backend, 0, 0)).toEqual(black);
+    expect(pixelAt(backend, 7, 5)).toEqual(black);
+    expect(pixelAt(backend, 1, 1)).toEqual(white);
+    expect(pixelAt(backend, 2, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 5, 4)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 6, 4)).toEqual(white);
+  });
+
+  it("uses the virtual resolution for cameras", async () => {
+    const { toodle } = await createPixelPerfectToodle();
+    expect(toodle.viewResolution()).toEqual({ width: 4, height: 2 });
+  });
+
+  it("converts points through the letterbox", async () => {
+    const { toodle } = await createPixelPerfectToodle();
+    const options = { from: "screen", to: "world" } as const;
+
+    expect(toodle.convertSpace({ x: 4, y: 3 }, options)).toEqual({
+      x: 0,
+      y: 0,
+    });
+    expect(toodle.convertSpace({ x: 0, y: 1 }, options)).toEqual({
+      x: -2,
+      y: 1,
+    });
+    expect(
+      toodle.convertSpace({ x: 1, y: 0 }, { from: "world", to: "screen" }),
+    ).toEqual({ x: 6, y: 3 });
+  });
+
+  it("snaps instance translations to whole pixels", () => {
+    const floatsPerInstance = 12;
+    const data = new Float32Array(floatsPerInstance * 2);
+    data[8] = 0.4;
+    data[9] = 1.3;
+    data[floatsPerInstance + 8] = 0.4;
+
+    snapInstances(data, 0, 1, floatsPerInstance, 2);
+
+    expect([data[8], data[9]]).toEqual([0.5, 1.5]);
+    // instances outside of the range are left alone
+    expect(data[floatsPerInstance + 8]).toBeCloseTo(0.4);
+  });
+});
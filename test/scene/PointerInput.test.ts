@@ -0,0 +1,137 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { SceneNode } from "../../src/scene/SceneNode";
+import { Toodle } from "../../src/Toodle";
+
+const size = { width: 10, height: 10 };
+// screen (100, 50) is the world origin
+const center = { x: 100, y: 50 };
+const outside = { x: 150, y: 50 };
+
+async function createToodle() {
+  const backend = await NullBackend.create();
+  const toodle = new Toodle(backend, null, { width: 200, height: 100 }, {});
+  const root = new SceneNode();
+  toodle.pointer.root = root;
+  return { toodle, root };
+}
+
+describe("pointer events", () => {
+  it("bubbles events up the parents until propagation is stopped", async () => {
+    const { toodle, root } = await createToodle();
+    const button = root.add(toodle.shapes.Rect({ size, interactive: true }));
+    const calls: string[] = [];
+    root.on("click", (e) => {
+      calls.push(`root ${e.target === button} ${e.currentTarget === root}`);
+    });
+    const off = button.on("click", (e) => {
+      calls.push("button");
+      e.stopPropagation();
+    });
+    button.on("click", () => calls.push("button again"));
+
+    toodle.pointer.pointerDown(center);
+    toodle.pointer.pointerUp(center);
+    expect(calls).toEqual(["button", "button again"]);
+
+    off();
+    calls.length = 0;
+    toodle.pointer.pointerDown(center);
+    toodle.pointer.pointerUp(center);
+    expect(calls).toEqual(["button again", "root true true"]);
+  });
+
+  it("skips nodes that aren't interactive", async () => {
+    const { toodle, root } = await createToodle();
+    const below = root.add(toodle.shapes.Rect({ size, interactive: true }));
+    const above = root.add(toodle.shapes.Rect({ size, layer: 1 }));
+    const targets: SceneNode[] = [];
+    below.on("pointerdown", (e) => targets.push(e.target));
+    above.on("pointerdown", (e) => targets.push(e.target));
+
+    expect(toodle.pointer.pointerDown(center)).toBe(below);
+    above.interactive = true;
+    expect(toodle.pointer.pointerDown(center)).toBe(above);
+    expect(targets).toEqual([below, above]);
+  });
+
+  it("dispatches enter and leave when the hovered node changes", async () => {
+    const { toodle, root } = await createToodle();
+    const group = root.add(new SceneNode());
+    const left = group.add(
+      toodle.shapes.Rect({
+        size,
+        position: { x: -5, y: 0 },
+        interactive: true,
+      }),
+    );
+    const right = group.add(
+      toodle.shapes.Rect({
+        size,
+        position: { x: 5, y: 0 },
+        interactive: true,
+      }),
+    );
+    const calls: string[] = [];
+    for (const [name, node] of [
+      ["group", group],
+      ["left", left],
+      ["right", right],
+    ] as const) {
+      node.on("pointerenter", () => calls.push(`enter ${name}`));
+      node.on("pointerleave", () => calls.push(`leave ${name}`));
+    }
+
+    toodle.pointer.pointerMove({ x: 95, y: 50 });
+    expect(toodle.pointer.hovered()).toBe(left);
+    toodle.pointer.pointerMove({ x: 105, y: 50 });
+    toodle.pointer.pointerMove(outside);
+
+    expect(calls).toEqual([
+      "enter group",
+      "enter left",
+      "leave left",
+      "enter right",
+      "leave right",
+      "leave group",
+    ]);
+    expect(toodle.pointer.hovered()).toBeNull();
+  });
+
+  it("captures the pointer while dragging", async () => {
+    const { toodle, root } = await createToodle();
+    const piece = root.add(toodle.shapes.Rect({ size, interactive: true }));
+    const calls: string[] = [];
+    piece.on("drag", (e) => {
+      piece.x += e.delta.x;
+      piece.y += e.delta.y;
+    });
+    piece.on("pointerup", () => calls.push("pointerup"));
+    piece.on("click", () => calls.push("click"));
+
+    toodle.pointer.pointerDown(center);
+    toodle.pointer.pointerMove({ x: 120, y: 50 });
+    toodle.pointer.pointerMove({ x: 140, y: 40 });
+    expect(piece.position).toEqual({ x: 40, y: 10 });
+
+    // the piece moved along, so it is released over itself
+    toodle.pointer.pointerUp({ x: 140, y: 40 });
+    expect(calls).toEqual(["pointerup", "click"]);
+
+    // after the release the piece no longer follows the pointer
+    toodle.pointer.pointerMove(center);
+    expect(piece.position).toEqual({ x: 40, y: 10 });
+  });
+
+  it("doesn't click when released outside of the pressed node", async () => {
+    const { toodle, root } = await createToodle();
+    const button = root.add(toodle.shapes.Rect({ size, interactive: true }));
+    const calls: string[] = [];
+    button.on("pointerup", () => calls.push("pointerup"));
+    button.on("click", () => calls.push("click"));
+
+    toodle.pointer.pointerDown(center);
+    toodle.pointer.pointerUp(outside);
+    expect(calls).toEqual(["pointerup"]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import { createProjectionMatrix } from "../../src/math/matrix";
+import { Batcher } from "../../src/scene/Batcher";
+import { SceneNode } from "../../src/scene/SceneNode";
+import { getAnchorBounds } from "../../src/screen/anchor";
+import { Toodle } from "../../src/Toodle";
+
+async function createToodle() {
+  const backend = await NullBackend.create();
+  const toodle = new Toodle(backend, null, { width: 200, height: 100 }, {});
+  return { toodle, backend };
+}
+
+describe("screen space", () => {
+  it("inherits the space from ancestors", () => {
+    const hud = new SceneNode({ space: "screen" });
+    const icon = hud.add(new SceneNode());
+    const world = new SceneNode();
+
+    expect(hud.space).toEqual("screen");
+    expect(icon.space).toEqual("screen");
+    expect(world.space).toEqual("world");
+
+    hud.space = "world";
+    expect(icon.space).toEqual("world");
+  });
+
+  it("moves screen space subtrees into the screen batcher", () => {
+    const batcher = new Batcher();
+    batcher.screen = new Batcher();
+    const render = { shader: {} as never, writeInstance: () => 1 };
+    const root = new SceneNode({ render });
+    const hud = root.add(new SceneNode({ render, space: "screen" }));
+    const icon = hud.add(new SceneNode({ render }));
+
+    batcher.enqueue(root);
+    expect(batcher.nodes).toEqual([root]);
+    expect(batcher.screen.nodes).toEqual([hud, icon]);
+
+    batcher.flush();
+    expect(batcher.screen.nodes).toEqual([]);
+  });
+
+  it("draws screen space descendants of culled world subtrees", async () => {
+    const { toodle, backend } = await createToodle();
+    toodle.culling = true;
+    const offscreen = new SceneNode({
+      position: { x: 1000, y: 0 },
+      subtreeSize: { width: 10, height: 10 },
+    });
+    const label = offscreen.add(toodle.shapes.Rect());
+    const hud = offscreen.add(toodle.shapes.Rect({ space: "screen" }));
+
+    toodle.startFrame();
+    toodle.draw(offscreen);
+    toodle.endFrame();
+
+    expect(toodle.diagnostics.subtreesCulled).toEqual(1);
+    expect(backend.drawCalls.map((call) => call.nodes)).toEqual([[hud]]);
+    expect(backend.drawCalls.flatMap((call) => call.nodes)).not.toContain(
+      label,
+    );
+  });
+
+  it("draws screen space nodes after the world without the camera transform", async () => {
+    const { toodle, backend } = await createToodle();
+    toodle.camera.x = 50;
+    toodle.camera.zoom = 2;
+    const hud = toodle.shapes.Rect({ space: "screen", layer: -1 });
+    const world = toodle.shapes.Rect({ layer: 1 });
+
+    toodle.startFrame();
+    toodle.draw(hud);
+    toodle.draw(world);
+    toodle.endFrame();
+
+    expect(backend.drawCalls.map((call) => call.nodes)).toEqual([
+      [world],
+      [hud],
+    ]);
+    expect(backend.engineUniform?.camera).not.toBe(toodle.camera);
+    expect(Array.from(backend.engineUniform!.viewProjectionMatrix)).toEqual(
+      Array.from(createProjectionMatrix({ width: 200, height: 100 })),
+    );
+    expect(toodle.diagnostics.instancesEnqueued).toEqual(2);
+  });
+
+  it("keeps screen space quads in place when the camera moves", async () => {
+    const backend = await SoftwareBackend.create({
+      limits: { textureSize: 2, textureArrayLayers: 2 },
+    });
+    const toodle = new Toodle(backend, null, { width: 4, height: 4 }, {});
+    toodle.clearColor = { r: 1, g: 1, b: 1, a: 1 };
+    toodle.camera.x = 100;
+    const hud = toodle.shapes.Rect({
+      size: { width: 2, height: 2 },
+      color: { r: 1, g: 0, b: 0, a: 1 },
+      space: "screen",
+    });
+    toodle.anchor(hud, "top-left");
+
+    toodle.startFrame();
+    toodle.draw(hud);
+    toodle.endFrame();
+
+    const pixels = backend.readPixels();
+    expect([...pixels.subarray(0, 4)]).toEqual([255, 0, 0, 255]);
+    expect([...pixels.subarray((2 * 4 + 2) * 4, (2 * 4 + 3) * 4)]).toEqual([
+      255, 255, 255, 255,
+    ]);
+  });
+
+  it("anchors nodes to the edges of the screen", async () => {
+    const { toodle } = await createToodle();
+    const node = toodle.shapes.Rect({ size: { width: 20, height: 10 } });
+
+    toodle.anchor(node, "bottom-right", { margin: 5 });
+    expect(node.bounds.right).toBeCloseTo(95);
+    expect(node.bounds.bottom).toBeCloseTo(-45);
+
+    toodle.anchor(node, "top");
+    expect(node.bounds.x).toBeCloseTo(0);
+    expect(node.bounds.top).toBeCloseTo(50);
+
+    expect(getAnchorBounds("center", { width: 10, height: 10 })).toEqual({
+      x: 0,
+      y: 0,
+    });
+  });
+});
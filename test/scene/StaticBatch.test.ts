@@ -0,0 +1,171 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import { Toodle } from "../../src/Toodle";
+
+async function createToodle() {
+  const backend = await NullBackend.create();
+  const toodle = new Toodle(backend, null, { width: 100, height: 100 }, {});
+  return { toodle, backend };
+}
+
+describe("StaticBatch", () => {
+  it("draws a baked subtree with one draw call per layer and shader", async () => {
+    const { toodle, backend } = await createToodle();
+    const root = toodle.Node();
+    const a = root.add(toodle.shapes.Rect());
+    const b = root.add(toodle.shapes.Rect());
+    const batch = toodle.createStaticBatch(root);
+
+    toodle.startFrame();
+    toodle.draw(batch);
+    toodle.endFrame();
+
+    expect(backend.drawCalls.length).toEqual(1);
+    expect(backend.drawCalls[0].isStatic).toEqual(true);
+    expect(backend.drawCalls[0].nodes).toEqual([a, b]);
+    expect(toodle.diagnostics.drawCalls).toEqual(1);
+  });
+
+  it("interleaves with immediate nodes by layer", async () => {
+    const { toodle, backend } = await createToodle();
+    const root = toodle.Node();
+    root.add(toodle.shapes.Rect({ layer: 0 }));
+    root.add(toodle.shapes.Rect({ layer: 2 }));
+    const batch = toodle.createStaticBatch(root);
+    const middle = toodle.shapes.Rect({ layer: 1 });
+    const sameLayer = toodle.shapes.Rect({ layer: 2 });
+
+    toodle.startFrame();
+    toodle.draw(batch);
+    toodle.draw(middle);
+    toodle.draw(sameLayer);
+    toodle.endFrame();
+
+    expect(
+      backend.drawCalls.map((d) => [d.layer, d.isStatic, d.nodes.length]),
+    ).toEqual([
+      [0, true, 1],
+      [1, false, 1],
+      [2, true, 1],
+      [2, false, 1],
+    ]);
+  });
+
+  it("only rebakes after a node inside is marked dirty", async () => {
+    const { toodle } = await createToodle();
+    const root = toodle.Node();
+    const kid = root.add(toodle.Node()).add(toodle.shapes.Rect());
+    const batch = toodle.createStaticBatch(root);
+
+    for (let i = 0; i < 3; i++) {
+      toodle.startFrame();
+      toodle.draw(batch);
+      toodle.endFrame();
+    }
+    expect(batch.bakes).toEqual(1);
+
+    kid.x = 10;
+    expect(batch.isDirty).toEqual(true);
+
+    toodle.startFrame();
+    toodle.draw(batch);
+    toodle.endFrame();
+    expect(batch.bakes).toEqual(2);
+  });
+
+  it("is invalidated when kids are added or removed", async () => {
+    const { toodle, backend } = await createToodle();
+    const root = toodle.Node();
+    const first = root.add(toodle.shapes.Rect());
+    const batch = toodle.createStaticBatch(root);
+    batch.bake();
+
+    const second = root.add(toodle.shapes.Rect());
+    expect(batch.isDirty).toEqual(true);
+    batch.bake();
+
+    root.remove(first);
+    expect(batch.isDirty).toEqual(true);
+
+    toodle.startFrame();
+    toodle.draw(batch);
+    toodle.endFrame();
+    expect(backend.drawCalls[0].nodes).toEqual([second]);
+
+    // removed nodes no longer invalidate the batch
+    first.x = 10;
+    expect(batch.isDirty).toEqual(false);
+  });
+
+  it("renders the same pixels as immediate mode", async () => {
+    async function render(isStatic: boolean) {
+      const backend = await SoftwareBackend.create();
+      const toodle = new Toodle(backend, null, { width: 8, height: 8 }, {});
+      const root = toodle.Node();
+      root.add(
+        toodle.shapes.Rect({
+          size: { width: 4, height: 4 },
+          color: { r: 1, g: 0, b: 0, a: 1 },
+        }),
+      );
+      toodle.startFrame();
+      toodle.draw(isStatic ? toodle.createStaticBatch(root) : root);
+      toodle.endFrame();
+      return backend.readPixels();
+    }
+
+    expect(await render(true)).toEqual(await render(false));
+  });
+
+  it("snaps baked instances in pixel perfect mode", async () => {
+    async function render(isStatic: boolean) {
+      const backend = await SoftwareBackend.create();
+      const toodle = new Toodle(
+        backend,
+        null,
+        { width: 8, height: 4 },
+        { pixelPerfect: { width: 4, height: 2 } },
+      );
+      // covers one virtual pixel unsnapped and two snapped
+      const rect = toodle.shapes.Rect({
+        size: { width: 1.5, height: 2 },
+        position: { x: 0.3, y: 0 },
+        color: { r: 1, g: 0, b: 0, a: 1 },
+      });
+      toodle.startFrame();
+      toodle.draw(isStatic ? toodle.createStaticBatch(rect) : rect);
+      toodle.endFrame();
+      return backend.readPixels();
+    }
+
+    expect(await render(true)).toEqual(await render(false));
+  });
+
+  it("draws screen space descendants with the screen space nodes", async () => {
+    const { toodle, backend } = await createToodle();
+    const root = toodle.Node();
+    const tile = root.add(toodle.shapes.Rect());
+    const hud = root.add(toodle.shapes.Rect({ space: "screen" }));
+    const icon = hud.add(toodle.shapes.Rect());
+    const batch = toodle.createStaticBatch(root);
+
+    toodle.startFrame();
+    toodle.draw(batch);
+    toodle.endFrame();
+
+    expect(
+      backend.drawCalls.map((call) => [call.isStatic, call.nodes]),
+    ).toEqual([
+      [true, [tile]],
+      [false, [hud, icon]],
+    ]);
+    expect(batch.screenNodes).toEqual([hud]);
+
+    // screen space nodes are drawn every frame, changing them needs no rebake
+    icon.x = 10;
+    expect(batch.isDirty).toEqual(false);
+    hud.space = "world";
+    expect(batch.isDirty).toEqual(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "bun:test";
+import { WgslReflect } from "wgsl_reflect";
+import type { ITextShader } from "../../src/backends/ITextShader";
+import {
+  fragmentShader,
+  vertexShader,
+} from "../../src/backends/webgl2/glsl/text.glsl";
+import { TEXT_EFFECT_UNIFORMS } from "../../src/backends/webgl2/WebGLTextShader";
+import { writeTextDescriptor } from "../../src/backends/webgpu/WebGPUTextShader";
+import textWgsl from "../../src/backends/webgpu/wgsl/text.wgsl";
+import { TextNode } from "../../src/scene/TextNode";
+import { TEXT_EFFECTS_STRIDE, writeTextEffects } from "../../src/text/effects";
+import { MsdfFont } from "../../src/text/MsdfFont";
+import type { TextFormatting } from "../../src/text/TextFormatting";
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+const blue = { r: 0, g: 0, b: 1, a: 0.5 };
+
+describe("writeTextEffects", () => {
+  it("writes the colors, shadow and widths of the effects", () => {
+    const buffer = new Float32Array(TEXT_EFFECTS_STRIDE + 2);
+    writeTextEffects(
+      {
+        outline: { width: 2, color: red },
+        glow: { width: 3, color: blue },
+        shadow: { offset: { x: 4, y: -4 }, blur: 1, color: red },
+      },
+      buffer,
+      2,
+    );
+
+    expect([...buffer]).toEqual([
+      ...[0, 0],
+      ...[1, 0, 0, 1],
+      ...[0, 0, 1, 0.5],
+      ...[1, 0, 0, 1],
+      ...[4, -4, 1, 0],
+      ...[2, 3],
+    ]);
+  });
+
+  it("makes missing effects and effects without width transparent", () => {
+    const buffer = new Float32Array(TEXT_EFFECTS_STRIDE).fill(9);
+    writeTextEffects({ outline: { width: 0, color: red } }, buffer);
+
+    expect([...buffer]).toEqual(new Array(TEXT_EFFECTS_STRIDE).fill(0));
+  });
+});
+
+const effects: TextFormatting = {
+  color: { r: 0, g: 1, b: 0, a: 1 },
+  outline: { width: 2, color: red },
+  glow: { width: 3, color: blue },
+  shadow: { offset: { x: 4, y: -4 }, blur: 1, color: red },
+};
+
+// the values each effect field of the shaders should receive
+const expectedFields: Record<string, number[]> = {
+  outlineColor: [1, 0, 0, 1],
+  glowColor: [0, 0, 1, 0.5],
+  shadowColor: [1, 0, 0, 1],
+  shadow: [4, -4, 1, 0],
+  effectWidths: [2, 3],
+};
+
+function textNode(formatting: TextFormatting) {
+  const json = {
+    pages: ["font.png"],
+    chars: [
+      {
+        id: 97,
+        index: 0,
+        char: "a",
+        width: 10,
+        height: 16,
+        xoffset: 0,
+        yoffset: 0,
+        xadvance: 10,
+        chnl: 15,
+        x: 0,
+        y: 0,
+        page: 0,
+      },
+    ],
+    info: { face: "test", charset: ["a"] },
+    common: { lineHeight: 20, base: 16, scaleW: 64, scaleH: 64 },
+    kernings: [],
+  } as unknown as ConstructorParameters<typeof MsdfFont>[1];
+  const font = new MsdfFont("test", json, [{} as ImageBitmap]);
+  const shader = { font, maxCharCount: 16 } as unknown as ITextShader;
+  return new TextNode(shader, "a", formatting);
+}
+
+describe("text effects in the shaders", () => {
+  it("writes the TextBlockDescriptor fields of text.wgsl", () => {
+    const struct = new WgslReflect(textWgsl).structs.find(
+      (s) => s.name === "TextBlockDescriptor",
+    )!;
+    const node = textNode(effects);
+    const offset = 3;
+    const buffer = new Float32Array(offset + struct.size / 4);
+    const block = { fontSize: 14, width: 30, height: 20, bufferPosition: 5 };
+    writeTextDescriptor(node, block, buffer, offset);
+
+    const field = (name: string) => {
+      const member = struct.members.find((m) => m.name === name)!;
+      const start = offset + member.offset / 4;
+      return [...buffer.subarray(start, start + member.size / 4)];
+    };
+    expect(field("color")).toEqual([0, 1, 0, 1]);
+    expect(field("fontSize")).toEqual([14]);
+    expect(field("blockWidth")).toEqual([30]);
+    expect(field("blockHeight")).toEqual([20]);
+    expect(field("bufferPosition")).toEqual([5]);
+    for (const [name, values] of Object.entries(expectedFields)) {
+      expect(field(name)).toEqual(values);
+    }
+  });
+
+  it("maps the effects to the uniforms of text.glsl", () => {
+    const buffer = new Float32Array(TEXT_EFFECTS_STRIDE);
+    writeTextEffects(effects, buffer);
+    const glsl = vertexShader + fragmentShader;
+
+    expect(TEXT_EFFECT_UNIFORMS.map((u): string => u.name).sort()).toEqual(
+      Object.keys(expectedFields)
+        .map((name) => `u_${name}`)
+        .sort(),
+    );
+    for (const { name, offset, size } of TEXT_EFFECT_UNIFORMS) {
+      expect(glsl).toContain(`uniform vec${size} ${name};`);
+      expect([...buffer.subarray(offset, offset + size)]).toEqual(
+        expectedFields[name.slice(2)],
+      );
+    }
+  });
+});
+
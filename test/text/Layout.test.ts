@@ -0,0 +1,158 @@
+import { describe, expect, it } from "bun:test";
+import { MsdfFont } from "../../src/text/MsdfFont";
+import {
+  GLYPH_STRIDE,
+  type MsdfTextMeasurements,
+  measureText,
+  shapeText,
+} from "../../src/text/shaping";
+
+type FontJson = ConstructorParameters<typeof MsdfFont>[1];
+
+const CHARSET = [..." ab…"];
+
+// every glyph is 10 units wide, lines are 20 units high with the baseline at 16
+function testFont() {
+  const chars = CHARSET.map((char, index) => ({
+    id: char.codePointAt(0),
+    index,
+    char,
+    width: 10,
+    height: 16,
+    xoffset: 0,
+    yoffset: 0,
+    xadvance: 10,
+    chnl: 15,
+    x: index * 10,
+    y: 0,
+    page: 0,
+    charIndex: index,
+  }));
+  const json = {
+    pages: ["font.png"],
+    chars,
+    info: { face: "test", charset: CHARSET },
+    common: { lineHeight: 20, base: 16, scaleW: 64, scaleH: 16 },
+    kernings: [],
+  } as unknown as FontJson;
+  return new MsdfFont("test", json, [{} as ImageBitmap]);
+}
+
+// the text of each line, with the x of each glyph in em units
+function lines(measurements: MsdfTextMeasurements) {
+  const glyphs = measurements.words
+    .flatMap((word) =>
+      word.glyphs.map((glyph) => ({
+        char: glyph.char.char,
+        x: word.startX + glyph.offset[0],
+        line: glyph.line,
+      })),
+    )
+    .sort((a, b) => a.line - b.line || a.x - b.x);
+  return Array.from({ length: measurements.lineCount }, (_, line) =>
+    glyphs.filter((glyph) => glyph.line === line),
+  );
+}
+
+function text(measurements: MsdfTextMeasurements) {
+  return lines(measurements).map((line) =>
+    line.map((glyph) => glyph.char).join(""),
+  );
+}
+
+const font = testFont();
+
+describe("shapeText", () => {
+  it("aligns text vertically within the block", () => {
+    const buffer = new Float32Array(GLYPH_STRIDE);
+    const block = { width: 100, height: 100 };
+    const y = (verticalAlign?: "top" | "middle" | "bottom") => {
+      shapeText(font, "a", block, 20, { verticalAlign }, buffer);
+      return buffer[1];
+    };
+
+    // the origin is the center of the block, glyphs hang down from there
+    expect(y("top")).toBe(50);
+    expect(y()).toBe(10);
+    expect(y("middle")).toBe(10);
+    expect(y("bottom")).toBe(-30);
+  });
+
+  it("aligns lines to an explicit block width", () => {
+    const buffer = new Float32Array(GLYPH_STRIDE);
+    const block = { width: 100, height: 20 };
+    const x = (align: "left" | "right" | "center") => {
+      shapeText(font, "a", block, 20, { align }, buffer);
+      return buffer[0];
+    };
+
+    expect(x("left")).toBe(-50);
+    expect(x("center")).toBe(-5);
+    expect(x("right")).toBe(40);
+  });
+});
+
+describe("measureText formatting", () => {
+  it("stretches the spaces of justified lines", () => {
+    const measurements = measureText(font, "ab ab ab", {
+      align: "justify",
+      wordWrap: { emWidth: 55, breakOn: "word" },
+    });
+
+    const [first, last] = lines(measurements);
+    expect(first.map((glyph) => glyph.x)).toEqual([0, 10, 35, 45]);
+    expect(last.map((glyph) => glyph.x)).toEqual([0, 10]);
+  });
+
+  it("scales line heights and spaces letters", () => {
+    const measurements = measureText(font, "ab\nb", {
+      lineHeight: 1.5,
+      letterSpacing: 0.5,
+    });
+
+    expect(measurements.lineWidths).toEqual([40, 20]);
+    expect(measurements.lineHeights).toEqual([30, 30]);
+    expect(measurements.height).toEqual(60);
+    // the extra height is split above and below the line
+    expect(measurements.words[0].glyphs[0].offset[1]).toEqual(-5);
+  });
+
+  it("truncates lines that overflow with an ellipsis", () => {
+    const bounds = { width: 45, height: 100 };
+    const measurements = measureText(
+      font,
+      "abababab",
+      { overflow: "ellipsis" },
+      bounds,
+    );
+
+    expect(text(measurements)).toEqual(["aba…"]);
+    expect(measurements.width).toEqual(40);
+    expect(measurements.printedCharCount).toEqual(4);
+  });
+
+  it("drops lines after maxLines", () => {
+    const visible = measureText(font, "ab\nab\nab", { maxLines: 2 });
+    expect(text(visible)).toEqual(["ab", "ab"]);
+
+    const ellipsis = measureText(font, "ab\nab\nab", {
+      maxLines: 2,
+      overflow: "ellipsis",
+    });
+    expect(text(ellipsis)).toEqual(["ab", "ab…"]);
+    expect(ellipsis.height).toEqual(40);
+  });
+
+  it("clips glyphs and lines outside the bounds", () => {
+    const bounds = { width: 45, height: 30 };
+    const measurements = measureText(
+      font,
+      "abababab\nab",
+      { overflow: "clip" },
+      bounds,
+    );
+
+    expect(text(measurements)).toEqual(["abab"]);
+    expect(measurements.lineCount).toEqual(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "bun:test";
+import type { ITextShader } from "../../src/backends/ITextShader";
+import { SceneNode } from "../../src/scene/SceneNode";
+import { TextNode } from "../../src/scene/TextNode";
+import { parseColor, parseMarkup } from "../../src/text/markup";
+import { MsdfFont } from "../../src/text/MsdfFont";
+import {
+  GLYPH_STRIDE,
+  measureText,
+  type ShapingRun,
+  shapeText,
+} from "../../src/text/shaping";
+
+type FontJson = ConstructorParameters<typeof MsdfFont>[1];
+
+// a font where every glyph is 10 units wide
+function testFont(id: string, lineHeight: number, base: number) {
+  const chars = [..." ab"].map((char, index) => ({
+    id: char.charCodeAt(0),
+    index,
+    char,
+    width: 10,
+    height: base,
+    xoffset: 0,
+    yoffset: 0,
+    xadvance: 10,
+    chnl: 15,
+    x: index * 10,
+    y: 0,
+    page: 0,
+    charIndex: index,
+  }));
+  const json = {
+    pages: ["font.png"],
+    chars,
+    info: { face: id, charset: [..." ab"] },
+    common: { lineHeight, base, scaleW: 64, scaleH: 64 },
+    kernings: [],
+  } as unknown as FontJson;
+  return new MsdfFont(id, json, [{} as ImageBitmap]);
+}
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+
+describe("parseMarkup", () => {
+  it("splits text into styled runs", () => {
+    expect(
+      parseMarkup("a [color=#f00]b [size=20]c[/size][/color] [icon=coin]", {
+        boldFont: "bold",
+      }),
+    ).toEqual([
+      { text: "a " },
+      { text: "b ", color: red },
+      { text: "c", color: red, size: 20 },
+      { text: " " },
+      { text: "", icon: "coin" },
+    ]);
+  });
+
+  it("maps bold to the bold font and keeps unknown tags as text", () => {
+    expect(parseMarkup("[b]a[/b]", { boldFont: "bold" })).toEqual([
+      { text: "a", font: "bold" },
+    ]);
+    expect(parseMarkup("[u]a[/b] \\[b]")).toEqual([{ text: "[u]a[/b] [b]" }]);
+  });
+
+  it("parses hex and web colors", () => {
+    expect(parseColor("#ff000080")).toEqual({
+      r: 1,
+      g: 0,
+      b: 0,
+      a: 128 / 255,
+    });
+    expect(parseColor("#f008")).toEqual(parseColor("#ff000088"));
+    expect(parseColor("red")).toEqual(red);
+    expect(parseColor("toString")).toBeNull();
+    expect(parseColor("#ff0")).toEqual({ r: 1, g: 1, b: 0, a: 1 });
+  });
+});
+
+describe("measureText with runs", () => {
+  const regular = testFont("regular", 40, 30);
+  const bold = testFont("bold", 80, 60);
+
+  it("measures plain text in the block font", () => {
+    const measurements = measureText(regular, "ab a");
+    expect(measurements.width).toEqual(40);
+    expect(measurements.height).toEqual(40);
+    expect(measurements.printedCharCount).toEqual(3);
+  });
+
+  it("puts runs of different sizes on a shared baseline", () => {
+    const runs: ShapingRun[] = [
+      { text: "a", font: regular, scale: 1 },
+      { text: "b\na", font: regular, scale: 2, color: red },
+    ];
+    const measurements = measureText(regular, runs);
+
+    expect(measurements.lineWidths).toEqual([30, 20]);
+    expect(measurements.lineHeights).toEqual([80, 80]);
+    expect(measurements.height).toEqual(160);
+
+    const [small, large] = measurements.words[0].glyphs;
+    // the baseline of the line is 60 units below its top
+    expect(small.offset[1] - regular.base * small.scale).toEqual(-60);
+    expect(large.offset[1] - regular.base * large.scale).toEqual(-60);
+    expect(measurements.words[1].startY).toEqual(-80);
+  });
+
+  it("scales glyphs of other fonts into the block font", () => {
+    const runs: ShapingRun[] = [
+      { text: "a", font: regular, scale: 1 },
+      { text: "b", font: bold, scale: 0.5 },
+      {
+        text: "",
+        font: regular,
+        scale: 1,
+        icon: { textureId: "coin", aspectRatio: 2 },
+      },
+    ];
+    const measurements = measureText(regular, runs);
+    expect(measurements.width).toEqual(10 + 5 + 60);
+    expect(measurements.icons).toEqual([
+      {
+        textureId: "coin",
+        index: 0,
+        x: 15,
+        y: 0,
+        width: 60,
+        height: 30,
+        line: 0,
+      },
+    ]);
+
+    const buffer = new Float32Array(4 * GLYPH_STRIDE);
+    const size = { width: measurements.width, height: measurements.height };
+    const blockGlyphs = shapeText(regular, runs, size, 40, {}, buffer);
+    expect(blockGlyphs).toEqual(1);
+
+    const boldGlyphs = shapeText(regular, runs, size, 40, {}, buffer, 0, bold);
+    expect(boldGlyphs).toEqual(1);
+    // x and y from the center of the block, char index and scale, then color
+    expect([...buffer.subarray(0, GLYPH_STRIDE)]).toEqual([
+      10 - 75 / 2,
+      measurements.height / 2,
+      2,
+      0.5,
+      1,
+      1,
+      1,
+      1,
+    ]);
+  });
+});
+
+describe("TextNode markup", () => {
+  it("lays out icons again when the size changes", () => {
+    const font = testFont("regular", 40, 30);
+    const shader = { font, maxCharCount: 16 } as unknown as ITextShader;
+    const resources = {
+      getFont: () => shader,
+      createIcon: () => new SceneNode({ size: { width: 1, height: 1 } }),
+    };
+    const text = new TextNode(
+      shader,
+      "a [icon=coin]",
+      { markup: true, fontSize: 40 },
+      resources,
+    );
+    const [icon] = text.kids;
+    const x = icon.position.x;
+
+    // the text starts at the left edge, which moves with the width
+    text.size = { width: text.size!.width + 20, height: text.size!.height };
+    expect(text.kids).toEqual([icon]);
+    expect(icon.position.x).toEqual(x - 10);
+  });
+});
+
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "bun:test";
+import { CHAR_STRIDE, MsdfFont } from "../../src/text/MsdfFont";
+import { measureText } from "../../src/text/shaping";
+
+type FontJson = ConstructorParameters<typeof MsdfFont>[1];
+
+// a font with each character on its own page, glyphs are half as wide as high
+function testFont(id: string, charset: string, lineHeight: number) {
+  const chars = [...charset].map((char, index) => ({
+    id: char.codePointAt(0)!,
+    index,
+    char,
+    width: lineHeight / 2,
+    height: lineHeight,
+    xoffset: 0,
+    yoffset: 0,
+    xadvance: lineHeight / 2,
+    chnl: 15,
+    x: 0,
+    y: 0,
+    page: index,
+    charIndex: index,
+  }));
+  const json = {
+    pages: chars.map((_, i) => `${id}_${i}.png`),
+    chars,
+    info: { face: id, charset: [...charset] },
+    common: { lineHeight, base: lineHeight, scaleW: 64, scaleH: 64 },
+    kernings: [],
+  } as unknown as FontJson;
+  const pages = chars.map(() => ({}) as ImageBitmap);
+  return new MsdfFont(id, json, pages);
+}
+
+describe("MsdfFont", () => {
+  it("writes the page of each character to the char buffer", () => {
+    const font = testFont("latin", " ab", 20);
+    expect(font.pages.length).toEqual(3);
+    expect(font.charBuffer.length).toEqual(3 * CHAR_STRIDE);
+    expect(font.charBuffer[2 * CHAR_STRIDE + 8]).toEqual(2);
+  });
+
+  it("keeps imageBitmap as the first page", () => {
+    const font = testFont("latin", " ab", 20);
+    expect(font.imageBitmap).toBe(font.pages[0]);
+  });
+
+  it("finds glyphs in the fallback chain in order", () => {
+    const latin = testFont("latin", " ab", 20);
+    const cyrillic = testFont("cyrillic", "жb", 20);
+    const cjk = testFont("cjk", "日ж", 40);
+    latin.fallbacks = [cyrillic, cjk];
+    // cycles in the chain are skipped
+    cyrillic.fallbacks = [latin];
+
+    expect(latin.findGlyph("b".charCodeAt(0)).font).toBe(latin);
+    expect(latin.findGlyph("ж".charCodeAt(0)).font).toBe(cyrillic);
+    expect(latin.findGlyph("日".charCodeAt(0)).font).toBe(cjk);
+
+    const missing = latin.findGlyph("?".charCodeAt(0));
+    expect(missing.font).toBe(latin);
+    expect(latin.hasChar("?".charCodeAt(0))).toBe(false);
+  });
+
+  it("measures fallback glyphs with the metrics of their font", () => {
+    const latin = testFont("latin", " ab", 20);
+    const cjk = testFont("cjk", "日", 40);
+    latin.fallbacks = [cjk];
+
+    const measurements = measureText(latin, "a日b");
+    const [a, kanji, b] = measurements.words[0].glyphs;
+    expect(a.font).toBe(latin);
+    expect(kanji.font).toBe(cjk);
+    // the fallback is scaled to the line height of the text font
+    expect(kanji.scale).toEqual(0.5);
+    expect(b.offset[0]).toEqual(10 + 20 * 0.5);
+    expect(measurements.width).toEqual(30);
+    expect(measurements.height).toEqual(20);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "bun:test";
+import { resolveBidiLevels } from "../../src/text/bidi";
+import { lineBreakOpportunities } from "../../src/text/lineBreak";
+import { MsdfFont } from "../../src/text/MsdfFont";
+import { type MsdfTextMeasurements, measureText } from "../../src/text/shaping";
+
+type FontJson = ConstructorParameters<typeof MsdfFont>[1];
+
+const ACUTE = "\u0301";
+const CHARSET = [..." abe\u00e9()-אב中文😀", ACUTE];
+
+// every glyph is 10 units wide, except the zero advance combining accent
+function testFont() {
+  const chars = CHARSET.map((char, index) => ({
+    id: char.codePointAt(0),
+    index,
+    char,
+    width: 10,
+    height: 10,
+    xoffset: 0,
+    yoffset: 0,
+    xadvance: char === ACUTE ? 0 : 10,
+    chnl: 15,
+    x: index * 10,
+    y: 0,
+    page: 0,
+    charIndex: index,
+  }));
+  const json = {
+    pages: ["font.png"],
+    chars,
+    info: { face: "test", charset: CHARSET },
+    common: { lineHeight: 20, base: 16, scaleW: 256, scaleH: 16 },
+    kernings: [],
+  } as unknown as FontJson;
+  return new MsdfFont("test", json, [{} as ImageBitmap]);
+}
+
+// the drawn glyphs with their x in em units and line, from left to right
+function glyphs(measurements: MsdfTextMeasurements) {
+  return measurements.words
+    .flatMap((word) =>
+      word.glyphs.map((glyph) => ({
+        char: glyph.char.char,
+        x: word.startX + glyph.offset[0],
+        line: glyph.line,
+      })),
+    )
+    .sort((a, b) => a.line - b.line || a.x - b.x);
+}
+
+const font = testFont();
+
+describe("measureText with unicode text", () => {
+  it("draws surrogate pairs as one glyph and counts glyphs", () => {
+    const text = "a😀 😀";
+    const measurements = measureText(font, text);
+
+    expect(text.length).toBe(6);
+    expect(measurements.printedCharCount).toBe(3);
+    expect(glyphs(measurements)).toEqual([
+      { char: "a", x: 0, line: 0 },
+      { char: "😀", x: 10, line: 0 },
+      { char: "😀", x: 30, line: 0 },
+    ]);
+  });
+
+  it("composes combining marks or draws them over their base", () => {
+    const composed = measureText(font, `e${ACUTE}`);
+    expect(glyphs(composed)).toEqual([{ char: "\u00e9", x: 0, line: 0 }]);
+
+    const overlaid = measureText(font, `a${ACUTE}b`);
+    expect(overlaid.width).toBe(20);
+    expect(glyphs(overlaid)).toEqual([
+      { char: "a", x: 0, line: 0 },
+      { char: ACUTE, x: 10, line: 0 },
+      { char: "b", x: 10, line: 0 },
+    ]);
+  });
+
+  it("reorders right to left text", () => {
+    const auto = glyphs(measureText(font, "ab אב"));
+    expect(auto.map((glyph) => glyph.char).join("")).toBe("abבא");
+
+    const rtl = measureText(font, "ab אב", { direction: "rtl" });
+    expect(glyphs(rtl)).toEqual([
+      { char: "ב", x: 0, line: 0 },
+      { char: "א", x: 10, line: 0 },
+      { char: "a", x: 30, line: 0 },
+      { char: "b", x: 40, line: 0 },
+    ]);
+  });
+
+  it("mirrors brackets in right to left text", () => {
+    const measurements = measureText(font, "א(ב)");
+    expect(glyphs(measurements).map((glyph) => glyph.char)).toEqual([
+      "(",
+      "ב",
+      ")",
+      "א",
+    ]);
+  });
+
+  it("wraps words at line break opportunities", () => {
+    const cjk = measureText(font, "中文中文", {
+      wordWrap: { emWidth: 25, breakOn: "word" },
+    });
+    expect(cjk.lineCount).toBe(2);
+
+    const latin = measureText(font, "abab ab-ab", {
+      wordWrap: { emWidth: 45, breakOn: "word" },
+    });
+    expect(latin.lineCount).toBe(3);
+    expect(glyphs(latin).map((glyph) => glyph.line)).toEqual([
+      0, 0, 0, 0, 1, 1, 1, 2, 2,
+    ]);
+  });
+});
+
+describe("lineBreakOpportunities", () => {
+  it("breaks after spaces and hyphens and between ideographs", () => {
+    const text = [..."a b-c (d) 中文。"];
+    const breaks = lineBreakOpportunities(
+      text.map((char) => char.codePointAt(0)!),
+    );
+    const before = text.filter((_, i) => breaks[i]);
+
+    expect(before).toEqual(["b", "c", "(", "中", "文"]);
+  });
+});
+
+describe("resolveBidiLevels", () => {
+  it("keeps numbers left to right in right to left paragraphs", () => {
+    const codePoints = [..."אב 12"].map((char) => char.codePointAt(0)!);
+    const { levels, paragraphLevels } = resolveBidiLevels(codePoints);
+
+    expect(levels).toEqual([1, 1, 1, 2, 2]);
+    expect(paragraphLevels).toEqual([1, 1, 1, 1, 1]);
+  });
+});
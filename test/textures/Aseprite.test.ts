@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import {
+  atlasFrameEntries,
+  parseAsepriteFrameTags,
+  parseAsepriteSlices,
+  parseFramePivots,
+} from "../../src/textures/aseprite";
+import type { AsepriteFrame, AsepriteJson } from "../../src/textures/types";
+
+// a 16x16 sprite trimmed to 8x12 texels, packed at (x, 0) in the atlas
+function frame(filename: string, x: number): AsepriteFrame {
+  return {
+    filename,
+    frame: { x, y: 0, w: 8, h: 12 },
+    rotated: false,
+    trimmed: true,
+    spriteSourceSize: { x: 4, y: 2, w: 8, h: 12 },
+    sourceSize: { w: 16, h: 16 },
+    duration: 100,
+  };
+}
+
+const json: AsepriteJson = {
+  frames: [frame("hero 0", 0), frame("hero 1", 8), frame("hero 2", 16)],
+  meta: {
+    app: "https://www.aseprite.org/",
+    size: { w: 32, h: 16 },
+    frameTags: [
+      { name: "idle", from: 0, to: 0, direction: "forward" },
+      { name: "run", from: 1, to: 2, direction: "reverse", repeat: "2" },
+    ],
+    slices: [
+      {
+        name: "panel",
+        keys: [
+          {
+            frame: 0,
+            bounds: { x: 0, y: 0, w: 16, h: 16 },
+            center: { x: 4, y: 4, w: 8, h: 8 },
+          },
+        ],
+      },
+      {
+        name: "feet",
+        keys: [
+          {
+            frame: 0,
+            bounds: { x: 4, y: 12, w: 8, h: 4 },
+            pivot: { x: 4, y: 4 },
+          },
+          {
+            frame: 2,
+            bounds: { x: 0, y: 8, w: 8, h: 8 },
+            pivot: { x: 4, y: 8 },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe("Aseprite atlas import", () => {
+  it("reads frames as an array or a hash", () => {
+    expect(atlasFrameEntries(json.frames).map(([id]) => id)).toEqual([
+      "hero 0",
+      "hero 1",
+      "hero 2",
+    ]);
+    const hash = { "hero 0": frame("ignored", 0) };
+    expect(atlasFrameEntries(hash)[0][0]).toEqual("hero 0");
+  });
+
+  it("resolves frame tags to texture ids", () => {
+    expect(parseAsepriteFrameTags(json)).toEqual([
+      {
+        name: "idle",
+        direction: "forward",
+        frames: [{ textureId: "hero 0", duration: 100 }],
+        repeat: undefined,
+      },
+      {
+        name: "run",
+        direction: "reverse",
+        frames: [
+          { textureId: "hero 1", duration: 100 },
+          { textureId: "hero 2", duration: 100 },
+        ],
+        repeat: 2,
+      },
+    ]);
+  });
+
+  it("converts slices with 9-slice centers and pivots", () => {
+    const [panel, feet] = parseAsepriteSlices(json);
+    expect(panel.keys[0]).toEqual({
+      frame: 0,
+      textureId: "hero 0",
+      bounds: { x: 0, y: 0, width: 16, height: 16 },
+      center: { x: 4, y: 4, width: 8, height: 8 },
+      pivot: undefined,
+    });
+    expect(feet.keys[1].textureId).toEqual("hero 2");
+    expect(feet.keys[1].pivot).toEqual({ x: 4, y: 8 });
+  });
+
+  it("normalizes pivots of the slice key of each frame", () => {
+    const pivots = parseFramePivots(json);
+    expect(pivots.get("hero 0")).toEqual({ x: 0.5, y: 1 });
+    expect(pivots.get("hero 1")).toEqual({ x: 0.5, y: 1 });
+    expect(pivots.get("hero 2")).toEqual({ x: 0.25, y: 1 });
+
+    const packed = frame("packed", 0);
+    packed.pivot = { x: 0.5, y: 0.25 };
+    const pixi = { frames: { packed }, meta: {} };
+    expect(parseFramePivots(pixi).get("packed")).toEqual({ x: 0.5, y: 0.25 });
+  });
+});
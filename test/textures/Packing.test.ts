@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test";
+import {
+  extrusionCopies,
+  type PackedRect,
+  packRects,
+} from "../../src/textures/packing";
+
+function overlaps(a: PackedRect, b: PackedRect, gap: number) {
+  return (
+    a.x < b.x + b.width + gap &&
+    b.x < a.x + a.width + gap &&
+    a.y < b.y + b.height + gap &&
+    b.y < a.y + a.height + gap
+  );
+}
+
+// rects that leave unusable slivers behind when free space is split greedily
+const sizes = [
+  [20, 12],
+  [32, 16],
+  [12, 4],
+  [32, 4],
+  [20, 16],
+  [12, 32],
+];
+const inputs = sizes.map(([width, height], i) => ({
+  id: `rect${i}`,
+  width,
+  height,
+}));
+
+describe("packRects", () => {
+  it("packs tighter with maxrects than with guillotine", () => {
+    const guillotine = packRects(inputs, 32, { algorithm: "guillotine" });
+    const maxrects = packRects(inputs, 32, { algorithm: "maxrects" });
+
+    expect(guillotine.length).toEqual(3);
+    expect(maxrects.length).toEqual(2);
+    expect(maxrects[0].efficiency).toBeGreaterThan(guillotine[0].efficiency);
+    const packed = maxrects.flatMap((atlas) => atlas.rects).length;
+    expect(packed).toEqual(inputs.length);
+  });
+
+  it("keeps padding and extrusion between rects inside the atlas", () => {
+    const padding = 2;
+    const extrude = 1;
+    const atlases = packRects(inputs, 64, {
+      algorithm: "maxrects",
+      padding,
+      extrude,
+    });
+
+    for (const { rects } of atlases) {
+      for (const rect of rects) {
+        expect(rect.x - extrude).toBeGreaterThanOrEqual(0);
+        expect(rect.y - extrude).toBeGreaterThanOrEqual(0);
+        expect(rect.x + rect.width + extrude).toBeLessThanOrEqual(64);
+        expect(rect.y + rect.height + extrude).toBeLessThanOrEqual(64);
+        for (const other of rects) {
+          if (other === rect) continue;
+          expect(overlaps(rect, other, extrude * 2 + padding)).toBe(false);
+        }
+      }
+    }
+  });
+
+  it("throws for rects larger than the atlas", () => {
+    const input = [{ id: "huge", width: 64, height: 8 }];
+    expect(() => packRects(input, 64)).not.toThrow();
+    expect(() => packRects(input, 64, { extrude: 1 })).toThrow(/huge/);
+  });
+});
+
+describe("extrusionCopies", () => {
+  it("repeats the edges and corners of a rect", () => {
+    const copies = extrusionCopies({ x: 4, y: 4, width: 3, height: 2 }, 1);
+
+    expect(copies).toContainEqual({
+      source: { x: 2, y: 0, width: 1, height: 2 },
+      x: 7,
+      y: 4,
+    });
+    expect(copies).toContainEqual({
+      source: { x: 0, y: 1, width: 3, height: 1 },
+      x: 4,
+      y: 6,
+    });
+    expect(copies).toContainEqual({
+      source: { x: 0, y: 0, width: 1, height: 1 },
+      x: 3,
+      y: 3,
+    });
+    expect(copies.length).toEqual(8);
+    expect(extrusionCopies({ x: 4, y: 4, width: 3, height: 2 }, 2).length).toBe(
+      24,
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import { NullBackend } from "../../src/backends/null/NullBackend";
+import { SoftwareBackend } from "../../src/backends/software/SoftwareBackend";
+import { Toodle } from "../../src/Toodle";
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+const blue = { r: 0, g: 0, b: 1, a: 1 };
+
+async function createToodle() {
+  const backend = await SoftwareBackend.create({
+    limits: { textureSize: 8, textureArrayLayers: 2 },
+  });
+  const toodle = new Toodle(backend, null, { width: 4, height: 4 }, {});
+  toodle.clearColor = { r: 1, g: 1, b: 1, a: 1 };
+  return { toodle, backend };
+}
+
+function pixelAt(backend: SoftwareBackend, x: number, y: number) {
+  const i = (y * backend.width + x) * 4;
+  return [...backend.readPixels().subarray(i, i + 4)];
+}
+
+describe("RenderTarget", () => {
+  it("renders frames into the target with its camera and clear color", async () => {
+    const { toodle, backend } = await createToodle();
+    const target = toodle.createRenderTarget({ width: 4, height: 2 });
+    target.clearColor = blue;
+    target.camera.x = 10;
+
+    toodle.startFrame({ target });
+    toodle.draw(
+      toodle.shapes.Rect({
+        size: { width: 2, height: 2 },
+        position: { x: 9, y: 0 },
+        color: red,
+      }),
+    );
+    toodle.endFrame();
+
+    const pixels = backend.readRenderTarget(target.id);
+    // the target's atlas is as large as its longest side
+    const pixel = (x: number, y: number) => {
+      const i = (y * 4 + x) * 4;
+      return [...pixels.subarray(i, i + 4)];
+    };
+    expect(pixel(0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(1, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixel(2, 0)).toEqual([0, 0, 255, 255]);
+    // outside of the target
+    expect(pixel(0, 2)).toEqual([0, 0, 0, 0]);
+
+    // the screen is untouched
+    expect(pixelAt(backend, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("draws the target as a quad texture", async () => {
+    const { toodle, backend } = await createToodle();
+    const target = toodle.createRenderTarget({ width: 4, height: 4 });
+    target.clearColor = blue;
+
+    toodle.startFrame({ target });
+    toodle.draw(
+      toodle.shapes.Rect({
+        size: { width: 2, height: 2 },
+        position: { x: -1, y: 1 },
+        color: red,
+      }),
+    );
+    toodle.endFrame();
+
+    const quad = toodle.Quad(target.textureId);
+    expect(quad.size).toEqual({ width: 4, height: 4 });
+
+    toodle.startFrame();
+    toodle.draw(quad);
+    toodle.endFrame();
+
+    expect(pixelAt(backend, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 1, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(backend, 2, 0)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(backend, 3, 3)).toEqual([0, 0, 255, 255]);
+  });
+
+  it("passes the target to the backend", async () => {
+    const backend = await NullBackend.create();
+    const toodle = new Toodle(backend, null, { width: 100, height: 100 }, {});
+    const target = toodle.createRenderTarget({
+      id: "minimap",
+      width: 32,
+      height: 16,
+    });
+
+    toodle.startFrame({ target });
+    expect(backend.target).toEqual({
+      atlasId: "minimap",
+      width: 32,
+      height: 16,
+    });
+    toodle.endFrame();
+
+    toodle.startFrame();
+    expect(backend.target).toBeNull();
+    toodle.endFrame();
+  });
+
+  it("rejects targets larger than the texture size", async () => {
+    const { toodle } = await createToodle();
+    expect(() => toodle.createRenderTarget({ width: 16, height: 4 })).toThrow();
+  });
+
+  it("rejects quads of destroyed targets", async () => {
+    const { toodle } = await createToodle();
+    const target = toodle.createRenderTarget({ width: 4, height: 4 });
+    target.destroy();
+    expect(() => toodle.Quad(target.textureId)).toThrow();
+  });
+});